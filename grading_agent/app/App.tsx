@@ -1,28 +1,187 @@
 "use client";
 
-import { useCallback } from "react";
-import { ChatKitPanel, type FactAction } from "@/components/ChatKitPanel";
+import { useCallback, useMemo, useState } from "react";
+import Link from "next/link";
+import { ChatKitPanel } from "@/components/ChatKitPanel";
+import { FactsPanel } from "@/components/FactsPanel";
+import { LocaleSwitcher } from "@/components/LocaleSwitcher";
+import { PresetPicker } from "@/components/PresetPicker";
+import { RubricPicker } from "@/components/RubricPicker";
+import { RubricViewer } from "@/components/RubricViewer";
+import { WorkflowPicker } from "@/components/WorkflowPicker";
+import { useAnalytics } from "@/hooks/useAnalytics";
+import { useAuth } from "@/hooks/useAuth";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useFacts } from "@/hooks/useFacts";
+import { useHealth } from "@/hooks/useHealth";
+import { useI18n } from "@/hooks/useI18n";
+import { useLocale } from "@/hooks/useLocale";
+import { usePresetPreference } from "@/hooks/usePresetPreference";
+import { useRubrics } from "@/hooks/useRubrics";
+import { useWorkflows } from "@/hooks/useWorkflows";
+import {
+  ACTIONS_ENDPOINT,
+  FEEDBACK_ENDPOINT,
+  GRADES_ENDPOINT,
+  type WorkflowKey,
+} from "@/lib/config";
+import { hasRole } from "@/lib/auth/types";
+import { localizeCourse, type CourseConfig } from "@/lib/course";
+import type { FeedbackInput } from "@/lib/feedback";
+import type { GradeInput } from "@/lib/grade";
+import { createLogger } from "@/lib/logger";
+import { resolvePreset } from "@/lib/preset";
+import { DEFAULT_RUBRIC_ID } from "@/lib/rubric";
+import { getChromeStyle } from "@/lib/theme";
+import {
+  actionError,
+  type WidgetAction,
+  type WidgetActionResult,
+} from "@/lib/widgetActions";
 
-export default function App() {
+type AppProps = {
+  course: CourseConfig;
+};
+
+const log = createLogger("ChatKitPanel");
+
+export default function App({ course: baseCourse }: AppProps) {
   const { scheme, setScheme } = useColorScheme();
+  const { locale, preferred, ready, setPreferred, setLocale } = useLocale();
+  const course = useMemo(() => localizeCourse(baseCourse, locale), [baseCourse, locale]);
+  const { t } = useI18n();
+  const auth = useAuth();
+  const health = useHealth();
+  const analytics = useAnalytics();
+  const presetPreference = usePresetPreference();
+  const needsSignIn = auth.enabled && !auth.user;
+  const isInstructor = Boolean(auth.user && hasRole(auth.user, "instructor"));
+  const {
+    facts,
+    status: factsStatus,
+    error: factsError,
+    removeFact,
+    refresh: refreshFacts,
+  } = useFacts();
+  const { rubrics, status: rubricsStatus } = useRubrics();
+  const [selectedRubricId, setSelectedRubricId] = useState<string | null>(null);
+  const [viewedRubricId, setViewedRubricId] = useState<string | null>(null);
+  const {
+    workflows,
+    status: workflowsStatus,
+    error: workflowsError,
+  } = useWorkflows();
+  const [selectedWorkflowKey, setSelectedWorkflowKey] =
+    useState<WorkflowKey>(course.workflow);
+
+  const activeWorkflow =
+    workflows.find((workflow) => workflow.key === selectedWorkflowKey) ??
+    workflows.find((workflow) => workflow.available) ??
+    workflows[0] ??
+    null;
+
+  const activeRubricId =
+    rubrics.find((rubric) => rubric.id === selectedRubricId)?.id ??
+    rubrics.find((rubric) => rubric.id === DEFAULT_RUBRIC_ID)?.id ??
+    rubrics[0]?.id ??
+    null;
+
+  const activePresetId = resolvePreset(course.models, presetPreference.preferred);
+
+  const handleWidgetAction = useCallback(
+    async (action: WidgetAction): Promise<WidgetActionResult> => {
+      log.debug("widget action", { action });
+      try {
+        const response = await fetch(ACTIONS_ENDPOINT, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(action),
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          success?: boolean;
+          error?: unknown;
+        };
+        // Sign-in failures are answered before the action runs, as plain errors.
+        if (typeof data.success !== "boolean") {
+          return actionError(
+            response.status === 401 ? "unauthorized" : "failed",
+            typeof data.error === "string" ? data.error : response.statusText
+          );
+        }
+        const result = data as WidgetActionResult;
+        if (
+          result.success &&
+          (action.type === "save" || action.type === "update" || action.type === "delete")
+        ) {
+          void refreshFacts();
+        }
+        return result;
+      } catch (err) {
+        log.error("widget action failed", { error: err });
+        return actionError(
+          "failed",
+          err instanceof Error ? err.message : "Unable to reach the server"
+        );
+      }
+    },
+    [refreshFacts]
+  );
 
-  const handleWidgetAction = useCallback(async (action: FactAction) => {
-    if (process.env.NODE_ENV !== "production") {
-      console.info("[ChatKitPanel] widget action", action);
+  const handleRecordGrade = useCallback(async (grade: GradeInput) => {
+    const response = await fetch(GRADES_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(grade),
+    });
+    const data = (await response.json().catch(() => ({}))) as {
+      grade?: { id: string };
+      error?: string;
+      details?: string[];
+    };
+    if (!response.ok || !data.grade) {
+      throw new Error(
+        data.details?.join("; ") ?? data.error ?? response.statusText
+      );
     }
+    return data.grade.id;
   }, []);
 
-  const handleResponseEnd = useCallback(() => {
-    if (process.env.NODE_ENV !== "production") {
-      console.debug("[ChatKitPanel] response end");
+  const handleFeedback = useCallback(async (feedback: FeedbackInput) => {
+    const response = await fetch(FEEDBACK_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(feedback),
+    });
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? response.statusText);
     }
   }, []);
 
+  const handleOpenRubric = useCallback(
+    (rubricId: string) => {
+      if (!rubrics.some((rubric) => rubric.id === rubricId)) {
+        return false;
+      }
+      setViewedRubricId(rubricId);
+      return true;
+    },
+    [rubrics]
+  );
+
+  const handleCloseRubric = useCallback(() => setViewedRubricId(null), []);
+
+  const viewedRubric = rubrics.find((rubric) => rubric.id === viewedRubricId);
+
+  const handleResponseEnd = useCallback(() => {
+    log.debug("response end");
+  }, []);
+
   return (
     <main className="relative flex min-h-screen flex-col items-center justify-center overflow-hidden
                     bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100
-                    dark:from-gray-950 dark:via-slate-900 dark:to-indigo-950">
+                    dark:from-gray-950 dark:via-slate-900 dark:to-indigo-950"
+          style={getChromeStyle(course.chrome)}>
       
       {/* Animated background gradients */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
@@ -39,40 +198,200 @@ export default function App() {
                     bg-[size:64px_64px] pointer-events-none opacity-20 dark:opacity-10" />
 
       {/* Main content container */}
-      <div className="relative w-full max-w-6xl mx-auto z-10 pt-6">
+      <div className="relative w-full max-w-7xl mx-auto z-10 pt-6">
         {/* Header section */}
         <div className="text-center mb-8 px-4 space-y-4">
           <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full 
                         bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm
                         border border-gray-200 dark:border-gray-800
                         shadow-lg shadow-indigo-500/10 dark:shadow-indigo-500/20">
-            <div className="w-2 h-2 rounded-full bg-gradient-to-r from-indigo-500 to-purple-500 animate-pulse" />
+            <div className="w-2 h-2 rounded-full bg-gradient-to-r from-[var(--chrome-from)] to-[var(--chrome-via)] animate-pulse" />
             <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-              AI-Powered Education Platform
+              {t("landing.badge")}
             </span>
           </div>
           
           <h1 className="text-5xl md:text-6xl font-black tracking-tight">
-            <span className="bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 
-                           dark:from-indigo-400 dark:via-purple-400 dark:to-pink-400
+            <span className="bg-gradient-to-r from-[var(--chrome-from)] via-[var(--chrome-via)] to-[var(--chrome-to)]
                            bg-clip-text text-transparent animate-gradient-x">
-              Grade Smarter
+              {t("landing.title")}
             </span>
           </h1>
           
           <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto font-medium">
-            Experience intelligent assignment evaluation with real-time feedback and comprehensive analysis
+            {t("landing.subtitle")}
           </p>
         </div>
 
-        {/* ChatKit Panel */}
-        <ChatKitPanel
-          theme={scheme}
-          onWidgetAction={handleWidgetAction}
-          onResponseEnd={handleResponseEnd}
-          onThemeRequest={setScheme}
+        <WorkflowPicker
+          workflows={workflows}
+          value={activeWorkflow?.key ?? null}
+          onChange={setSelectedWorkflowKey}
         />
 
+        {/* Instructor toolbar */}
+        <div className="flex flex-wrap items-center justify-center gap-4 px-4 mb-4">
+          {activeWorkflow?.supportsRubric && (
+            <RubricPicker
+              rubrics={rubrics}
+              value={activeRubricId}
+              onChange={setSelectedRubricId}
+              canEdit={isInstructor}
+            />
+          )}
+          {!needsSignIn && (
+            <PresetPicker
+              presets={course.models}
+              value={activePresetId}
+              onChange={(presetId) => void presetPreference.setPreferred(presetId)}
+            />
+          )}
+          <LocaleSwitcher value={preferred} onChange={setPreferred} />
+          {isInstructor && (
+            <Link
+              href="/gradebook"
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("toolbar.gradebook")}
+            </Link>
+          )}
+          {isInstructor && (
+            <Link
+              href="/batch"
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("toolbar.batch")}
+            </Link>
+          )}
+          {isInstructor && (
+            <Link
+              href="/feedback"
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("toolbar.feedback")}
+            </Link>
+          )}
+          {isInstructor && (
+            <Link
+              href="/similarity"
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("toolbar.similarity")}
+            </Link>
+          )}
+          {isInstructor && (
+            <Link
+              href="/themes"
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("toolbar.themes")}
+            </Link>
+          )}
+          {!isInstructor && auth.user && (
+            <Link
+              href="/grades"
+              className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {t("toolbar.myGrades")}
+            </Link>
+          )}
+          {!needsSignIn && (
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={analytics.optedOut === false}
+                disabled={analytics.optedOut === null}
+                onChange={(event) => void analytics.setOptedOut(!event.target.checked)}
+              />
+              {t("toolbar.analytics")}
+            </label>
+          )}
+          {auth.user && (
+            <span className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              {auth.user.name}
+              <span className="rounded-md bg-indigo-500/10 px-2 py-0.5 text-xs font-semibold text-indigo-700 dark:text-indigo-300">
+                {t(`role.${auth.user.role}`)}
+              </span>
+              <button
+                type="button"
+                onClick={() => void auth.signOut()}
+                className="font-medium text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              >
+                {t("toolbar.signOut")}
+              </button>
+            </span>
+          )}
+        </div>
+
+        {/* ChatKit Panel with saved facts alongside */}
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 min-w-0">
+            {workflowsError && (
+              <p className="px-4 text-center text-sm text-red-600 dark:text-red-400">
+                {workflowsError}
+              </p>
+            )}
+            {needsSignIn && (
+              <div className="mx-4 rounded-[2rem] border border-gray-200/50 bg-white/70 p-10 text-center
+                              dark:border-gray-800/50 dark:bg-gray-900/70">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100">
+                  {t("landing.signInPrompt")}
+                </p>
+                <Link
+                  href="/login"
+                  className="mt-4 inline-block rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600
+                             px-5 py-2.5 text-sm font-semibold text-white shadow-lg"
+                >
+                  {t("landing.signIn")}
+                </Link>
+              </div>
+            )}
+            {/* Wait for the registry, rubric list, saved preset and language so the
+                first session already carries them; switching any starts a new session. */}
+            {auth.status !== "loading" &&
+              !needsSignIn &&
+              activeWorkflow &&
+              workflowsStatus === "ready" &&
+              rubricsStatus !== "loading" &&
+              presetPreference.status !== "loading" &&
+              ready && (
+              <ChatKitPanel
+                key={`${activeWorkflow.key}:${activeRubricId ?? "no-rubric"}:${activePresetId ?? "no-preset"}:${preferred}`}
+                theme={scheme}
+                workflow={activeWorkflow}
+                rubricId={activeWorkflow.supportsRubric ? activeRubricId : null}
+                presetId={activePresetId}
+                health={health}
+                course={course}
+                locale={locale}
+                sessionLocale={preferred}
+                onWidgetAction={handleWidgetAction}
+                onRecordGrade={handleRecordGrade}
+                onFeedback={handleFeedback}
+                onResponseEnd={handleResponseEnd}
+                analytics={analytics.tracker}
+                onThemeRequest={setScheme}
+                onLocaleRequest={setLocale}
+                onOpenRubric={handleOpenRubric}
+              />
+            )}
+          </div>
+          {!needsSignIn && (
+            <div className="px-4 lg:px-0 lg:pe-4 lg:w-80 shrink-0">
+              <FactsPanel
+                facts={facts}
+                status={factsStatus}
+                error={factsError}
+                onRemove={(id) => void removeFact(id)}
+              />
+            </div>
+          )}
+        </div>
+
+        {viewedRubric && (
+          <RubricViewer rubric={viewedRubric} onClose={handleCloseRubric} />
+        )}
+
         {/* Feature highlights */}
         <div className="mt-8 px-4 pb-8">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-5xl mx-auto">
@@ -87,8 +406,8 @@ export default function App() {
                         d="M13 10V3L4 14h7v7l9-11h-7z" />
                 </svg>
               </div>
-              <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1">Instant Feedback</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Get immediate grading results with detailed explanations</p>
+              <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1">{t("landing.instant.title")}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{t("landing.instant.body")}</p>
             </div>
 
             <div className="group p-5 rounded-2xl bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm
@@ -102,8 +421,8 @@ export default function App() {
                         d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
                 </svg>
               </div>
-              <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1">Secure & Private</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Your assignments are encrypted and never shared</p>
+              <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1">{t("landing.secure.title")}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{t("landing.secure.body")}</p>
             </div>
 
             <div className="group p-5 rounded-2xl bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm
@@ -117,8 +436,8 @@ export default function App() {
                         d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
                 </svg>
               </div>
-              <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1">Smart Analysis</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">AI-powered insights to improve your performance</p>
+              <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1">{t("landing.analysis.title")}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{t("landing.analysis.body")}</p>
             </div>
           </div>
         </div>
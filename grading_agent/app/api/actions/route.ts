@@ -0,0 +1,56 @@
+import { resolveIdentity } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import {
+  actionError,
+  getActionErrorStatus,
+  parseWidgetAction,
+} from "@/lib/widgetActions";
+import { executeWidgetAction } from "@/lib/widgetActionHandlers";
+
+export const runtime = "nodejs";
+
+const log = createLogger("actions");
+
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+
+  const parsedBody = await safeParseJson<unknown>(request);
+  const parsed = parseWidgetAction(parsedBody);
+  if (!parsed.ok) {
+    return buildJsonResponse(
+      actionError("invalid_action", "Invalid action", parsed.errors),
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const result = await executeWidgetAction(parsed.value, { user, userId });
+    log.info("widget action", {
+      type: parsed.value.type,
+      userId,
+      success: result.success,
+      ...(result.success ? {} : { code: result.error.code }),
+    });
+    return buildJsonResponse(
+      result,
+      result.success ? 200 : getActionErrorStatus(result.error.code),
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("widget action failed", { type: parsed.value.type, error });
+    return buildJsonResponse(
+      actionError("failed", `Unable to ${parsed.value.type.replace(/_/g, " ")}`),
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
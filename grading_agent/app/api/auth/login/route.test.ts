@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/auth/login/route";
+
+const login = (body: Record<string, unknown>) =>
+  POST(
+    new Request("http://localhost/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_PROVIDER", "magic-link");
+  vi.stubEnv("AUTH_SECRET", "auth-secret-auth-secret-auth-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/auth/login", () => {
+  it("explains input the user can fix", async () => {
+    const response = await login({ email: "not-an-email" });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Enter a valid email address" });
+  });
+
+  it("hides the cause of unexpected failures", async () => {
+    vi.stubEnv("AUTH_SECRET", "");
+
+    const response = await login({ email: "ada@example.edu" });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Unable to sign in" });
+  });
+});
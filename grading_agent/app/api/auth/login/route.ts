@@ -0,0 +1,99 @@
+import {
+  AuthInputError,
+  createAuthCookie,
+  getAuthConfig,
+  getAuthProvider,
+} from "@/lib/auth";
+import {
+  JSON_HEADERS,
+  buildJsonResponse,
+  methodNotAllowedResponse,
+  safeParseJson,
+} from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
+
+interface LoginRequestBody {
+  username?: string | null;
+  password?: string | null;
+  email?: string | null;
+}
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const config = getAuthConfig();
+    if (!config) {
+      return buildJsonResponse(
+        { error: "Authentication is disabled" },
+        400,
+        JSON_HEADERS,
+        null
+      );
+    }
+
+    const provider = getAuthProvider(config);
+    const parsedBody = await safeParseJson<LoginRequestBody>(request);
+
+    if (provider.kind === "credentials") {
+      const user = await provider.authenticate(
+        parsedBody?.username ?? "",
+        parsedBody?.password ?? ""
+      );
+      if (!user) {
+        return buildJsonResponse(
+          { error: "Invalid username or password" },
+          401,
+          JSON_HEADERS,
+          null
+        );
+      }
+      return buildJsonResponse(
+        { user },
+        200,
+        JSON_HEADERS,
+        await createAuthCookie(config, user)
+      );
+    }
+
+    if (provider.kind === "magic-link") {
+      const link = await provider.createLink(
+        parsedBody?.email ?? "",
+        new URL(request.url).origin
+      );
+      // There is no mail transport yet, so outside production the link is
+      // handed straight back to the login page.
+      const revealLink =
+        process.env.NODE_ENV !== "production" ||
+        process.env.AUTH_MAGIC_LINK_INLINE === "true";
+      return buildJsonResponse(
+        { sent: true, link: revealLink ? link : null },
+        200,
+        JSON_HEADERS,
+        null
+      );
+    }
+
+    return buildJsonResponse(
+      { error: "Sign in through /api/auth/oidc" },
+      400,
+      JSON_HEADERS,
+      null
+    );
+  } catch (error) {
+    if (error instanceof AuthInputError) {
+      return buildJsonResponse({ error: error.message }, 400, JSON_HEADERS, null);
+    }
+    log.error("login failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to sign in" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function GET(): Promise<Response> {
+  return methodNotAllowedResponse();
+}
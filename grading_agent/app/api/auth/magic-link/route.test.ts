@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/auth/magic-link/route";
+import { createMagicLinkProvider } from "@/lib/auth/providers/magicLink";
+
+const SECRET = "auth-secret-auth-secret-auth-secret";
+
+const openLink = (link: string) => GET(new Request(link));
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_PROVIDER", "magic-link");
+  vi.stubEnv("AUTH_SECRET", SECRET);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("GET /api/auth/magic-link", () => {
+  it("signs in once, then sends the link back to the login page", async () => {
+    const link = await createMagicLinkProvider(SECRET).createLink(
+      "ada@example.edu",
+      "http://localhost"
+    );
+
+    const first = await openLink(link);
+    const second = await openLink(link);
+
+    expect(new URL(first.headers.get("location")!).pathname).toBe("/");
+    expect(first.headers.get("set-cookie")).toBeTruthy();
+    expect(second.headers.get("location")).toBe("http://localhost/login?error=expired");
+  });
+
+  it("redirects to the login page when sign-in fails unexpectedly", async () => {
+    vi.stubEnv("AUTH_SECRET", "");
+
+    const response = await openLink("http://localhost/api/auth/magic-link?token=x");
+
+    expect(response.headers.get("location")).toBe(
+      "http://localhost/login?error=unavailable"
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import { createAuthCookie, getAuthConfig, getAuthProvider } from "@/lib/auth";
+import { redirectResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+// Used links are recorded in the local store.
+export const runtime = "nodejs";
+
+const log = createLogger("auth");
+
+export async function GET(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  try {
+    const config = getAuthConfig();
+    const provider = config ? getAuthProvider(config) : null;
+    if (!config || provider?.kind !== "magic-link") {
+      return redirectResponse(new URL("/login", url), []);
+    }
+
+    const user = await provider.verify(url.searchParams.get("token") ?? "");
+    if (!user) {
+      return redirectResponse(new URL("/login?error=expired", url), []);
+    }
+    return redirectResponse(new URL("/", url), [
+      await createAuthCookie(config, user),
+    ]);
+  } catch (error) {
+    log.error("magic link sign-in failed", { error });
+    return redirectResponse(new URL("/login?error=unavailable", url), []);
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  clearOidcStateCookie,
+  createAuthCookie,
+  getAuthConfig,
+  getAuthProvider,
+  readOidcStateCookie,
+} from "@/lib/auth";
+import { redirectResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
+
+export async function GET(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const failure = (reason: string) =>
+    redirectResponse(new URL(`/login?error=${reason}`, url), [clearOidcStateCookie()]);
+
+  try {
+    const config = getAuthConfig();
+    const provider = config ? getAuthProvider(config) : null;
+    if (!config || provider?.kind !== "oidc") {
+      return failure("disabled");
+    }
+
+    const transaction = await readOidcStateCookie(request, config);
+    const code = url.searchParams.get("code");
+    if (!code || !transaction || url.searchParams.get("state") !== transaction.state) {
+      return failure("state");
+    }
+
+    const redirectUri = new URL("/api/auth/oidc/callback", url).toString();
+    const user = await provider.handleCallback(code, redirectUri, transaction);
+    if (!user) {
+      return failure("oidc");
+    }
+    return redirectResponse(new URL("/", url), [
+      clearOidcStateCookie(),
+      await createAuthCookie(config, user),
+    ]);
+  } catch (error) {
+    log.error("OIDC callback failed", { error });
+    return failure("unavailable");
+  }
+}
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as callback } from "@/app/api/auth/oidc/callback/route";
+import { GET as start } from "@/app/api/auth/oidc/route";
+import { AUTH_COOKIE_NAME, OIDC_STATE_COOKIE, getRequestUser } from "@/lib/auth";
+import { encodeBase64Url } from "@/lib/signing";
+
+const ISSUER = "https://idp.test";
+const CLIENT_ID = "grading-app";
+
+type Claims = Record<string, unknown>;
+
+/** What the fake issuer answers; tests change it before signing in. */
+let idTokenClaims: (nonce: string) => Claims;
+let userInfo: Claims;
+let tokenRequests: URLSearchParams[];
+
+const idToken = (claims: Claims) =>
+  [
+    encodeBase64Url(JSON.stringify({ alg: "RS256" })),
+    encodeBase64Url(JSON.stringify(claims)),
+    "signature",
+  ].join(".");
+
+async function sha256(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+function fakeIssuer(lastAuthorization: () => URL | null) {
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url === `${ISSUER}/.well-known/openid-configuration`) {
+      return Response.json({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+      });
+    }
+    if (url === `${ISSUER}/token`) {
+      const body = new URLSearchParams(String(init?.body));
+      tokenRequests.push(body);
+      const nonce = lastAuthorization()?.searchParams.get("nonce") ?? "";
+      return Response.json({ access_token: "at", id_token: idToken(idTokenClaims(nonce)) });
+    }
+    if (url === `${ISSUER}/userinfo`) {
+      return Response.json(userInfo);
+    }
+    throw new TypeError(`fetch failed: ${url}`);
+  };
+}
+
+const cookiePair = (response: Response, name: string) =>
+  response.headers
+    .getSetCookie()
+    .find((cookie) => cookie.startsWith(`${name}=`))
+    ?.split(";")[0] ?? null;
+
+/** Starts a sign-in and follows the issuer's redirect back with `code`. */
+async function signIn(tamper?: { state?: string; cookie?: string }) {
+  let authorization: URL | null = null;
+  vi.stubGlobal("fetch", fakeIssuer(() => authorization));
+
+  const started = await start(new Request("http://localhost/api/auth/oidc"));
+  authorization = new URL(started.headers.get("location")!);
+  const stateCookie = tamper?.cookie ?? cookiePair(started, OIDC_STATE_COOKIE)!;
+  const state = tamper?.state ?? authorization.searchParams.get("state");
+
+  const finished = await callback(
+    new Request(`http://localhost/api/auth/oidc/callback?code=abc&state=${state}`, {
+      headers: { Cookie: stateCookie },
+    })
+  );
+  return { authorization, finished };
+}
+
+async function signedInUser(response: Response) {
+  const cookie = cookiePair(response, AUTH_COOKIE_NAME);
+  return cookie
+    ? getRequestUser(new Request("http://localhost/", { headers: { Cookie: cookie } }))
+    : null;
+}
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_PROVIDER", "oidc");
+  vi.stubEnv("AUTH_SECRET", "auth-secret-auth-secret-auth-secret");
+  vi.stubEnv("OIDC_ISSUER", ISSUER);
+  vi.stubEnv("OIDC_CLIENT_ID", CLIENT_ID);
+  vi.stubEnv("OIDC_CLIENT_SECRET", "client-secret");
+  vi.stubEnv("AUTH_INSTRUCTOR_EMAILS", "prof@example.edu");
+  tokenRequests = [];
+  idTokenClaims = (nonce) => ({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    sub: "user-1",
+    exp: Math.floor(Date.now() / 1000) + 300,
+    nonce,
+  });
+  userInfo = { sub: "user-1", name: "Prof", email: "prof@example.edu", email_verified: true };
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("OIDC sign-in", () => {
+  it("sends a nonce and PKCE challenge and redeems the code with the verifier", async () => {
+    const { authorization, finished } = await signIn();
+
+    expect(authorization.searchParams.get("nonce")).toBeTruthy();
+    expect(authorization.searchParams.get("code_challenge_method")).toBe("S256");
+    const verifier = tokenRequests[0].get("code_verifier")!;
+    expect(verifier).toBeTruthy();
+    expect(authorization.searchParams.get("code_challenge")).toBe(await sha256(verifier));
+
+    expect(finished.headers.get("location")).toBe("http://localhost/");
+    expect(await signedInUser(finished)).toMatchObject({
+      id: "oidc:user-1",
+      email: "prof@example.edu",
+      role: "instructor",
+    });
+  });
+
+  it("ignores an unverified email for the role and identity", async () => {
+    userInfo = { sub: "user-1", name: "Mallory", email: "prof@example.edu", email_verified: false };
+
+    const { finished } = await signIn();
+
+    expect(await signedInUser(finished)).toMatchObject({ email: null, role: "student" });
+  });
+
+  it("rejects an ID token minted for another sign-in", async () => {
+    const issued = idTokenClaims;
+    idTokenClaims = (nonce) => ({ ...issued(nonce), nonce: "replayed" });
+
+    const { finished } = await signIn();
+
+    expect(finished.headers.get("location")).toBe("http://localhost/login?error=oidc");
+    expect(cookiePair(finished, AUTH_COOKIE_NAME)).toBeNull();
+  });
+
+  it("rejects a callback whose state does not match the signed cookie", async () => {
+    const forged = await signIn({ state: "someone-elses-state" });
+    const unsigned = await signIn({ cookie: `${OIDC_STATE_COOKIE}=plain-state` });
+
+    expect(forged.finished.headers.get("location")).toBe("http://localhost/login?error=state");
+    expect(unsigned.finished.headers.get("location")).toBe("http://localhost/login?error=state");
+    expect(tokenRequests).toHaveLength(0);
+  });
+
+  it("sends the user back to the login page when the issuer is unreachable", async () => {
+    vi.stubEnv("OIDC_ISSUER", "https://down.test");
+    vi.stubGlobal("fetch", fakeIssuer(() => null));
+    const logged = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const response = await start(new Request("http://localhost/api/auth/oidc"));
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("http://localhost/login?error=unavailable");
+    expect(logged).toHaveBeenCalledOnce();
+  });
+
+  it("sends the user back to the login page when the OIDC settings are missing", async () => {
+    vi.stubEnv("OIDC_CLIENT_SECRET", "");
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const response = await start(new Request("http://localhost/api/auth/oidc"));
+
+    expect(response.headers.get("location")).toBe("http://localhost/login?error=unavailable");
+  });
+});
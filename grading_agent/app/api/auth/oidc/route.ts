@@ -0,0 +1,35 @@
+import {
+  createOidcStateCookie,
+  createOidcTransaction,
+  getAuthConfig,
+  getAuthProvider,
+} from "@/lib/auth";
+import { redirectResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
+
+export async function GET(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  try {
+    const config = getAuthConfig();
+    const provider = config ? getAuthProvider(config) : null;
+    if (!config || provider?.kind !== "oidc") {
+      return redirectResponse(new URL("/login", url), []);
+    }
+
+    const transaction = createOidcTransaction();
+    const redirectUri = new URL("/api/auth/oidc/callback", url).toString();
+    const authorizationUrl = await provider.getAuthorizationUrl(
+      transaction,
+      redirectUri
+    );
+    return redirectResponse(new URL(authorizationUrl), [
+      await createOidcStateCookie(config, transaction),
+    ]);
+  } catch (error) {
+    // Missing settings or an unreachable issuer.
+    log.error("OIDC sign-in failed to start", { error });
+    return redirectResponse(new URL("/login?error=unavailable", url), []);
+  }
+}
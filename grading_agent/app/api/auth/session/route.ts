@@ -0,0 +1,35 @@
+import { clearAuthCookie, getAuthConfig, getRequestUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const config = getAuthConfig();
+    const user = config ? await getRequestUser(request) : null;
+    return buildJsonResponse(
+      { enabled: Boolean(config), provider: config?.provider ?? null, user },
+      200,
+      JSON_HEADERS,
+      null
+    );
+  } catch (error) {
+    log.error("load auth session failed", { error });
+    return buildJsonResponse(
+      { error: "Authentication is misconfigured" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function DELETE(): Promise<Response> {
+  return buildJsonResponse(
+    { success: true },
+    200,
+    JSON_HEADERS,
+    clearAuthCookie()
+  );
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/batches/[id]/items/[itemId]/result/route";
+import { createAuthCookie, getAuthConfig, type AuthUser } from "@/lib/auth";
+import { claimBatchItem, createBatch, finishBatchItem, getBatch } from "@/lib/batchStore";
+import { listGrades } from "@/lib/gradebook";
+
+const INSTRUCTOR: AuthUser = {
+  id: "local:prof",
+  name: "Prof",
+  email: null,
+  role: "instructor",
+  provider: "local",
+};
+
+const GRADE = {
+  criteria: [{ criterion: "Clarity", score: 4, maxPoints: 5 }],
+  feedback: "Clear argument.",
+};
+
+async function runningItem(studentId: string) {
+  const job = await createBatch(INSTRUCTOR.id, {
+    title: "Essays",
+    assignment: "Essay 1",
+    workflowKey: "grading",
+    rubricId: null,
+    submissions: [{ studentId, filename: `${studentId}.md`, text: "Essay text" }],
+  });
+  const [item] = job.items;
+  await claimBatchItem(job.id, item.id);
+  return { batchId: job.id, itemId: item.id };
+}
+
+async function postResult(
+  { batchId, itemId }: { batchId: string; itemId: string },
+  body: Record<string, unknown>
+): Promise<Response> {
+  const cookie = (await createAuthCookie(getAuthConfig()!, INSTRUCTOR)).split(";")[0];
+  return POST(
+    new Request(`http://localhost/api/batches/${batchId}/items/${itemId}/result`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: batchId, itemId }) }
+  );
+}
+
+const gradesOf = async (studentId: string) =>
+  (await listGrades()).filter((grade) => grade.studentId === studentId);
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_PROVIDER", "local");
+  vi.stubEnv("AUTH_SECRET", "auth-secret-auth-secret-auth-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/batches/[id]/items/[itemId]/result", () => {
+  it("records the grade and completes the item", async () => {
+    const item = await runningItem("student-ok");
+
+    const response = await postResult(item, { grade: GRADE });
+
+    expect(response.status).toBe(201);
+    const { grade } = await response.json();
+    const job = await getBatch(item.batchId);
+    expect(job!.items[0]).toMatchObject({ status: "completed", gradeId: grade.id });
+    expect(await gradesOf("student-ok")).toHaveLength(1);
+  });
+
+  it("keeps one grade when the same result is sent twice at once", async () => {
+    const item = await runningItem("student-twice");
+
+    const responses = await Promise.all([
+      postResult(item, { grade: GRADE }),
+      postResult(item, { grade: GRADE }),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+    const grades = await gradesOf("student-twice");
+    expect(grades).toHaveLength(1);
+    const job = await getBatch(item.batchId);
+    expect(job!.items[0].gradeId).toBe(grades[0].id);
+  });
+
+  it("rejects a grade that arrives after the attempt timed out", async () => {
+    const item = await runningItem("student-late");
+    await finishBatchItem(item.batchId, item.itemId, {
+      ok: false,
+      error: "Timed out",
+      retryable: true,
+    });
+
+    const response = await postResult(item, { grade: GRADE });
+
+    expect(response.status).toBe(409);
+    expect(await gradesOf("student-late")).toHaveLength(0);
+    const job = await getBatch(item.batchId);
+    expect(job!.items[0]).toMatchObject({ status: "queued", gradeId: null });
+  });
+});
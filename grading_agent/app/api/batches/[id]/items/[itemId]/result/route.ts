@@ -0,0 +1,136 @@
+import { resolveIdentity } from "@/lib/auth";
+import { toBatchItem } from "@/lib/batch";
+import { finishBatchItem, getBatch } from "@/lib/batchStore";
+import { validateGrade } from "@/lib/grade";
+import { deleteGrade, recordGrade } from "@/lib/gradebook";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; itemId: string }> };
+
+function notRunningResponse(sessionCookie: string | null): Response {
+  return buildJsonResponse(
+    { error: "Item is no longer running" },
+    409,
+    JSON_HEADERS,
+    sessionCookie
+  );
+}
+
+type BatchResultBody = {
+  /** What the agent passed to `record_grade`. */
+  grade?: Record<string, unknown>;
+  /** Why the attempt ended without a grade. */
+  error?: string;
+  retryable?: boolean;
+};
+
+/**
+ * Ends a running item: records the agent's grade against the submission's
+ * student, or records why the attempt failed. A result for an item that has
+ * already ended (a duplicate `record_grade`, or a grade that arrives after
+ * the attempt timed out) is answered with 409 and its grade is not kept.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const identity = await resolveIdentity(request, "instructor");
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const { id, itemId } = await params;
+  const log = createLogger("batch", { batchId: id, itemId });
+
+  const job = await getBatch(id);
+  const item = job?.items.find((entry) => entry.id === itemId);
+  if (!job || !item) {
+    return buildJsonResponse(
+      { error: "Batch item not found" },
+      404,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  if (item.status !== "running") {
+    return buildJsonResponse(
+      { error: `Item is ${item.status}` },
+      409,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  const body = (await safeParseJson<BatchResultBody>(request)) ?? {};
+  if (!body.grade) {
+    const error = body.error?.trim() || "The attempt failed";
+    const finished = await finishBatchItem(id, itemId, {
+      ok: false,
+      error,
+      retryable: body.retryable ?? true,
+    });
+    if (!finished) {
+      return notRunningResponse(sessionCookie);
+    }
+    log.warn("batch item failed", { studentId: item.studentId, error });
+    return buildJsonResponse(
+      { item: toBatchItem(finished) },
+      200,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  // The upload decides whose work this is, whatever the agent called them.
+  const validation = validateGrade({
+    rubric_id: job.rubricId,
+    ...body.grade,
+    student: item.studentId,
+    assignment: job.assignment,
+    submission: item.text,
+  });
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid grade", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const grade = await recordGrade(userId, item.studentId, validation.value);
+    const finished = await finishBatchItem(id, itemId, {
+      ok: true,
+      gradeId: grade.id,
+    });
+    // The item ended while the grade was being stored; the result that ended
+    // it stands, so this grade must not.
+    if (!finished) {
+      await deleteGrade(grade.id);
+      log.warn("late batch result discarded", { studentId: item.studentId });
+      return notRunningResponse(sessionCookie);
+    }
+    log.info("batch item graded", { studentId: item.studentId, gradeId: grade.id });
+    return buildJsonResponse(
+      {
+        item: toBatchItem(finished),
+        grade: { id: grade.id, status: grade.status },
+      },
+      201,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("batch grade failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to record grade" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { resolveIdentity } from "@/lib/auth";
+import { buildBatchPrompt, toBatchItem } from "@/lib/batch";
+import { claimBatchItem, finishBatchItem, getBatch } from "@/lib/batchStore";
+import { requestChatKitSession } from "@/lib/chatkitSession";
+import { getServerConfig } from "@/lib/env";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { getRubric } from "@/lib/rubricStore";
+import { UpstreamUnavailableError } from "@/lib/upstream";
+import { resolveWorkflow } from "@/lib/workflowRegistry";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; itemId: string }> };
+
+/**
+ * Starts the next attempt at one submission: claims the queued item and
+ * creates the ChatKit session the batch page grades it in.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const identity = await resolveIdentity(request, "instructor");
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const { id, itemId } = await params;
+  const log = createLogger("batch", { batchId: id, itemId });
+
+  if (!getServerConfig().openaiApiKey) {
+    return buildJsonResponse(
+      { error: "Missing OPENAI_API_KEY environment variable", retryable: false },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  const job = await getBatch(id);
+  if (!job) {
+    return buildJsonResponse(
+      { error: "Batch not found" },
+      404,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  const workflow = resolveWorkflow({ key: job.workflowKey });
+  if (!workflow.ok) {
+    return buildJsonResponse(
+      { error: workflow.error, retryable: false },
+      workflow.status,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  const rubric = job.rubricId ? await getRubric(job.rubricId) : null;
+
+  const item = await claimBatchItem(id, itemId);
+  if (!item) {
+    return buildJsonResponse(
+      { error: "Item is not queued", retryable: false },
+      409,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  let failure: { status: number; error: string; retryable: boolean };
+  try {
+    const session = await requestChatKitSession({
+      workflowId: workflow.workflowId,
+      userId,
+      rubric,
+      stateVariables: {
+        student_id: item.studentId,
+        batch_id: job.id,
+        batch_item_id: item.id,
+      },
+      fileUpload: false,
+      requestId: `batch_${item.id}_${item.attempts}`,
+      log,
+    });
+    if (session.ok) {
+      log.info("batch session created", {
+        studentId: item.studentId,
+        attempt: item.attempts,
+      });
+      return buildJsonResponse(
+        {
+          client_secret: session.clientSecret,
+          expires_at: session.expiresAt,
+          prompt: buildBatchPrompt(job, item),
+          item: toBatchItem(item),
+        },
+        200,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    failure = session;
+  } catch (error) {
+    if (!(error instanceof UpstreamUnavailableError)) {
+      log.error("batch session failed", { error });
+    }
+    failure =
+      error instanceof UpstreamUnavailableError
+        ? { status: error.status, error: error.message, retryable: true }
+        : { status: 500, error: "Unable to start a session", retryable: true };
+  }
+
+  const finished = await finishBatchItem(id, itemId, {
+    ok: false,
+    error: failure.error,
+    retryable: failure.retryable,
+  });
+  return buildJsonResponse(
+    {
+      error: failure.error,
+      retryable: failure.retryable,
+      item: finished ? toBatchItem(finished) : null,
+    },
+    failure.status,
+    JSON_HEADERS,
+    sessionCookie
+  );
+}
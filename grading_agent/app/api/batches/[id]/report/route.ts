@@ -0,0 +1,49 @@
+import { requireUser } from "@/lib/auth";
+import { batchReportToCsv, buildBatchReport, toBatchJob } from "@/lib/batch";
+import { getBatch } from "@/lib/batchStore";
+import { listGrades } from "@/lib/gradebook";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Downloads one row per submission as `?format=csv` (default) or `json`. */
+export async function GET(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  const stored = await getBatch(id);
+  if (!stored) {
+    return buildJsonResponse(
+      { error: "Batch not found" },
+      404,
+      JSON_HEADERS,
+      null
+    );
+  }
+
+  const batch = toBatchJob(stored);
+  const rows = buildBatchReport(batch, await listGrades());
+  const format = new URL(request.url).searchParams.get("format");
+  const basename = `batch-${batch.assignment.replace(/[^\w-]+/g, "-")}`;
+  if (format === "json") {
+    return new Response(JSON.stringify({ batch, rows }, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${basename}.json"`,
+      },
+    });
+  }
+  return new Response(batchReportToCsv(rows), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${basename}.csv"`,
+    },
+  });
+}
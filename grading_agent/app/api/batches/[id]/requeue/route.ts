@@ -0,0 +1,47 @@
+import { requireUser } from "@/lib/auth";
+import { toBatchJob } from "@/lib/batch";
+import { requeueBatchItems } from "@/lib/batchStore";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("batches");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Queues interrupted items again so the page can resume; `{ "failed": true }`
+ * retries failed items as well.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  const body = await safeParseJson<{ failed?: boolean }>(request);
+  try {
+    const batch = await requeueBatchItems(id, { failed: body?.failed === true });
+    if (!batch) {
+      return buildJsonResponse(
+        { error: "Batch not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    return buildJsonResponse({ batch: toBatchJob(batch) }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("requeue batch failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to requeue batch" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
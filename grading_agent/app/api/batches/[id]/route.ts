@@ -0,0 +1,63 @@
+import { requireUser } from "@/lib/auth";
+import { toBatchJob } from "@/lib/batch";
+import { deleteBatch, getBatch } from "@/lib/batchStore";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("batches");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  const batch = await getBatch(id);
+  if (!batch) {
+    return buildJsonResponse(
+      { error: "Batch not found" },
+      404,
+      JSON_HEADERS,
+      null
+    );
+  }
+  return buildJsonResponse({ batch: toBatchJob(batch) }, 200, JSON_HEADERS, null);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  try {
+    const removed = await deleteBatch(id);
+    if (!removed) {
+      return buildJsonResponse(
+        { error: "Batch not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    return buildJsonResponse({ success: true }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("delete batch failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to delete batch" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
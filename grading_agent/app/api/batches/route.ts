@@ -0,0 +1,86 @@
+import { requireUser, resolveIdentity } from "@/lib/auth";
+import { validateBatchInput } from "@/lib/batch";
+import { createBatch, listBatches } from "@/lib/batchStore";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { getRubric } from "@/lib/rubricStore";
+import { resolveWorkflow } from "@/lib/workflowRegistry";
+
+export const runtime = "nodejs";
+
+const log = createLogger("batches");
+
+export async function GET(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  try {
+    const batches = await listBatches();
+    return buildJsonResponse({ batches }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("list batches failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load batches" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request, "instructor");
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateBatchInput(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid batch", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  const input = validation.value;
+  const workflow = resolveWorkflow({ key: input.workflowKey });
+  if (!workflow.ok) {
+    return buildJsonResponse(
+      { error: workflow.error },
+      workflow.status,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  const rubricId = workflow.definition.supportsRubric ? input.rubricId : null;
+  if (rubricId && !(await getRubric(rubricId))) {
+    return buildJsonResponse(
+      { error: `Unknown rubric: ${rubricId}` },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const batch = await createBatch(userId, { ...input, rubricId });
+    return buildJsonResponse(
+      { batch: { id: batch.id } },
+      201,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("create batch failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to create batch" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/create-session/route";
+import { REQUEST_ID_HEADER } from "@/lib/logger";
+import { SESSION_COOKIE_NAME } from "@/lib/session";
+import { startChatKitMock, type ChatKitMock } from "@/test/chatkitMock";
+
+let mock: ChatKitMock;
+
+beforeAll(async () => {
+  mock = await startChatKitMock({ CHATKIT_MOCK_DELAY_MS: "1000" });
+});
+
+afterAll(async () => {
+  await mock.stop();
+});
+
+beforeEach(async () => {
+  await mock.reset();
+  vi.stubEnv("CHATKIT_API_BASE", mock.baseUrl);
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  vi.stubEnv("SESSION_SECRETS", "test-secret-test-secret-test-secret");
+  vi.stubEnv("RATE_LIMIT_DISABLED", "true");
+  vi.stubEnv("CHATKIT_MAX_RETRIES", "0");
+  vi.stubEnv("CHATKIT_BREAKER_THRESHOLD", "1000");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function createSession(
+  body: Record<string, unknown> = { workflow_key: "grading" },
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  return POST(
+    new Request("http://localhost/api/create-session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe("POST /api/create-session", () => {
+  it("creates a session and issues a signed identity cookie", async () => {
+    const response = await createSession(
+      { workflow_key: "grading" },
+      { [REQUEST_ID_HEADER]: "req-success" }
+    );
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.client_secret).toMatch(/^ek_mock_/);
+    expect(data.expires_at).toBeGreaterThan(Date.now() / 1000);
+    expect(response.headers.get("set-cookie")).toContain(`${SESSION_COOKIE_NAME}=`);
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBe("req-success");
+
+    const [upstream] = await mock.requests();
+    expect(upstream.body?.workflow?.id).toBe("wf_test");
+    expect(upstream.body?.user).toEqual(expect.any(String));
+    expect(upstream.clientRequestId).toBe("req-success");
+  });
+
+  it("keeps the upstream user for a returning cookie", async () => {
+    const first = await createSession();
+    const cookie = first.headers.get("set-cookie")!.split(";")[0];
+
+    const second = await createSession({ workflow_key: "grading" }, { Cookie: cookie });
+
+    expect(second.status).toBe(200);
+    expect(second.headers.get("set-cookie")).toBeNull();
+    const [a, b] = await mock.requests();
+    expect(b.body?.user).toBe(a.body?.user);
+  });
+
+  it("passes preset and locale state variables upstream", async () => {
+    const response = await createSession({
+      workflow_key: "grading",
+      preset: "crisp",
+      locale: "fr",
+    });
+
+    expect(response.status).toBe(200);
+    const [upstream] = await mock.requests();
+    expect(upstream.body?.workflow?.state_variables).toMatchObject({
+      feedback_preset: "crisp",
+      locale: "fr",
+      language: "French",
+    });
+  });
+
+  it("rejects an unknown workflow without calling upstream", async () => {
+    const response = await createSession({ workflow_key: "nope" });
+
+    expect(response.status).toBeGreaterThanOrEqual(400);
+    expect(response.status).toBeLessThan(500);
+    expect(await mock.requests()).toHaveLength(0);
+  });
+
+  it("rejects unsupported locales and presets", async () => {
+    const locale = await createSession({ workflow_key: "grading", locale: "xx" });
+    expect(locale.status).toBe(400);
+    expect((await locale.json()).error).toBe("Unsupported locale: xx");
+
+    const preset = await createSession({ workflow_key: "grading", preset: "loud" });
+    expect(preset.status).toBe(400);
+    expect(await mock.requests()).toHaveLength(0);
+  });
+
+  it("rejects a preset the course does not offer", async () => {
+    const response = await createSession({
+      workflow_key: "grading",
+      course: "example",
+      preset: "clear",
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Preset not offered in this course: clear");
+    expect(await mock.requests()).toHaveLength(0);
+  });
+
+  it("uses the course's default preset when none is sent", async () => {
+    const response = await createSession({ workflow_key: "grading", course: "example" });
+
+    expect(response.status).toBe(200);
+    const [upstream] = await mock.requests();
+    expect(upstream.body?.workflow?.state_variables).toMatchObject({
+      feedback_preset: "crisp",
+    });
+  });
+
+  it("answers 500 when the API key is missing", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+
+    const response = await createSession();
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ retryable: false });
+  });
+
+  it("passes an upstream 401 through as not retryable", async () => {
+    await mock.queue("unauthorized");
+
+    const response = await createSession();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({
+      error: "Incorrect API key provided.",
+      retryable: false,
+    });
+  });
+
+  it.each([
+    ["rate-limited", 429],
+    ["server-error", 500],
+    ["unavailable", 503],
+  ])("marks an upstream %s as retryable", async (scenario, status) => {
+    await mock.queue(scenario);
+
+    const response = await createSession();
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toMatchObject({ retryable: true });
+  });
+
+  it("answers 502 for a malformed upstream body", async () => {
+    await mock.queue("malformed");
+
+    const response = await createSession();
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({
+      error: "ChatKit returned an invalid session response",
+      retryable: true,
+    });
+  });
+
+  it("returns an already expired secret with its expiry", async () => {
+    await mock.queue("expired");
+
+    const response = await createSession();
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).expires_at).toBeLessThan(Date.now() / 1000);
+  });
+
+  it("answers 504 when upstream is too slow", async () => {
+    vi.stubEnv("CHATKIT_TIMEOUT_MS", "200");
+    await mock.queue("slow");
+
+    const response = await createSession();
+
+    expect(response.status).toBe(504);
+    expect(await response.json()).toMatchObject({ retryable: true });
+  });
+
+  it("limits a client that rotates X-Forwarded-For and drops its cookie", async () => {
+    vi.stubEnv("RATE_LIMIT_DISABLED", "false");
+    vi.stubEnv("RATE_LIMIT_IP_BURST", "2");
+
+    const statuses: number[] = [];
+    for (const spoofed of ["1.1.1.1", "2.2.2.2", "3.3.3.3"]) {
+      const response = await createSession(
+        { workflow_key: "grading" },
+        { "X-Forwarded-For": `${spoofed}, 198.51.100.10` }
+      );
+      statuses.push(response.status);
+      if (response.status === 429) {
+        expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+      }
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(await mock.requests()).toHaveLength(2);
+  });
+
+  it("retries a failed upstream call", async () => {
+    vi.stubEnv("CHATKIT_MAX_RETRIES", "1");
+    vi.stubEnv("CHATKIT_RETRY_BASE_MS", "10");
+    await mock.queue("server-error", "success");
+
+    const response = await createSession();
+
+    expect(response.status).toBe(200);
+    expect((await mock.requests()).map((request) => request.scenario)).toEqual([
+      "server-error",
+      "success",
+    ]);
+  });
+});
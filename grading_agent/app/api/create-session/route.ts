@@ -1,11 +1,49 @@
-import { WORKFLOW_ID } from "@/lib/config";
-
-export const runtime = "edge";
+import { resolveIdentity } from "@/lib/auth";
+import { requestChatKitSession } from "@/lib/chatkitSession";
+import { DEFAULT_COURSE_SLUG } from "@/lib/course";
+import { getCourse } from "@/lib/courseStore";
+import { getServerConfig } from "@/lib/env";
+import { getLocaleStateVariables } from "@/lib/i18n";
+import { resolveLocale } from "@/lib/locale";
+import {
+  createLogger,
+  REQUEST_ID_HEADER,
+  resolveRequestId,
+  type Logger,
+} from "@/lib/logger";
+import {
+  buildJsonResponse,
+  methodNotAllowedResponse,
+  safeParseJson,
+} from "@/lib/http";
+import { findPreset, getPresetStateVariables, resolvePreset } from "@/lib/preset";
+import {
+  consumeRateLimit,
+  getClientIp,
+  getSessionRateLimits,
+  type RateLimitRule,
+} from "@/lib/rateLimit";
+import { getRubric } from "@/lib/rubricStore";
+import { findReusableSession, rememberSession } from "@/lib/sessionReuse";
+import { UpstreamUnavailableError } from "@/lib/upstream";
+import { resolveWorkflow } from "@/lib/workflowRegistry";
+
+// Node.js runtime so the selected rubric and the course file can be read locally.
+export const runtime = "nodejs";
 
 interface CreateSessionRequestBody {
+  workflow_key?: string | null;
+  /** Deprecated: raw ids are only honoured when they are in the registry. */
   workflow?: { id?: string | null } | null;
   scope?: { user_id?: string | null } | null;
   workflowId?: string | null;
+  rubric_id?: string | null;
+  /** Feedback preset; must be one the course offers. */
+  preset?: string | null;
+  /** Course slug the chat runs in, the default course when absent. */
+  course?: string | null;
+  /** Language the agent should answer in; any locale ChatKit supports. */
+  locale?: string | null;
   chatkit_configuration?: {
     file_upload?: {
       enabled?: boolean;
@@ -13,21 +51,32 @@ interface CreateSessionRequestBody {
   };
 }
 
-const DEFAULT_CHATKIT_BASE = "https://api.openai.com";
-const SESSION_COOKIE_NAME = "chatkit_session_id";
-const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
-
 export async function POST(request: Request): Promise<Response> {
+  // The browser sends a correlation id per session request; it is logged,
+  // forwarded upstream and echoed back so one session can be traced end to end.
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+  const log = createLogger("create-session", { requestId });
+  const response = await createSession(request, requestId, log);
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+async function createSession(
+  request: Request,
+  requestId: string,
+  log: Logger
+): Promise<Response> {
   if (request.method !== "POST") {
     return methodNotAllowedResponse();
   }
   let sessionCookie: string | null = null;
   try {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
+    const { openaiApiKey } = getServerConfig();
     if (!openaiApiKey) {
       return new Response(
         JSON.stringify({
           error: "Missing OPENAI_API_KEY environment variable",
+          retryable: false,
         }),
         {
           status: 500,
@@ -36,88 +85,164 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    const rateLimits = getSessionRateLimits();
+    const ipLimited = rateLimits
+      ? await checkRateLimit(`ip:${getClientIp(request)}`, rateLimits.ip, null, log)
+      : null;
+    if (ipLimited) {
+      return ipLimited;
+    }
+
+    // With auth enabled the signed-in identity becomes the upstream `user`
+    // and anonymous requests are rejected; otherwise the anonymous session
+    // cookie is used as before.
+    const identity = await resolveIdentity(request);
+    if (!identity.ok) {
+      return identity.response;
+    }
+    const { userId } = identity;
+    sessionCookie = identity.sessionCookie;
+
     const parsedBody = await safeParseJson<CreateSessionRequestBody>(request);
-    const { userId, sessionCookie: resolvedSessionCookie } =
-      await resolveUserId(request);
-    sessionCookie = resolvedSessionCookie;
-    const resolvedWorkflowId =
-      parsedBody?.workflow?.id ?? parsedBody?.workflowId ?? WORKFLOW_ID;
+    const workflow = resolveWorkflow({
+      key: parsedBody?.workflow_key,
+      rawId: parsedBody?.workflow?.id ?? parsedBody?.workflowId,
+    });
+
+    log.debug("handling request", {
+      workflow: workflow.ok ? workflow.definition.key : workflow.error,
+      rubricId: parsedBody?.rubric_id ?? null,
+      preset: parsedBody?.preset ?? null,
+      locale: parsedBody?.locale ?? null,
+    });
+
+    if (!workflow.ok) {
+      return buildJsonResponse(
+        { error: workflow.error },
+        workflow.status,
+        { "Content-Type": "application/json" },
+        sessionCookie
+      );
+    }
+    const resolvedWorkflowId = workflow.workflowId;
 
-    if (process.env.NODE_ENV !== "production") {
-      console.info("[create-session] handling request", {
-        resolvedWorkflowId,
-        body: JSON.stringify(parsedBody),
-      });
+    const rubricId = workflow.definition.supportsRubric
+      ? parsedBody?.rubric_id?.trim() || null
+      : null;
+    const rubric = rubricId ? await getRubric(rubricId) : null;
+    if (rubricId && !rubric) {
+      return buildJsonResponse(
+        { error: `Unknown rubric: ${rubricId}` },
+        400,
+        { "Content-Type": "application/json" },
+        sessionCookie
+      );
     }
 
-    if (!resolvedWorkflowId) {
+    // A session always runs with one of the course's presets: a client that
+    // sends none gets the course's default rather than no restriction at all.
+    const course = await getCourse(parsedBody?.course?.trim() || DEFAULT_COURSE_SLUG);
+    const offered = course?.models ?? [];
+    const presetId = parsedBody?.preset?.trim() || null;
+    const preset = findPreset(presetId ?? resolvePreset(offered, null));
+    if (presetId && (!preset || !offered.some((model) => model.id === presetId))) {
       return buildJsonResponse(
-        { error: "Missing workflow id" },
+        { error: `Preset not offered in this course: ${presetId}` },
         400,
         { "Content-Type": "application/json" },
         sessionCookie
       );
     }
 
-    const apiBase = process.env.CHATKIT_API_BASE ?? DEFAULT_CHATKIT_BASE;
-    const url = `${apiBase}/v1/chatkit/sessions`;
-    const upstreamResponse = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${openaiApiKey}`,
-        "OpenAI-Beta": "chatkit_beta=v1",
-      },
-      body: JSON.stringify({
-        workflow: { id: resolvedWorkflowId },
-        user: userId,
-        chatkit_configuration: {
-          file_upload: {
-            enabled:
-              parsedBody?.chatkit_configuration?.file_upload?.enabled ?? false,
-          },
+    const requestedLocale = parsedBody?.locale?.trim() || null;
+    const locale = requestedLocale ? resolveLocale(requestedLocale) : null;
+    if (requestedLocale && !locale) {
+      return buildJsonResponse(
+        { error: `Unsupported locale: ${requestedLocale}` },
+        400,
+        { "Content-Type": "application/json" },
+        sessionCookie
+      );
+    }
+
+    const fileUploadEnabled =
+      parsedBody?.chatkit_configuration?.file_upload?.enabled ?? false;
+    const reuseKey = [
+      userId,
+      workflow.definition.key,
+      rubric?.id ?? "",
+      preset?.id ?? "",
+      locale ?? "",
+      fileUploadEnabled ? "files" : "",
+    ].join(":");
+    const reused = findReusableSession(reuseKey);
+    if (reused) {
+      log.info("reusing session", { expiresAt: reused.expiresAt });
+      return buildJsonResponse(
+        {
+          client_secret: reused.clientSecret,
+          expires_after: reused.expiresAfter,
+          expires_at: reused.expiresAt,
         },
-      }),
-    });
+        200,
+        { "Content-Type": "application/json" },
+        sessionCookie
+      );
+    }
 
-    if (process.env.NODE_ENV !== "production") {
-      console.info("[create-session] upstream response", {
-        status: upstreamResponse.status,
-        statusText: upstreamResponse.statusText,
-      });
+    // Only requests that would reach upstream count against the user limit.
+    // Anonymous ids come from a cookie the client can simply drop, so those
+    // requests are limited per IP alone.
+    const userLimited =
+      rateLimits && identity.user
+        ? await checkRateLimit(
+            `user:${userId}`,
+            rateLimits.user,
+            sessionCookie,
+            log
+          )
+        : null;
+    if (userLimited) {
+      return userLimited;
     }
 
-    const upstreamJson = (await upstreamResponse.json().catch(() => ({}))) as
-      | Record<string, unknown>
-      | undefined;
+    const session = await requestChatKitSession({
+      workflowId: resolvedWorkflowId,
+      userId,
+      rubric,
+      stateVariables: {
+        ...(preset ? getPresetStateVariables(preset) : {}),
+        ...(locale ? getLocaleStateVariables(locale) : {}),
+      },
+      fileUpload: fileUploadEnabled,
+      requestId,
+      log,
+    });
 
-    if (!upstreamResponse.ok) {
-      const upstreamError = extractUpstreamError(upstreamJson);
-      console.error("OpenAI ChatKit session creation failed", {
-        status: upstreamResponse.status,
-        statusText: upstreamResponse.statusText,
-        body: upstreamJson,
-      });
+    if (!session.ok) {
       return buildJsonResponse(
         {
-          error:
-            upstreamError ??
-            `Failed to create session: ${upstreamResponse.statusText}`,
-          details: upstreamJson,
+          error: session.error,
+          ...(session.details !== undefined ? { details: session.details } : {}),
+          retryable: session.retryable,
         },
-        upstreamResponse.status,
+        session.status,
         { "Content-Type": "application/json" },
         sessionCookie
       );
     }
 
-    const clientSecret = upstreamJson?.client_secret ?? null;
-    const expiresAfter = upstreamJson?.expires_after ?? null;
+    const { clientSecret, expiresAfter, expiresAt } = session;
     const responsePayload = {
       client_secret: clientSecret,
       expires_after: expiresAfter,
+      expires_at: expiresAt,
     };
 
+    if (expiresAt !== null) {
+      rememberSession(reuseKey, { clientSecret, expiresAfter, expiresAt });
+    }
+
     return buildJsonResponse(
       responsePayload,
       200,
@@ -125,9 +250,28 @@ export async function POST(request: Request): Promise<Response> {
       sessionCookie
     );
   } catch (error) {
-    console.error("Create session error", error);
+    if (error instanceof UpstreamUnavailableError) {
+      return buildJsonResponse(
+        {
+          error: error.message,
+          retryable: true,
+          ...(error.retryAfterSeconds
+            ? { retry_after: error.retryAfterSeconds }
+            : {}),
+        },
+        error.status,
+        {
+          "Content-Type": "application/json",
+          ...(error.retryAfterSeconds
+            ? { "Retry-After": String(error.retryAfterSeconds) }
+            : {}),
+        },
+        sessionCookie
+      );
+    }
+    log.error("unexpected error", { error });
     return buildJsonResponse(
-      { error: "Unexpected error" },
+      { error: "Unexpected error", retryable: false },
       500,
       { "Content-Type": "application/json" },
       sessionCookie
@@ -139,145 +283,31 @@ export async function GET(): Promise<Response> {
   return methodNotAllowedResponse();
 }
 
-function methodNotAllowedResponse(): Response {
-  return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
-    status: 405,
-    headers: { "Content-Type": "application/json" },
-  });
-}
-
-async function resolveUserId(request: Request): Promise<{
-  userId: string;
-  sessionCookie: string | null;
-}> {
-  const existing = getCookieValue(
-    request.headers.get("cookie"),
-    SESSION_COOKIE_NAME
-  );
-  if (existing) {
-    return { userId: existing, sessionCookie: null };
-  }
-
-  const generated =
-    typeof crypto.randomUUID === "function"
-      ? crypto.randomUUID()
-      : Math.random().toString(36).slice(2);
-
-  return {
-    userId: generated,
-    sessionCookie: serializeSessionCookie(generated),
-  };
-}
-
-function getCookieValue(
-  cookieHeader: string | null,
-  name: string
-): string | null {
-  if (!cookieHeader) {
+async function checkRateLimit(
+  key: string,
+  rule: RateLimitRule,
+  sessionCookie: string | null,
+  log: Logger
+): Promise<Response | null> {
+  const result = await consumeRateLimit(key, rule);
+  if (result.allowed) {
     return null;
   }
-
-  const cookies = cookieHeader.split(";");
-  for (const cookie of cookies) {
-    const [rawName, ...rest] = cookie.split("=");
-    if (!rawName || rest.length === 0) {
-      continue;
-    }
-    if (rawName.trim() === name) {
-      return rest.join("=").trim();
-    }
-  }
-  return null;
-}
-
-function serializeSessionCookie(value: string): string {
-  const attributes = [
-    `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
-    "Path=/",
-    `Max-Age=${SESSION_COOKIE_MAX_AGE}`,
-    "HttpOnly",
-    "SameSite=Lax",
-  ];
-
-  if (process.env.NODE_ENV === "production") {
-    attributes.push("Secure");
-  }
-  return attributes.join("; ");
-}
-
-function buildJsonResponse(
-  payload: unknown,
-  status: number,
-  headers: Record<string, string>,
-  sessionCookie: string | null
-): Response {
-  const responseHeaders = new Headers(headers);
-
-  if (sessionCookie) {
-    responseHeaders.append("Set-Cookie", sessionCookie);
-  }
-
-  return new Response(JSON.stringify(payload), {
-    status,
-    headers: responseHeaders,
+  log.warn("rate limited", {
+    scope: key.split(":")[0],
+    retryAfter: result.retryAfterSeconds,
   });
-}
-
-async function safeParseJson<T>(req: Request): Promise<T | null> {
-  try {
-    const text = await req.text();
-    if (!text) {
-      return null;
-    }
-    return JSON.parse(text) as T;
-  } catch {
-    return null;
-  }
-}
-
-function extractUpstreamError(
-  payload: Record<string, unknown> | undefined
-): string | null {
-  if (!payload) {
-    return null;
-  }
-
-  const error = payload.error;
-  if (typeof error === "string") {
-    return error;
-  }
-
-  if (
-    error &&
-    typeof error === "object" &&
-    "message" in error &&
-    typeof (error as { message?: unknown }).message === "string"
-  ) {
-    return (error as { message: string }).message;
-  }
-
-  const details = payload.details;
-  if (typeof details === "string") {
-    return details;
-  }
-
-  if (details && typeof details === "object" && "error" in details) {
-    const nestedError = (details as { error?: unknown }).error;
-    if (typeof nestedError === "string") {
-      return nestedError;
-    }
-    if (
-      nestedError &&
-      typeof nestedError === "object" &&
-      "message" in nestedError &&
-      typeof (nestedError as { message?: unknown }).message === "string"
-    ) {
-      return (nestedError as { message: string }).message;
-    }
-  }
-
-  if (typeof payload.message === "string") {
-    return payload.message;
-  }
-  return null;
+  return buildJsonResponse(
+    {
+      error: "Too many sessions created. Please wait before trying again.",
+      retryable: true,
+      retry_after: result.retryAfterSeconds,
+    },
+    429,
+    {
+      "Content-Type": "application/json",
+      "Retry-After": String(result.retryAfterSeconds),
+    },
+    sessionCookie
+  );
 }
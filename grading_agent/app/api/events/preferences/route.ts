@@ -0,0 +1,63 @@
+import { resolveIdentity } from "@/lib/auth";
+import { isAnalyticsOptedOut, setAnalyticsOptOut } from "@/lib/analyticsStore";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("events");
+
+/** The caller's analytics opt-out. */
+export async function GET(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  try {
+    const optedOut = await isAnalyticsOptedOut(userId);
+    return buildJsonResponse({ optedOut }, 200, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("load analytics preference failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load analytics preference" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
+
+export async function PUT(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<{ optedOut?: unknown }>(request);
+  if (typeof parsedBody?.optedOut !== "boolean") {
+    return buildJsonResponse(
+      { error: "optedOut must be a boolean" },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  try {
+    await setAnalyticsOptOut(userId, parsedBody.optedOut);
+    return buildJsonResponse(
+      { optedOut: parsedBody.optedOut },
+      200,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("save analytics preference failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save analytics preference" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
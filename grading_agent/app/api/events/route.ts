@@ -0,0 +1,53 @@
+import { resolveIdentity } from "@/lib/auth";
+import { validateAnalyticsBatch } from "@/lib/analytics";
+import { isAnalyticsOptedOut, recordAnalyticsEvents } from "@/lib/analyticsStore";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("events");
+
+/**
+ * The `file` analytics sink: appends a batch of client events to
+ * `events.jsonl`. Batches from users who opted out are dropped even if a
+ * stale page still sends them.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateAnalyticsBatch(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid events", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    if (await isAnalyticsOptedOut(userId)) {
+      return buildJsonResponse({ accepted: 0 }, 202, JSON_HEADERS, sessionCookie);
+    }
+    await recordAnalyticsEvents(userId, validation.value);
+    return buildJsonResponse(
+      { accepted: validation.value.length },
+      202,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("record events failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to record events" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
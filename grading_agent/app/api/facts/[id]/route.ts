@@ -0,0 +1,41 @@
+import { resolveIdentity } from "@/lib/auth";
+import { deleteFact } from "@/lib/facts";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("facts");
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+
+  try {
+    const removed = await deleteFact(userId, id);
+    if (!removed) {
+      return buildJsonResponse(
+        { error: "Fact not found" },
+        404,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    return buildJsonResponse({ success: true }, 200, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("delete fact failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to delete fact" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
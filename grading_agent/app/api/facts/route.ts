@@ -0,0 +1,79 @@
+import { resolveIdentity } from "@/lib/auth";
+import { createFact, listFacts, toFactSummary } from "@/lib/facts";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("facts");
+
+interface CreateFactRequestBody {
+  fact_id?: string | null;
+  fact_text?: string | null;
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  try {
+    const facts = await listFacts(userId);
+    return buildJsonResponse(
+      { facts: facts.map(toFactSummary) },
+      200,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("list facts failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load facts" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<CreateFactRequestBody>(request);
+  const factId = parsedBody?.fact_id?.trim() ?? "";
+  const factText = parsedBody?.fact_text?.trim() ?? "";
+
+  if (!factId || !factText) {
+    return buildJsonResponse(
+      { error: "Both fact_id and fact_text are required" },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const { fact, created } = await createFact(userId, {
+      factId,
+      text: factText,
+    });
+    return buildJsonResponse(
+      { fact: toFactSummary(fact), created },
+      created ? 201 : 200,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("create fact failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save fact" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { requireUser, resolveIdentity } from "@/lib/auth";
+import { fetchChatKitThread } from "@/lib/chatkitThreads";
+import { getServerConfig } from "@/lib/env";
+import {
+  describeRatedReply,
+  validateFeedback,
+  type FeedbackInput,
+  type FeedbackRecord,
+} from "@/lib/feedback";
+import { listFeedback, saveFeedback } from "@/lib/feedbackStore";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger, generateRequestId } from "@/lib/logger";
+import { buildTranscript } from "@/lib/transcript";
+
+export const runtime = "nodejs";
+
+const log = createLogger("feedback");
+
+type ThreadLookup =
+  | { ok: true; details: Pick<FeedbackRecord, "model" | "excerpt"> }
+  | { ok: false };
+
+/**
+ * Reads the rated reply from the thread for its model and excerpt. Only a
+ * thread that belongs to someone else is an error; when ChatKit cannot be
+ * reached the rating is still kept, just without the details.
+ */
+async function lookUpReply(
+  userId: string,
+  input: FeedbackInput
+): Promise<ThreadLookup> {
+  const empty = { ok: true as const, details: { model: null, excerpt: null } };
+  if (!getServerConfig().openaiApiKey) {
+    return empty;
+  }
+  const requestId = generateRequestId();
+  try {
+    const result = await fetchChatKitThread(input.threadId, {
+      requestId,
+      log: log.child({ requestId, threadId: input.threadId }),
+    });
+    if (!result.ok) {
+      return result.status === 404 ? { ok: false } : empty;
+    }
+    const transcript = buildTranscript(result.thread, result.items, new Date().toISOString());
+    if (transcript.user !== userId) {
+      return { ok: false };
+    }
+    return { ok: true, details: describeRatedReply(transcript, input.itemIds) };
+  } catch (error) {
+    log.warn("could not read rated thread", { requestId, error });
+    return empty;
+  }
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  try {
+    const feedback = await listFeedback();
+    return buildJsonResponse({ feedback }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("list feedback failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load feedback" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateFeedback(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid feedback", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const reply = await lookUpReply(userId, validation.value);
+    if (!reply.ok) {
+      return buildJsonResponse(
+        { error: "Thread not found" },
+        404,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    const saved = await saveFeedback(userId, validation.value, reply.details);
+    log.info("feedback recorded", {
+      feedbackId: saved.id,
+      rating: saved.rating,
+      workflowKey: saved.workflowKey,
+      model: saved.model,
+    });
+    return buildJsonResponse(
+      { feedback: { id: saved.id } },
+      201,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("record feedback failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to record feedback" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { resolveIdentity } from "@/lib/auth";
+import { validateGradeReview } from "@/lib/grade";
+import { saveGradeReview } from "@/lib/gradebook";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("grades");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const identity = await resolveIdentity(request, "instructor");
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const { id } = await params;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateGradeReview(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid review", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const saved = await saveGradeReview(id, validation.value, userId);
+    if (!saved) {
+      return buildJsonResponse(
+        { error: "Grade not found" },
+        404,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    if (!saved.ok) {
+      return buildJsonResponse(
+        { error: "Invalid review", details: saved.errors },
+        400,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    const updated = saved.grade;
+    log.info("grade reviewed", {
+      gradeId: id,
+      reviewer: userId,
+      status: updated.status,
+      decision: validation.value.decision,
+    });
+    return buildJsonResponse({ grade: updated }, 200, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("grade review failed", { gradeId: id, error });
+    return buildJsonResponse(
+      { error: "Unable to save review" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/grades/mine/route";
+import { createAuthCookie, getAuthConfig, type AuthUser } from "@/lib/auth";
+import type { GradeInput } from "@/lib/grade";
+import { recordGrade, saveGradeReview } from "@/lib/gradebook";
+
+const STUDENT: AuthUser = {
+  id: "local:mina",
+  name: "Mina",
+  email: "Mina@example.edu",
+  role: "student",
+  provider: "local",
+};
+
+const INSTRUCTOR_ID = "local:prof";
+
+const input = (assignment: string): GradeInput => ({
+  student: "Mina",
+  assignment,
+  rubricId: null,
+  criteria: [{ criterion: "Clarity", score: 3, maxPoints: 5, remark: "" }],
+  bonus: 0,
+  total: 3,
+  maxTotal: 5,
+  feedback: "",
+  submission: "",
+});
+
+async function approvedGrade(recordedBy: string, studentId: string, assignment: string) {
+  const grade = await recordGrade(recordedBy, studentId, input(assignment));
+  await saveGradeReview(
+    grade.id,
+    { scores: [], bonus: null, feedback: null, comment: "", decision: "approve" },
+    INSTRUCTOR_ID
+  );
+  return grade;
+}
+
+async function myAssignments(user: AuthUser): Promise<string[]> {
+  const cookie = (await createAuthCookie(getAuthConfig()!, user)).split(";")[0];
+  const response = await GET(
+    new Request("http://localhost/api/grades/mine", { headers: { Cookie: cookie } })
+  );
+  expect(response.status).toBe(200);
+  const { grades } = await response.json();
+  return grades.map((grade: { assignment: string }) => grade.assignment).sort();
+}
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_PROVIDER", "local");
+  vi.stubEnv("AUTH_SECRET", "auth-secret-auth-secret-auth-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("GET /api/grades/mine", () => {
+  it("lists the grades of the graded student, whoever recorded them", async () => {
+    await approvedGrade(STUDENT.id, STUDENT.id, "mine: chat");
+    await approvedGrade(INSTRUCTOR_ID, "mina@example.edu", "mine: batch");
+    await approvedGrade(STUDENT.id, "local:someone-else", "mine: recorded for another");
+    await recordGrade(STUDENT.id, STUDENT.id, input("mine: pending"));
+
+    expect(await myAssignments(STUDENT)).toEqual(["mine: batch", "mine: chat"]);
+  });
+
+  it("does not show an instructor the grades they recorded", async () => {
+    await approvedGrade(INSTRUCTOR_ID, "local:other-student", "instructor: recorded");
+
+    const instructor: AuthUser = {
+      id: INSTRUCTOR_ID,
+      name: "Prof",
+      email: null,
+      role: "instructor",
+      provider: "local",
+    };
+    expect(await myAssignments(instructor)).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { resolveIdentity } from "@/lib/auth";
+import { toStudentGrade } from "@/lib/grade";
+import { isGradeOf, listGrades } from "@/lib/gradebook";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("grades");
+
+/** The caller's approved grades, without review history or AI scores. */
+export async function GET(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+  const student = { userId, email: user?.email ?? null };
+  try {
+    const grades = (await listGrades())
+      .filter((grade) => grade.status === "approved" && isGradeOf(grade, student))
+      .map(toStudentGrade);
+    return buildJsonResponse({ grades }, 200, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("list own grades failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load grades" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { hasRole, requireUser, resolveIdentity } from "@/lib/auth";
+import { validateGrade } from "@/lib/grade";
+import { listGrades, recordGrade } from "@/lib/gradebook";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+
+const log = createLogger("grades");
+
+export async function GET(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  try {
+    const grades = await listGrades();
+    return buildJsonResponse({ grades }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("list grades failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load grades" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateGrade(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid grade", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  try {
+    const isInstructor = user ? hasRole(user, "instructor") : false;
+    // Students grade their own work; an instructor names the student.
+    const studentId = isInstructor ? validation.value.student : userId;
+    const grade = await recordGrade(userId, studentId, validation.value);
+    // Students only learn the outcome once an instructor approves it.
+    const visible = isInstructor ? grade : { id: grade.id, status: grade.status };
+    return buildJsonResponse({ grade: visible }, 201, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("record grade failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to record grade" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/health/route";
+import { createAuthCookie, getAuthConfig, type AuthUser } from "@/lib/auth";
+
+const INSTRUCTOR: AuthUser = {
+  id: "local:prof",
+  name: "Prof",
+  email: null,
+  role: "instructor",
+  provider: "local",
+};
+
+let probes = 0;
+
+beforeEach(() => {
+  probes = 0;
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  vi.stubEnv("CHATKIT_API_BASE", `https://probe-${Math.random()}.example.com`);
+  vi.stubEnv("SESSION_SECRETS", "test-secret-test-secret-test-secret");
+  vi.stubEnv("AUTH_PROVIDER", "local");
+  vi.stubEnv("AUTH_SECRET", "auth-secret-auth-secret-auth-secret");
+  vi.stubEnv("LOG_LEVEL", "loud");
+  vi.stubGlobal("fetch", async () => {
+    probes += 1;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return new Response("{}", { status: 200 });
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+async function checkHealth(headers: Record<string, string> = {}) {
+  const response = await GET(new Request("http://localhost/api/health", { headers }));
+  return response.json();
+}
+
+describe("GET /api/health", () => {
+  it("gives anonymous callers only the status and upstream reachability", async () => {
+    const body = await checkHealth();
+
+    expect(body).toEqual({ status: "ok", upstream: { reachable: true } });
+  });
+
+  it("adds the configuration issues for instructors", async () => {
+    const cookie = (await createAuthCookie(getAuthConfig()!, INSTRUCTOR)).split(";")[0];
+
+    const body = await checkHealth({ Cookie: cookie });
+
+    expect(body.config.issues).toContainEqual(
+      expect.objectContaining({ variable: "LOG_LEVEL" })
+    );
+    expect(body.upstream).toMatchObject({ status: 200, reachable: true });
+  });
+
+  it("sends one upstream probe for many concurrent checks", async () => {
+    await Promise.all(Array.from({ length: 5 }, () => checkHealth()));
+    await checkHealth();
+
+    expect(probes).toBe(1);
+  });
+});
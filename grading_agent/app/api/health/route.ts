@@ -0,0 +1,27 @@
+import { getRequestUser, hasRole } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { checkHealth, toHealthSummary } from "@/lib/health";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Public, so anyone gets only the summary. Instructors, and everyone in
+ * development, also get the configuration issues behind it.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const report = await checkHealth();
+  const detailed =
+    process.env.NODE_ENV === "development" || (await canSeeDetails(request));
+  return buildJsonResponse(
+    detailed ? report : toHealthSummary(report),
+    report.status === "error" ? 503 : 200,
+    { ...JSON_HEADERS, "Cache-Control": "no-store" },
+    null
+  );
+}
+
+async function canSeeDetails(request: Request): Promise<boolean> {
+  // A broken auth setup shows up in the report itself; answer the summary.
+  const user = await getRequestUser(request).catch(() => null);
+  return Boolean(user && hasRole(user, "instructor"));
+}
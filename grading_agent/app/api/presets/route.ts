@@ -0,0 +1,69 @@
+import { resolveIdentity } from "@/lib/auth";
+import { FEEDBACK_PRESETS } from "@/lib/config";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { findPreset } from "@/lib/preset";
+import { getPreferredPreset, setPreferredPreset } from "@/lib/presetStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("presets");
+
+/** The caller's default feedback preset, `null` until they pick one. */
+export async function GET(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  try {
+    const preset = await getPreferredPreset(userId);
+    return buildJsonResponse(
+      { preset: findPreset(preset)?.id ?? null },
+      200,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("load preset preference failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load preset preference" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
+
+export async function PUT(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const parsedBody = await safeParseJson<{ preset?: unknown }>(request);
+  const preset =
+    typeof parsedBody?.preset === "string" ? findPreset(parsedBody.preset) : null;
+  if (!preset) {
+    return buildJsonResponse(
+      {
+        error: `preset must be one of ${FEEDBACK_PRESETS.map((item) => item.id).join(", ")}`,
+      },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  try {
+    await setPreferredPreset(userId, preset.id);
+    return buildJsonResponse({ preset: preset.id }, 200, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("save preset preference failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save preset preference" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
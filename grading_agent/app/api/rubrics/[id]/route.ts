@@ -0,0 +1,101 @@
+import { requireUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { validateRubric } from "@/lib/rubric";
+import { deleteRubric, getRubric, updateRubric } from "@/lib/rubricStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("rubrics");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  _request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const { id } = await params;
+  const rubric = await getRubric(id);
+  if (!rubric) {
+    return buildJsonResponse(
+      { error: "Rubric not found" },
+      404,
+      JSON_HEADERS,
+      null
+    );
+  }
+  return buildJsonResponse({ rubric }, 200, JSON_HEADERS, null);
+}
+
+export async function PUT(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateRubric(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid rubric", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      null
+    );
+  }
+
+  try {
+    const rubric = await updateRubric(id, validation.value);
+    if (!rubric) {
+      return buildJsonResponse(
+        { error: "Rubric not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    return buildJsonResponse({ rubric }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("update rubric failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save rubric" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  try {
+    const removed = await deleteRubric(id);
+    if (!removed) {
+      return buildJsonResponse(
+        { error: "Rubric not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    return buildJsonResponse({ success: true }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("delete rubric failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to delete rubric" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
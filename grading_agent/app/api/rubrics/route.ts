@@ -0,0 +1,54 @@
+import { requireUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { validateRubric } from "@/lib/rubric";
+import { createRubric, listRubrics } from "@/lib/rubricStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("rubrics");
+
+export async function GET(): Promise<Response> {
+  try {
+    const rubrics = await listRubrics();
+    return buildJsonResponse({ rubrics }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("list rubrics failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load rubrics" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateRubric(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid rubric", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      null
+    );
+  }
+
+  try {
+    const rubric = await createRubric(validation.value);
+    return buildJsonResponse({ rubric }, 201, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("create rubric failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save rubric" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { requireUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { getSimilarityReport } from "@/lib/similarityStore";
+import { getSubmission, readCombinedText } from "@/lib/submissionStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("similarity");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * One match of a report, `?with=<submission id>`, with both submissions'
+ * text so the page can show them side by side.
+ */
+export async function GET(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  const otherId = new URL(request.url).searchParams.get("with") ?? "";
+  try {
+    const report = await getSimilarityReport(id);
+    const match = report?.matches.find((entry) => entry.submissionId === otherId);
+    const [submission, other] = await Promise.all([
+      getSubmission(id),
+      getSubmission(otherId),
+    ]);
+    if (!report || !match || !submission || !other) {
+      return buildJsonResponse(
+        { error: "Match not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    const [text, otherText] = await Promise.all([
+      readCombinedText(submission),
+      readCombinedText(other),
+    ]);
+    return buildJsonResponse(
+      {
+        report,
+        match,
+        submission: { ...submission, text },
+        other: { ...other, text: otherText },
+      },
+      200,
+      JSON_HEADERS,
+      null
+    );
+  } catch (error) {
+    log.error("load similarity match failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load the comparison" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
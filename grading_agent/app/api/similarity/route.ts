@@ -0,0 +1,57 @@
+import { requireUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import {
+  getFlagThreshold,
+  listSimilarityReports,
+  rescanSimilarity,
+} from "@/lib/similarityStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("similarity");
+
+export async function GET(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  try {
+    const reports = await listSimilarityReports();
+    return buildJsonResponse(
+      { reports, threshold: getFlagThreshold() },
+      200,
+      JSON_HEADERS,
+      null
+    );
+  } catch (error) {
+    log.error("list similarity reports failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load similarity reports" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+/** Checks every stored submission again. */
+export async function POST(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  try {
+    const checked = await rescanSimilarity();
+    log.info("similarity rescanned", { checked });
+    return buildJsonResponse({ checked }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("rescan similarity failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to rescan submissions" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
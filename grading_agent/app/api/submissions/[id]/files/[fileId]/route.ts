@@ -0,0 +1,57 @@
+import { hasRole, resolveIdentity } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { getSubmission, readSubmissionOriginal } from "@/lib/submissionStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("submissions");
+
+type RouteContext = { params: Promise<{ id: string; fileId: string }> };
+
+/** Downloads a submitted file exactly as it was received. */
+export async function GET(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+  const { id, fileId } = await params;
+  const notFound = () =>
+    buildJsonResponse({ error: "File not found" }, 404, JSON_HEADERS, sessionCookie);
+  try {
+    const submission = await getSubmission(id);
+    const isInstructor = user ? hasRole(user, "instructor") : false;
+    const file = submission?.files.find((entry) => entry.id === fileId);
+    if (!submission || !file || (submission.userId !== userId && !isInstructor)) {
+      return notFound();
+    }
+    const original = await readSubmissionOriginal(submission.id, file.id);
+    if (!original) {
+      return notFound();
+    }
+    const headers = new Headers({
+      "Content-Type": file.mimeType,
+      // The plain name is an ASCII fallback; `filename*` keeps the original.
+      "Content-Disposition":
+        `attachment; filename="${file.filename.replace(/[^\x20-\x7e]|["\\]/g, "_")}"; ` +
+        `filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+      "X-Content-Type-Options": "nosniff",
+    });
+    if (sessionCookie) {
+      headers.append("Set-Cookie", sessionCookie);
+    }
+    return new Response(new Uint8Array(original), { headers });
+  } catch (error) {
+    log.error("download submission file failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load file" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { hasRole, resolveIdentity } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { getSubmission, readSubmissionFiles } from "@/lib/submissionStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("submissions");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** A submission with the text extracted from each file, for its owner or an instructor. */
+export async function GET(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+  const { id } = await params;
+  try {
+    const submission = await getSubmission(id);
+    const isInstructor = user ? hasRole(user, "instructor") : false;
+    if (!submission || (submission.userId !== userId && !isInstructor)) {
+      return buildJsonResponse(
+        { error: "Submission not found" },
+        404,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    const files = await readSubmissionFiles(submission);
+    return buildJsonResponse(
+      { submission, files },
+      200,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  } catch (error) {
+    log.error("load submission failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load submission" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import { hasRole, resolveIdentity } from "@/lib/auth";
+import { SUBMISSION_TYPES } from "@/lib/config";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import {
+  MAX_SUBMISSION_FILES,
+  MAX_SUBMISSION_FILE_SIZE,
+  buildPreview,
+  checkSubmissionFile,
+  parseSubmissionKinds,
+  validateAssignment,
+  validateCourseSlug,
+} from "@/lib/submission";
+import { checkSubmissionSimilarity } from "@/lib/similarityStore";
+import { createSubmission, listSubmissions, type IntakeFile } from "@/lib/submissionStore";
+import { ExtractionError, extractText } from "@/lib/textExtraction";
+
+export const runtime = "nodejs";
+
+const log = createLogger("submissions");
+
+/** Room for the multipart framing and form fields around the files. */
+const MAX_BODY_SIZE = MAX_SUBMISSION_FILES * MAX_SUBMISSION_FILE_SIZE + 64 * 1024;
+
+/** The caller's submissions; instructors see everyone's, or one user's with `?userId=`. */
+export async function GET(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+  const isInstructor = user ? hasRole(user, "instructor") : false;
+  const requested = new URL(request.url).searchParams.get("userId");
+  try {
+    const submissions = await listSubmissions(
+      isInstructor ? requested ?? undefined : userId
+    );
+    return buildJsonResponse({ submissions }, 200, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("list submissions failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load submissions" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
+
+/**
+ * Receives a submission as `multipart/form-data`: up to five `files`, the
+ * `course` slug and an optional `assignment`. Every file must pass the type, size and content
+ * checks or nothing is stored. Answers with the receipt.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { userId, sessionCookie } = identity;
+  const invalid = (details: string[], status = 400) =>
+    buildJsonResponse(
+      { error: "Invalid submission", details },
+      status,
+      JSON_HEADERS,
+      sessionCookie
+    );
+
+  if (Number(request.headers.get("content-length") ?? 0) > MAX_BODY_SIZE) {
+    return invalid(["The upload is too large"], 413);
+  }
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return invalid(["Send the files as multipart/form-data"]);
+  }
+  const uploads = form.getAll("files").filter((entry): entry is File => entry instanceof File);
+  if (uploads.length === 0) {
+    return invalid(["Add at least one file"]);
+  }
+  if (uploads.length > MAX_SUBMISSION_FILES) {
+    return invalid([`A submission holds at most ${MAX_SUBMISSION_FILES} files`]);
+  }
+
+  const allowed = parseSubmissionKinds(SUBMISSION_TYPES).kinds;
+  const errors: string[] = [];
+  const files: IntakeFile[] = [];
+  for (const upload of uploads) {
+    const buffer = await upload.arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    const check = checkSubmissionFile(upload.name, bytes, allowed);
+    if (!check.ok) {
+      errors.push(check.error);
+      continue;
+    }
+    try {
+      const { text, warning } = await extractText(check.kind, buffer);
+      files.push({
+        filename: upload.name,
+        kind: check.kind,
+        mimeType: check.mimeType,
+        size: bytes.length,
+        sha256: createHash("sha256").update(bytes).digest("hex"),
+        textLength: text.length,
+        preview: buildPreview(text),
+        warning,
+        bytes,
+        text,
+      });
+    } catch (error) {
+      if (!(error instanceof ExtractionError)) {
+        log.warn("text extraction failed", { filename: upload.name, kind: check.kind, error });
+      }
+      errors.push(
+        `${upload.name}: ${error instanceof ExtractionError ? error.message : "the file could not be read"}`
+      );
+    }
+  }
+  if (errors.length > 0) {
+    return invalid(errors);
+  }
+
+  try {
+    const submission = await createSubmission(
+      userId,
+      validateCourseSlug(form.get("course")),
+      validateAssignment(form.get("assignment")),
+      files
+    );
+    log.info("submission received", {
+      submissionId: submission.id,
+      files: submission.files.length,
+      kinds: submission.files.map((file) => file.kind),
+    });
+    try {
+      const report = await checkSubmissionSimilarity(submission);
+      if (report.flagged) {
+        log.info("submission flagged as similar", {
+          submissionId: submission.id,
+          score: report.score,
+          matches: report.matches.length,
+        });
+      }
+    } catch (error) {
+      // The receipt does not depend on it; a rescan can fill the gap.
+      log.warn("similarity check failed", { submissionId: submission.id, error });
+    }
+    return buildJsonResponse({ submission }, 201, JSON_HEADERS, sessionCookie);
+  } catch (error) {
+    log.error("store submission failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to store the submission" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
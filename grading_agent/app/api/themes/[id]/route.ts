@@ -0,0 +1,101 @@
+import { requireUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { validateThemeInput } from "@/lib/theme";
+import { deleteTheme, getTheme, updateTheme } from "@/lib/themeStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("themes");
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  _request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const { id } = await params;
+  const theme = await getTheme(id);
+  if (!theme) {
+    return buildJsonResponse(
+      { error: "Theme not found" },
+      404,
+      JSON_HEADERS,
+      null
+    );
+  }
+  return buildJsonResponse({ theme }, 200, JSON_HEADERS, null);
+}
+
+export async function PUT(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateThemeInput(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid theme", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      null
+    );
+  }
+
+  try {
+    const theme = await updateTheme(id, validation.value);
+    if (!theme) {
+      return buildJsonResponse(
+        { error: "Theme not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    return buildJsonResponse({ theme }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("update theme failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save theme" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { id } = await params;
+  try {
+    const removed = await deleteTheme(id);
+    if (!removed) {
+      return buildJsonResponse(
+        { error: "Theme not found" },
+        404,
+        JSON_HEADERS,
+        null
+      );
+    }
+    return buildJsonResponse({ success: true }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("delete theme failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to delete theme" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { requireUser } from "@/lib/auth";
+import { JSON_HEADERS, buildJsonResponse, safeParseJson } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import { validateThemeInput } from "@/lib/theme";
+import { createTheme, listThemes } from "@/lib/themeStore";
+
+export const runtime = "nodejs";
+
+const log = createLogger("themes");
+
+export async function GET(): Promise<Response> {
+  try {
+    const themes = await listThemes();
+    return buildJsonResponse({ themes }, 200, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("list themes failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to load themes" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const auth = await requireUser(request, "instructor");
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const parsedBody = await safeParseJson<unknown>(request);
+  const validation = validateThemeInput(parsedBody);
+  if (!validation.ok) {
+    return buildJsonResponse(
+      { error: "Invalid theme", details: validation.errors },
+      400,
+      JSON_HEADERS,
+      null
+    );
+  }
+
+  try {
+    const theme = await createTheme(validation.value);
+    return buildJsonResponse({ theme }, 201, JSON_HEADERS, null);
+  } catch (error) {
+    log.error("create theme failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to save theme" },
+      500,
+      JSON_HEADERS,
+      null
+    );
+  }
+}
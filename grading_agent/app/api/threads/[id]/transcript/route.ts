@@ -0,0 +1,147 @@
+import { hasRole, resolveIdentity } from "@/lib/auth";
+import { fetchChatKitThread } from "@/lib/chatkitThreads";
+import { getServerConfig } from "@/lib/env";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger, generateRequestId } from "@/lib/logger";
+import {
+  buildTranscript,
+  findStudentIdentifiers,
+  isTranscriptFormat,
+  redactTranscript,
+  transcriptToHtml,
+  transcriptToMarkdown,
+  type TranscriptFormat,
+} from "@/lib/transcript";
+import { UpstreamUnavailableError } from "@/lib/upstream";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json",
+  html: "text/html; charset=utf-8",
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+/**
+ * Exports a thread as `?format=markdown|json|html`, with `&redact=1` to hide
+ * student identifiers. Users may export their own threads; instructors may
+ * export any. HTML is served inline so it can be printed from the browser.
+ */
+export async function GET(
+  request: Request,
+  { params }: RouteContext
+): Promise<Response> {
+  const identity = await resolveIdentity(request);
+  if (!identity.ok) {
+    return identity.response;
+  }
+  const { user, userId, sessionCookie } = identity;
+  const { id } = await params;
+  const query = new URL(request.url).searchParams;
+  const format = query.get("format") ?? "markdown";
+  if (!isTranscriptFormat(format)) {
+    return buildJsonResponse(
+      { error: `Unknown format: ${format}` },
+      400,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+  if (!getServerConfig().openaiApiKey) {
+    return buildJsonResponse(
+      { error: "Missing OPENAI_API_KEY environment variable" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+
+  const requestId = generateRequestId();
+  const log = createLogger("transcript", { requestId, threadId: id });
+  try {
+    const result = await fetchChatKitThread(id, { requestId, log });
+    if (!result.ok) {
+      return buildJsonResponse(
+        { error: result.error, retryable: result.retryable },
+        result.status,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+
+    let transcript = buildTranscript(
+      result.thread,
+      result.items,
+      new Date().toISOString()
+    );
+    const isInstructor = user ? hasRole(user, "instructor") : false;
+    // Someone else's thread looks the same as a missing one.
+    if (transcript.user !== userId && !isInstructor) {
+      return buildJsonResponse(
+        { error: "Thread not found" },
+        404,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+
+    if (query.get("redact") === "1") {
+      const ownIdentifiers =
+        user && transcript.user === userId
+          ? [user.name, user.email ?? ""]
+          : [];
+      transcript = redactTranscript(transcript, [
+        transcript.user ?? "",
+        ...ownIdentifiers,
+        ...findStudentIdentifiers(transcript),
+      ]);
+    }
+    log.info("transcript exported", {
+      format,
+      redacted: transcript.redacted,
+      entries: transcript.entries.length,
+    });
+
+    const body =
+      format === "json"
+        ? JSON.stringify(transcript, null, 2)
+        : format === "html"
+          ? transcriptToHtml(transcript)
+          : transcriptToMarkdown(transcript);
+    const headers = new Headers({ "Content-Type": CONTENT_TYPES[format] });
+    if (format !== "html") {
+      headers.set(
+        "Content-Disposition",
+        `attachment; filename="transcript-${id.replace(/[^\w-]+/g, "-")}.${EXTENSIONS[format]}"`
+      );
+    }
+    if (sessionCookie) {
+      headers.append("Set-Cookie", sessionCookie);
+    }
+    return new Response(body, { headers });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) {
+      return buildJsonResponse(
+        { error: error.message, retryable: true },
+        error.status,
+        JSON_HEADERS,
+        sessionCookie
+      );
+    }
+    log.error("transcript export failed", { error });
+    return buildJsonResponse(
+      { error: "Unable to export transcript" },
+      500,
+      JSON_HEADERS,
+      sessionCookie
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { listWorkflows } from "@/lib/workflowRegistry";
+
+export async function GET(): Promise<Response> {
+  return buildJsonResponse(
+    { workflows: listWorkflows() },
+    200,
+    JSON_HEADERS,
+    null
+  );
+}
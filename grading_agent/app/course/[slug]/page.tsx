@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import App from "@/app/App";
+import { getCourse } from "@/lib/courseStore";
+
+type CoursePageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: CoursePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const course = await getCourse(slug);
+  return {
+    title: course ? `${course.title} | AgentKit Grading Agent` : "Course not found",
+  };
+}
+
+export default async function CoursePage({ params }: CoursePageProps) {
+  const { slug } = await params;
+  const course = await getCourse(slug);
+  if (!course) {
+    notFound();
+  }
+  return <App course={course} />;
+}
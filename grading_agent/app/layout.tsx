@@ -1,5 +1,7 @@
 import Script from "next/script";
 import type { Metadata } from "next";
+import { LocaleProvider } from "@/components/LocaleProvider";
+import { DEFAULT_UI_LOCALE, getTextDirection } from "@/lib/i18n";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -13,14 +15,21 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    // `LocaleProvider` switches these to the user's language after hydration.
+    <html
+      lang={DEFAULT_UI_LOCALE}
+      dir={getTextDirection(DEFAULT_UI_LOCALE)}
+      suppressHydrationWarning
+    >
       <head>
         <Script
           src="https://cdn.platform.openai.com/deployments/chatkit/chatkit.js"
           strategy="beforeInteractive"
         />
       </head>
-      <body className="antialiased">{children}</body>
+      <body className="antialiased">
+        <LocaleProvider>{children}</LocaleProvider>
+      </body>
     </html>
   );
 }
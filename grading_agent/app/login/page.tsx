@@ -0,0 +1,20 @@
+import { Suspense } from "react";
+import type { Metadata } from "next";
+import { LoginForm } from "@/components/LoginForm";
+
+export const metadata: Metadata = {
+  title: "Sign in | AgentKit Grading Agent",
+};
+
+export default function LoginPage() {
+  return (
+    <main className="flex min-h-screen items-center justify-center px-4
+                     bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100
+                     dark:from-gray-950 dark:via-slate-900 dark:to-indigo-950">
+      {/* LoginForm reads search params, which requires a suspense boundary. */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </main>
+  );
+}
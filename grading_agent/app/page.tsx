@@ -1,5 +1,11 @@
 import App from "./App";
+import { DEFAULT_COURSE, DEFAULT_COURSE_SLUG } from "@/lib/course";
+import { getCourse } from "@/lib/courseStore";
 
-export default function Home() {
-  return <App />;
+// Read `courses/default.json` per request, like the course pages.
+export const dynamic = "force-dynamic";
+
+export default async function Home() {
+  const course = (await getCourse(DEFAULT_COURSE_SLUG)) ?? DEFAULT_COURSE;
+  return <App course={course} />;
 }
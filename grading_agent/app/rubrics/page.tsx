@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import { RubricEditor } from "@/components/RubricEditor";
+
+export const metadata: Metadata = {
+  title: "Rubrics | AgentKit Grading Agent",
+};
+
+export default function RubricsPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100
+                     dark:from-gray-950 dark:via-slate-900 dark:to-indigo-950">
+      <RubricEditor />
+    </main>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { BatchSession } from "@/components/BatchSession";
+import { BatchUpload } from "@/components/BatchUpload";
+import { useBatchRun } from "@/hooks/useBatchRun";
+import { useBatches } from "@/hooks/useBatches";
+import { getBatchProgress, type BatchItemStatus } from "@/lib/batch";
+import { BATCHES_ENDPOINT } from "@/lib/config";
+
+const buttonClass =
+  "rounded-lg px-3 py-2 text-sm font-semibold transition-colors disabled:opacity-50 " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: "text-gray-500 dark:text-gray-400",
+  running: "text-indigo-600 dark:text-indigo-400",
+  completed: "text-emerald-600 dark:text-emerald-400",
+  failed: "text-red-600 dark:text-red-400",
+};
+
+export function BatchGrader() {
+  const { batches, status, error, refresh, createBatch, deleteBatch } = useBatches();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const run = useBatchRun(selectedId);
+  const { batch, active } = run;
+
+  const progress = batch ? getBatchProgress(batch.items) : null;
+  const done = progress ? progress.completed + progress.failed : 0;
+  // Items left running with no session on this page were interrupted.
+  const canStart =
+    progress !== null && !run.running && progress.queued + progress.running > 0;
+  const reportUrl = (format: "csv" | "json") =>
+    `${BATCHES_ENDPOINT}/${encodeURIComponent(batch?.id ?? "")}/report?format=${format}`;
+
+  const remove = async (id: string) => {
+    if (id === selectedId) {
+      setSelectedId(null);
+    }
+    await deleteBatch(id);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-7xl space-y-6 px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Batch grading</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Grade a whole class at once. Each submission gets its own session; grades land in
+            the review queue.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link href="/gradebook" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+            Gradebook
+          </Link>
+          <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+            Back to chat
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <div className="space-y-6">
+          <BatchUpload onCreate={createBatch} onCreated={setSelectedId} />
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold text-gray-900 dark:text-gray-100">Batches</h2>
+              <button type="button" className={buttonClass} onClick={() => void refresh()}>
+                Refresh
+              </button>
+            </div>
+            {status === "loading" && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading batches...</p>
+            )}
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            {status === "ready" && batches.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No batches yet.</p>
+            )}
+            <ul className="space-y-2">
+              {batches.map((summary) => (
+                <li
+                  key={summary.id}
+                  className={`flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-sm
+                    ${summary.id === selectedId
+                      ? "border-indigo-400 bg-indigo-50/70 dark:bg-indigo-950/40"
+                      : "border-gray-200/50 bg-white/70 dark:border-gray-800/50 dark:bg-gray-900/70"}`}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 text-left"
+                    onClick={() => setSelectedId(summary.id)}
+                  >
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{summary.title}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {summary.progress.completed}/{summary.progress.total} graded
+                      {summary.progress.failed > 0 && ` · ${summary.progress.failed} failed`} ·{" "}
+                      {new Date(summary.createdAt).toLocaleString()}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    className="text-xs font-medium text-red-600 dark:text-red-400"
+                    onClick={() => void remove(summary.id)}
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+
+        <section className="space-y-4">
+          {!batch && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {selectedId ? "Loading batch..." : "Create or select a batch."}
+            </p>
+          )}
+          {batch && progress && (
+            <>
+              <div className="space-y-2">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  {batch.title}
+                </h2>
+                <div className="h-2 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-800">
+                  <div
+                    className="h-full bg-emerald-500 transition-all"
+                    style={{ width: `${(done / Math.max(progress.total, 1)) * 100}%` }}
+                  />
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {progress.completed} graded · {progress.failed} failed · {progress.queued} queued
+                  {run.running && " · running"}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {run.running ? (
+                  <button type="button" className={buttonClass} onClick={run.pause}>
+                    {active ? "Pause after this submission" : "Pause"}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className={buttonClass}
+                    disabled={!canStart || Boolean(active)}
+                    onClick={() => void run.start()}
+                  >
+                    {done > 0 || progress.running > 0 ? "Resume" : "Start"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className={buttonClass}
+                  disabled={progress.failed === 0 || run.running}
+                  onClick={() => void run.retryFailed()}
+                >
+                  Retry failed
+                </button>
+                <a className={buttonClass} href={reportUrl("csv")} download>
+                  Report CSV
+                </a>
+                <a className={buttonClass} href={reportUrl("json")} download>
+                  Report JSON
+                </a>
+              </div>
+              {run.error && <p className="text-sm text-red-600 dark:text-red-400">{run.error}</p>}
+
+              {active && (
+                <div className="h-[420px] overflow-hidden rounded-2xl border border-gray-200/50 dark:border-gray-800/50">
+                  <BatchSession
+                    key={`${active.item.id}-${active.item.attempts}`}
+                    clientSecret={active.clientSecret}
+                    prompt={active.prompt}
+                    rubricId={batch.rubricId}
+                    onRecordGrade={run.recordGrade}
+                    onEnd={(failure) => void run.endSession(failure)}
+                  />
+                </div>
+              )}
+
+              <div className="overflow-x-auto rounded-2xl border border-gray-200/50 bg-white/70
+                              dark:border-gray-800/50 dark:bg-gray-900/70">
+                <table className="w-full text-left text-sm">
+                  <thead className="border-b border-gray-200 dark:border-gray-800">
+                    <tr>
+                      <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Student</th>
+                      <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Status</th>
+                      <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Attempts</th>
+                      <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Detail</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batch.items.map((item) => (
+                      <tr
+                        key={item.id}
+                        className="border-b border-gray-100 last:border-0 dark:border-gray-800/60"
+                      >
+                        <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                          {item.studentId}
+                          <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                            {item.filename}
+                          </span>
+                        </td>
+                        <td className={`px-4 py-3 font-medium ${STATUS_CLASSES[item.status]}`}>
+                          {item.status}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600 dark:text-gray-400">{item.attempts}</td>
+                        <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                          {item.error ?? (item.gradeId ? "Grade recorded" : "")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
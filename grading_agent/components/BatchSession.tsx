@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { ChatKit, useChatKit } from "@openai/chatkit-react";
+import { invokeClientTool } from "@/lib/clientTools";
+import type { GradeInput } from "@/lib/grade";
+import { createLogger } from "@/lib/logger";
+import { actionError } from "@/lib/widgetActions";
+
+type BatchSessionProps = {
+  clientSecret: string;
+  prompt: string;
+  rubricId: string | null;
+  onRecordGrade: (grade: GradeInput) => Promise<string>;
+  /** Called once; `failure` is `null` when a grade was recorded. */
+  onEnd: (failure: string | null) => void;
+};
+
+// Generous: a long submission can take the agent a while to work through.
+const SESSION_TIMEOUT_MS = 5 * 60 * 1000;
+
+const log = createLogger("batch-session");
+
+/**
+ * Grades one submission: opens ChatKit on the item's own session, sends the
+ * submission and waits for the agent to call `record_grade`. Mount it with a
+ * `key` per item so every submission gets a fresh ChatKit instance.
+ */
+export function BatchSession({
+  clientSecret,
+  prompt,
+  rubricId,
+  onRecordGrade,
+  onEnd,
+}: BatchSessionProps) {
+  const gradedRef = useRef(false);
+  const endedRef = useRef(false);
+
+  const end = useCallback(
+    (failure: string | null) => {
+      if (endedRef.current) {
+        return;
+      }
+      endedRef.current = true;
+      onEnd(failure);
+    },
+    [onEnd]
+  );
+
+  const getClientSecret = useCallback(async () => clientSecret, [clientSecret]);
+
+  const chatkit = useChatKit({
+    api: { getClientSecret },
+    onClientTool: (invocation: {
+      name: string;
+      params: Record<string, unknown>;
+    }) =>
+      invokeClientTool(invocation, {
+        rubricId,
+        setColorScheme: () => {},
+        performAction: async () =>
+          actionError("forbidden", "Actions are not available while batch grading"),
+        recordGrade: async (grade) => {
+          const gradeId = await onRecordGrade(grade);
+          gradedRef.current = true;
+          return gradeId;
+        },
+        openRubric: () => false,
+        setLocale: () => {},
+      }),
+    onResponseEnd: () => {
+      end(gradedRef.current ? null : "The agent finished without recording a grade");
+    },
+    onError: ({ error }: { error: unknown }) => {
+      log.error("ChatKit error", { error });
+      end(error instanceof Error ? error.message : "ChatKit failed");
+    },
+  });
+
+  const { sendUserMessage } = chatkit;
+  useEffect(() => {
+    let cancelled = false;
+    void customElements
+      .whenDefined("openai-chatkit")
+      .then(() => (cancelled ? undefined : sendUserMessage({ text: prompt, newThread: true })))
+      .catch((error: unknown) => {
+        log.error("failed to send submission", { error });
+        end("Could not send the submission to the agent");
+      });
+    const timeout = setTimeout(
+      () => end("The agent did not finish in time"),
+      SESSION_TIMEOUT_MS
+    );
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [end, prompt, sendUserMessage]);
+
+  return <ChatKit control={chatkit.control} className="h-full w-full" />;
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { useRubrics } from "@/hooks/useRubrics";
+import { useWorkflows } from "@/hooks/useWorkflows";
+import {
+  MAX_BATCH_SUBMISSIONS,
+  groupSubmissions,
+  type BatchInput,
+  type BatchSubmissionInput,
+  type UploadedFile,
+} from "@/lib/batch";
+import { readZip } from "@/lib/zip";
+
+type BatchUploadProps = {
+  onCreate: (input: BatchInput) => Promise<{ ok: true; id: string } | { ok: false; errors: string[] }>;
+  onCreated: (id: string) => void;
+};
+
+const controlClass =
+  "w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-3 py-2 text-sm text-gray-900 dark:text-gray-100";
+
+const buttonClass =
+  "rounded-lg px-3 py-2 text-sm font-semibold transition-colors disabled:opacity-50 " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+async function readUploads(files: FileList): Promise<UploadedFile[]> {
+  const uploads: UploadedFile[] = [];
+  for (const file of Array.from(files)) {
+    const buffer = await file.arrayBuffer();
+    if (file.name.toLowerCase().endsWith(".zip")) {
+      uploads.push(...(await readZip(buffer)));
+    } else {
+      uploads.push({
+        path: file.webkitRelativePath || file.name,
+        bytes: new Uint8Array(buffer),
+      });
+    }
+  }
+  return uploads;
+}
+
+/**
+ * Creates a batch from a zip or a folder of submissions. Student ids come
+ * from folder or file names and can be corrected before the batch is saved.
+ */
+export function BatchUpload({ onCreate, onCreated }: BatchUploadProps) {
+  const { workflows } = useWorkflows();
+  const { rubrics } = useRubrics();
+  const [title, setTitle] = useState("");
+  const [assignment, setAssignment] = useState("");
+  const [workflowKey, setWorkflowKey] = useState("grading");
+  const [rubricId, setRubricId] = useState("");
+  const [submissions, setSubmissions] = useState<BatchSubmissionInput[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const workflow = workflows.find((entry) => entry.key === workflowKey);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const grouped = groupSubmissions(await readUploads(files));
+      setSubmissions(grouped.submissions);
+      setSkipped(grouped.skipped);
+      setErrors(
+        grouped.submissions.length > MAX_BATCH_SUBMISSIONS
+          ? [`A batch holds at most ${MAX_BATCH_SUBMISSIONS} submissions`]
+          : []
+      );
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : "Unable to read the upload"]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateStudentId = (index: number, studentId: string) =>
+    setSubmissions((current) =>
+      current.map((entry, position) => (position === index ? { ...entry, studentId } : entry))
+    );
+
+  const removeSubmission = (index: number) =>
+    setSubmissions((current) => current.filter((_, position) => position !== index));
+
+  const create = async () => {
+    setBusy(true);
+    const result = await onCreate({
+      title,
+      assignment,
+      workflowKey,
+      rubricId: workflow?.supportsRubric ? rubricId || null : null,
+      submissions,
+    });
+    setBusy(false);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setSubmissions([]);
+    setSkipped([]);
+    setErrors([]);
+    onCreated(result.id);
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-gray-200/50 bg-white/70 p-5
+                        dark:border-gray-800/50 dark:bg-gray-900/70">
+      <h2 className="font-semibold text-gray-900 dark:text-gray-100">New batch</h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <input
+          className={controlClass}
+          placeholder="Assignment"
+          value={assignment}
+          onChange={(event) => setAssignment(event.target.value)}
+        />
+        <input
+          className={controlClass}
+          placeholder="Batch title (optional)"
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+        />
+        <select
+          className={controlClass}
+          value={workflowKey}
+          onChange={(event) => setWorkflowKey(event.target.value)}
+        >
+          {workflows.map((entry) => (
+            <option key={entry.key} value={entry.key} disabled={!entry.available}>
+              {entry.label}
+              {entry.available ? "" : " (not configured)"}
+            </option>
+          ))}
+        </select>
+        {workflow?.supportsRubric && (
+          <select
+            className={controlClass}
+            value={rubricId}
+            onChange={(event) => setRubricId(event.target.value)}
+          >
+            <option value="">No rubric</option>
+            {rubrics.map((rubric) => (
+              <option key={rubric.id} value={rubric.id}>
+                {rubric.title}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-sm text-gray-700 dark:text-gray-300">
+        <label className={`${buttonClass} cursor-pointer`}>
+          Upload zip
+          <input
+            type="file"
+            accept=".zip"
+            className="hidden"
+            onChange={(event) => void handleFiles(event.target.files)}
+          />
+        </label>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Upload folder
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            // Not in React's input typings, but supported by every major browser.
+            {...{ webkitdirectory: "" }}
+            onChange={(event) => void handleFiles(event.target.files)}
+          />
+        </label>
+        <p className="self-center text-xs text-gray-500 dark:text-gray-400">
+          One folder per student (<code>s123/essay.md</code>) or one file per student
+          (<code>s123.md</code>). Text files only.
+        </p>
+      </div>
+
+      {submissions.length > 0 && (
+        <div className="max-h-80 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-800">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 dark:border-gray-800">
+              <tr>
+                <th className="px-3 py-2 font-semibold text-gray-700 dark:text-gray-300">Student id</th>
+                <th className="px-3 py-2 font-semibold text-gray-700 dark:text-gray-300">Files</th>
+                <th className="px-3 py-2 font-semibold text-gray-700 dark:text-gray-300">Length</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {submissions.map((submission, index) => (
+                <tr
+                  key={`${submission.filename}-${index}`}
+                  className="border-b border-gray-100 last:border-0 dark:border-gray-800/60"
+                >
+                  <td className="px-3 py-2">
+                    <input
+                      aria-label={`Student id for ${submission.filename}`}
+                      className={controlClass}
+                      value={submission.studentId}
+                      onChange={(event) => updateStudentId(index, event.target.value)}
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{submission.filename}</td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                    {submission.text.length.toLocaleString()} chars
+                  </td>
+                  <td className="px-3 py-2">
+                    <button
+                      type="button"
+                      className="text-xs font-medium text-red-600 dark:text-red-400"
+                      onClick={() => removeSubmission(index)}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {skipped.length > 0 && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          Skipped {skipped.length} non-text file{skipped.length === 1 ? "" : "s"}:{" "}
+          {skipped.join(", ")}
+        </p>
+      )}
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-600 dark:text-red-400">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={busy || submissions.length === 0 || !assignment.trim()}
+        onClick={() => void create()}
+      >
+        Create batch of {submissions.length}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,198 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import type { HostedApiConfig } from "@openai/chatkit";
+import type { UseChatKitOptions } from "@openai/chatkit-react";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/create-session/route";
+import { ChatKitPanel } from "@/components/ChatKitPanel";
+import { CREATE_SESSION_ENDPOINT } from "@/lib/config";
+import { DEFAULT_COURSE } from "@/lib/course";
+import type { HealthReport } from "@/lib/health";
+import { listWorkflows } from "@/lib/workflowRegistry";
+import { startChatKitMock, type ChatKitMock } from "@/test/chatkitMock";
+
+// The web component cannot run in jsdom; keep the options the panel passes
+// so the tests can call `getClientSecret` the way ChatKit would.
+let chatkitOptions: UseChatKitOptions | null = null;
+
+vi.mock("@openai/chatkit-react", () => ({
+  useChatKit: (options: UseChatKitOptions) => {
+    chatkitOptions = options;
+    return { control: {}, sendCustomAction: vi.fn(), sendUserMessage: vi.fn() };
+  },
+  ChatKit: () => null,
+}));
+
+const HEALTHY: HealthReport = {
+  status: "ok",
+  config: { valid: true, issues: [] },
+  upstream: null,
+};
+
+const realFetch = globalThis.fetch;
+let mock: ChatKitMock;
+let sessionRequests: Record<string, unknown>[] = [];
+
+beforeAll(async () => {
+  mock = await startChatKitMock();
+  if (!customElements.get("openai-chatkit")) {
+    customElements.define("openai-chatkit", class extends HTMLElement {});
+  }
+});
+
+afterAll(async () => {
+  await mock.stop();
+});
+
+beforeEach(async () => {
+  await mock.reset();
+  chatkitOptions = null;
+  sessionRequests = [];
+  vi.stubEnv("CHATKIT_API_BASE", mock.baseUrl);
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  vi.stubEnv("SESSION_SECRETS", "test-secret-test-secret-test-secret");
+  vi.stubEnv("RATE_LIMIT_DISABLED", "true");
+  vi.stubEnv("CHATKIT_MAX_RETRIES", "0");
+  vi.stubEnv("CHATKIT_BREAKER_THRESHOLD", "1000");
+  // The panel's requests go to the real route, which calls the simulator.
+  vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (input === CREATE_SESSION_ENDPOINT) {
+      sessionRequests.push(JSON.parse(String(init?.body)));
+      return POST(new Request(`http://localhost${CREATE_SESSION_ENDPOINT}`, init));
+    }
+    return realFetch(input, init);
+  });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+function renderPanel(overrides: Partial<Parameters<typeof ChatKitPanel>[0]> = {}) {
+  const grading = listWorkflows().find((workflow) => workflow.key === "grading")!;
+  return render(
+    <ChatKitPanel
+      theme="light"
+      workflow={grading}
+      rubricId={null}
+      presetId="crisp"
+      health={HEALTHY}
+      course={DEFAULT_COURSE}
+      locale="en"
+      sessionLocale="en"
+      onWidgetAction={vi.fn()}
+      onRecordGrade={vi.fn()}
+      onFeedback={vi.fn()}
+      onResponseEnd={vi.fn()}
+      analytics={{ track: vi.fn(), setContext: vi.fn() }}
+      onThemeRequest={vi.fn()}
+      onLocaleRequest={vi.fn()}
+      onOpenRubric={vi.fn()}
+      {...overrides}
+    />
+  );
+}
+
+/** Calls the panel's `getClientSecret` as ChatKit does and settles React. */
+async function requestSecret(current: string | null = null) {
+  let outcome: { secret: string } | { error: Error } | null = null;
+  await act(async () => {
+    try {
+      const api = chatkitOptions!.api as HostedApiConfig;
+      outcome = { secret: await api.getClientSecret(current) };
+    } catch (error) {
+      outcome = { error: error as Error };
+    }
+  });
+  return outcome!;
+}
+
+describe("ChatKitPanel session handling", () => {
+  it("creates a session and reports the chat as online", async () => {
+    renderPanel();
+
+    const outcome = await requestSecret();
+
+    expect(outcome).toEqual({ secret: expect.stringMatching(/^ek_mock_/) });
+    expect(sessionRequests[0]).toMatchObject({
+      workflow_key: "grading",
+      preset: "crisp",
+      locale: "en",
+      course: DEFAULT_COURSE.slug,
+    });
+    expect(screen.getByText("Online")).toBeTruthy();
+  });
+
+  it("refreshes an expiring secret without the loading overlay", async () => {
+    renderPanel();
+    await requestSecret();
+
+    const outcome = await requestSecret("ek_mock_old");
+
+    expect(outcome).toEqual({ secret: expect.stringMatching(/^ek_mock_/) });
+    expect(screen.queryByText("Initializing Your Assistant")).toBeNull();
+    expect(await mock.requests()).toHaveLength(2);
+  });
+
+  it("shows an upstream 401 without offering a restart", async () => {
+    await mock.queue("unauthorized");
+    renderPanel();
+
+    const outcome = await requestSecret();
+
+    expect(outcome).toHaveProperty("error");
+    expect(screen.getByText("Incorrect API key provided.")).toBeTruthy();
+    expect(screen.getByText("Offline")).toBeTruthy();
+    expect(screen.queryByText("Restart Assistant")).toBeNull();
+  });
+
+  it("offers a restart after a retryable failure and clears the error", async () => {
+    await mock.queue("server-error");
+    renderPanel();
+
+    await requestSecret();
+    expect(screen.getByText("The server had an error processing the request.")).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("Restart Assistant"));
+    });
+    expect(screen.queryByText("The server had an error processing the request.")).toBeNull();
+
+    const outcome = await requestSecret();
+    expect(outcome).toHaveProperty("secret");
+  });
+
+  it("explains upstream throttling as too many sessions", async () => {
+    await mock.queue("rate-limited");
+    renderPanel();
+
+    await requestSecret();
+
+    expect(screen.getByText("Too many sessions, try again shortly.")).toBeTruthy();
+    expect(screen.getByText("Restart Assistant")).toBeTruthy();
+  });
+
+  it("reports a malformed upstream response", async () => {
+    await mock.queue("malformed");
+    renderPanel();
+
+    await requestSecret();
+
+    expect(screen.getByText("ChatKit returned an invalid session response")).toBeTruthy();
+  });
+
+  it("does not request a session for an unconfigured workflow", async () => {
+    const grading = listWorkflows().find((workflow) => workflow.key === "grading")!;
+    renderPanel({ workflow: { ...grading, available: false } });
+
+    const outcome = await requestSecret();
+
+    expect(outcome).toHaveProperty("error");
+    expect(
+      screen.getByText("Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.")
+    ).toBeTruthy();
+    expect(sessionRequests).toHaveLength(0);
+  });
+});
@@ -2,24 +2,68 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import { ChatKit, useChatKit } from "@openai/chatkit-react";
+import type { SupportedLocale } from "@openai/chatkit";
 import {
-  CREATE_SESSION_ENDPOINT,
-  WORKFLOW_ID,
-} from "@/lib/config";
+  categorizeError,
+  parseMessageLog,
+  type AnalyticsTracker,
+} from "@/lib/analytics";
+import { CREATE_SESSION_ENDPOINT, SUBMISSION_TYPES } from "@/lib/config";
+import { getCourseTheme, type CourseConfig } from "@/lib/course";
+import { parseFeedbackLog, type FeedbackInput } from "@/lib/feedback";
+import { invokeClientTool } from "@/lib/clientTools";
+import type { GradeInput } from "@/lib/grade";
+import {
+  createLogger,
+  generateRequestId,
+  REQUEST_ID_HEADER,
+  type Logger,
+} from "@/lib/logger";
+import type { HealthView } from "@/lib/health";
+import type { Translate, UiLocale } from "@/lib/i18n";
+import { withDefaultModel } from "@/lib/preset";
+import { buildAcceptMap, parseSubmissionKinds } from "@/lib/submission";
+import { getChromeStyle } from "@/lib/theme";
+import {
+  actionError,
+  isWidgetActionType,
+  parseWidgetAction,
+  type WidgetAction,
+  type WidgetActionResult,
+} from "@/lib/widgetActions";
+import type { WorkflowSummary } from "@/lib/workflowRegistry";
 import { ErrorOverlay } from "./ErrorOverlay";
+import { FeedbackCommentBar } from "./FeedbackCommentBar";
+import { SubmissionIntake } from "./SubmissionIntake";
+import { TranscriptExportMenu } from "./TranscriptExportMenu";
 import type { ColorScheme } from "@/hooks/useColorScheme";
-
-export type FactAction = {
-  type: "save";
-  factId: string;
-  factText: string;
-};
+import { useI18n } from "@/hooks/useI18n";
 
 type ChatKitPanelProps = {
   theme: ColorScheme;
-  onWidgetAction: (action: FactAction) => Promise<void>;
+  workflow: WorkflowSummary;
+  rubricId: string | null;
+  /** Feedback preset the session is created with; preselected in the composer. */
+  presetId: string | null;
+  /** Latest `/api/health` report, `null` until the first check. */
+  health: HealthView | null;
+  course: CourseConfig;
+  /** ChatKit UI language. */
+  locale: SupportedLocale;
+  /** Language the session is created with, so the agent answers in it. */
+  sessionLocale: UiLocale;
+  /** Runs an action on the server; the result goes back to the agent. */
+  onWidgetAction: (action: WidgetAction) => Promise<WidgetActionResult>;
+  onRecordGrade: (grade: GradeInput) => Promise<string>;
+  /** Stores a thumbs rating; called again when a comment is added. */
+  onFeedback: (feedback: FeedbackInput) => Promise<void>;
   onResponseEnd: () => void;
+  /** Receives lifecycle events for the analytics pipeline. */
+  analytics: AnalyticsTracker;
   onThemeRequest: (scheme: ColorScheme) => void;
+  onLocaleRequest: (locale: SupportedLocale) => void;
+  /** Shows a rubric; returns `false` for unknown ids. */
+  onOpenRubric: (rubricId: string) => boolean;
 };
 
 type ErrorState = {
@@ -29,8 +73,51 @@ type ErrorState = {
   retryable: boolean;
 };
 
+type ClientSecret = {
+  value: string;
+  /** When the secret expires (epoch ms), if the server reported it. */
+  expiresAt: number | null;
+  /** Correlation id of the create-session request that minted it. */
+  requestId: string;
+};
+
 const isBrowser = typeof window !== "undefined";
-const isDev = process.env.NODE_ENV !== "production";
+const ATTACHMENT_ACCEPT = buildAcceptMap(parseSubmissionKinds(SUBMISSION_TYPES).kinds);
+const log = createLogger("ChatKitPanel");
+
+type BadgeTone = "online" | "pending" | "down";
+
+const BADGE_TONE_CLASSES: Record<BadgeTone, { container: string; dot: string }> = {
+  online: {
+    container:
+      'bg-emerald-500/10 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 border-2 border-emerald-500/30',
+    dot: 'bg-emerald-500 shadow-lg shadow-emerald-500/50',
+  },
+  pending: {
+    container:
+      'bg-amber-500/10 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400 border-2 border-amber-500/30',
+    dot: 'bg-amber-500 shadow-lg shadow-amber-500/50',
+  },
+  down: {
+    container:
+      'bg-red-500/10 dark:bg-red-500/20 text-red-700 dark:text-red-400 border-2 border-red-500/30',
+    dot: 'bg-red-500 shadow-lg shadow-red-500/50',
+  },
+};
+
+/** How long before expiry a replacement client secret is fetched. */
+const SECRET_REFRESH_LEAD_MS = 60_000;
+
+/** Session failure that carries whether restarting the assistant may help. */
+class SessionRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "SessionRequestError";
+  }
+}
 
 const createInitialErrors = (): ErrorState => ({
   script: null,
@@ -41,14 +128,29 @@ const createInitialErrors = (): ErrorState => ({
 
 export function ChatKitPanel({
   theme,
+  workflow,
+  rubricId,
+  presetId,
+  health,
+  course,
+  locale,
+  sessionLocale,
   onWidgetAction,
+  onRecordGrade,
+  onFeedback,
   onResponseEnd,
+  analytics,
   onThemeRequest,
+  onLocaleRequest,
+  onOpenRubric,
 }: ChatKitPanelProps) {
-  const processedFacts = useRef(new Set<string>());
+  const { t } = useI18n();
   const [errors, setErrors] = useState<ErrorState>(() => createInitialErrors());
   const [isInitializingSession, setIsInitializingSession] = useState(true);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const isMountedRef = useRef(true);
+  const refreshTimerRef = useRef<number | null>(null);
+  const prefetchRef = useRef<Promise<ClientSecret | null> | null>(null);
   const [scriptStatus, setScriptStatus] = useState<
     "pending" | "ready" | "error"
   >(() =>
@@ -57,6 +159,12 @@ export function ChatKitPanel({
       : "pending"
   );
   const [widgetInstanceKey, setWidgetInstanceKey] = useState(0);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [ratedReply, setRatedReply] = useState<FeedbackInput | null>(null);
+  const [isIntakeOpen, setIsIntakeOpen] = useState(false);
+  // Timestamps (performance.now) behind time-to-first-token and duration.
+  const sentAtRef = useRef<number | null>(null);
+  const responseStartedAtRef = useRef<number | null>(null);
 
   const setErrorState = useCallback((updates: Partial<ErrorState>) => {
     setErrors((current) => ({ ...current, ...updates }));
@@ -65,9 +173,14 @@ export function ChatKitPanel({
   useEffect(() => {
     return () => {
       isMountedRef.current = false;
+      clearRefresh(refreshTimerRef, prefetchRef);
     };
   }, []);
 
+  useEffect(() => {
+    analytics.setContext({ workflowKey: workflow.key });
+  }, [analytics, workflow.key]);
+
   useEffect(() => {
     if (!isBrowser) {
       return;
@@ -84,13 +197,17 @@ export function ChatKitPanel({
     };
 
     const handleError = (event: Event) => {
-      console.error("Failed to load chatkit.js for some reason", event);
+      log.error("failed to load chatkit.js", { event });
       if (!isMountedRef.current) {
         return;
       }
       setScriptStatus("error");
       const detail = (event as CustomEvent<unknown>)?.detail ?? "unknown error";
-      setErrorState({ script: `Error: ${detail}`, retryable: false });
+      analytics.track("error", { category: "script", source: "script" });
+      setErrorState({
+        script: t("error.script", { detail: String(detail) }),
+        retryable: false,
+      });
       setIsInitializingSession(false);
     };
 
@@ -107,8 +224,7 @@ export function ChatKitPanel({
         if (!window.customElements?.get("openai-chatkit")) {
           handleError(
             new CustomEvent("chatkit-script-error", {
-              detail:
-                "ChatKit web component is unavailable. Verify that the script URL is reachable.",
+              detail: t("error.scriptUnavailable"),
             })
           );
         }
@@ -125,47 +241,180 @@ export function ChatKitPanel({
         window.clearTimeout(timeoutId);
       }
     };
-  }, [scriptStatus, setErrorState]);
+  }, [analytics, scriptStatus, setErrorState, t]);
 
-  const isWorkflowConfigured = Boolean(
-    WORKFLOW_ID && !WORKFLOW_ID.startsWith("wf_replace")
-  );
+  const isWorkflowConfigured = workflow.available;
+  const missingWorkflowMessage = t("error.missingWorkflow", { envVar: workflow.envVar });
 
   useEffect(() => {
     if (!isWorkflowConfigured && isMountedRef.current) {
       setErrorState({
-        session: "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.",
+        session: missingWorkflowMessage,
         retryable: false,
       });
       setIsInitializingSession(false);
     }
-  }, [isWorkflowConfigured, setErrorState]);
+  }, [isWorkflowConfigured, missingWorkflowMessage, setErrorState]);
 
   const handleResetChat = useCallback(() => {
-    processedFacts.current.clear();
     if (isBrowser) {
       setScriptStatus(
         window.customElements?.get("openai-chatkit") ? "ready" : "pending"
       );
     }
+    clearRefresh(refreshTimerRef, prefetchRef);
     setIsInitializingSession(true);
+    setIsReconnecting(false);
     setErrors(createInitialErrors());
+    setThreadId(null);
+    setRatedReply(null);
+    sentAtRef.current = null;
+    responseStartedAtRef.current = null;
     setWidgetInstanceKey((prev) => prev + 1);
   }, []);
 
-  const getClientSecret = useCallback(
-    async (currentSecret: string | null) => {
-      if (isDev) {
-        console.info("[ChatKitPanel] getClientSecret invoked", {
-          currentSecretPresent: Boolean(currentSecret),
-          workflowId: WORKFLOW_ID,
-          endpoint: CREATE_SESSION_ENDPOINT,
+  const requestClientSecret = useCallback(async (
+    requestId: string,
+    requestLog: Logger
+  ): Promise<ClientSecret> => {
+    const response = await fetch(CREATE_SESSION_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [REQUEST_ID_HEADER]: requestId,
+      },
+      body: JSON.stringify({
+        workflow_key: workflow.key,
+        rubric_id: rubricId,
+        preset: presetId,
+        course: course.slug,
+        locale: sessionLocale,
+        chatkit_configuration: {
+          file_upload: {
+            enabled: course.attachments.enabled,
+          },
+        },
+      }),
+    });
+
+    const raw = await response.text();
+
+    requestLog.debug("create-session response", {
+      status: response.status,
+      ok: response.ok,
+    });
+
+    let data: Record<string, unknown> = {};
+    if (raw) {
+      try {
+        data = JSON.parse(raw) as Record<string, unknown>;
+      } catch (parseError) {
+        requestLog.error("failed to parse create-session response", {
+          error: parseError,
         });
       }
+    }
+
+    if (!response.ok) {
+      requestLog.error("create-session request failed", {
+        status: response.status,
+        body: data,
+      });
+      if (response.status === 429) {
+        const retryAfter = readRetryAfter(data, response.headers);
+        throw new SessionRequestError(
+          retryAfter
+            ? t("error.rateLimitedFor", { seconds: retryAfter })
+            : t("error.rateLimited"),
+          true
+        );
+      }
+      throw new SessionRequestError(
+        extractErrorDetail(data, response.statusText),
+        data.retryable === true
+      );
+    }
+
+    const clientSecret = data?.client_secret as string | undefined;
+    if (!clientSecret) {
+      throw new Error("Missing client secret in response");
+    }
+
+    return {
+      value: clientSecret,
+      expiresAt:
+        typeof data.expires_at === "number" ? data.expires_at * 1000 : null,
+      requestId,
+    };
+  }, [
+    course.attachments.enabled,
+    course.slug,
+    presetId,
+    rubricId,
+    sessionLocale,
+    t,
+    workflow.key,
+  ]);
+
+  // Fetches the next secret shortly before the current one expires, so the
+  // request ChatKit makes on expiry is answered without a round trip.
+  const scheduleRefresh = useCallback(
+    (expiresAt: number | null) => {
+      clearRefresh(refreshTimerRef, prefetchRef);
+      if (expiresAt === null) {
+        return;
+      }
+      const delay = Math.max(expiresAt - SECRET_REFRESH_LEAD_MS - Date.now(), 0);
+      refreshTimerRef.current = window.setTimeout(() => {
+        refreshTimerRef.current = null;
+        if (!isMountedRef.current) {
+          return;
+        }
+        setIsReconnecting(true);
+        const requestId = generateRequestId();
+        const requestLog = log.child({ requestId });
+        requestLog.debug("refreshing client secret ahead of expiry");
+        prefetchRef.current = requestClientSecret(requestId, requestLog)
+          .catch((error) => {
+            // ChatKit will ask again on expiry; that request reports errors.
+            requestLog.warn("client secret refresh failed", { error });
+            return null;
+          })
+          .finally(() => {
+            if (isMountedRef.current) {
+              setIsReconnecting(false);
+            }
+          });
+      }, delay);
+    },
+    [requestClientSecret]
+  );
+
+  const takePrefetchedSecret = useCallback(async () => {
+    const pending = prefetchRef.current;
+    prefetchRef.current = null;
+    const secret = pending ? await pending : null;
+    return secret &&
+      (secret.expiresAt === null ||
+        secret.expiresAt - Date.now() > SECRET_REFRESH_LEAD_MS)
+      ? secret
+      : null;
+  }, []);
+
+  const getClientSecret = useCallback(
+    async (currentSecret: string | null) => {
+      const requestId = generateRequestId();
+      const requestLog = log.child({ requestId });
+      requestLog.debug("getClientSecret invoked", {
+        hasCurrentSecret: Boolean(currentSecret),
+        workflowKey: workflow.key,
+        rubricId,
+        presetId,
+        locale: sessionLocale,
+      });
 
       if (!isWorkflowConfigured) {
-        const detail =
-          "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.";
+        const detail = missingWorkflowMessage;
         if (isMountedRef.current) {
           setErrorState({ session: detail, retryable: false });
           setIsInitializingSession(false);
@@ -173,224 +422,232 @@ export function ChatKitPanel({
         throw new Error(detail);
       }
 
+      // Refreshing an expired secret keeps the conversation on screen and
+      // only flags the header; the overlay is for the first connection.
+      const isRefresh = Boolean(currentSecret);
       if (isMountedRef.current) {
-        if (!currentSecret) {
+        if (isRefresh) {
+          setIsReconnecting(true);
+        } else {
           setIsInitializingSession(true);
         }
         setErrorState({ session: null, integration: null, retryable: false });
       }
 
+      const startedAt = performance.now();
       try {
-        const response = await fetch(CREATE_SESSION_ENDPOINT, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            workflow: { id: WORKFLOW_ID },
-            chatkit_configuration: {
-              file_upload: {
-                enabled: true,
-              },
-            },
-          }),
-        });
-
-        const raw = await response.text();
-
-        if (isDev) {
-          console.info("[ChatKitPanel] createSession response", {
-            status: response.status,
-            ok: response.ok,
-            bodyPreview: raw.slice(0, 1600),
+        const prefetched = isRefresh ? await takePrefetchedSecret() : null;
+        if (prefetched) {
+          requestLog.debug("using prefetched client secret", {
+            sourceRequestId: prefetched.requestId,
           });
         }
-
-        let data: Record<string, unknown> = {};
-        if (raw) {
-          try {
-            data = JSON.parse(raw) as Record<string, unknown>;
-          } catch (parseError) {
-            console.error(
-              "Failed to parse create-session response",
-              parseError
-            );
-          }
-        }
-
-        if (!response.ok) {
-          const detail = extractErrorDetail(data, response.statusText);
-          console.error("Create session request failed", {
-            status: response.status,
-            body: data,
-          });
-          throw new Error(detail);
-        }
-
-        const clientSecret = data?.client_secret as string | undefined;
-        if (!clientSecret) {
-          throw new Error("Missing client secret in response");
-        }
+        const secret =
+          prefetched ?? (await requestClientSecret(requestId, requestLog));
 
         if (isMountedRef.current) {
           setErrorState({ session: null, integration: null });
+          scheduleRefresh(secret.expiresAt);
+        }
+        if (!isRefresh) {
+          analytics.track("session_start", {
+            durationMs: Math.round(performance.now() - startedAt),
+          });
         }
 
-        return clientSecret;
+        return secret.value;
       } catch (error) {
-        console.error("Failed to create ChatKit session", error);
+        requestLog.error("failed to create ChatKit session", { error });
+        analytics.track("error", {
+          category: categorizeError(error),
+          source: "session",
+        });
         const detail =
           error instanceof Error
             ? error.message
-            : "Unable to start ChatKit session.";
+            : t("error.session");
         if (isMountedRef.current) {
-          setErrorState({ session: detail, retryable: false });
+          setErrorState({
+            session: detail,
+            retryable:
+              error instanceof SessionRequestError ? error.retryable : false,
+          });
         }
         throw error instanceof Error ? error : new Error(detail);
       } finally {
-        if (isMountedRef.current && !currentSecret) {
-          setIsInitializingSession(false);
+        if (isMountedRef.current) {
+          if (isRefresh) {
+            setIsReconnecting(false);
+          } else {
+            setIsInitializingSession(false);
+          }
         }
       }
     },
-    [isWorkflowConfigured, setErrorState]
+    [
+      analytics,
+      isWorkflowConfigured,
+      missingWorkflowMessage,
+      presetId,
+      requestClientSecret,
+      rubricId,
+      scheduleRefresh,
+      sessionLocale,
+      setErrorState,
+      t,
+      takePrefetchedSecret,
+      workflow.key,
+    ]
+  );
+
+  const submitFeedback = useCallback(
+    async (feedback: FeedbackInput) => {
+      try {
+        await onFeedback(feedback);
+      } catch (error) {
+        // Feedback is best effort; never interrupt the conversation for it.
+        log.warn("failed to record feedback", { error });
+      }
+    },
+    [onFeedback]
   );
 
   const chatkit = useChatKit({
     api: { getClientSecret },
 
-    theme: {
-      colorScheme: theme === 'dark' ? 'dark' : 'light',
-      radius: 'round',
-      density: 'normal',
-      color: {
-        grayscale: {
-          hue: 220,
-          tint: 8,
-          shade: 4
-        },
-        accent: {
-          primary: '#6366f1',
-          level: 1
-        }
-      },
-      typography: {
-        baseSize: 16
-      }
-    },
+    theme: getCourseTheme(course, theme),
+    locale,
     composer: {
-      placeholder: 'Ask a question or upload your assignment file...',
-      attachments: {
-        enabled: true,
-        maxCount: 5,
-        maxSize: 10485760
-      },
-      models: [
-        {
-          id: 'crisp',
-          label: 'Crisp',
-          description: 'Quick and concise feedback'
-        },
-        {
-          id: 'chatty',
-          label: 'Detailed',
-          description: 'Comprehensive explanations'
-        },
-        {
-          id: "clear",
-          label: "Clear",
-          description: "Simple and straightforward"
-        }
-      ],
-    },
-    disclaimer: {
-      text: "🎓 This AI assistant provides automated grading help. Please verify results before final submission.",
-      highContrast: true,
+      placeholder: course.placeholder,
+      // The same types `/api/submissions` accepts; the composer uploads
+      // straight to ChatKit, so this is the only check its files get.
+      attachments: { ...course.attachments, accept: ATTACHMENT_ACCEPT },
+      models: withDefaultModel(course.models, presetId),
     },
+    ...(course.disclaimer
+      ? { disclaimer: { text: course.disclaimer, highContrast: true } }
+      : {}),
     threadItemActions: {
-      feedback:true,
+      feedback: true,
       retry: true,
-
     },
     startScreen: {
-      greeting: '👋 Welcome to your Grading Assistant! Upload your assignment to get started.',
-      prompts: [
-        {
-          icon: 'star',
-          label: 'Submit assignment for grading',
-          prompt: 'I want to submit my assignment for grading'
-        },
-        {
-          icon: 'chart',
-          label: 'View my grades and feedback',
-          prompt: 'Show me my current grades and feedback'
-        },
-        
-      ],
+      greeting: course.greeting,
+      prompts: course.prompts,
     },
-    
-    onClientTool: async (invocation: {
+
+    onClientTool: (invocation: {
       name: string;
       params: Record<string, unknown>;
-    }) => {
-      if (invocation.name === "switch_theme") {
-        const requested = invocation.params.theme;
-        if (requested === "light" || requested === "dark") {
-          if (isDev) {
-            console.debug("[ChatKitPanel] switch_theme", requested);
-          }
-          onThemeRequest(requested);
-          return { success: true };
+    }) =>
+      invokeClientTool(invocation, {
+        rubricId,
+        setColorScheme: onThemeRequest,
+        performAction: onWidgetAction,
+        recordGrade: onRecordGrade,
+        openRubric: onOpenRubric,
+        setLocale: onLocaleRequest,
+      }),
+    widgets: {
+      onAction: async (action, widgetItem) => {
+        if (!isWidgetActionType(action.type)) {
+          // Not one of ours; let the workflow handle it.
+          await chatkit.sendCustomAction(action, widgetItem.id);
+          return;
         }
-        return { success: false };
-      }
-
-      if (invocation.name === "record_fact") {
-        const id = String(invocation.params.fact_id ?? "");
-        const text = String(invocation.params.fact_text ?? "");
-        if (!id || processedFacts.current.has(id)) {
-          return { success: true };
-        }
-        processedFacts.current.add(id);
-        void onWidgetAction({
-          type: "save",
-          factId: id,
-          factText: text.replace(/\s+/g, " ").trim(),
-        });
-        return { success: true };
-      }
-
-      return { success: false };
+        const parsed = parseWidgetAction(action);
+        const result = parsed.ok
+          ? await onWidgetAction(parsed.value)
+          : actionError("invalid_action", "Invalid action", parsed.errors);
+        await chatkit.sendCustomAction(
+          { type: "action_result", payload: { action: action.type, ...result } },
+          widgetItem.id
+        );
+      },
     },
     onResponseEnd: () => {
+      const endedAt = performance.now();
+      const startedAt = responseStartedAtRef.current;
+      const sentAt = sentAtRef.current;
+      analytics.track("response_end", {
+        durationMs: startedAt === null ? null : Math.round(endedAt - startedAt),
+        timeToFirstTokenMs:
+          sentAt === null || startedAt === null ? null : Math.round(startedAt - sentAt),
+      });
+      responseStartedAtRef.current = null;
+      sentAtRef.current = null;
       onResponseEnd();
     },
+    onThreadChange: ({ threadId: nextThreadId }: { threadId: string | null }) => {
+      setThreadId(nextThreadId);
+      setRatedReply(null);
+      analytics.setContext({ threadId: nextThreadId });
+      analytics.track("thread_change", { isNew: nextThreadId === null });
+    },
+    onLog: ({ name, data }: { name: string; data?: Record<string, unknown> }) => {
+      const message = parseMessageLog(name, data);
+      if (message) {
+        sentAtRef.current = performance.now();
+        const starter = course.prompts.find(
+          (prompt) => message.text !== null && prompt.prompt === message.text.trim()
+        );
+        analytics.track("message_sent", {
+          attachments: message.attachments,
+          starterPrompt: Boolean(starter),
+        });
+        if (starter) {
+          analytics.track("starter_prompt_click", { label: starter.label });
+        }
+        return;
+      }
+      const rated = parseFeedbackLog(name, data);
+      if (!rated || !threadId) {
+        return;
+      }
+      const feedback: FeedbackInput = {
+        threadId,
+        itemIds: rated.itemIds,
+        rating: rated.rating,
+        comment: null,
+        workflowKey: workflow.key,
+      };
+      setRatedReply(feedback);
+      void submitFeedback(feedback);
+    },
     onResponseStart: () => {
+      // ChatKit reports no token events; the response starting is the
+      // closest signal to the first token.
+      responseStartedAtRef.current = performance.now();
       setErrorState({ integration: null, retryable: false });
     },
-    onThreadChange: () => {
-      processedFacts.current.clear();
-    },
     onError: ({ error }: { error: unknown }) => {
-      console.error("ChatKit error", error);
+      log.error("ChatKit error", { error });
+      analytics.track("error", { category: categorizeError(error), source: "chatkit" });
     },
   });
 
   const activeError = errors.session ?? errors.integration;
   const blockingError = errors.script ?? activeError;
-
-  if (isDev) {
-    console.debug("[ChatKitPanel] render state", {
-      isInitializingSession,
-      hasControl: Boolean(chatkit.control),
-      scriptStatus,
-      hasError: Boolean(blockingError),
-      workflowId: WORKFLOW_ID,
-    });
-  }
+  const badge = getStatusBadge({
+    health,
+    blockingError,
+    isInitializingSession,
+    isReconnecting,
+    t,
+  });
+  const isOnline = badge.tone === "online";
+
+  log.debug("render state", {
+    isInitializingSession,
+    isReconnecting,
+    hasControl: Boolean(chatkit.control),
+    scriptStatus,
+    hasError: Boolean(blockingError),
+    workflowKey: workflow.key,
+  });
 
   return (
-    <div className="relative w-full h-full px-4 pb-6">
+    <div className="relative w-full h-full px-4 pb-6" style={getChromeStyle(course.chrome)}>
       {/* Modern floating card container */}
       <div className="relative flex h-[90vh] w-full rounded-[2rem] flex-col overflow-hidden 
                       bg-gradient-to-br from-white via-gray-50 to-gray-100
@@ -403,7 +660,7 @@ export function ChatKitPanel({
                       dark:hover:shadow-[0_25px_70px_-15px_rgba(0,0,0,0.7)]">
         
         {/* Animated gradient accent bar */}
-        <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500 
+        <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-[var(--chrome-from)] via-[var(--chrome-via)] to-[var(--chrome-to)] 
                         animate-gradient-x z-20" />
         
         {/* Decorative blur orbs */}
@@ -421,9 +678,9 @@ export function ChatKitPanel({
             <div className="flex items-center gap-4">
               {/* Animated icon container */}
               <div className="relative group">
-                <div className="absolute inset-0 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-2xl blur-md 
+                <div className="absolute inset-0 bg-gradient-to-br from-[var(--chrome-from)] to-[var(--chrome-via)] rounded-2xl blur-md 
                                 opacity-70 group-hover:opacity-100 transition-opacity duration-300" />
-                <div className="relative p-3 rounded-2xl bg-gradient-to-br from-indigo-500 to-purple-600 
+                <div className="relative p-3 rounded-2xl bg-gradient-to-br from-[var(--chrome-from)] to-[var(--chrome-via)] 
                                 shadow-lg group-hover:scale-110 transition-transform duration-300">
                   <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} 
@@ -435,45 +692,62 @@ export function ChatKitPanel({
               <div>
                 <h2 className="text-xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 
                               dark:from-gray-100 dark:to-gray-300 bg-clip-text text-transparent">
-                  Grading Assistant
+                  {course.title}
                 </h2>
                 <p className="text-sm text-gray-600 dark:text-gray-400 mt-0.5 font-medium">
-                  AI-powered assignment evaluation
+                  {course.tagline}
                 </p>
               </div>
             </div>
             
             {/* Enhanced status indicator */}
             <div className="flex items-center gap-3">
-              <div className={`
+              {course.attachments.enabled && (
+                <button
+                  type="button"
+                  disabled={Boolean(blockingError) || isInitializingSession}
+                  onClick={() => setIsIntakeOpen((current) => !current)}
+                  className="rounded-xl border border-gray-200/70 bg-white/70 px-3 py-2 text-sm font-semibold
+                             text-gray-700 transition-colors hover:bg-white disabled:opacity-50
+                             dark:border-gray-700/70 dark:bg-gray-900/70 dark:text-gray-200 dark:hover:bg-gray-900"
+                >
+                  {t("panel.submitFiles")}
+                </button>
+              )}
+              <TranscriptExportMenu threadId={threadId} />
+              <div
+                title={badge.detail ?? undefined}
+                className={`
                 relative px-4 py-2 rounded-xl text-sm font-semibold flex items-center gap-2
                 transition-all duration-300 overflow-hidden
-                ${!blockingError && !isInitializingSession
-                  ? 'bg-emerald-500/10 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 border-2 border-emerald-500/30'
-                  : 'bg-amber-500/10 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400 border-2 border-amber-500/30'
-                }
+                ${BADGE_TONE_CLASSES[badge.tone].container}
               `}>
                 <div className="relative">
                   <span className={`
                     block w-2.5 h-2.5 rounded-full
-                    ${!blockingError && !isInitializingSession
-                      ? 'bg-emerald-500 shadow-lg shadow-emerald-500/50'
-                      : 'bg-amber-500 shadow-lg shadow-amber-500/50'
-                    }
+                    ${BADGE_TONE_CLASSES[badge.tone].dot}
                   `}>
-                    {!blockingError && !isInitializingSession && (
+                    {isOnline && (
                       <span className="absolute inset-0 rounded-full bg-emerald-500 animate-ping opacity-75" />
                     )}
                   </span>
                 </div>
                 <span className="relative z-10">
-                  {!blockingError && !isInitializingSession ? 'Online' : 'Connecting'}
+                  {badge.label}
                 </span>
               </div>
             </div>
           </div>
         </div>
 
+        {isIntakeOpen && (
+          <SubmissionIntake
+            courseSlug={course.slug}
+            onStartGrading={(prompt) => chatkit.sendUserMessage({ text: prompt })}
+            onClose={() => setIsIntakeOpen(false)}
+          />
+        )}
+
         {/* Main ChatKit container with enhanced styling */}
         <div className="relative flex-1 overflow-hidden bg-gradient-to-b from-transparent to-gray-50/30 dark:to-gray-950/30">
           <ChatKit
@@ -506,17 +780,17 @@ export function ChatKitPanel({
                                 border-purple-600 dark:border-purple-400 animate-spin" 
                        style={{ animationDuration: '2s', animationDirection: 'reverse' }} />
                   <div className="absolute inset-0 flex items-center justify-center">
-                    <div className="w-3 h-3 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 
+                    <div className="w-3 h-3 rounded-full bg-gradient-to-br from-[var(--chrome-from)] to-[var(--chrome-via)] 
                                   animate-pulse shadow-lg shadow-indigo-500/50" />
                   </div>
                 </div>
                 
                 <div className="space-y-3">
                   <p className="text-lg font-bold text-gray-900 dark:text-gray-100">
-                    Initializing Your Assistant
+                    {t("panel.loadingTitle")}
                   </p>
                   <p className="text-sm text-gray-600 dark:text-gray-400 max-w-xs mx-auto leading-relaxed">
-                    Setting up secure connection and preparing your personalized grading environment
+                    {t("panel.loadingBody")}
                   </p>
                 </div>
                 
@@ -537,10 +811,22 @@ export function ChatKitPanel({
             error={blockingError}
             fallbackMessage={null}
             onRetry={blockingError && errors.retryable ? handleResetChat : null}
-            retryLabel="Restart Assistant"
+            retryLabel={t("panel.restart")}
           />
         </div>
 
+        {ratedReply && (
+          <FeedbackCommentBar
+            key={ratedReply.itemIds.join(",")}
+            rating={ratedReply.rating}
+            onSubmit={async (comment) => {
+              await submitFeedback({ ...ratedReply, comment });
+              setRatedReply(null);
+            }}
+            onDismiss={() => setRatedReply(null)}
+          />
+        )}
+
         {/* Modern footer with branding */}
         <div className="relative px-6 py-4 border-t border-gray-200/70 dark:border-gray-800/70 
                         bg-white/60 dark:bg-gray-900/60 backdrop-blur-xl z-10">
@@ -549,11 +835,11 @@ export function ChatKitPanel({
               <svg className="w-4 h-4 text-indigo-500" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M6.267 3.455a3.066 3.066 0 001.745-.723 3.066 3.066 0 013.976 0 3.066 3.066 0 001.745.723 3.066 3.066 0 012.812 2.812c.051.643.304 1.254.723 1.745a3.066 3.066 0 010 3.976 3.066 3.066 0 00-.723 1.745 3.066 3.066 0 01-2.812 2.812 3.066 3.066 0 00-1.745.723 3.066 3.066 0 01-3.976 0 3.066 3.066 0 00-1.745-.723 3.066 3.066 0 01-2.812-2.812 3.066 3.066 0 00-.723-1.745 3.066 3.066 0 010-3.976 3.066 3.066 0 00.723-1.745 3.066 3.066 0 012.812-2.812zm7.44 5.252a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
               </svg>
-              <span className="font-medium">Secure & Private</span>
+              <span className="font-medium">{t("panel.secure")}</span>
             </div>
             
             <div className="flex items-center gap-2">
-              <span className="text-xs text-gray-500 dark:text-gray-500">Crafted by</span>
+              <span className="text-xs text-gray-500 dark:text-gray-500">{t("panel.craftedBy")}</span>
               <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg 
                             bg-gradient-to-r from-indigo-500/10 to-purple-500/10 
                             dark:from-indigo-500/20 dark:to-purple-500/20
@@ -618,4 +904,71 @@ function extractErrorDetail(
   }
 
   return fallback;
-}
\ No newline at end of file
+}
+
+/**
+ * Header badge. Server health from `/api/health` takes precedence; local
+ * session state only decides between connecting and online.
+ */
+function getStatusBadge({
+  health,
+  blockingError,
+  isInitializingSession,
+  isReconnecting,
+  t,
+}: {
+  health: HealthView | null;
+  blockingError: string | null;
+  isInitializingSession: boolean;
+  isReconnecting: boolean;
+  t: Translate;
+}): { label: string; tone: BadgeTone; detail: string | null } {
+  const firstIssue =
+    health?.config?.issues.find((issue) => issue.severity === "error")?.message ??
+    null;
+  if (health?.status === "error") {
+    return { label: t("status.misconfigured"), tone: "down", detail: firstIssue };
+  }
+  if (health?.status === "degraded") {
+    return {
+      label: t("status.degraded"),
+      tone: "pending",
+      detail: t("status.degradedDetail"),
+    };
+  }
+  if (blockingError) {
+    return { label: t("status.offline"), tone: "down", detail: blockingError };
+  }
+  if (!health || isInitializingSession) {
+    return { label: t("status.connecting"), tone: "pending", detail: null };
+  }
+  if (isReconnecting) {
+    return { label: t("status.reconnecting"), tone: "pending", detail: null };
+  }
+  return { label: t("status.online"), tone: "online", detail: null };
+}
+
+function clearRefresh(
+  timerRef: { current: number | null },
+  prefetchRef: { current: Promise<ClientSecret | null> | null }
+) {
+  if (timerRef.current !== null) {
+    window.clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }
+  prefetchRef.current = null;
+}
+
+function readRetryAfter(
+  payload: Record<string, unknown>,
+  headers: Headers
+): number | null {
+  const fromBody = payload.retry_after;
+  if (typeof fromBody === "number" && fromBody > 0) {
+    return Math.ceil(fromBody);
+  }
+  const fromHeader = Number(headers.get("Retry-After"));
+  return Number.isFinite(fromHeader) && fromHeader > 0
+    ? Math.ceil(fromHeader)
+    : null;
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import type { ReactNode } from "react";
+import { useI18n } from "@/hooks/useI18n";
 
 type ErrorOverlayProps = {
   error: string | null;
@@ -15,6 +16,8 @@ export function ErrorOverlay({
   onRetry,
   retryLabel,
 }: ErrorOverlayProps) {
+  const { t } = useI18n();
+
   if (!error && !fallbackMessage) {
     return null;
   }
@@ -35,7 +38,7 @@ export function ErrorOverlay({
             className="mt-4 inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-none transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-200"
             onClick={onRetry}
           >
-            {retryLabel ?? "Restart chat"}
+            {retryLabel ?? t("error.restartChat")}
           </button>
         ) : null}
       </div>
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import type { FactSummary } from "@/lib/facts";
+
+type FactsPanelProps = {
+  facts: FactSummary[];
+  status: "loading" | "ready" | "error";
+  error: string | null;
+  onRemove: (id: string) => void;
+};
+
+export function FactsPanel({ facts, status, error, onRemove }: FactsPanelProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <aside className="w-full rounded-2xl bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm
+                      border border-gray-200/50 dark:border-gray-800/50 shadow-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between px-5 py-4 text-start"
+      >
+        <span className="font-bold text-gray-900 dark:text-gray-100">
+          {t("facts.title")}
+          <span className="ms-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+            {facts.length}
+          </span>
+        </span>
+        <svg
+          className={`w-4 h-4 text-gray-500 transition-transform duration-300 ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200/70 dark:border-gray-800/70 px-5 py-4">
+          {status === "loading" && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t("facts.loading")}</p>
+          )}
+          {error && (
+            <p className="mb-3 text-sm text-amber-700 dark:text-amber-400">{error}</p>
+          )}
+          {status !== "loading" && facts.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t("facts.empty")}
+            </p>
+          )}
+          <ul className="space-y-2">
+            {facts.map((fact) => (
+              <li
+                key={fact.id}
+                className="group flex items-start justify-between gap-3 rounded-xl px-3 py-2
+                           bg-gray-50/80 dark:bg-gray-800/50"
+              >
+                <span className="text-sm text-gray-700 dark:text-gray-300">{fact.text}</span>
+                <button
+                  type="button"
+                  onClick={() => onRemove(fact.id)}
+                  aria-label={t("facts.removeLabel")}
+                  className="shrink-0 rounded-lg px-2 py-1 text-xs font-semibold text-gray-500
+                             hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                >
+                  {t("facts.remove")}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useFeedback } from "@/hooks/useFeedback";
+import { COMPOSER_MODELS, THREADS_ENDPOINT, WORKFLOWS } from "@/lib/config";
+import {
+  getFeedbackPeriodKey,
+  summarizeFeedback,
+  type ApprovalStats,
+  type FeedbackGroup,
+  type FeedbackPeriod,
+  type FeedbackRating,
+  type FeedbackRecord,
+} from "@/lib/feedback";
+
+type Filters = {
+  workflow: string;
+  model: string;
+  period: string;
+  rating: "" | FeedbackRating;
+};
+
+const EMPTY_FILTERS: Filters = { workflow: "", model: "", period: "", rating: "" };
+
+const controlClass =
+  "rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-3 py-2 text-sm text-gray-900 dark:text-gray-100";
+
+const buttonClass =
+  "rounded-lg px-3 py-2 text-sm font-semibold transition-colors " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+const panelClass =
+  "rounded-2xl border border-gray-200/50 bg-white/70 dark:border-gray-800/50 dark:bg-gray-900/70";
+
+const workflowLabel = (key: string) =>
+  WORKFLOWS.find((workflow) => workflow.key === key)?.label ?? key;
+
+const modelLabel = (id: string) =>
+  id === "default" ? "Default" : COMPOSER_MODELS.find((model) => model.id === id)?.label ?? id;
+
+const formatRate = (stats: ApprovalStats) =>
+  stats.approvalRate === null ? "—" : `${Math.round(stats.approvalRate * 100)}%`;
+
+function matches(record: FeedbackRecord, filters: Filters, period: FeedbackPeriod) {
+  return (
+    (!filters.workflow || record.workflowKey === filters.workflow) &&
+    (!filters.model || (record.model ?? "default") === filters.model) &&
+    (!filters.period || getFeedbackPeriodKey(record.createdAt, period) === filters.period) &&
+    (!filters.rating || record.rating === filters.rating)
+  );
+}
+
+type GroupTableProps = {
+  title: string;
+  groups: FeedbackGroup[];
+  label: (key: string) => string;
+  selected: string;
+  onSelect: (key: string) => void;
+};
+
+/** Approval rate per group; clicking a row narrows the page to that group. */
+function GroupTable({ title, groups, label, selected, onSelect }: GroupTableProps) {
+  return (
+    <section className={`${panelClass} p-4`}>
+      <h2 className="mb-3 font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+      {groups.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No ratings.</p>
+      )}
+      <ul className="space-y-2">
+        {groups.map(({ key, stats }) => (
+          <li key={key}>
+            <button
+              type="button"
+              onClick={() => onSelect(selected === key ? "" : key)}
+              className={`w-full rounded-lg px-2 py-1.5 text-left text-sm transition-colors
+                ${selected === key
+                  ? "bg-indigo-50 dark:bg-indigo-950/50"
+                  : "hover:bg-gray-50 dark:hover:bg-gray-800/60"}`}
+            >
+              <div className="flex justify-between gap-2">
+                <span className="font-medium text-gray-800 dark:text-gray-200">{label(key)}</span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {formatRate(stats)} · {stats.up}👍 {stats.down}👎
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-rose-200 dark:bg-rose-900/60">
+                <div
+                  className="h-full bg-emerald-500"
+                  style={{ width: `${(stats.approvalRate ?? 0) * 100}%` }}
+                />
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export function FeedbackAnalytics() {
+  const { feedback, status, error, refresh } = useFeedback();
+  const [period, setPeriod] = useState<FeedbackPeriod>("day");
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+
+  const setFilter = (key: keyof Filters) => (value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  const visible = useMemo(
+    () => feedback.filter((record) => matches(record, filters, period)),
+    [feedback, filters, period]
+  );
+  const summary = useMemo(() => summarizeFeedback(visible, period), [visible, period]);
+  const models = useMemo(
+    () => Array.from(new Set(feedback.map((record) => record.model ?? "default"))).sort(),
+    [feedback]
+  );
+  const isFiltered = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="mx-auto w-full max-w-7xl space-y-6 px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Reply feedback</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Thumbs-up and thumbs-down ratings on assistant replies. Click a row to drill down.
+          </p>
+        </div>
+        <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+          Back to chat
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className={controlClass}
+          value={period}
+          onChange={(event) => {
+            setPeriod(event.target.value as FeedbackPeriod);
+            setFilter("period")("");
+          }}
+        >
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+        </select>
+        <select
+          className={controlClass}
+          value={filters.workflow}
+          onChange={(event) => setFilter("workflow")(event.target.value)}
+        >
+          <option value="">All workflows</option>
+          {WORKFLOWS.map((workflow) => (
+            <option key={workflow.key} value={workflow.key}>
+              {workflow.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className={controlClass}
+          value={filters.model}
+          onChange={(event) => setFilter("model")(event.target.value)}
+        >
+          <option value="">All models</option>
+          {models.map((model) => (
+            <option key={model} value={model}>
+              {modelLabel(model)}
+            </option>
+          ))}
+        </select>
+        <select
+          className={controlClass}
+          value={filters.rating}
+          onChange={(event) => setFilter("rating")(event.target.value)}
+        >
+          <option value="">All ratings</option>
+          <option value="up">Thumbs up</option>
+          <option value="down">Thumbs down</option>
+        </select>
+        {isFiltered && (
+          <button type="button" className={buttonClass} onClick={() => setFilters(EMPTY_FILTERS)}>
+            Clear filters
+          </button>
+        )}
+        <button type="button" className={`${buttonClass} ml-auto`} onClick={() => void refresh()}>
+          Refresh
+        </button>
+      </div>
+
+      {status === "loading" && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading feedback...</p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        {[
+          ["Approval rate", formatRate(summary.overall)],
+          ["Ratings", String(summary.overall.total)],
+          ["Thumbs up", String(summary.overall.up)],
+          ["Thumbs down", String(summary.overall.down)],
+        ].map(([label, value]) => (
+          <div key={label} className={`${panelClass} p-4`}>
+            <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">{label}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <GroupTable
+          title="Over time"
+          groups={summary.overTime}
+          label={(key) => (period === "week" ? `Week of ${key}` : key)}
+          selected={filters.period}
+          onSelect={setFilter("period")}
+        />
+        <GroupTable
+          title="By workflow"
+          groups={summary.byWorkflow}
+          label={workflowLabel}
+          selected={filters.workflow}
+          onSelect={setFilter("workflow")}
+        />
+        <GroupTable
+          title="By model"
+          groups={summary.byModel}
+          label={modelLabel}
+          selected={filters.model}
+          onSelect={setFilter("model")}
+        />
+      </div>
+
+      <section className={`${panelClass} overflow-x-auto`}>
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 dark:border-gray-800">
+            <tr>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Rated</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Rating</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Workflow</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Model</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Reply</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((record) => (
+              <tr
+                key={record.id}
+                className="border-b border-gray-100 align-top last:border-0 dark:border-gray-800/60"
+              >
+                <td className="px-4 py-3 text-gray-500 dark:text-gray-400">
+                  {new Date(record.createdAt).toLocaleString()}
+                </td>
+                <td className="px-4 py-3">{record.rating === "up" ? "👍" : "👎"}</td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                  {workflowLabel(record.workflowKey)}
+                </td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                  {modelLabel(record.model ?? "default")}
+                </td>
+                <td className="max-w-xl px-4 py-3 text-gray-700 dark:text-gray-300">
+                  <p className="line-clamp-3 whitespace-pre-wrap">
+                    {record.excerpt ?? <span className="italic text-gray-400">Not available</span>}
+                  </p>
+                  {record.comment && (
+                    <p className="mt-1 text-gray-900 dark:text-gray-100">“{record.comment}”</p>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <a
+                    className="text-indigo-600 hover:underline dark:text-indigo-400"
+                    href={`${THREADS_ENDPOINT}/${encodeURIComponent(record.threadId)}/transcript?format=html`}
+                    target="_blank"
+                    rel="noopener"
+                  >
+                    Transcript
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {status === "ready" && visible.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500 dark:text-gray-400">No ratings match.</p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { MAX_FEEDBACK_COMMENT_LENGTH, type FeedbackRating } from "@/lib/feedback";
+
+type FeedbackCommentBarProps = {
+  rating: FeedbackRating;
+  onSubmit: (comment: string) => Promise<void>;
+  onDismiss: () => void;
+};
+
+/** Shown after a thumbs click so the user can say what was right or wrong. */
+export function FeedbackCommentBar({ rating, onSubmit, onDismiss }: FeedbackCommentBarProps) {
+  const { t } = useI18n();
+  const [comment, setComment] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      await onSubmit(comment);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form
+      className="flex items-center gap-2 border-t border-gray-200/70 bg-white/80 px-6 py-3 text-sm
+                 backdrop-blur-xl dark:border-gray-800/70 dark:bg-gray-900/80"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void submit();
+      }}
+    >
+      <span className="shrink-0 text-gray-600 dark:text-gray-400">
+        {rating === "up" ? t("feedback.askUp") : t("feedback.askDown")}
+      </span>
+      <input
+        className="min-w-0 flex-1 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-gray-900
+                   dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100"
+        placeholder={t("feedback.placeholder")}
+        maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+        value={comment}
+        onChange={(event) => setComment(event.target.value)}
+      />
+      <button
+        type="submit"
+        disabled={busy || !comment.trim()}
+        className="rounded-lg bg-indigo-600 px-3 py-1.5 font-semibold text-white disabled:opacity-50"
+      >
+        {t("feedback.send")}
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="rounded-lg px-2 py-1.5 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+      >
+        {t("feedback.dismiss")}
+      </button>
+    </form>
+  );
+}
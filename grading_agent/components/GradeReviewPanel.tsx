@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  GRADE_STATUS_LABELS,
+  type GradeEventType,
+  type GradeRecord,
+  type GradeReview,
+} from "@/lib/grade";
+
+type ReviewResult = { ok: true } | { ok: false; errors: string[] };
+
+type GradeReviewPanelProps = {
+  grade: GradeRecord;
+  onReview: (review: GradeReview) => Promise<ReviewResult>;
+  onClose: () => void;
+};
+
+type ScoreDraft = { score: string; remark: string };
+
+const EVENT_LABELS: Record<GradeEventType, string> = {
+  recorded: "Recorded",
+  overridden: "Scores changed",
+  commented: "Comment",
+  approved: "Approved",
+  returned: "Sent back",
+  regrade_requested: "Regrade requested",
+  flagged: "Flagged",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-3 py-2 text-sm text-gray-900 dark:text-gray-100";
+
+const buttonClass =
+  "rounded-lg px-3 py-2 text-sm font-semibold transition-colors disabled:opacity-50";
+
+const toDrafts = (grade: GradeRecord): Record<string, ScoreDraft> =>
+  Object.fromEntries(
+    grade.criteria.map((entry) => [
+      entry.criterion,
+      { score: String(entry.score), remark: entry.remark },
+    ])
+  );
+
+/**
+ * Instructor view of one grade: the submission, the agent's scores next to
+ * editable ones, and the full history. Saving records every changed field.
+ */
+export function GradeReviewPanel({ grade, onReview, onClose }: GradeReviewPanelProps) {
+  const [drafts, setDrafts] = useState(() => toDrafts(grade));
+  const [bonus, setBonus] = useState(String(grade.bonus));
+  const [feedback, setFeedback] = useState(grade.feedback);
+  const [comment, setComment] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const previewTotal = useMemo(
+    () =>
+      Object.values(drafts).reduce((sum, draft) => sum + (Number(draft.score) || 0), 0) +
+      (Number(bonus) || 0),
+    [drafts, bonus]
+  );
+
+  const updateDraft = (criterion: string, patch: Partial<ScoreDraft>) =>
+    setDrafts((current) => ({
+      ...current,
+      [criterion]: { ...current[criterion], ...patch },
+    }));
+
+  const submit = async (decision: GradeReview["decision"]) => {
+    const missing = grade.criteria.filter(({ criterion }) => {
+      const raw = drafts[criterion].score.trim();
+      return raw === "" || !Number.isFinite(Number(raw));
+    });
+    if (missing.length > 0) {
+      setErrors(missing.map(({ criterion }) => `${criterion}: enter a score`));
+      return;
+    }
+    const scores = grade.criteria.map(({ criterion }) => ({
+      criterion,
+      score: Number(drafts[criterion].score),
+      remark: drafts[criterion].remark,
+    }));
+
+    setSaving(true);
+    const result = await onReview({
+      scores,
+      bonus: Number(bonus) || 0,
+      feedback,
+      comment,
+      decision,
+    });
+    setSaving(false);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    setComment("");
+    if (decision) {
+      onClose();
+    }
+  };
+
+  const aiScoreFor = (criterion: string) =>
+    grade.aiScores.criteria.find((entry) => entry.criterion === criterion);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="grade-review-title"
+        className="max-h-[90vh] w-full max-w-5xl space-y-6 overflow-y-auto rounded-2xl border border-gray-200/50
+                   bg-white p-6 shadow-2xl dark:border-gray-800/50 dark:bg-gray-900"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="grade-review-title" className="text-xl font-bold text-gray-900 dark:text-gray-100">
+              {grade.student} · {grade.assignment}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {GRADE_STATUS_LABELS[grade.status]}
+              {grade.flagged && " · Flagged"} · recorded{" "}
+              {new Date(grade.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`${buttonClass} bg-gray-100 text-gray-700 hover:bg-gray-200
+                        dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700`}
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Submission</h3>
+            {grade.submission ? (
+              <pre className="max-h-[28rem] overflow-auto whitespace-pre-wrap rounded-lg bg-gray-50 p-3 text-sm
+                              text-gray-800 dark:bg-gray-950 dark:text-gray-200">
+                {grade.submission}
+              </pre>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                The agent did not attach the submission text.
+              </p>
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Scores</h3>
+            {grade.criteria.map((entry) => {
+              const ai = aiScoreFor(entry.criterion);
+              const draft = drafts[entry.criterion];
+              return (
+                <div key={entry.criterion} className="space-y-1">
+                  <div className="flex items-center gap-3">
+                    <span className="flex-1 text-sm font-medium text-gray-800 dark:text-gray-200">
+                      {entry.criterion}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      AI: {ai ? ai.score : "—"}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={entry.maxPoints ?? undefined}
+                      step="any"
+                      aria-label={`${entry.criterion} score`}
+                      className={`${inputClass} w-24`}
+                      value={draft.score}
+                      onChange={(event) =>
+                        updateDraft(entry.criterion, { score: event.target.value })
+                      }
+                    />
+                    <span className="w-12 text-xs text-gray-500 dark:text-gray-400">
+                      {entry.maxPoints !== null ? `/ ${entry.maxPoints}` : ""}
+                    </span>
+                  </div>
+                  {ai?.remark && ai.remark !== draft.remark && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">AI remark: {ai.remark}</p>
+                  )}
+                  <input
+                    aria-label={`${entry.criterion} remark`}
+                    className={inputClass}
+                    placeholder="Remark"
+                    value={draft.remark}
+                    onChange={(event) =>
+                      updateDraft(entry.criterion, { remark: event.target.value })
+                    }
+                  />
+                </div>
+              );
+            })}
+            <label className="flex items-center gap-3 text-sm text-gray-800 dark:text-gray-200">
+              <span className="flex-1 font-medium">Bonus</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                AI: {grade.aiScores.bonus}
+              </span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className={`${inputClass} w-24`}
+                value={bonus}
+                onChange={(event) => setBonus(event.target.value)}
+              />
+              <span className="w-12" />
+            </label>
+            <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Total: {previewTotal}
+              {grade.maxTotal !== null && ` / ${grade.maxTotal}`}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                (AI: {grade.aiScores.total})
+              </span>
+            </p>
+            <label className="block space-y-1 text-sm font-medium text-gray-800 dark:text-gray-200">
+              Feedback to the student
+              <textarea
+                rows={4}
+                className={inputClass}
+                value={feedback}
+                onChange={(event) => setFeedback(event.target.value)}
+              />
+            </label>
+            <label className="block space-y-1 text-sm font-medium text-gray-800 dark:text-gray-200">
+              Comment
+              <textarea
+                rows={2}
+                className={inputClass}
+                placeholder="Why you changed it, or what to fix when sending back"
+                value={comment}
+                onChange={(event) => setComment(event.target.value)}
+              />
+            </label>
+            {errors.length > 0 && (
+              <ul className="space-y-1 text-sm text-red-600 dark:text-red-400">
+                {errors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                disabled={saving}
+                onClick={() => void submit(null)}
+                className={`${buttonClass} bg-gray-100 text-gray-700 hover:bg-gray-200
+                            dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700`}
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                disabled={saving}
+                onClick={() => void submit("approve")}
+                className={`${buttonClass} bg-emerald-600 text-white hover:bg-emerald-700`}
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                disabled={saving || !comment.trim()}
+                title={comment.trim() ? undefined : "Add a comment explaining what to fix"}
+                onClick={() => void submit("return")}
+                className={`${buttonClass} bg-amber-500 text-white hover:bg-amber-600`}
+              >
+                Send back
+              </button>
+            </div>
+          </section>
+        </div>
+
+        <section className="space-y-2">
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100">History</h3>
+          <ol className="space-y-2 text-sm">
+            {grade.events.map((event, index) => (
+              <li key={`${event.at}-${index}`} className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium">{EVENT_LABELS[event.type]}</span> by {event.by}{" "}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {new Date(event.at).toLocaleString()}
+                </span>
+                {event.note && <p className="text-gray-600 dark:text-gray-400">“{event.note}”</p>}
+                {event.changes && event.changes.length > 0 && (
+                  <ul className="ml-4 list-disc text-gray-600 dark:text-gray-400">
+                    {event.changes.map((change) => (
+                      <li key={change.field}>
+                        {change.field}: {String(change.from) || "—"} → {String(change.to) || "—"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import Link from "next/link";
+import { GradeReviewPanel } from "@/components/GradeReviewPanel";
+import { useGradebook } from "@/hooks/useGradebook";
+import { downloadFile } from "@/lib/download";
+import {
+  GRADE_STATUS_LABELS,
+  REVIEW_QUEUE_STATUSES,
+  gradesToCsv,
+  type GradeRecord,
+  type GradeReview,
+  type GradeStatus,
+} from "@/lib/grade";
+
+type SortKey = "student" | "assignment" | "total" | "createdAt";
+type SortDirection = "asc" | "desc";
+type GradebookView = "submissions" | "students";
+type StatusFilter = "queue" | "all" | GradeStatus;
+
+const SORT_LABELS: Record<SortKey, string> = {
+  student: "Student",
+  assignment: "Assignment",
+  total: "Score",
+  createdAt: "Recorded",
+};
+
+const controlClass =
+  "rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-3 py-2 text-sm text-gray-900 dark:text-gray-100";
+
+const buttonClass =
+  "rounded-lg px-3 py-2 text-sm font-semibold transition-colors " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+function compareGrades(a: GradeRecord, b: GradeRecord, key: SortKey): number {
+  if (key === "total") {
+    return a.total - b.total;
+  }
+  return a[key].localeCompare(b[key]);
+}
+
+const STATUS_BADGE_CLASSES: Record<GradeStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  approved: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+  returned: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  regrade_requested: "bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-200",
+};
+
+const matchesStatus = (grade: GradeRecord, filter: StatusFilter) =>
+  filter === "all" ||
+  (filter === "queue" ? REVIEW_QUEUE_STATUSES.includes(grade.status) : grade.status === filter);
+
+const formatScore = (grade: GradeRecord) =>
+  grade.maxTotal !== null ? `${grade.total} / ${grade.maxTotal}` : String(grade.total);
+
+export function Gradebook() {
+  const { grades, status, error, refresh, reviewGrade } = useGradebook();
+  const [studentQuery, setStudentQuery] = useState("");
+  const [assignmentFilter, setAssignmentFilter] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("createdAt");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [view, setView] = useState<GradebookView>("submissions");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("queue");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const reviewing = grades.find((grade) => grade.id === reviewingId) ?? null;
+  const queueSize = grades.filter((grade) => matchesStatus(grade, "queue")).length;
+
+  const closeReview = useCallback(() => setReviewingId(null), []);
+  const submitReview = useCallback(
+    (review: GradeReview) =>
+      reviewingId
+        ? reviewGrade(reviewingId, review)
+        : Promise.resolve({ ok: false as const, errors: ["No grade selected"] }),
+    [reviewGrade, reviewingId]
+  );
+
+  const assignments = useMemo(
+    () => Array.from(new Set(grades.map((grade) => grade.assignment))).sort(),
+    [grades]
+  );
+
+  const visibleGrades = useMemo(() => {
+    const query = studentQuery.trim().toLowerCase();
+    const filtered = grades.filter(
+      (grade) =>
+        (!query || grade.student.toLowerCase().includes(query)) &&
+        (!assignmentFilter || grade.assignment === assignmentFilter) &&
+        matchesStatus(grade, statusFilter)
+    );
+    const direction = sortDirection === "asc" ? 1 : -1;
+    return filtered.sort((a, b) => direction * compareGrades(a, b, sortKey));
+  }, [grades, studentQuery, assignmentFilter, statusFilter, sortKey, sortDirection]);
+
+  // Latest grade per student and assignment for the pivot view.
+  const studentRows = useMemo(() => {
+    const byStudent = new Map<string, Map<string, GradeRecord>>();
+    for (const grade of visibleGrades) {
+      const row = byStudent.get(grade.student) ?? new Map<string, GradeRecord>();
+      const existing = row.get(grade.assignment);
+      if (!existing || existing.createdAt < grade.createdAt) {
+        row.set(grade.assignment, grade);
+      }
+      byStudent.set(grade.student, row);
+    }
+    return Array.from(byStudent.entries());
+  }, [visibleGrades]);
+
+  const pivotAssignments = assignmentFilter ? [assignmentFilter] : assignments;
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection((current) => (current === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === "createdAt" || key === "total" ? "desc" : "asc");
+    }
+  };
+
+  const exportCsv = () =>
+    downloadFile("gradebook.csv", gradesToCsv(visibleGrades), "text/csv");
+  const exportJson = () =>
+    downloadFile(
+      "gradebook.json",
+      JSON.stringify(visibleGrades, null, 2),
+      "application/json"
+    );
+
+  return (
+    <div className="mx-auto w-full max-w-7xl space-y-6 px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Gradebook</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Grades recorded by the assistant through the <code>record_grade</code> tool.
+            Students see a grade once it is approved.
+          </p>
+        </div>
+        <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+          Back to chat
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          className={controlClass}
+          placeholder="Filter by student"
+          value={studentQuery}
+          onChange={(event) => setStudentQuery(event.target.value)}
+        />
+        <select
+          className={controlClass}
+          value={assignmentFilter}
+          onChange={(event) => setAssignmentFilter(event.target.value)}
+        >
+          <option value="">All assignments</option>
+          {assignments.map((assignment) => (
+            <option key={assignment} value={assignment}>
+              {assignment}
+            </option>
+          ))}
+        </select>
+        <select
+          className={controlClass}
+          value={statusFilter}
+          onChange={(event) => setStatusFilter(event.target.value as StatusFilter)}
+        >
+          <option value="queue">Needs review ({queueSize})</option>
+          <option value="all">All statuses</option>
+          {(Object.keys(GRADE_STATUS_LABELS) as GradeStatus[]).map((key) => (
+            <option key={key} value={key}>
+              {GRADE_STATUS_LABELS[key]}
+            </option>
+          ))}
+        </select>
+        <select
+          className={controlClass}
+          value={view}
+          onChange={(event) => setView(event.target.value as GradebookView)}
+        >
+          <option value="submissions">By submission</option>
+          <option value="students">By student</option>
+        </select>
+        <div className="ml-auto flex gap-2">
+          <button type="button" className={buttonClass} onClick={() => void refresh()}>
+            Refresh
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={exportCsv}
+            disabled={visibleGrades.length === 0}
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={exportJson}
+            disabled={visibleGrades.length === 0}
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {status === "loading" && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading grades...</p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {status === "ready" && visibleGrades.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No grades match.</p>
+      )}
+
+      {visibleGrades.length > 0 && view === "submissions" && (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200/50 bg-white/70
+                        dark:border-gray-800/50 dark:bg-gray-900/70">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 dark:border-gray-800">
+              <tr>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+                  <th key={key} className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">
+                    <button type="button" onClick={() => toggleSort(key)}>
+                      {SORT_LABELS[key]}
+                      {sortKey === key ? (sortDirection === "asc" ? " ▲" : " ▼") : ""}
+                    </button>
+                  </th>
+                ))}
+                <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">
+                  Criteria
+                </th>
+                <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">
+                  Status
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleGrades.map((grade) => (
+                <tr
+                  key={grade.id}
+                  className="border-b border-gray-100 align-top last:border-0 dark:border-gray-800/60"
+                >
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                    {grade.student}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{grade.assignment}</td>
+                  <td className="px-4 py-3 font-semibold text-gray-900 dark:text-gray-100">
+                    {formatScore(grade)}
+                    {grade.bonus > 0 && (
+                      <span className="ml-1 text-xs text-emerald-600">(+{grade.bonus} bonus)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-500 dark:text-gray-400">
+                    {new Date(grade.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3">
+                    <details>
+                      <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+                        {grade.criteria.length} criteria
+                      </summary>
+                      <ul className="mt-2 space-y-1">
+                        {grade.criteria.map((entry) => (
+                          <li key={entry.criterion} className="text-gray-600 dark:text-gray-400">
+                            <span className="font-medium text-gray-800 dark:text-gray-200">
+                              {entry.criterion}: {entry.score}
+                              {entry.maxPoints !== null ? ` / ${entry.maxPoints}` : ""}
+                            </span>
+                            {entry.remark && <span> — {entry.remark}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_BADGE_CLASSES[grade.status]}`}
+                    >
+                      {GRADE_STATUS_LABELS[grade.status]}
+                    </span>
+                    {grade.flagged && (
+                      <span className="ml-1 rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800
+                                       dark:bg-red-900/40 dark:text-red-200">
+                        Flagged
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button
+                      type="button"
+                      className={buttonClass}
+                      onClick={() => setReviewingId(grade.id)}
+                    >
+                      Review
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {visibleGrades.length > 0 && view === "students" && (
+        <div className="overflow-x-auto rounded-2xl border border-gray-200/50 bg-white/70
+                        dark:border-gray-800/50 dark:bg-gray-900/70">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 dark:border-gray-800">
+              <tr>
+                <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Student</th>
+                {pivotAssignments.map((assignment) => (
+                  <th
+                    key={assignment}
+                    className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300"
+                  >
+                    {assignment}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {studentRows.map(([student, row]) => (
+                <tr
+                  key={student}
+                  className="border-b border-gray-100 last:border-0 dark:border-gray-800/60"
+                >
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                    {student}
+                  </td>
+                  {pivotAssignments.map((assignment) => {
+                    const grade = row.get(assignment);
+                    return (
+                      <td key={assignment} className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                        {grade ? formatScore(grade) : "—"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {reviewing && (
+        <GradeReviewPanel
+          key={reviewing.id}
+          grade={reviewing}
+          onReview={submitReview}
+          onClose={closeReview}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useMemo, type ReactNode } from "react";
+import { I18nContext } from "@/hooks/useI18n";
+import { LocaleContext, useLocaleState } from "@/hooks/useLocale";
+import { createI18n } from "@/lib/i18n";
+
+/**
+ * Holds the page's language for every page and keeps `<html lang dir>` in
+ * step with it, so right-to-left locales lay out the whole document.
+ */
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const locale = useLocaleState();
+  const i18n = useMemo(() => createI18n(locale.locale), [locale.locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+    document.documentElement.dir = i18n.direction;
+  }, [i18n]);
+
+  return (
+    <LocaleContext.Provider value={locale}>
+      <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>
+    </LocaleContext.Provider>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { LOCALE_NAMES, UI_LOCALES, isUiLocale, type UiLocale } from "@/lib/i18n";
+
+type LocaleSwitcherProps = {
+  value: UiLocale;
+  onChange: (locale: UiLocale) => void;
+};
+
+export function LocaleSwitcher({ value, onChange }: LocaleSwitcherProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <label
+        htmlFor="locale-switcher"
+        className="text-sm font-semibold text-gray-700 dark:text-gray-300"
+      >
+        {t("toolbar.language")}
+      </label>
+      <select
+        id="locale-switcher"
+        value={value}
+        onChange={(event) => {
+          if (isUiLocale(event.target.value)) {
+            onChange(event.target.value);
+          }
+        }}
+        className="rounded-xl border border-gray-200 dark:border-gray-800 bg-white/80 dark:bg-gray-900/80
+                   px-3 py-2 text-sm text-gray-900 dark:text-gray-100 backdrop-blur-sm"
+      >
+        {UI_LOCALES.map((locale) => (
+          <option key={locale} value={locale} lang={locale}>
+            {LOCALE_NAMES[locale]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "@/hooks/useAuth";
+import { useI18n } from "@/hooks/useI18n";
+import { AUTH_LOGIN_ENDPOINT } from "@/lib/config";
+import type { MessageKey } from "@/lib/messages/en";
+
+/** Why a redirect sent the user back here, from `?error=`. */
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  expired: "login.error.expired",
+  state: "login.error.state",
+  oidc: "login.error.oidc",
+  unavailable: "login.error.unavailable",
+  disabled: "login.error.disabled",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-4 py-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const submitClass =
+  "w-full rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-3 text-sm font-semibold " +
+  "text-white shadow-lg hover:opacity-95 disabled:opacity-60 transition-opacity";
+
+export function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { enabled, provider, user, status, signOut } = useAuth();
+  const { t } = useI18n();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
+  const [errorKey, setErrorKey] = useState<MessageKey | null>(
+    ERROR_MESSAGES[searchParams.get("error") ?? ""] ?? null
+  );
+  const [magicLink, setMagicLink] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (event: FormEvent, body: Record<string, string>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setErrorKey(null);
+    try {
+      const response = await fetch(AUTH_LOGIN_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        link?: string | null;
+        sent?: boolean;
+      };
+      if (!response.ok) {
+        setErrorKey(
+          response.status === 401
+            ? "login.invalidCredentials"
+            : response.status === 400 && provider === "magic-link"
+              ? "login.invalidEmail"
+              : "login.failed"
+        );
+        return;
+      }
+      if (provider === "magic-link") {
+        setLinkSent(Boolean(data.sent));
+        setMagicLink(data.link ?? null);
+        return;
+      }
+      const next = searchParams.get("next");
+      // Only follow same-origin paths to avoid an open redirect.
+      router.push(next && next.startsWith("/") && !next.startsWith("//") ? next : "/");
+      router.refresh();
+    } catch {
+      setErrorKey("login.failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md space-y-6 rounded-[2rem] border border-gray-200/50 bg-white/70 p-8
+                    shadow-[0_20px_60px_-15px_rgba(0,0,0,0.3)] backdrop-blur-xl
+                    dark:border-gray-800/50 dark:bg-gray-900/70">
+      <div className="space-y-1 text-center">
+        <h1 className="text-2xl font-black text-gray-900 dark:text-gray-100">{t("login.title")}</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t("login.subtitle")}
+        </p>
+      </div>
+
+      {status === "loading" && (
+        <p className="text-center text-sm text-gray-500">{t("login.checking")}</p>
+      )}
+
+      {status === "ready" && !enabled && (
+        <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+          {t("login.disabled")}{" "}
+          <Link href="/" className="font-semibold text-indigo-600 dark:text-indigo-400">
+            {t("login.continue")}
+          </Link>
+        </p>
+      )}
+
+      {status === "ready" && enabled && user && (
+        <div className="space-y-3 text-center text-sm text-gray-700 dark:text-gray-300">
+          <p>{t("login.signedInAs", { name: user.name, role: t(`role.${user.role}`) })}</p>
+          <div className="flex justify-center gap-3">
+            <Link href="/" className="font-semibold text-indigo-600 dark:text-indigo-400">
+              {t("login.goToAssistant")}
+            </Link>
+            <button type="button" className="font-semibold text-gray-500" onClick={() => void signOut()}>
+              {t("toolbar.signOut")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status === "ready" && enabled && !user && provider === "local" && (
+        <form className="space-y-4" onSubmit={(event) => void submit(event, { username, password })}>
+          <input
+            className={inputClass}
+            placeholder={t("login.username")}
+            autoComplete="username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+          />
+          <input
+            className={inputClass}
+            type="password"
+            placeholder={t("login.password")}
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+          <button type="submit" className={submitClass} disabled={isSubmitting}>
+            {isSubmitting ? t("login.signingIn") : t("login.submit")}
+          </button>
+        </form>
+      )}
+
+      {status === "ready" && enabled && !user && provider === "magic-link" && (
+        <form className="space-y-4" onSubmit={(event) => void submit(event, { email })}>
+          <input
+            className={inputClass}
+            type="email"
+            placeholder={t("login.emailPlaceholder")}
+            autoComplete="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+          />
+          <button type="submit" className={submitClass} disabled={isSubmitting}>
+            {isSubmitting ? t("login.sending") : t("login.sendLink")}
+          </button>
+          {linkSent && !magicLink && (
+            <p className="text-center text-sm text-emerald-600 dark:text-emerald-400">
+              {t("login.checkInbox")}
+            </p>
+          )}
+          {magicLink && (
+            <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+              {t("login.devLink")}{" "}
+              <a href={magicLink} className="font-semibold text-indigo-600 dark:text-indigo-400">
+                {t("login.openLink")}
+              </a>
+            </p>
+          )}
+        </form>
+      )}
+
+      {status === "ready" && enabled && !user && provider === "oidc" && (
+        <a href="/api/auth/oidc" className={`${submitClass} block text-center`}>
+          {t("login.sso")}
+        </a>
+      )}
+
+      {errorKey && (
+        <p className="text-center text-sm font-medium text-red-600 dark:text-red-400">
+          {t(errorKey)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import Link from "next/link";
+import { useI18n } from "@/hooks/useI18n";
+import { useMyGrades } from "@/hooks/useMyGrades";
+import type { StudentGrade } from "@/lib/grade";
+
+const formatScore = (grade: StudentGrade) =>
+  grade.maxTotal !== null ? `${grade.total} / ${grade.maxTotal}` : String(grade.total);
+
+/** A student's approved grades with feedback and instructor comments. */
+export function MyGrades() {
+  const { grades, status } = useMyGrades();
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-6 px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">{t("toolbar.myGrades")}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {t("grades.subtitle")}
+          </p>
+        </div>
+        <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+          {t("grades.back")}
+        </Link>
+      </div>
+
+      {status === "loading" && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("grades.loading")}</p>
+      )}
+      {status === "error" && (
+        <p className="text-sm text-red-600 dark:text-red-400">{t("grades.loadFailed")}</p>
+      )}
+      {status === "ready" && grades.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("grades.empty")}</p>
+      )}
+
+      {grades.map((grade) => (
+        <article
+          key={grade.id}
+          className="space-y-3 rounded-2xl border border-gray-200/50 bg-white/70 p-5
+                     dark:border-gray-800/50 dark:bg-gray-900/70"
+        >
+          <header className="flex items-baseline justify-between gap-4">
+            <h2 className="font-semibold text-gray-900 dark:text-gray-100">{grade.assignment}</h2>
+            <span className="text-lg font-bold text-gray-900 dark:text-gray-100">
+              {formatScore(grade)}
+            </span>
+          </header>
+          {grade.approvedAt && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t("grades.approved", {
+                date: new Date(grade.approvedAt).toLocaleString(locale),
+              })}
+            </p>
+          )}
+          <ul className="space-y-1 text-sm">
+            {grade.criteria.map((entry) => (
+              <li key={entry.criterion} className="text-gray-600 dark:text-gray-400">
+                <span className="font-medium text-gray-800 dark:text-gray-200">
+                  {entry.criterion}: {entry.score}
+                  {entry.maxPoints !== null ? ` / ${entry.maxPoints}` : ""}
+                </span>
+                {entry.remark && <span> — {entry.remark}</span>}
+              </li>
+            ))}
+            {grade.bonus > 0 && (
+              <li className="text-emerald-600">{t("grades.bonus", { points: grade.bonus })}</li>
+            )}
+          </ul>
+          {grade.feedback && (
+            <p className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">
+              {grade.feedback}
+            </p>
+          )}
+          {grade.comments.length > 0 && (
+            <div className="space-y-1 border-t border-gray-200 pt-3 text-sm dark:border-gray-800">
+              <h3 className="font-medium text-gray-800 dark:text-gray-200">{t("grades.comments")}</h3>
+              {grade.comments.map((comment, index) => (
+                <p key={index} className="text-gray-600 dark:text-gray-400">
+                  {comment}
+                </p>
+              ))}
+            </div>
+          )}
+        </article>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { ModelOption } from "@openai/chatkit";
+import { useI18n } from "@/hooks/useI18n";
+
+type PresetPickerProps = {
+  /** The presets the course offers, as its composer models. */
+  presets: ModelOption[];
+  value: string | null;
+  onChange: (presetId: string) => void;
+};
+
+export function PresetPicker({ presets, value, onChange }: PresetPickerProps) {
+  const { t } = useI18n();
+
+  if (presets.length <= 1) {
+    return null;
+  }
+
+  const selected = presets.find((preset) => preset.id === value);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <label
+        htmlFor="preset-picker"
+        className="text-sm font-semibold text-gray-700 dark:text-gray-300"
+      >
+        {t("preset.picker")}
+      </label>
+      <select
+        id="preset-picker"
+        value={value ?? ""}
+        onChange={(event) => onChange(event.target.value)}
+        title={selected?.description}
+        className="rounded-xl border border-gray-200 dark:border-gray-800 bg-white/80 dark:bg-gray-900/80
+                   px-3 py-2 text-sm text-gray-900 dark:text-gray-100 backdrop-blur-sm"
+      >
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
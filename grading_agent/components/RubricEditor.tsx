@@ -0,0 +1,437 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import { useRubrics } from "@/hooks/useRubrics";
+import {
+  sumCriteriaPoints,
+  validateRubric,
+  type Rubric,
+  type RubricBonus,
+  type RubricCriterion,
+  type RubricInput,
+  type RubricLevel,
+} from "@/lib/rubric";
+
+const newId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID().slice(0, 8)
+    : Math.random().toString(36).slice(2, 10);
+
+const createEmptyCriterion = (): RubricCriterion => ({
+  id: newId(),
+  title: "",
+  description: "",
+  maxPoints: 1,
+  levels: [
+    { label: "Met", points: 1, descriptor: "" },
+    { label: "Not met", points: 0, descriptor: "" },
+  ],
+});
+
+const createEmptyRubric = (): RubricInput => ({
+  title: "",
+  assignment: "",
+  description: "",
+  totalPoints: 1,
+  criteria: [createEmptyCriterion()],
+  bonus: [],
+});
+
+const toInput = (rubric: Rubric): RubricInput => ({
+  title: rubric.title,
+  assignment: rubric.assignment,
+  description: rubric.description,
+  totalPoints: rubric.totalPoints,
+  criteria: rubric.criteria,
+  bonus: rubric.bonus,
+});
+
+const inputClass =
+  "w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const buttonClass =
+  "rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+export function RubricEditor() {
+  const { rubrics, status, error, saveRubric, deleteRubric } = useRubrics();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RubricInput>(() => createEmptyRubric());
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectRubric = useCallback((rubric: Rubric | null) => {
+    setSelectedId(rubric?.id ?? null);
+    setDraft(rubric ? toInput(rubric) : createEmptyRubric());
+    setErrors([]);
+    setNotice(null);
+  }, []);
+
+  const updateDraft = (updates: Partial<RubricInput>) =>
+    setDraft((current) => ({ ...current, ...updates }));
+
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) =>
+    setDraft((current) => ({
+      ...current,
+      criteria: current.criteria.map((criterion, i) =>
+        i === index ? { ...criterion, ...updates } : criterion
+      ),
+    }));
+
+  const updateLevel = (
+    criterionIndex: number,
+    levelIndex: number,
+    updates: Partial<RubricLevel>
+  ) =>
+    setDraft((current) => ({
+      ...current,
+      criteria: current.criteria.map((criterion, i) =>
+        i === criterionIndex
+          ? {
+              ...criterion,
+              levels: criterion.levels.map((level, j) =>
+                j === levelIndex ? { ...level, ...updates } : level
+              ),
+            }
+          : criterion
+      ),
+    }));
+
+  const updateBonus = (index: number, updates: Partial<RubricBonus>) =>
+    setDraft((current) => ({
+      ...current,
+      bonus: current.bonus.map((bonus, i) =>
+        i === index ? { ...bonus, ...updates } : bonus
+      ),
+    }));
+
+  const handleSave = async () => {
+    setNotice(null);
+    const validation = validateRubric(draft);
+    if (!validation.ok) {
+      setErrors(validation.errors);
+      return;
+    }
+    setIsSaving(true);
+    const result = await saveRubric(validation.value, selectedId);
+    setIsSaving(false);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    setSelectedId(result.rubric.id);
+    setDraft(toInput(result.rubric));
+    setNotice("Rubric saved.");
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) {
+      return;
+    }
+    if (await deleteRubric(selectedId)) {
+      selectRubric(null);
+      setNotice("Rubric deleted.");
+    } else {
+      setErrors(["Unable to delete rubric"]);
+    }
+  };
+
+  const criteriaSum = sumCriteriaPoints(draft.criteria);
+  const sumMatches = Math.abs(criteriaSum - draft.totalPoints) < 1e-6;
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 lg:flex-row">
+      <aside className="lg:w-72 shrink-0 space-y-3">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Rubrics</h1>
+          <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+            Back to chat
+          </Link>
+        </div>
+        <button type="button" className={buttonClass} onClick={() => selectRubric(null)}>
+          + New rubric
+        </button>
+        {status === "loading" && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading rubrics...</p>
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <ul className="space-y-1">
+          {rubrics.map((rubric) => (
+            <li key={rubric.id}>
+              <button
+                type="button"
+                onClick={() => selectRubric(rubric)}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition-colors ${
+                  rubric.id === selectedId
+                    ? "bg-indigo-500/10 text-indigo-700 dark:text-indigo-300"
+                    : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                }`}
+              >
+                <span className="block font-semibold">{rubric.title}</span>
+                <span className="text-xs text-gray-500">{rubric.totalPoints} points</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </aside>
+
+      <section className="flex-1 space-y-6 rounded-2xl border border-gray-200/50 bg-white/70 p-6
+                          dark:border-gray-800/50 dark:bg-gray-900/70">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="space-y-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Title
+            <input
+              className={inputClass}
+              value={draft.title}
+              onChange={(event) => updateDraft({ title: event.target.value })}
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Assignment
+            <input
+              className={inputClass}
+              value={draft.assignment}
+              onChange={(event) => updateDraft({ assignment: event.target.value })}
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-gray-700 dark:text-gray-300 md:col-span-2">
+            Description
+            <textarea
+              className={inputClass}
+              rows={2}
+              value={draft.description}
+              onChange={(event) => updateDraft({ description: event.target.value })}
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Total points
+            <input
+              type="number"
+              min={0}
+              step="0.5"
+              className={inputClass}
+              value={draft.totalPoints}
+              onChange={(event) => updateDraft({ totalPoints: Number(event.target.value) })}
+            />
+          </label>
+          <p
+            className={`self-end text-sm font-medium ${
+              sumMatches ? "text-emerald-600 dark:text-emerald-400" : "text-amber-600 dark:text-amber-400"
+            }`}
+          >
+            Criteria total: {criteriaSum} / {draft.totalPoints}
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-bold text-gray-900 dark:text-gray-100">Criteria</h2>
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={() =>
+                updateDraft({ criteria: [...draft.criteria, createEmptyCriterion()] })
+              }
+            >
+              + Add criterion
+            </button>
+          </div>
+          {draft.criteria.map((criterion, criterionIndex) => (
+            <div
+              key={criterion.id || criterionIndex}
+              className="space-y-3 rounded-xl border border-gray-200 p-4 dark:border-gray-800"
+            >
+              <div className="grid gap-3 md:grid-cols-[1fr_8rem_auto]">
+                <input
+                  className={inputClass}
+                  placeholder="Criterion title"
+                  value={criterion.title}
+                  onChange={(event) =>
+                    updateCriterion(criterionIndex, { title: event.target.value })
+                  }
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  aria-label="Max points"
+                  className={inputClass}
+                  value={criterion.maxPoints}
+                  onChange={(event) =>
+                    updateCriterion(criterionIndex, { maxPoints: Number(event.target.value) })
+                  }
+                />
+                <button
+                  type="button"
+                  className={buttonClass}
+                  onClick={() =>
+                    updateDraft({
+                      criteria: draft.criteria.filter((_, i) => i !== criterionIndex),
+                    })
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+              <textarea
+                className={inputClass}
+                rows={2}
+                placeholder="What this criterion measures"
+                value={criterion.description}
+                onChange={(event) =>
+                  updateCriterion(criterionIndex, { description: event.target.value })
+                }
+              />
+              <div className="space-y-2">
+                {criterion.levels.map((level, levelIndex) => (
+                  <div key={levelIndex} className="grid gap-2 md:grid-cols-[8rem_6rem_1fr_auto]">
+                    <input
+                      className={inputClass}
+                      placeholder="Level"
+                      value={level.label}
+                      onChange={(event) =>
+                        updateLevel(criterionIndex, levelIndex, { label: event.target.value })
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      aria-label="Level points"
+                      className={inputClass}
+                      value={level.points}
+                      onChange={(event) =>
+                        updateLevel(criterionIndex, levelIndex, {
+                          points: Number(event.target.value),
+                        })
+                      }
+                    />
+                    <input
+                      className={inputClass}
+                      placeholder="Descriptor"
+                      value={level.descriptor}
+                      onChange={(event) =>
+                        updateLevel(criterionIndex, levelIndex, {
+                          descriptor: event.target.value,
+                        })
+                      }
+                    />
+                    <button
+                      type="button"
+                      className={buttonClass}
+                      onClick={() =>
+                        updateCriterion(criterionIndex, {
+                          levels: criterion.levels.filter((_, j) => j !== levelIndex),
+                        })
+                      }
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className={buttonClass}
+                  onClick={() =>
+                    updateCriterion(criterionIndex, {
+                      levels: [...criterion.levels, { label: "", points: 0, descriptor: "" }],
+                    })
+                  }
+                >
+                  + Add level
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-bold text-gray-900 dark:text-gray-100">Bonus items</h2>
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={() =>
+                updateDraft({
+                  bonus: [...draft.bonus, { id: newId(), title: "", description: "", points: 1 }],
+                })
+              }
+            >
+              + Add bonus
+            </button>
+          </div>
+          {draft.bonus.map((bonus, bonusIndex) => (
+            <div key={bonus.id || bonusIndex} className="grid gap-2 md:grid-cols-[1fr_1fr_6rem_auto]">
+              <input
+                className={inputClass}
+                placeholder="Bonus title"
+                value={bonus.title}
+                onChange={(event) => updateBonus(bonusIndex, { title: event.target.value })}
+              />
+              <input
+                className={inputClass}
+                placeholder="Description"
+                value={bonus.description}
+                onChange={(event) => updateBonus(bonusIndex, { description: event.target.value })}
+              />
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                aria-label="Bonus points"
+                className={inputClass}
+                value={bonus.points}
+                onChange={(event) => updateBonus(bonusIndex, { points: Number(event.target.value) })}
+              />
+              <button
+                type="button"
+                className={buttonClass}
+                onClick={() =>
+                  updateDraft({ bonus: draft.bonus.filter((_, i) => i !== bonusIndex) })
+                }
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="space-y-1 rounded-xl bg-red-500/10 p-4 text-sm text-red-700 dark:text-red-300">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+        {notice && (
+          <p className="text-sm font-medium text-emerald-600 dark:text-emerald-400">{notice}</p>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => void handleSave()}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white
+                       hover:bg-indigo-500 disabled:opacity-60"
+          >
+            {isSaving ? "Saving..." : selectedId ? "Save changes" : "Create rubric"}
+          </button>
+          {selectedId && (
+            <button
+              type="button"
+              onClick={() => void handleDelete()}
+              className="rounded-lg px-4 py-2 text-sm font-semibold text-red-600 hover:bg-red-500/10"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import Link from "next/link";
+import { useI18n } from "@/hooks/useI18n";
+import type { Rubric } from "@/lib/rubric";
+
+type RubricPickerProps = {
+  rubrics: Rubric[];
+  value: string | null;
+  onChange: (rubricId: string) => void;
+  canEdit: boolean;
+};
+
+export function RubricPicker({
+  rubrics,
+  value,
+  onChange,
+  canEdit,
+}: RubricPickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <label
+        htmlFor="rubric-picker"
+        className="text-sm font-semibold text-gray-700 dark:text-gray-300"
+      >
+        {t("rubric.picker")}
+      </label>
+      <select
+        id="rubric-picker"
+        value={value ?? ""}
+        onChange={(event) => onChange(event.target.value)}
+        disabled={rubrics.length === 0}
+        className="rounded-xl border border-gray-200 dark:border-gray-800 bg-white/80 dark:bg-gray-900/80
+                   px-3 py-2 text-sm text-gray-900 dark:text-gray-100 backdrop-blur-sm"
+      >
+        {rubrics.length === 0 && <option value="">{t("rubric.loading")}</option>}
+        {rubrics.map((rubric) => (
+          <option key={rubric.id} value={rubric.id}>
+            {t("rubric.option", { title: rubric.title, points: rubric.totalPoints })}
+          </option>
+        ))}
+      </select>
+      {canEdit && (
+        <Link
+          href="/rubrics"
+          className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          {t("rubric.edit")}
+        </Link>
+      )}
+    </div>
+  );
+}
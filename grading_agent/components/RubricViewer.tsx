@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import type { Rubric } from "@/lib/rubric";
+
+type RubricViewerProps = {
+  rubric: Rubric;
+  onClose: () => void;
+};
+
+/** Read-only rubric dialog opened by the agent's `open_rubric` tool. */
+export function RubricViewer({ rubric, onClose }: RubricViewerProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="rubric-viewer-title"
+        className="max-h-[85vh] w-full max-w-2xl space-y-5 overflow-y-auto rounded-2xl border border-gray-200/50
+                   bg-white p-6 shadow-2xl dark:border-gray-800/50 dark:bg-gray-900"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="rubric-viewer-title" className="text-xl font-bold text-gray-900 dark:text-gray-100">
+              {rubric.title}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {t("rubric.points", { points: rubric.totalPoints })}
+              {rubric.description && ` · ${rubric.description}`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg px-3 py-1.5 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200
+                       dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700"
+          >
+            {t("rubric.close")}
+          </button>
+        </div>
+
+        {rubric.criteria.map((criterion) => (
+          <section key={criterion.id} className="space-y-2">
+            <h3 className="flex justify-between font-semibold text-gray-900 dark:text-gray-100">
+              {criterion.title}
+              <span className="text-sm text-gray-500">
+                {t("rubric.criterionPoints", { points: criterion.maxPoints })}
+              </span>
+            </h3>
+            {criterion.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">{criterion.description}</p>
+            )}
+            <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              {criterion.levels.map((level) => (
+                <li key={level.label} className="flex gap-3">
+                  <span className="w-24 shrink-0 font-medium">
+                    {level.label} ({level.points})
+                  </span>
+                  <span>{level.descriptor}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+
+        {rubric.bonus.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">{t("rubric.bonus")}</h3>
+            <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              {rubric.bonus.map((bonus) => (
+                <li key={bonus.id}>
+                  <span className="font-medium">+{bonus.points}</span> {bonus.title}
+                  {bonus.description && ` - ${bonus.description}`}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
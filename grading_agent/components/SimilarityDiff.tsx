@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SIMILARITY_ENDPOINT, SUBMISSIONS_ENDPOINT } from "@/lib/config";
+import {
+  formatScore,
+  splitHighlights,
+  type SimilarityMatch,
+  type SimilarityReport,
+} from "@/lib/similarity";
+import type { SubmissionRecord } from "@/lib/submission";
+
+type SimilarityDiffProps = {
+  reportId: string;
+  otherId: string;
+  onClose: () => void;
+};
+
+type Comparison = {
+  report: SimilarityReport;
+  match: SimilarityMatch;
+  submission: SubmissionRecord & { text: string };
+  other: SubmissionRecord & { text: string };
+};
+
+const panelClass =
+  "rounded-2xl border border-gray-200/50 bg-white/70 dark:border-gray-800/50 dark:bg-gray-900/70";
+
+function HighlightedText({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges: { start: number; end: number }[];
+}) {
+  return (
+    <pre className="max-h-[70vh] overflow-auto whitespace-pre-wrap break-words p-4 font-sans text-sm
+                    text-gray-800 dark:text-gray-200">
+      {splitHighlights(text, ranges).map((segment, index) =>
+        segment.passage === null ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <mark
+            key={index}
+            title={`Passage ${segment.passage + 1}`}
+            className="rounded bg-amber-200/80 text-gray-900 dark:bg-amber-500/40 dark:text-gray-100"
+          >
+            <sup className="mr-0.5 font-semibold text-amber-800 dark:text-amber-300">
+              {segment.passage + 1}
+            </sup>
+            {segment.text}
+          </mark>
+        )
+      )}
+    </pre>
+  );
+}
+
+/** The two submissions of a match side by side, shared passages numbered alike. */
+export function SimilarityDiff({ reportId, otherId, onClose }: SimilarityDiffProps) {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+    void (async () => {
+      try {
+        const response = await fetch(
+          `${SIMILARITY_ENDPOINT}/${encodeURIComponent(reportId)}?with=${encodeURIComponent(otherId)}`,
+          { cache: "no-store" }
+        );
+        const data = (await response.json().catch(() => ({}))) as Partial<Comparison> & {
+          error?: string;
+        };
+        if (!response.ok) {
+          throw new Error(data.error ?? response.statusText);
+        }
+        if (!cancelled) {
+          setComparison(data as Comparison);
+        }
+      } catch (err) {
+        console.error("Failed to load comparison", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unable to load the comparison");
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId, otherId]);
+
+  const sides = comparison
+    ? [
+        {
+          submission: comparison.submission,
+          ranges: comparison.match.passages.map(({ start, end }) => ({ start, end })),
+        },
+        {
+          submission: comparison.other,
+          ranges: comparison.match.passages.map(({ otherStart, otherEnd }) => ({
+            start: otherStart,
+            end: otherEnd,
+          })),
+        },
+      ]
+    : [];
+
+  return (
+    <section className={`${panelClass} space-y-3 p-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold text-gray-900 dark:text-gray-100">
+          Comparison
+          {comparison && (
+            <span className="ml-2 font-normal text-gray-600 dark:text-gray-400">
+              {formatScore(comparison.match.score)} of this submission appears in the other ·{" "}
+              {comparison.match.passages.length} shared passages
+            </span>
+          )}
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          Close
+        </button>
+      </div>
+      {!comparison && !error && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading comparison...</p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="grid gap-4 lg:grid-cols-2">
+        {sides.map(({ submission, ranges }, index) => (
+          <div
+            key={submission.id}
+            className="rounded-xl border border-gray-200 dark:border-gray-800"
+          >
+            <div className="border-b border-gray-200 px-4 py-2 text-sm dark:border-gray-800">
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {index === 0 ? "Flagged submission" : "Earlier submission"} · {submission.userId}
+              </p>
+              <p className="text-gray-500 dark:text-gray-400">
+                {new Date(submission.createdAt).toLocaleString()}
+                {submission.assignment && <> · {submission.assignment}</>} ·{" "}
+                {submission.files.map((file, fileIndex) => (
+                  <span key={file.id}>
+                    {fileIndex > 0 && ", "}
+                    <a
+                      className="text-indigo-600 hover:underline dark:text-indigo-400"
+                      href={`${SUBMISSIONS_ENDPOINT}/${encodeURIComponent(submission.id)}/files/${encodeURIComponent(file.id)}`}
+                    >
+                      {file.filename}
+                    </a>
+                  </span>
+                ))}
+              </p>
+            </div>
+            <HighlightedText text={submission.text} ranges={ranges} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import Link from "next/link";
+import { SimilarityDiff } from "@/components/SimilarityDiff";
+import { useSimilarity } from "@/hooks/useSimilarity";
+import { formatScore } from "@/lib/similarity";
+
+const buttonClass =
+  "rounded-lg px-3 py-2 text-sm font-semibold transition-colors disabled:opacity-50 " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+const panelClass =
+  "rounded-2xl border border-gray-200/50 bg-white/70 dark:border-gray-800/50 dark:bg-gray-900/70";
+
+/**
+ * Similarity reports for received submissions, flagged ones first by
+ * default. Expanding a report lists its matches; each opens side by side.
+ */
+export function SimilarityReview() {
+  const { reports, threshold, status, error, refresh, rescan } = useSimilarity();
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [compared, setCompared] = useState<{ reportId: string; otherId: string } | null>(null);
+  const [rescanning, setRescanning] = useState(false);
+
+  const visible = reports.filter((report) => !flaggedOnly || report.flagged);
+
+  const runRescan = async () => {
+    setRescanning(true);
+    setCompared(null);
+    await rescan();
+    setRescanning(false);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-7xl space-y-6 px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Similarity</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Each submission is compared with earlier submissions from other students in the same
+            course.
+            {threshold !== null && <> Matches of {formatScore(threshold)} or more are flagged.</>}
+          </p>
+        </div>
+        <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+          Back to chat
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={flaggedOnly}
+            onChange={(event) => setFlaggedOnly(event.target.checked)}
+          />
+          Flagged only
+        </label>
+        <button type="button" className={`${buttonClass} ml-auto`} onClick={() => void refresh()}>
+          Refresh
+        </button>
+        <button
+          type="button"
+          className={buttonClass}
+          disabled={rescanning}
+          onClick={() => void runRescan()}
+        >
+          {rescanning ? "Rescanning..." : "Rescan all"}
+        </button>
+      </div>
+
+      {status === "loading" && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading reports...</p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {compared && (
+        <SimilarityDiff
+          reportId={compared.reportId}
+          otherId={compared.otherId}
+          onClose={() => setCompared(null)}
+        />
+      )}
+
+      <section className={`${panelClass} overflow-x-auto`}>
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 dark:border-gray-800">
+            <tr>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Submitted</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Student</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Course</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Assignment</th>
+              <th className="px-4 py-3 font-semibold text-gray-700 dark:text-gray-300">Highest match</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((report) => (
+              <Fragment key={report.id}>
+                <tr className="border-b border-gray-100 last:border-0 dark:border-gray-800/60">
+                  <td className="px-4 py-3 text-gray-500 dark:text-gray-400">
+                    {new Date(report.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{report.userId}</td>
+                  <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{report.courseSlug}</td>
+                  <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                    {report.assignment ?? "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={
+                        report.flagged
+                          ? "rounded-md bg-red-500/10 px-2 py-0.5 font-semibold text-red-700 dark:text-red-400"
+                          : "text-gray-700 dark:text-gray-300"
+                      }
+                    >
+                      {formatScore(report.score)}
+                      {report.flagged && " · flagged"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {report.matches.length > 0 && (
+                      <button
+                        type="button"
+                        className="text-indigo-600 hover:underline dark:text-indigo-400"
+                        onClick={() =>
+                          setExpandedId((current) => (current === report.id ? null : report.id))
+                        }
+                      >
+                        {expandedId === report.id ? "Hide" : `${report.matches.length} matches`}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === report.id &&
+                  report.matches.map((match) => (
+                    <tr
+                      key={match.submissionId}
+                      className="border-b border-gray-100 bg-gray-50/60 dark:border-gray-800/60 dark:bg-gray-800/30"
+                    >
+                      <td className="px-4 py-2 pl-8 text-gray-500 dark:text-gray-400">
+                        {new Date(match.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{match.userId}</td>
+                      <td className="px-4 py-2 text-gray-500 dark:text-gray-400" colSpan={2}>
+                        {match.passages.length} shared passages, longest {match.passages[0]?.words ?? 0}{" "}
+                        words
+                      </td>
+                      <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                        {formatScore(match.score)}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          type="button"
+                          className="text-indigo-600 hover:underline dark:text-indigo-400"
+                          onClick={() =>
+                            setCompared({ reportId: report.id, otherId: match.submissionId })
+                          }
+                        >
+                          Compare
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+        {status === "ready" && visible.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500 dark:text-gray-400">
+            {flaggedOnly ? "No flagged submissions." : "No submissions checked yet."}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
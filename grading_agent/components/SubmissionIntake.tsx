@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { SUBMISSIONS_ENDPOINT, SUBMISSION_TYPES } from "@/lib/config";
+import {
+  MAX_ASSIGNMENT_LENGTH,
+  MAX_SUBMISSION_FILES,
+  SUBMISSION_FORMATS,
+  buildAcceptAttribute,
+  buildSubmissionPrompt,
+  formatFileSize,
+  parseSubmissionKinds,
+  type SubmissionFileWithText,
+  type SubmissionKind,
+  type SubmissionRecord,
+} from "@/lib/submission";
+
+type SubmissionIntakeProps = {
+  courseSlug: string;
+  /** Sends the grading request for a received submission into the chat. */
+  onStartGrading: (prompt: string) => Promise<void>;
+  onClose: () => void;
+};
+
+const { kinds: ACCEPTED_KINDS } = parseSubmissionKinds(SUBMISSION_TYPES);
+
+const controlClass =
+  "rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-900 " +
+  "dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100";
+
+const buttonClass =
+  "rounded-lg px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+const primaryButtonClass =
+  "rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white disabled:opacity-50";
+
+async function readError(response: Response): Promise<string[]> {
+  const data = (await response.json().catch(() => ({}))) as {
+    error?: string;
+    details?: string[];
+  };
+  return data.details ?? [data.error ?? response.statusText];
+}
+
+/**
+ * Hands files in through `/api/submissions` and shows the receipt: what the
+ * server received, its hash and how much text it could read. Grading starts
+ * only when the student confirms the receipt.
+ */
+export function SubmissionIntake({
+  courseSlug,
+  onStartGrading,
+  onClose,
+}: SubmissionIntakeProps) {
+  const { locale, t, content } = useI18n();
+  const [files, setFiles] = useState<File[]>([]);
+  const [assignment, setAssignment] = useState("");
+  const [receipt, setReceipt] = useState<SubmissionRecord | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const upload = async () => {
+    setBusy(true);
+    setErrors([]);
+    try {
+      const form = new FormData();
+      files.forEach((file) => form.append("files", file));
+      form.append("course", courseSlug);
+      form.append("assignment", assignment);
+      const response = await fetch(SUBMISSIONS_ENDPOINT, { method: "POST", body: form });
+      if (!response.ok) {
+        setErrors(await readError(response));
+        return;
+      }
+      const data = (await response.json()) as { submission: SubmissionRecord };
+      setReceipt(data.submission);
+      setFiles([]);
+    } catch (err) {
+      console.error("Failed to upload submission", err);
+      setErrors([t("intake.unreachable")]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startGrading = async (submission: SubmissionRecord) => {
+    setBusy(true);
+    setErrors([]);
+    try {
+      const response = await fetch(
+        `${SUBMISSIONS_ENDPOINT}/${encodeURIComponent(submission.id)}`,
+        { cache: "no-store" }
+      );
+      if (!response.ok) {
+        setErrors(await readError(response));
+        return;
+      }
+      const data = (await response.json()) as { files: SubmissionFileWithText[] };
+      await onStartGrading(buildSubmissionPrompt(submission, data.files));
+      onClose();
+    } catch (err) {
+      console.error("Failed to start grading", err);
+      setErrors([t("intake.startFailed")]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatLabel = (kind: SubmissionKind) =>
+    content?.formats[kind] ?? SUBMISSION_FORMATS[kind].label;
+
+  return (
+    <section
+      className="space-y-3 border-b border-gray-200/70 bg-white/80 px-6 py-4 text-sm backdrop-blur-xl
+                 dark:border-gray-800/70 dark:bg-gray-900/80"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+          {receipt ? t("intake.received") : t("intake.title")}
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          {t("intake.close")}
+        </button>
+      </div>
+
+      {!receipt && (
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void upload();
+          }}
+        >
+          <input
+            className={`${controlClass} min-w-0 flex-1`}
+            placeholder={t("intake.assignment")}
+            maxLength={MAX_ASSIGNMENT_LENGTH}
+            value={assignment}
+            onChange={(event) => setAssignment(event.target.value)}
+          />
+          <input
+            type="file"
+            multiple
+            accept={buildAcceptAttribute(ACCEPTED_KINDS)}
+            className="text-gray-600 dark:text-gray-400"
+            onChange={(event) => setFiles(Array.from(event.target.files ?? []))}
+          />
+          <button
+            type="submit"
+            className={primaryButtonClass}
+            disabled={busy || files.length === 0 || files.length > MAX_SUBMISSION_FILES}
+          >
+            {busy ? t("intake.uploading") : t("intake.upload")}
+          </button>
+          <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+            {t("intake.limits", {
+              count: MAX_SUBMISSION_FILES,
+              types: ACCEPTED_KINDS.map(formatLabel).join(", "),
+            })}
+          </p>
+        </form>
+      )}
+
+      {receipt && (
+        <div className="space-y-3">
+          <p className="text-gray-600 dark:text-gray-400">
+            {t("intake.receipt")} <span className="font-mono">{receipt.id}</span> ·{" "}
+            {new Date(receipt.createdAt).toLocaleString(locale)}
+            {receipt.assignment && <> · {receipt.assignment}</>}
+          </p>
+          <ul className="space-y-2">
+            {receipt.files.map((file) => (
+              <li
+                key={file.id}
+                className="rounded-lg border border-gray-200 p-2 dark:border-gray-800"
+              >
+                <div className="flex flex-wrap justify-between gap-2">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{file.filename}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {formatLabel(file.kind)} · {formatFileSize(file.size)} ·{" "}
+                    {file.kind === "image"
+                      ? t("intake.noText")
+                      : t("intake.characters", { count: file.textLength.toLocaleString(locale) })}
+                  </span>
+                </div>
+                <p className="font-mono text-xs text-gray-500 dark:text-gray-400" title={file.sha256}>
+                  SHA-256 {file.sha256.slice(0, 16)}…
+                </p>
+                {file.preview && (
+                  <p className="mt-1 line-clamp-2 text-gray-700 dark:text-gray-300">{file.preview}</p>
+                )}
+                {file.warning && (
+                  <p className="mt-1 text-amber-700 dark:text-amber-400">{file.warning}</p>
+                )}
+                {file.duplicateOf && (
+                  <p className="mt-1 text-amber-700 dark:text-amber-400">
+                    {t("intake.duplicate", { id: file.duplicateOf })}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className={primaryButtonClass}
+              disabled={busy}
+              onClick={() => void startGrading(receipt)}
+            >
+              {t("intake.start")}
+            </button>
+            <button type="button" className={buttonClass} onClick={() => setReceipt(null)}>
+              {t("intake.another")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="list-disc ps-5 text-red-600 dark:text-red-400">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
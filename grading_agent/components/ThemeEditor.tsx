@@ -0,0 +1,620 @@
+"use client";
+
+import { useCallback, useRef, useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import type { FontObject } from "@openai/chatkit";
+import { ThemePreview } from "@/components/ThemePreview";
+import { useColorScheme, type ColorScheme } from "@/hooks/useColorScheme";
+import { useThemes } from "@/hooks/useThemes";
+import { downloadFile } from "@/lib/download";
+import {
+  ACCENT_LEVELS,
+  BASE_SIZES,
+  DEFAULT_THEME_INPUT,
+  DENSITIES,
+  RADII,
+  validateThemeInput,
+  type ChatKitTheme,
+  type ChromeColors,
+  type SavedTheme,
+  type ThemeInput,
+} from "@/lib/theme";
+
+type ColorOptions = NonNullable<ChatKitTheme["color"]>;
+type TypographyOptions = NonNullable<ChatKitTheme["typography"]>;
+
+const SCHEMES: ColorScheme[] = ["light", "dark"];
+const TINTS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] as const;
+const SHADES = [-4, -3, -2, -1, 0, 1, 2, 3, 4] as const;
+
+const CHROME_FIELDS: { key: keyof ChromeColors; label: string }[] = [
+  { key: "accentFrom", label: "Gradient start" },
+  { key: "accentVia", label: "Gradient middle" },
+  { key: "accentTo", label: "Gradient end" },
+];
+
+const createDraft = (): ThemeInput =>
+  structuredClone({ ...DEFAULT_THEME_INPUT, name: "" });
+
+const toInput = (theme: SavedTheme): ThemeInput => ({
+  name: theme.name,
+  chatkit: theme.chatkit,
+  chrome: theme.chrome,
+});
+
+const toFileName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "theme";
+
+const inputClass =
+  "w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 " +
+  "px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const buttonClass =
+  "rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors " +
+  "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-200";
+
+const labelClass = "space-y-1 text-sm font-medium text-gray-700 dark:text-gray-300";
+
+type ColorFieldProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+function ColorField({ label, value, onChange }: ColorFieldProps) {
+  return (
+    <label className={labelClass}>
+      {label}
+      <span className="flex gap-2">
+        <input
+          type="color"
+          aria-label={`${label} picker`}
+          className="h-9 w-12 shrink-0 cursor-pointer rounded-lg border border-gray-200 bg-transparent dark:border-gray-700"
+          value={/^#[0-9a-f]{6}$/i.test(value) ? value : "#000000"}
+          onChange={(event) => onChange(event.target.value)}
+        />
+        <input
+          className={inputClass}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      </span>
+    </label>
+  );
+}
+
+export function ThemeEditor() {
+  const { scheme, setScheme } = useColorScheme();
+  const { themes, status, error, saveTheme, deleteTheme } = useThemes();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ThemeInput>(() => createDraft());
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectTheme = useCallback((theme: SavedTheme | null) => {
+    setSelectedId(theme?.id ?? null);
+    setDraft(theme ? toInput(theme) : createDraft());
+    setErrors([]);
+    setNotice(null);
+  }, []);
+
+  const { chatkit, chrome } = draft;
+  const color = chatkit.color ?? {};
+  const typography = chatkit.typography ?? {};
+  const grayscale = color.grayscale ?? { hue: 220, tint: 0 };
+  const accent = color.accent ?? { primary: "#6366f1", level: 1 };
+  const surface = color.surface;
+  const fontSources = typography.fontSources ?? [];
+
+  const updateChatKit = (updates: Partial<ChatKitTheme>) =>
+    setDraft((current) => ({
+      ...current,
+      chatkit: { ...current.chatkit, ...updates },
+    }));
+
+  const updateColor = (updates: Partial<ColorOptions>) =>
+    updateChatKit({ color: { ...color, ...updates } });
+
+  const updateTypography = (updates: Partial<TypographyOptions>) => {
+    const next: TypographyOptions = { ...typography, ...updates };
+    // Blank text fields fall back to ChatKit's own fonts.
+    for (const key of ["fontFamily", "fontFamilyMono"] as const) {
+      if (!next[key]?.trim()) {
+        delete next[key];
+      }
+    }
+    updateChatKit({ typography: next });
+  };
+
+  const updateFontSource = (index: number, updates: Partial<FontObject>) =>
+    updateTypography({
+      fontSources: fontSources.map((font, i) =>
+        i === index ? { ...font, ...updates } : font
+      ),
+    });
+
+  const updateChrome = (key: keyof ChromeColors, value: string) =>
+    setDraft((current) => ({
+      ...current,
+      chrome: { ...current.chrome, [key]: value },
+    }));
+
+  const toggleSurface = (enabled: boolean) => {
+    const next = { ...color };
+    if (enabled) {
+      next.surface = { background: "#ffffff", foreground: "#111827" };
+    } else {
+      delete next.surface;
+    }
+    updateChatKit({ color: next });
+  };
+
+  const handleSave = async () => {
+    setNotice(null);
+    const validation = validateThemeInput(draft);
+    if (!validation.ok) {
+      setErrors(validation.errors);
+      return;
+    }
+    setIsSaving(true);
+    const result = await saveTheme(validation.value, selectedId);
+    setIsSaving(false);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    setSelectedId(result.theme.id);
+    setDraft(toInput(result.theme));
+    setNotice("Theme saved.");
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) {
+      return;
+    }
+    if (await deleteTheme(selectedId)) {
+      selectTheme(null);
+      setNotice("Theme deleted.");
+    } else {
+      setErrors(["Unable to delete theme"]);
+    }
+  };
+
+  const handleExport = () => {
+    const validation = validateThemeInput(draft);
+    if (!validation.ok) {
+      setErrors(validation.errors);
+      return;
+    }
+    downloadFile(
+      `${toFileName(validation.value.name)}.theme.json`,
+      JSON.stringify(validation.value, null, 2),
+      "application/json"
+    );
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setNotice(null);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+    const validation = validateThemeInput(parsed);
+    if (!validation.ok) {
+      setErrors(validation.errors);
+      return;
+    }
+    setSelectedId(null);
+    setDraft(validation.value);
+    setErrors([]);
+    setNotice(`Imported "${validation.value.name}". Save it to keep it.`);
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 lg:flex-row">
+      <aside className="lg:w-72 shrink-0 space-y-3">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Themes</h1>
+          <Link href="/" className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+            Back to chat
+          </Link>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" className={buttonClass} onClick={() => selectTheme(null)}>
+            + New theme
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => importInputRef.current?.click()}
+          >
+            Import JSON
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => setScheme(scheme === "dark" ? "light" : "dark")}
+          >
+            {scheme === "dark" ? "Light page" : "Dark page"}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => void handleImport(event)}
+          />
+        </div>
+        {status === "loading" && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading themes...</p>
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {status === "ready" && themes.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No saved themes yet. Courses use the default look.
+          </p>
+        )}
+        <ul className="space-y-1">
+          {themes.map((theme) => (
+            <li key={theme.id}>
+              <button
+                type="button"
+                onClick={() => selectTheme(theme)}
+                className={`flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left text-sm transition-colors ${
+                  theme.id === selectedId
+                    ? "bg-indigo-500/10 text-indigo-700 dark:text-indigo-300"
+                    : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                }`}
+              >
+                <span
+                  aria-hidden
+                  className="h-4 w-4 shrink-0 rounded-full"
+                  style={{
+                    background: `linear-gradient(135deg, ${theme.chrome.accentFrom}, ${theme.chrome.accentTo})`,
+                  }}
+                />
+                <span className="font-semibold">{theme.name}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </aside>
+
+      <section className="flex-1 space-y-6 rounded-2xl border border-gray-200/50 bg-white/70 p-6
+                          dark:border-gray-800/50 dark:bg-gray-900/70">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className={labelClass}>
+            Name
+            <input
+              className={inputClass}
+              value={draft.name}
+              onChange={(event) =>
+                setDraft((current) => ({ ...current, name: event.target.value }))
+              }
+            />
+          </label>
+          {selectedId && (
+            <p className="self-end text-sm text-gray-600 dark:text-gray-400">
+              Select it in a course file with{" "}
+              <code className="rounded bg-gray-100 px-1.5 py-0.5 text-xs dark:bg-gray-800">
+                &quot;themeId&quot;: &quot;{selectedId}&quot;
+              </code>
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-4 md:flex-row">
+          {SCHEMES.map((previewScheme) => (
+            <ThemePreview
+              key={previewScheme}
+              scheme={previewScheme}
+              chatkit={chatkit}
+              chrome={chrome}
+              isCurrent={previewScheme === scheme}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h2 className="font-bold text-gray-900 dark:text-gray-100">Layout and type</h2>
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className={labelClass}>
+              Radius
+              <select
+                className={inputClass}
+                value={chatkit.radius ?? "pill"}
+                onChange={(event) =>
+                  updateChatKit({ radius: event.target.value as ChatKitTheme["radius"] })
+                }
+              >
+                {RADII.map((radius) => (
+                  <option key={radius} value={radius}>
+                    {radius}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Density
+              <select
+                className={inputClass}
+                value={chatkit.density ?? "normal"}
+                onChange={(event) =>
+                  updateChatKit({ density: event.target.value as ChatKitTheme["density"] })
+                }
+              >
+                {DENSITIES.map((density) => (
+                  <option key={density} value={density}>
+                    {density}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Base font size
+              <select
+                className={inputClass}
+                value={typography.baseSize ?? 16}
+                onChange={(event) =>
+                  updateTypography({
+                    baseSize: Number(event.target.value) as TypographyOptions["baseSize"],
+                  })
+                }
+              >
+                {BASE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size}px
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={`${labelClass} md:col-span-2`}>
+              Font family
+              <input
+                className={inputClass}
+                placeholder="ChatKit default"
+                value={typography.fontFamily ?? ""}
+                onChange={(event) => updateTypography({ fontFamily: event.target.value })}
+              />
+            </label>
+            <label className={labelClass}>
+              Monospace font
+              <input
+                className={inputClass}
+                placeholder="ChatKit default"
+                value={typography.fontFamilyMono ?? ""}
+                onChange={(event) => updateTypography({ fontFamilyMono: event.target.value })}
+              />
+            </label>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                Font sources
+              </h3>
+              <button
+                type="button"
+                className={buttonClass}
+                onClick={() =>
+                  updateTypography({
+                    fontSources: [...fontSources, { family: "", src: "" }],
+                  })
+                }
+              >
+                + Add font
+              </button>
+            </div>
+            {fontSources.map((font, index) => (
+              <div key={index} className="grid gap-2 md:grid-cols-[10rem_1fr_6rem_auto]">
+                <input
+                  className={inputClass}
+                  placeholder="Family"
+                  value={font.family}
+                  onChange={(event) => updateFontSource(index, { family: event.target.value })}
+                />
+                <input
+                  className={inputClass}
+                  placeholder="https://.../font.woff2"
+                  value={font.src}
+                  onChange={(event) => updateFontSource(index, { src: event.target.value })}
+                />
+                <input
+                  className={inputClass}
+                  placeholder="Weight"
+                  value={font.weight ?? ""}
+                  onChange={(event) =>
+                    updateFontSource(index, { weight: event.target.value || undefined })
+                  }
+                />
+                <button
+                  type="button"
+                  className={buttonClass}
+                  onClick={() =>
+                    updateTypography({
+                      fontSources: fontSources.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h2 className="font-bold text-gray-900 dark:text-gray-100">Colors</h2>
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className={labelClass}>
+              Grayscale hue ({grayscale.hue}°)
+              <input
+                type="range"
+                min={0}
+                max={360}
+                className="w-full accent-indigo-600"
+                value={grayscale.hue}
+                onChange={(event) =>
+                  updateColor({ grayscale: { ...grayscale, hue: Number(event.target.value) } })
+                }
+              />
+            </label>
+            <label className={labelClass}>
+              Grayscale tint
+              <select
+                className={inputClass}
+                value={grayscale.tint}
+                onChange={(event) =>
+                  updateColor({
+                    grayscale: {
+                      ...grayscale,
+                      tint: Number(event.target.value) as (typeof TINTS)[number],
+                    },
+                  })
+                }
+              >
+                {TINTS.map((tint) => (
+                  <option key={tint} value={tint}>
+                    {tint}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Grayscale shade
+              <select
+                className={inputClass}
+                value={grayscale.shade ?? 0}
+                onChange={(event) =>
+                  updateColor({
+                    grayscale: {
+                      ...grayscale,
+                      shade: Number(event.target.value) as (typeof SHADES)[number],
+                    },
+                  })
+                }
+              >
+                {SHADES.map((shade) => (
+                  <option key={shade} value={shade}>
+                    {shade}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <ColorField
+              label="Accent"
+              value={accent.primary}
+              onChange={(primary) => updateColor({ accent: { ...accent, primary } })}
+            />
+            <label className={labelClass}>
+              Accent level
+              <select
+                className={inputClass}
+                value={accent.level}
+                onChange={(event) =>
+                  updateColor({
+                    accent: {
+                      ...accent,
+                      level: Number(event.target.value) as (typeof ACCENT_LEVELS)[number],
+                    },
+                  })
+                }
+              >
+                {ACCENT_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={Boolean(surface)}
+              onChange={(event) => toggleSurface(event.target.checked)}
+            />
+            Custom surface colors (used in both schemes)
+          </label>
+          {surface && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <ColorField
+                label="Surface background"
+                value={surface.background}
+                onChange={(background) =>
+                  updateColor({ surface: { ...surface, background } })
+                }
+              />
+              <ColorField
+                label="Surface foreground"
+                value={surface.foreground}
+                onChange={(foreground) =>
+                  updateColor({ surface: { ...surface, foreground } })
+                }
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h2 className="font-bold text-gray-900 dark:text-gray-100">Page chrome</h2>
+          <div className="grid gap-4 md:grid-cols-3">
+            {CHROME_FIELDS.map(({ key, label }) => (
+              <ColorField
+                key={key}
+                label={label}
+                value={chrome[key]}
+                onChange={(value) => updateChrome(key, value)}
+              />
+            ))}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="space-y-1 rounded-xl bg-red-500/10 p-4 text-sm text-red-700 dark:text-red-300">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+        {notice && (
+          <p className="text-sm font-medium text-emerald-600 dark:text-emerald-400">{notice}</p>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => void handleSave()}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white
+                       hover:bg-indigo-500 disabled:opacity-60"
+          >
+            {isSaving ? "Saving..." : selectedId ? "Save changes" : "Create theme"}
+          </button>
+          <button type="button" className={buttonClass} onClick={handleExport}>
+            Export JSON
+          </button>
+          {selectedId && (
+            <button
+              type="button"
+              onClick={() => void handleDelete()}
+              className="rounded-lg px-4 py-2 text-sm font-semibold text-red-600 hover:bg-red-500/10"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
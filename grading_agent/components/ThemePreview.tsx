@@ -0,0 +1,126 @@
+"use client";
+
+import type { ColorScheme } from "@/hooks/useColorScheme";
+import type { ChatKitTheme, ChromeColors } from "@/lib/theme";
+
+type ThemePreviewProps = {
+  scheme: ColorScheme;
+  chatkit: ChatKitTheme;
+  chrome: ChromeColors;
+  isCurrent: boolean;
+};
+
+const RADIUS_PX: Record<NonNullable<ChatKitTheme["radius"]>, number> = {
+  pill: 999,
+  round: 16,
+  soft: 8,
+  sharp: 0,
+};
+
+const DENSITY_REM: Record<NonNullable<ChatKitTheme["density"]>, number> = {
+  compact: 0.5,
+  normal: 0.75,
+  spacious: 1,
+};
+
+/**
+ * Approximates ChatKit's palette from the grayscale and surface options. The
+ * widget derives its exact shades itself; this is close enough to compare
+ * choices without opening a session per scheme.
+ */
+function getPalette(chatkit: ChatKitTheme, scheme: ColorScheme) {
+  const { hue = 220, tint = 0, shade = 0 } = chatkit.color?.grayscale ?? {};
+  const gray = (lightness: number) => `hsl(${hue} ${tint * 4}% ${lightness}%)`;
+  const isDark = scheme === "dark";
+  const background =
+    chatkit.color?.surface?.background ?? gray(isDark ? 12 + shade : 99 - shade);
+  const foreground =
+    chatkit.color?.surface?.foreground ?? gray(isDark ? 94 : 12);
+  return {
+    background,
+    foreground,
+    muted: gray(isDark ? 20 + shade : 94 - shade),
+    border: gray(isDark ? 28 : 86),
+    accent: chatkit.color?.accent?.primary ?? foreground,
+  };
+}
+
+export function ThemePreview({ scheme, chatkit, chrome, isCurrent }: ThemePreviewProps) {
+  const palette = getPalette(chatkit, scheme);
+  const radius = RADIUS_PX[chatkit.radius ?? "pill"];
+  const gap = `${DENSITY_REM[chatkit.density ?? "normal"]}rem`;
+  const bubbleRadius = Math.min(radius, 20);
+
+  return (
+    <figure className="flex-1 min-w-0 space-y-2">
+      <figcaption className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+        {scheme === "dark" ? "Dark" : "Light"}
+        {isCurrent && " (current)"}
+      </figcaption>
+      <div
+        className="relative overflow-hidden border shadow-sm"
+        style={{
+          background: palette.background,
+          color: palette.foreground,
+          borderColor: palette.border,
+          borderRadius: Math.min(radius, 24),
+          fontFamily: chatkit.typography?.fontFamily,
+          fontSize: chatkit.typography?.baseSize ?? 16,
+          colorScheme: scheme,
+        }}
+      >
+        <div
+          className="h-1"
+          style={{
+            background: `linear-gradient(to right, ${chrome.accentFrom}, ${chrome.accentVia}, ${chrome.accentTo})`,
+          }}
+        />
+        <div className="flex flex-col p-4" style={{ gap }}>
+          <p>Here is feedback on criterion 1. Your use case is clearly scoped.</p>
+          <div
+            className="self-end px-3 py-2"
+            style={{
+              background: palette.muted,
+              borderRadius: bubbleRadius,
+            }}
+          >
+            What would raise my score?
+          </div>
+          <div className="flex flex-wrap" style={{ gap }}>
+            {["Submit assignment", "View my grades"].map((label) => (
+              <span
+                key={label}
+                className="border px-3 py-1 text-[0.85em]"
+                style={{ borderColor: palette.border, borderRadius: radius }}
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+          <div
+            className="flex items-center justify-between border py-2 pl-3 pr-2"
+            style={{
+              borderColor: palette.border,
+              borderRadius: Math.min(radius, 28),
+            }}
+          >
+            <span className="opacity-60">Ask a question...</span>
+            <span
+              aria-hidden
+              className="flex h-7 w-7 items-center justify-center rounded-full text-white"
+              style={{ background: palette.accent }}
+            >
+              ↑
+            </span>
+          </div>
+          <p
+            className="text-[0.75em] opacity-60"
+            style={{ fontFamily: chatkit.typography?.fontFamilyMono ?? "monospace" }}
+          >
+            grade = 8 / 10
+          </p>
+        </div>
+      </div>
+    </figure>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { THREADS_ENDPOINT } from "@/lib/config";
+import type { MessageKey } from "@/lib/messages/en";
+import type { TranscriptFormat } from "@/lib/transcript";
+
+type TranscriptExportMenuProps = {
+  /** The thread on screen; `null` before the first message. */
+  threadId: string | null;
+};
+
+const FORMAT_OPTIONS: { format: TranscriptFormat; label: MessageKey }[] = [
+  { format: "markdown", label: "export.markdown" },
+  { format: "json", label: "export.json" },
+  { format: "html", label: "export.html" },
+];
+
+const itemClass =
+  "block w-full rounded-lg px-3 py-2 text-start text-sm text-gray-700 hover:bg-gray-100 " +
+  "dark:text-gray-200 dark:hover:bg-gray-800";
+
+/** Header menu that downloads the current conversation. */
+export function TranscriptExportMenu({ threadId }: TranscriptExportMenuProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [redact, setRedact] = useState(false);
+
+  const exportUrl = (format: TranscriptFormat) =>
+    `${THREADS_ENDPOINT}/${encodeURIComponent(threadId ?? "")}/transcript?format=${format}` +
+    (redact ? "&redact=1" : "");
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        disabled={!threadId}
+        title={threadId ? t("export.title") : t("export.disabled")}
+        onClick={() => setOpen((current) => !current)}
+        className="rounded-xl border border-gray-200/70 bg-white/70 px-3 py-2 text-sm font-semibold
+                   text-gray-700 transition-colors hover:bg-white disabled:opacity-50
+                   dark:border-gray-700/70 dark:bg-gray-900/70 dark:text-gray-200 dark:hover:bg-gray-900"
+      >
+        {t("export.button")}
+      </button>
+      {open && threadId && (
+        <div className="absolute end-0 z-40 mt-2 w-56 space-y-1 rounded-xl border border-gray-200
+                        bg-white p-2 shadow-xl dark:border-gray-700 dark:bg-gray-900">
+          {FORMAT_OPTIONS.map(({ format, label }) => (
+            <a
+              key={format}
+              className={itemClass}
+              href={exportUrl(format)}
+              {...(format === "html"
+                ? { target: "_blank", rel: "noopener" }
+                : { download: true })}
+              onClick={() => setOpen(false)}
+            >
+              {t(label)}
+            </a>
+          ))}
+          <label className="flex items-center gap-2 border-t border-gray-100 px-3 pt-2 text-xs
+                            text-gray-600 dark:border-gray-800 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={redact}
+              onChange={(event) => setRedact(event.target.checked)}
+            />
+            {t("export.redact")}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import type { WorkflowKey } from "@/lib/config";
+import type { WorkflowSummary } from "@/lib/workflowRegistry";
+
+type WorkflowPickerProps = {
+  workflows: WorkflowSummary[];
+  value: WorkflowKey | null;
+  onChange: (key: WorkflowKey) => void;
+};
+
+export function WorkflowPicker({ workflows, value, onChange }: WorkflowPickerProps) {
+  const { t, content } = useI18n();
+
+  if (workflows.length <= 1) {
+    return null;
+  }
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label={t("workflow.picker")}
+      className="grid grid-cols-1 sm:grid-cols-3 gap-3 max-w-4xl mx-auto px-4 mb-4"
+    >
+      {workflows.map((workflow) => {
+        const isSelected = workflow.key === value;
+        const text = content?.workflows[workflow.key] ?? workflow;
+        return (
+          <button
+            key={workflow.key}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            disabled={!workflow.available}
+            onClick={() => onChange(workflow.key)}
+            title={
+              workflow.available
+                ? undefined
+                : t("workflow.enableHint", { envVar: workflow.envVar })
+            }
+            className={`rounded-2xl px-4 py-3 text-start transition-all duration-300 border backdrop-blur-sm
+              ${isSelected
+                ? "bg-indigo-500/10 dark:bg-indigo-500/20 border-indigo-500/40 shadow-lg shadow-indigo-500/10"
+                : "bg-white/60 dark:bg-gray-900/60 border-gray-200/50 dark:border-gray-800/50 hover:bg-white/80 dark:hover:bg-gray-900/80"}
+              disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <span className="block font-bold text-gray-900 dark:text-gray-100">
+              {text.label}
+              {!workflow.available && (
+                <span className="ms-2 text-xs font-medium text-gray-500">
+                  {t("workflow.notConfigured")}
+                </span>
+              )}
+            </span>
+            <span className="block text-sm text-gray-600 dark:text-gray-400">
+              {text.description}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  createAnalyticsPipeline,
+  createConsoleSink,
+  createHttpSink,
+  parseAnalyticsSinks,
+  parseSampleRate,
+  type AnalyticsPipeline,
+  type AnalyticsSink,
+  type AnalyticsTracker,
+} from "@/lib/analytics";
+import {
+  ANALYTICS_PREFERENCES_ENDPOINT,
+  ANALYTICS_SAMPLE_RATE,
+  ANALYTICS_SINKS,
+  ANALYTICS_WEBHOOK_URL,
+  EVENTS_ENDPOINT,
+} from "@/lib/config";
+
+type UseAnalyticsResult = {
+  tracker: AnalyticsTracker;
+  /** `null` until the user's preference has loaded. */
+  optedOut: boolean | null;
+  setOptedOut: (optedOut: boolean) => Promise<void>;
+};
+
+function createConfiguredSinks(): AnalyticsSink[] {
+  return parseAnalyticsSinks(ANALYTICS_SINKS).sinks.flatMap((name) => {
+    switch (name) {
+      case "console":
+        return [createConsoleSink()];
+      case "file":
+        return [createHttpSink("file", EVENTS_ENDPOINT)];
+      case "webhook":
+        return ANALYTICS_WEBHOOK_URL ? [createHttpSink("webhook", ANALYTICS_WEBHOOK_URL)] : [];
+    }
+  });
+}
+
+/**
+ * One analytics pipeline per page, configured from the `NEXT_PUBLIC_ANALYTICS_*`
+ * variables. Nothing is sent until the user's opt-out preference has loaded,
+ * and what is queued is flushed when the page is hidden or closed.
+ */
+export function useAnalytics(): UseAnalyticsResult {
+  const pipelineRef = useRef<AnalyticsPipeline | null>(null);
+  const optedOutRef = useRef<boolean | null>(null);
+  const [optedOut, setOptedOutState] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const pipeline = createAnalyticsPipeline({
+      sinks: createConfiguredSinks(),
+      sampleRate: parseSampleRate(ANALYTICS_SAMPLE_RATE) ?? 1,
+      isOptedOut: () => optedOutRef.current,
+    });
+    pipelineRef.current = pipeline;
+
+    const flushOnHide = () => {
+      if (document.visibilityState === "hidden") {
+        void pipeline.flush({ keepalive: true });
+      }
+    };
+    const flushOnPageHide = () => void pipeline.flush({ keepalive: true });
+    document.addEventListener("visibilitychange", flushOnHide);
+    window.addEventListener("pagehide", flushOnPageHide);
+
+    return () => {
+      document.removeEventListener("visibilitychange", flushOnHide);
+      window.removeEventListener("pagehide", flushOnPageHide);
+      pipeline.dispose();
+      pipelineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      let value = false;
+      try {
+        const response = await fetch(ANALYTICS_PREFERENCES_ENDPOINT, { cache: "no-store" });
+        const data = (await response.json().catch(() => ({}))) as { optedOut?: boolean };
+        // Without a readable preference, stay opted out rather than guess.
+        value = response.ok ? data.optedOut === true : true;
+      } catch (err) {
+        console.warn("Failed to load analytics preference", err);
+        value = true;
+      }
+      if (!cancelled) {
+        optedOutRef.current = value;
+        setOptedOutState(value);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setOptedOut = useCallback(async (next: boolean) => {
+    const previous = optedOutRef.current;
+    optedOutRef.current = next;
+    setOptedOutState(next);
+    try {
+      const response = await fetch(ANALYTICS_PREFERENCES_ENDPOINT, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ optedOut: next }),
+      });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+    } catch (err) {
+      console.error("Failed to save analytics preference", err);
+      optedOutRef.current = previous;
+      setOptedOutState(previous);
+    }
+  }, []);
+
+  // Stable across renders so the chat panel's handlers need not change.
+  const tracker = useMemo<AnalyticsTracker>(
+    () => ({
+      track: (name, properties) => pipelineRef.current?.track(name, properties),
+      setContext: (context) => pipelineRef.current?.setContext(context),
+    }),
+    []
+  );
+
+  return { tracker, optedOut, setOptedOut };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AUTH_SESSION_ENDPOINT } from "@/lib/config";
+import type { AuthProviderId, AuthUser } from "@/lib/auth/types";
+
+type AuthStatus = "loading" | "ready" | "error";
+
+type AuthSession = {
+  enabled: boolean;
+  provider: AuthProviderId | null;
+  user: AuthUser | null;
+};
+
+type UseAuthResult = AuthSession & {
+  status: AuthStatus;
+  refresh: () => Promise<void>;
+  signOut: () => Promise<void>;
+};
+
+export function useAuth(): UseAuthResult {
+  const [session, setSession] = useState<AuthSession>({
+    enabled: false,
+    provider: null,
+    user: null,
+  });
+  const [status, setStatus] = useState<AuthStatus>("loading");
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(AUTH_SESSION_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as Partial<AuthSession> & {
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setSession({
+        enabled: Boolean(data.enabled),
+        provider: data.provider ?? null,
+        user: data.user ?? null,
+      });
+      setStatus("ready");
+    } catch (err) {
+      console.error("Failed to load auth session", err);
+      setStatus("error");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const signOut = useCallback(async () => {
+    await fetch(AUTH_SESSION_ENDPOINT, { method: "DELETE" }).catch(() => null);
+    setSession((current) => ({ ...current, user: null }));
+  }, []);
+
+  return { ...session, status, refresh, signOut };
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { BatchItem, BatchJob } from "@/lib/batch";
+import { BATCHES_ENDPOINT } from "@/lib/config";
+import type { GradeInput } from "@/lib/grade";
+
+/** The submission currently being graded and the session it runs in. */
+export type ActiveBatchSession = {
+  item: BatchItem;
+  clientSecret: string;
+  prompt: string;
+};
+
+type UseBatchRunResult = {
+  batch: BatchJob | null;
+  error: string | null;
+  running: boolean;
+  active: ActiveBatchSession | null;
+  refresh: () => Promise<void>;
+  start: () => Promise<void>;
+  pause: () => void;
+  retryFailed: () => Promise<void>;
+  /** `record_grade` handler for the active session; resolves with the grade id. */
+  recordGrade: (grade: GradeInput) => Promise<string>;
+  /** Called when the active session ends; `failure` says why it has no grade. */
+  endSession: (failure: string | null) => Promise<void>;
+};
+
+// Pause between attempts after ChatKit refused a session.
+const SESSION_RETRY_DELAY_MS = 5_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Works through a batch's queued items one ChatKit session at a time. The
+ * server owns item state, so pausing, closing the page or a failure can all
+ * pick up where they left off.
+ */
+export function useBatchRun(batchId: string | null): UseBatchRunResult {
+  const [batch, setBatch] = useState<BatchJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [active, setActive] = useState<ActiveBatchSession | null>(null);
+
+  const batchUrl = batchId
+    ? `${BATCHES_ENDPOINT}/${encodeURIComponent(batchId)}`
+    : null;
+
+  const refresh = useCallback(async () => {
+    if (!batchUrl) {
+      return;
+    }
+    try {
+      const response = await fetch(batchUrl, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        batch?: BatchJob;
+        error?: string;
+      };
+      if (!response.ok || !data.batch) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setBatch(data.batch);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load batch", err);
+      setError(err instanceof Error ? err.message : "Unable to load batch");
+    }
+  }, [batchUrl]);
+
+  useEffect(() => {
+    setBatch(null);
+    setRunning(false);
+    setActive(null);
+    void refresh();
+  }, [refresh]);
+
+  const updateItem = useCallback((item: BatchItem) => {
+    setBatch((current) =>
+      current
+        ? {
+            ...current,
+            items: current.items.map((entry) => (entry.id === item.id ? item : entry)),
+          }
+        : current
+    );
+  }, []);
+
+  const requeue = useCallback(
+    async (failed: boolean) => {
+      if (!batchUrl) {
+        return;
+      }
+      const response = await fetch(`${batchUrl}/requeue`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ failed }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        batch?: BatchJob;
+        error?: string;
+      };
+      if (!response.ok || !data.batch) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setBatch(data.batch);
+    },
+    [batchUrl]
+  );
+
+  // Starts the next queued item whenever the runner is idle.
+  useEffect(() => {
+    if (!running || active || starting || !batch || !batchUrl) {
+      return;
+    }
+    const next = batch.items.find((item) => item.status === "queued");
+    if (!next) {
+      setRunning(false);
+      return;
+    }
+
+    setStarting(true);
+    void (async () => {
+      try {
+        const response = await fetch(
+          `${batchUrl}/items/${encodeURIComponent(next.id)}/session`,
+          { method: "POST" }
+        );
+        const data = (await response.json().catch(() => ({}))) as {
+          client_secret?: string;
+          prompt?: string;
+          item?: BatchItem | null;
+          error?: string;
+          retryable?: boolean;
+        };
+        if (response.ok && data.client_secret && data.prompt && data.item) {
+          updateItem(data.item);
+          setActive({
+            item: data.item,
+            clientSecret: data.client_secret,
+            prompt: data.prompt,
+          });
+          return;
+        }
+        if (data.item) {
+          updateItem(data.item);
+        } else {
+          await refresh();
+        }
+        if (data.retryable === false) {
+          setRunning(false);
+          setError(data.error ?? response.statusText);
+        } else {
+          await sleep(SESSION_RETRY_DELAY_MS);
+        }
+      } catch (err) {
+        console.error("Failed to start batch session", err);
+        setRunning(false);
+        setError(err instanceof Error ? err.message : "Unable to start a session");
+      } finally {
+        setStarting(false);
+      }
+    })();
+  }, [active, batch, batchUrl, refresh, running, starting, updateItem]);
+
+  const start = useCallback(async () => {
+    setError(null);
+    try {
+      // Nothing runs before `start`, so running items were interrupted.
+      if (batch?.items.some((item) => item.status === "running")) {
+        await requeue(false);
+      }
+      setRunning(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to resume batch");
+    }
+  }, [batch, requeue]);
+
+  const pause = useCallback(() => setRunning(false), []);
+
+  const retryFailed = useCallback(async () => {
+    setError(null);
+    try {
+      await requeue(true);
+      setRunning(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to retry batch");
+    }
+  }, [requeue]);
+
+  const recordGrade = useCallback(
+    async (grade: GradeInput) => {
+      if (!active || !batchUrl) {
+        throw new Error("No submission is being graded");
+      }
+      const response = await fetch(
+        `${batchUrl}/items/${encodeURIComponent(active.item.id)}/result`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ grade }),
+        }
+      );
+      const data = (await response.json().catch(() => ({}))) as {
+        item?: BatchItem | null;
+        grade?: { id: string };
+        error?: string;
+        details?: string[];
+      };
+      if (!response.ok || !data.grade) {
+        throw new Error(
+          data.details?.join("; ") ?? data.error ?? response.statusText
+        );
+      }
+      if (data.item) {
+        updateItem(data.item);
+      }
+      return data.grade.id;
+    },
+    [active, batchUrl, updateItem]
+  );
+
+  const endSession = useCallback(
+    async (failure: string | null) => {
+      if (!active || !batchUrl) {
+        return;
+      }
+      if (failure) {
+        try {
+          const response = await fetch(
+            `${batchUrl}/items/${encodeURIComponent(active.item.id)}/result`,
+            {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ error: failure }),
+            }
+          );
+          const data = (await response.json().catch(() => ({}))) as {
+            item?: BatchItem | null;
+          };
+          if (data.item) {
+            updateItem(data.item);
+          }
+        } catch (err) {
+          console.error("Failed to report batch failure", err);
+        }
+      }
+      setActive(null);
+    },
+    [active, batchUrl, updateItem]
+  );
+
+  return {
+    batch,
+    error,
+    running,
+    active,
+    refresh,
+    start,
+    pause,
+    retryFailed,
+    recordGrade,
+    endSession,
+  };
+}
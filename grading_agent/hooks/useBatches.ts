@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { BatchInput, BatchSummary } from "@/lib/batch";
+import { BATCHES_ENDPOINT } from "@/lib/config";
+
+type BatchesStatus = "loading" | "ready" | "error";
+
+type CreateBatchResult =
+  | { ok: true; id: string }
+  | { ok: false; errors: string[] };
+
+type UseBatchesResult = {
+  batches: BatchSummary[];
+  status: BatchesStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createBatch: (input: BatchInput) => Promise<CreateBatchResult>;
+  deleteBatch: (id: string) => Promise<boolean>;
+};
+
+export function useBatches(): UseBatchesResult {
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [status, setStatus] = useState<BatchesStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(BATCHES_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        batches?: BatchSummary[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setBatches(data.batches ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load batches", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load batches");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const createBatch = useCallback(
+    async (input: BatchInput): Promise<CreateBatchResult> => {
+      try {
+        const response = await fetch(BATCHES_ENDPOINT, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          batch?: { id: string };
+          error?: string;
+          details?: string[];
+        };
+        if (!response.ok || !data.batch) {
+          return {
+            ok: false,
+            errors: data.details ?? [data.error ?? response.statusText],
+          };
+        }
+        await refresh();
+        return { ok: true, id: data.batch.id };
+      } catch (err) {
+        console.error("Failed to create batch", err);
+        return {
+          ok: false,
+          errors: [err instanceof Error ? err.message : "Unable to create batch"],
+        };
+      }
+    },
+    [refresh]
+  );
+
+  const deleteBatch = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(
+        `${BATCHES_ENDPOINT}/${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        return false;
+      }
+      setBatches((current) => current.filter((batch) => batch.id !== id));
+      return true;
+    } catch (err) {
+      console.error("Failed to delete batch", err);
+      return false;
+    }
+  }, []);
+
+  return { batches, status, error, refresh, createBatch, deleteBatch };
+}
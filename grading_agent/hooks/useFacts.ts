@@ -0,0 +1,66 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FACTS_ENDPOINT } from "@/lib/config";
+import type { FactSummary } from "@/lib/facts";
+
+type FactsStatus = "loading" | "ready" | "error";
+
+type UseFactsResult = {
+  facts: FactSummary[];
+  status: FactsStatus;
+  error: string | null;
+  removeFact: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+};
+
+export function useFacts(): UseFactsResult {
+  const [facts, setFacts] = useState<FactSummary[]>([]);
+  const [status, setStatus] = useState<FactsStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(FACTS_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        facts?: FactSummary[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setFacts(data.facts ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load facts", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load facts");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const removeFact = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(
+        `${FACTS_ENDPOINT}/${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok && response.status !== 404) {
+        const data = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        throw new Error(data.error ?? response.statusText);
+      }
+      setFacts((current) => current.filter((fact) => fact.id !== id));
+    } catch (err) {
+      console.error("Failed to delete fact", err);
+      setError(err instanceof Error ? err.message : "Unable to delete fact");
+    }
+  }, []);
+
+  return { facts, status, error, removeFact, refresh };
+}
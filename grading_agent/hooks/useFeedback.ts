@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FEEDBACK_ENDPOINT } from "@/lib/config";
+import type { FeedbackRecord } from "@/lib/feedback";
+
+type FeedbackStatus = "loading" | "ready" | "error";
+
+type UseFeedbackResult = {
+  feedback: FeedbackRecord[];
+  status: FeedbackStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+};
+
+export function useFeedback(): UseFeedbackResult {
+  const [feedback, setFeedback] = useState<FeedbackRecord[]>([]);
+  const [status, setStatus] = useState<FeedbackStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(FEEDBACK_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        feedback?: FeedbackRecord[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setFeedback(data.feedback ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load feedback", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load feedback");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { feedback, status, error, refresh };
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { GRADES_ENDPOINT } from "@/lib/config";
+import type { GradeRecord, GradeReview } from "@/lib/grade";
+
+type GradebookStatus = "loading" | "ready" | "error";
+
+type ReviewGradeResult =
+  | { ok: true; grade: GradeRecord }
+  | { ok: false; errors: string[] };
+
+type UseGradebookResult = {
+  grades: GradeRecord[];
+  status: GradebookStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+  reviewGrade: (id: string, review: GradeReview) => Promise<ReviewGradeResult>;
+};
+
+export function useGradebook(): UseGradebookResult {
+  const [grades, setGrades] = useState<GradeRecord[]>([]);
+  const [status, setStatus] = useState<GradebookStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(GRADES_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        grades?: GradeRecord[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setGrades(data.grades ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load gradebook", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load grades");
+    }
+  }, []);
+
+  const reviewGrade = useCallback(
+    async (id: string, review: GradeReview): Promise<ReviewGradeResult> => {
+      try {
+        const response = await fetch(
+          `${GRADES_ENDPOINT}/${encodeURIComponent(id)}/review`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(review),
+          }
+        );
+        const data = (await response.json().catch(() => ({}))) as {
+          grade?: GradeRecord;
+          error?: string;
+          details?: string[];
+        };
+        if (!response.ok || !data.grade) {
+          return {
+            ok: false,
+            errors: data.details ?? [data.error ?? response.statusText],
+          };
+        }
+        const updated = data.grade;
+        setGrades((current) =>
+          current.map((grade) => (grade.id === updated.id ? updated : grade))
+        );
+        return { ok: true, grade: updated };
+      } catch (err) {
+        console.error("Failed to review grade", err);
+        return { ok: false, errors: ["Unable to save review"] };
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { grades, status, error, refresh, reviewGrade };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { HEALTH_ENDPOINT } from "@/lib/config";
+import type { HealthView } from "@/lib/health";
+
+/** Poll slowly while healthy and more often while something is wrong. */
+const HEALTHY_INTERVAL_MS = 60_000;
+const UNHEALTHY_INTERVAL_MS = 15_000;
+
+/** `null` until the first check completes. */
+export function useHealth(): HealthView | null {
+  const [health, setHealth] = useState<HealthView | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timeoutId: number | undefined;
+
+    const check = async () => {
+      let report: HealthView;
+      try {
+        const response = await fetch(HEALTH_ENDPOINT, { cache: "no-store" });
+        report = (await response.json()) as HealthView;
+      } catch (err) {
+        console.error("Failed to check health", err);
+        report = { status: "degraded", upstream: null };
+      }
+      if (cancelled) {
+        return;
+      }
+      setHealth(report);
+      timeoutId = window.setTimeout(
+        () => void check(),
+        report.status === "ok" ? HEALTHY_INTERVAL_MS : UNHEALTHY_INTERVAL_MS
+      );
+    };
+    void check();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeoutId);
+    };
+  }, []);
+
+  return health;
+}
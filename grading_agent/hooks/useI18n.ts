@@ -0,0 +1,11 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { createI18n, type I18n } from "@/lib/i18n";
+
+/** Provided by `LocaleProvider` in the root layout; English where nothing provides it. */
+export const I18nContext = createContext<I18n>(createI18n("en"));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
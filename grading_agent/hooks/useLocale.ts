@@ -0,0 +1,88 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import type { SupportedLocale } from "@openai/chatkit";
+import {
+  DEFAULT_UI_LOCALE,
+  detectUiLocale,
+  isUiLocale,
+  type UiLocale,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "grading-locale";
+
+function readStoredLocale(): UiLocale | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return isUiLocale(raw) ? raw : null;
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useLocale] Failed to read locale", error);
+    }
+    return null;
+  }
+}
+
+function persistLocale(locale: UiLocale): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useLocale] Failed to persist locale", error);
+    }
+  }
+}
+
+export type UseLocaleResult = {
+  /** The locale the page renders in. */
+  locale: SupportedLocale;
+  /** The user's language: the saved choice, otherwise the browser's. */
+  preferred: UiLocale;
+  /** False until the saved choice or the browser's languages have been read. */
+  ready: boolean;
+  /** Switches the user's language and remembers it on this device. */
+  setPreferred: (locale: UiLocale) => void;
+  /** Shows the page in another locale for this visit, as the agent asks. */
+  setLocale: (locale: SupportedLocale) => void;
+};
+
+/**
+ * The page's language. The saved choice and the browser's languages are
+ * only read after mount so the server render and hydration agree. Called
+ * once, by `LocaleProvider`; components read it with `useLocale`.
+ */
+export function useLocaleState(): UseLocaleResult {
+  const [preferred, setPreferredState] = useState<UiLocale>(DEFAULT_UI_LOCALE);
+  const [override, setOverride] = useState<SupportedLocale | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    setPreferredState(readStoredLocale() ?? detectUiLocale(navigator.languages ?? []));
+    setReady(true);
+  }, []);
+
+  const setPreferred = useCallback((next: UiLocale) => {
+    setPreferredState(next);
+    setOverride(null);
+    persistLocale(next);
+  }, []);
+
+  const setLocale = useCallback((next: SupportedLocale) => {
+    setOverride(next);
+  }, []);
+
+  return { locale: override ?? preferred, preferred, ready, setPreferred, setLocale };
+}
+
+/** Provided by `LocaleProvider` in the root layout; English where nothing provides it. */
+export const LocaleContext = createContext<UseLocaleResult>({
+  locale: DEFAULT_UI_LOCALE,
+  preferred: DEFAULT_UI_LOCALE,
+  ready: true,
+  setPreferred: () => undefined,
+  setLocale: () => undefined,
+});
+
+export function useLocale(): UseLocaleResult {
+  return useContext(LocaleContext);
+}
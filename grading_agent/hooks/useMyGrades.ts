@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { MY_GRADES_ENDPOINT } from "@/lib/config";
+import type { StudentGrade } from "@/lib/grade";
+
+type MyGradesStatus = "loading" | "ready" | "error";
+
+type UseMyGradesResult = {
+  grades: StudentGrade[];
+  status: MyGradesStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+};
+
+export function useMyGrades(): UseMyGradesResult {
+  const [grades, setGrades] = useState<StudentGrade[]>([]);
+  const [status, setStatus] = useState<MyGradesStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(MY_GRADES_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        grades?: StudentGrade[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setGrades(data.grades ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load grades", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load grades");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { grades, status, error, refresh };
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { PRESETS_ENDPOINT } from "@/lib/config";
+
+type PresetStatus = "loading" | "ready" | "error";
+
+type UsePresetPreferenceResult = {
+  /** The user's saved preset id, `null` when none is saved. */
+  preferred: string | null;
+  status: PresetStatus;
+  setPreferred: (presetId: string) => Promise<void>;
+};
+
+/**
+ * The user's default feedback preset, kept on the server so it follows them
+ * across visits and devices. A failed load leaves the course default in place.
+ */
+export function usePresetPreference(): UsePresetPreferenceResult {
+  const [preferred, setPreferredState] = useState<string | null>(null);
+  const [status, setStatus] = useState<PresetStatus>("loading");
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        const response = await fetch(PRESETS_ENDPOINT, { cache: "no-store" });
+        const data = (await response.json().catch(() => ({}))) as {
+          preset?: string | null;
+          error?: string;
+        };
+        if (!response.ok) {
+          throw new Error(data.error ?? response.statusText);
+        }
+        if (!cancelled) {
+          setPreferredState(data.preset ?? null);
+          setStatus("ready");
+        }
+      } catch (err) {
+        console.warn("Failed to load preset preference", err);
+        if (!cancelled) {
+          setStatus("error");
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setPreferred = useCallback(async (presetId: string) => {
+    setPreferredState(presetId);
+    try {
+      const response = await fetch(PRESETS_ENDPOINT, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preset: presetId }),
+      });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+    } catch (err) {
+      // The choice still applies to this visit; it just is not remembered.
+      console.error("Failed to save preset preference", err);
+    }
+  }, []);
+
+  return { preferred, status, setPreferred };
+}
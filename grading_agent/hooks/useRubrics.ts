@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { RUBRICS_ENDPOINT } from "@/lib/config";
+import type { Rubric, RubricInput } from "@/lib/rubric";
+
+type RubricsStatus = "loading" | "ready" | "error";
+
+type SaveRubricResult =
+  | { ok: true; rubric: Rubric }
+  | { ok: false; errors: string[] };
+
+type UseRubricsResult = {
+  rubrics: Rubric[];
+  status: RubricsStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+  saveRubric: (input: RubricInput, id?: string | null) => Promise<SaveRubricResult>;
+  deleteRubric: (id: string) => Promise<boolean>;
+};
+
+export function useRubrics(): UseRubricsResult {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [status, setStatus] = useState<RubricsStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(RUBRICS_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        rubrics?: Rubric[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setRubrics(data.rubrics ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load rubrics", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load rubrics");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const saveRubric = useCallback(
+    async (input: RubricInput, id?: string | null): Promise<SaveRubricResult> => {
+      const url = id
+        ? `${RUBRICS_ENDPOINT}/${encodeURIComponent(id)}`
+        : RUBRICS_ENDPOINT;
+      try {
+        const response = await fetch(url, {
+          method: id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          rubric?: Rubric;
+          error?: string;
+          details?: string[];
+        };
+        if (!response.ok || !data.rubric) {
+          return {
+            ok: false,
+            errors: data.details ?? [data.error ?? response.statusText],
+          };
+        }
+        const saved = data.rubric;
+        setRubrics((current) =>
+          [...current.filter((rubric) => rubric.id !== saved.id), saved].sort(
+            (a, b) => a.title.localeCompare(b.title)
+          )
+        );
+        return { ok: true, rubric: saved };
+      } catch (err) {
+        console.error("Failed to save rubric", err);
+        return {
+          ok: false,
+          errors: [err instanceof Error ? err.message : "Unable to save rubric"],
+        };
+      }
+    },
+    []
+  );
+
+  const deleteRubric = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(
+        `${RUBRICS_ENDPOINT}/${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        return false;
+      }
+      setRubrics((current) => current.filter((rubric) => rubric.id !== id));
+      return true;
+    } catch (err) {
+      console.error("Failed to delete rubric", err);
+      return false;
+    }
+  }, []);
+
+  return { rubrics, status, error, refresh, saveRubric, deleteRubric };
+}
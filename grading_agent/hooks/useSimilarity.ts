@@ -0,0 +1,72 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { SIMILARITY_ENDPOINT } from "@/lib/config";
+import type { SimilarityReport } from "@/lib/similarity";
+
+type SimilarityStatus = "loading" | "ready" | "error";
+
+type UseSimilarityResult = {
+  reports: SimilarityReport[];
+  /** Score at or above which a report is flagged. */
+  threshold: number | null;
+  status: SimilarityStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /** Checks every submission again; returns how many were checked. */
+  rescan: () => Promise<number | null>;
+};
+
+export function useSimilarity(): UseSimilarityResult {
+  const [reports, setReports] = useState<SimilarityReport[]>([]);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [status, setStatus] = useState<SimilarityStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(SIMILARITY_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        reports?: SimilarityReport[];
+        threshold?: number;
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setReports(data.reports ?? []);
+      setThreshold(data.threshold ?? null);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load similarity reports", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load similarity reports");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const rescan = useCallback(async () => {
+    try {
+      const response = await fetch(SIMILARITY_ENDPOINT, { method: "POST" });
+      const data = (await response.json().catch(() => ({}))) as {
+        checked?: number;
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      await refresh();
+      return data.checked ?? 0;
+    } catch (err) {
+      console.error("Failed to rescan submissions", err);
+      setError(err instanceof Error ? err.message : "Unable to rescan submissions");
+      return null;
+    }
+  }, [refresh]);
+
+  return { reports, threshold, status, error, refresh, rescan };
+}
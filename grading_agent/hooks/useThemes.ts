@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { THEMES_ENDPOINT } from "@/lib/config";
+import type { SavedTheme, ThemeInput } from "@/lib/theme";
+
+type ThemesStatus = "loading" | "ready" | "error";
+
+type SaveThemeResult =
+  | { ok: true; theme: SavedTheme }
+  | { ok: false; errors: string[] };
+
+type UseThemesResult = {
+  themes: SavedTheme[];
+  status: ThemesStatus;
+  error: string | null;
+  refresh: () => Promise<void>;
+  saveTheme: (input: ThemeInput, id?: string | null) => Promise<SaveThemeResult>;
+  deleteTheme: (id: string) => Promise<boolean>;
+};
+
+export function useThemes(): UseThemesResult {
+  const [themes, setThemes] = useState<SavedTheme[]>([]);
+  const [status, setStatus] = useState<ThemesStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(THEMES_ENDPOINT, { cache: "no-store" });
+      const data = (await response.json().catch(() => ({}))) as {
+        themes?: SavedTheme[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? response.statusText);
+      }
+      setThemes(data.themes ?? []);
+      setStatus("ready");
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load themes", err);
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Unable to load themes");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const saveTheme = useCallback(
+    async (input: ThemeInput, id?: string | null): Promise<SaveThemeResult> => {
+      const url = id
+        ? `${THEMES_ENDPOINT}/${encodeURIComponent(id)}`
+        : THEMES_ENDPOINT;
+      try {
+        const response = await fetch(url, {
+          method: id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          theme?: SavedTheme;
+          error?: string;
+          details?: string[];
+        };
+        if (!response.ok || !data.theme) {
+          return {
+            ok: false,
+            errors: data.details ?? [data.error ?? response.statusText],
+          };
+        }
+        const saved = data.theme;
+        setThemes((current) =>
+          [...current.filter((theme) => theme.id !== saved.id), saved].sort(
+            (a, b) => a.name.localeCompare(b.name)
+          )
+        );
+        return { ok: true, theme: saved };
+      } catch (err) {
+        console.error("Failed to save theme", err);
+        return {
+          ok: false,
+          errors: [err instanceof Error ? err.message : "Unable to save theme"],
+        };
+      }
+    },
+    []
+  );
+
+  const deleteTheme = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(
+        `${THEMES_ENDPOINT}/${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        return false;
+      }
+      setThemes((current) => current.filter((theme) => theme.id !== id));
+      return true;
+    } catch (err) {
+      console.error("Failed to delete theme", err);
+      return false;
+    }
+  }, []);
+
+  return { themes, status, error, refresh, saveTheme, deleteTheme };
+}
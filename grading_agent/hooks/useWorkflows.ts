@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { WORKFLOWS_ENDPOINT } from "@/lib/config";
+import type { WorkflowSummary } from "@/lib/workflowRegistry";
+
+type WorkflowsStatus = "loading" | "ready" | "error";
+
+type UseWorkflowsResult = {
+  workflows: WorkflowSummary[];
+  status: WorkflowsStatus;
+  error: string | null;
+};
+
+export function useWorkflows(): UseWorkflowsResult {
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+  const [status, setStatus] = useState<WorkflowsStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(WORKFLOWS_ENDPOINT, { cache: "no-store" });
+        const data = (await response.json().catch(() => ({}))) as {
+          workflows?: WorkflowSummary[];
+          error?: string;
+        };
+        if (!response.ok) {
+          throw new Error(data.error ?? response.statusText);
+        }
+        if (!cancelled) {
+          setWorkflows(data.workflows ?? []);
+          setStatus("ready");
+        }
+      } catch (err) {
+        console.error("Failed to load workflows", err);
+        if (!cancelled) {
+          setStatus("error");
+          setError(
+            err instanceof Error ? err.message : "Unable to load workflows"
+          );
+        }
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { workflows, status, error };
+}
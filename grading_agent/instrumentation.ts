@@ -0,0 +1,9 @@
+/** Validates the server environment once when the Node.js server starts. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  const { validateServerConfig, logConfigReport } = await import("@/lib/env");
+  const { createLogger } = await import("@/lib/logger");
+  logConfigReport(validateServerConfig(), createLogger("config"));
+}
@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  categorizeError,
+  createAnalyticsPipeline,
+  parseAnalyticsSinks,
+  parseMessageLog,
+  parseSampleRate,
+  validateAnalyticsBatch,
+  type AnalyticsEvent,
+  type AnalyticsSink,
+} from "@/lib/analytics";
+
+function recordingSink(name = "memory") {
+  const batches: AnalyticsEvent[][] = [];
+  const sink: AnalyticsSink = {
+    name,
+    async send(events) {
+      batches.push(events);
+    },
+  };
+  return { sink, batches };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseAnalyticsSinks", () => {
+  it("defaults to the file sink", () => {
+    expect(parseAnalyticsSinks(undefined)).toEqual({ sinks: ["file"], unknown: [] });
+  });
+
+  it("dedupes known sinks and reports unknown ones", () => {
+    expect(parseAnalyticsSinks(" Console,webhook,console,segment ")).toEqual({
+      sinks: ["console", "webhook"],
+      unknown: ["segment"],
+    });
+  });
+});
+
+describe("parseSampleRate", () => {
+  it.each([
+    [undefined, 1],
+    [" ", 1],
+    ["0.25", 0.25],
+    ["0", 0],
+    ["1.5", null],
+    ["half", null],
+  ])("reads %j as %s", (raw, expected) => {
+    expect(parseSampleRate(raw)).toBe(expected);
+  });
+});
+
+describe("categorizeError", () => {
+  it.each([
+    [new Error("Too many requests"), "rate_limit"],
+    [new Error("Please sign in first"), "auth"],
+    ["Failed to fetch", "network"],
+    [new Error("ChatKit is temporarily unavailable"), "upstream"],
+    [new Error("Missing client secret"), "session"],
+    [new Error("Unknown tool: open_door"), "client_tool"],
+    [new Error("Something odd"), "unknown"],
+  ])("puts %j in %s", (error, expected) => {
+    expect(categorizeError(error)).toBe(expected);
+  });
+});
+
+describe("parseMessageLog", () => {
+  it("reads text and attachments from a composer submit", () => {
+    expect(
+      parseMessageLog("composer.submit", { content: "Hello", attachments: [{}, {}] })
+    ).toEqual({ text: "Hello", attachments: 2 });
+  });
+
+  it("ignores other log events", () => {
+    expect(parseMessageLog("thread.load", { text: "Hello" })).toBeNull();
+  });
+});
+
+describe("validateAnalyticsBatch", () => {
+  const event = {
+    name: "message_sent",
+    at: "2026-01-01T00:00:00.000Z",
+    sessionId: "visit-1",
+    properties: { attachments: 1 },
+  };
+
+  it("fills missing context with null", () => {
+    expect(validateAnalyticsBatch({ events: [event] })).toEqual({
+      ok: true,
+      value: [{ ...event, workflowKey: null, threadId: null }],
+    });
+  });
+
+  it("reports every invalid event", () => {
+    const result = validateAnalyticsBatch({
+      events: [{ ...event, name: "page_view", properties: { nested: {} } }, { ...event, at: "" }],
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "events[0]: unknown event name",
+        "events[0]: properties must be strings, numbers, booleans or null",
+        "events[1]: at must be an ISO date",
+      ],
+    });
+  });
+
+  it("rejects oversized batches", () => {
+    const result = validateAnalyticsBatch({ events: Array.from({ length: 101 }, () => event) });
+
+    expect(result).toEqual({ ok: false, errors: ["A batch holds at most 100 events"] });
+  });
+});
+
+describe("createAnalyticsPipeline", () => {
+  it("batches events with the current context", async () => {
+    const { sink, batches } = recordingSink();
+    const pipeline = createAnalyticsPipeline({
+      sinks: [sink],
+      sampleRate: 1,
+      isOptedOut: () => false,
+      batchSize: 2,
+    });
+
+    pipeline.setContext({ workflowKey: "grading" });
+    pipeline.track("session_start");
+    pipeline.setContext({ threadId: "cthr_1" });
+    pipeline.track("message_sent", { attachments: 0 });
+    await pipeline.flush();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toMatchObject([
+      { name: "session_start", workflowKey: "grading", threadId: null },
+      { name: "message_sent", workflowKey: "grading", threadId: "cthr_1" },
+    ]);
+    expect(batches[0][0].sessionId).toBe(batches[0][1].sessionId);
+  });
+
+  it("tracks nothing for visits outside the sample", async () => {
+    const { sink, batches } = recordingSink();
+    const pipeline = createAnalyticsPipeline({
+      sinks: [sink],
+      sampleRate: 0,
+      isOptedOut: () => false,
+    });
+
+    pipeline.track("session_start");
+    await pipeline.flush();
+
+    expect(batches).toEqual([]);
+  });
+
+  it("holds events until the opt-out preference loads and drops them on opt-out", async () => {
+    const { sink, batches } = recordingSink();
+    let optedOut: boolean | null = null;
+    const pipeline = createAnalyticsPipeline({
+      sinks: [sink],
+      sampleRate: 1,
+      isOptedOut: () => optedOut,
+    });
+
+    pipeline.track("session_start");
+    await pipeline.flush();
+    expect(batches).toEqual([]);
+
+    optedOut = true;
+    await pipeline.flush();
+    optedOut = false;
+    await pipeline.flush();
+
+    expect(batches).toEqual([]);
+  });
+
+  it("still delivers to the other sinks when one fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { sink, batches } = recordingSink();
+    const failing: AnalyticsSink = {
+      name: "webhook",
+      send: () => Promise.reject(new Error("webhook sink answered 500")),
+    };
+    const pipeline = createAnalyticsPipeline({
+      sinks: [failing, sink],
+      sampleRate: 1,
+      isOptedOut: () => false,
+    });
+
+    pipeline.track("error", { category: "network" });
+    await pipeline.flush();
+
+    expect(batches).toHaveLength(1);
+    expect(console.warn).toHaveBeenCalledWith(
+      "[analytics] webhook sink failed",
+      expect.any(Error)
+    );
+  });
+});
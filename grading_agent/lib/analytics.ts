@@ -0,0 +1,308 @@
+/**
+ * Client analytics for the chat: ChatKit lifecycle events are tracked into a
+ * pipeline that samples them, batches them and ships each batch to every
+ * configured sink. Sinks are plain objects, so adding one (a vendor SDK,
+ * say) only means implementing `AnalyticsSink`.
+ */
+
+export const ANALYTICS_EVENT_NAMES = [
+  "session_start",
+  "thread_change",
+  "message_sent",
+  "starter_prompt_click",
+  "response_end",
+  "error",
+] as const;
+
+export type AnalyticsEventName = (typeof ANALYTICS_EVENT_NAMES)[number];
+
+export type AnalyticsValue = string | number | boolean | null;
+
+export type AnalyticsEvent = {
+  name: AnalyticsEventName;
+  at: string;
+  /** Random id per page load, to group one visit's events. */
+  sessionId: string;
+  workflowKey: string | null;
+  threadId: string | null;
+  properties: Record<string, AnalyticsValue>;
+};
+
+export type AnalyticsContext = Pick<AnalyticsEvent, "workflowKey" | "threadId">;
+
+export interface AnalyticsSink {
+  readonly name: string;
+  send(events: AnalyticsEvent[], options: { keepalive: boolean }): Promise<void>;
+}
+
+export const ANALYTICS_SINK_NAMES = ["console", "file", "webhook"] as const;
+
+export type AnalyticsSinkName = (typeof ANALYTICS_SINK_NAMES)[number];
+
+export const MAX_ANALYTICS_BATCH = 100;
+
+export const isAnalyticsEventName = (value: unknown): value is AnalyticsEventName =>
+  typeof value === "string" &&
+  (ANALYTICS_EVENT_NAMES as readonly string[]).includes(value);
+
+/** Parses a comma-separated sink list; unknown names are returned separately. */
+export function parseAnalyticsSinks(raw: string | undefined): {
+  sinks: AnalyticsSinkName[];
+  unknown: string[];
+} {
+  const names = (raw ?? "file")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const sinks = names.filter((name): name is AnalyticsSinkName =>
+    (ANALYTICS_SINK_NAMES as readonly string[]).includes(name)
+  );
+  return {
+    sinks: Array.from(new Set(sinks)),
+    unknown: names.filter((name) => !sinks.includes(name as AnalyticsSinkName)),
+  };
+}
+
+/** The share of visits to keep, 0–1; unset keeps all, invalid is `null`. */
+export function parseSampleRate(raw: string | undefined): number | null {
+  if (!raw?.trim()) {
+    return 1;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : null;
+}
+
+export type ErrorCategory =
+  | "rate_limit"
+  | "auth"
+  | "network"
+  | "upstream"
+  | "session"
+  | "script"
+  | "client_tool"
+  | "unknown";
+
+/** Buckets an error message so dashboards can count causes, not strings. */
+export function categorizeError(error: unknown): ErrorCategory {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  if (/too many|rate limit|429/.test(message)) {
+    return "rate_limit";
+  }
+  if (/sign in|unauthori[sz]ed|forbidden|401|403|api key/.test(message)) {
+    return "auth";
+  }
+  if (/network|failed to fetch|timed? ?out|offline/.test(message)) {
+    return "network";
+  }
+  if (/unavailable|server had an error|50[0-4]/.test(message)) {
+    return "upstream";
+  }
+  if (/session|client secret/.test(message)) {
+    return "session";
+  }
+  if (/chatkit\.js|web component|script/.test(message)) {
+    return "script";
+  }
+  if (/tool/.test(message)) {
+    return "client_tool";
+  }
+  return "unknown";
+}
+
+/**
+ * Reads a composer submit out of a `chatkit.log` event. As with feedback
+ * (see `lib/feedback.ts`) the payload is undocumented, so this is lenient
+ * about names and shapes and returns `null` for anything else.
+ */
+export function parseMessageLog(
+  name: string,
+  data: Record<string, unknown> | undefined
+): { text: string | null; attachments: number } | null {
+  if (!/(send|submit).*message|message.*(send|sent|submit)|composer.*submit/i.test(name)) {
+    return null;
+  }
+  const text = data?.text ?? data?.content;
+  const attachments = data?.attachments;
+  return {
+    text: typeof text === "string" ? text : null,
+    attachments: Array.isArray(attachments)
+      ? attachments.length
+      : typeof attachments === "number"
+        ? attachments
+        : 0,
+  };
+}
+
+export type AnalyticsValidationResult =
+  | { ok: true; value: AnalyticsEvent[] }
+  | { ok: false; errors: string[] };
+
+const isAnalyticsValue = (value: unknown): value is AnalyticsValue =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+/** Checks a batch posted to `/api/events`. */
+export function validateAnalyticsBatch(input: unknown): AnalyticsValidationResult {
+  const events = (input as { events?: unknown } | null)?.events;
+  if (!Array.isArray(events)) {
+    return { ok: false, errors: ["events must be an array"] };
+  }
+  if (events.length > MAX_ANALYTICS_BATCH) {
+    return { ok: false, errors: [`A batch holds at most ${MAX_ANALYTICS_BATCH} events`] };
+  }
+  const errors: string[] = [];
+  const value = events.map((item, index): AnalyticsEvent => {
+    const raw = (item ?? {}) as Record<string, unknown>;
+    if (!isAnalyticsEventName(raw.name)) {
+      errors.push(`events[${index}]: unknown event name`);
+    }
+    if (typeof raw.at !== "string" || Number.isNaN(Date.parse(raw.at))) {
+      errors.push(`events[${index}]: at must be an ISO date`);
+    }
+    if (typeof raw.sessionId !== "string" || !raw.sessionId) {
+      errors.push(`events[${index}]: sessionId is required`);
+    }
+    const properties =
+      raw.properties && typeof raw.properties === "object" ? raw.properties : {};
+    if (!Object.values(properties).every(isAnalyticsValue)) {
+      errors.push(`events[${index}]: properties must be strings, numbers, booleans or null`);
+    }
+    return {
+      name: raw.name as AnalyticsEventName,
+      at: raw.at as string,
+      sessionId: raw.sessionId as string,
+      workflowKey: typeof raw.workflowKey === "string" ? raw.workflowKey : null,
+      threadId: typeof raw.threadId === "string" ? raw.threadId : null,
+      properties: properties as Record<string, AnalyticsValue>,
+    };
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+export function createConsoleSink(): AnalyticsSink {
+  return {
+    name: "console",
+    async send(events) {
+      for (const event of events) {
+        console.info("[analytics]", event.name, event);
+      }
+    },
+  };
+}
+
+/** POSTs `{ events }` as JSON; used for `/api/events` and webhooks alike. */
+export function createHttpSink(name: string, url: string): AnalyticsSink {
+  return {
+    name,
+    async send(events, { keepalive }) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ events }),
+        keepalive,
+      });
+      if (!response.ok) {
+        throw new Error(`${name} sink answered ${response.status}`);
+      }
+    },
+  };
+}
+
+export type AnalyticsPipelineOptions = {
+  sinks: AnalyticsSink[];
+  sampleRate: number;
+  /**
+   * Checked on every event, so opting out takes effect immediately. `null`
+   * while the preference is loading: events queue but are not sent.
+   */
+  isOptedOut: () => boolean | null;
+  batchSize?: number;
+  flushIntervalMs?: number;
+};
+
+/** The part of the pipeline the chat panel reports into. */
+export type AnalyticsTracker = Pick<AnalyticsPipeline, "track" | "setContext">;
+
+export type AnalyticsPipeline = {
+  track: (name: AnalyticsEventName, properties?: Record<string, AnalyticsValue>) => void;
+  setContext: (context: Partial<AnalyticsContext>) => void;
+  /** Sends what is queued; `keepalive` lets it outlive the page. */
+  flush: (options?: { keepalive: boolean }) => Promise<void>;
+  /** Flushes and stops the timer. */
+  dispose: () => void;
+};
+
+const createSessionId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+
+export function createAnalyticsPipeline({
+  sinks,
+  sampleRate,
+  isOptedOut,
+  batchSize = 20,
+  flushIntervalMs = 10_000,
+}: AnalyticsPipelineOptions): AnalyticsPipeline {
+  const sessionId = createSessionId();
+  // Sampled per visit rather than per event, so a kept visit is complete.
+  const sampled = Math.random() < sampleRate;
+  let context: AnalyticsContext = { workflowKey: null, threadId: null };
+  let queue: AnalyticsEvent[] = [];
+
+  const flush = async ({ keepalive } = { keepalive: false }) => {
+    const optedOut = isOptedOut();
+    if (optedOut) {
+      // Opting out also drops what was queued before.
+      queue = [];
+    }
+    if (optedOut === null || queue.length === 0) {
+      return;
+    }
+    const batch = queue.slice(0, MAX_ANALYTICS_BATCH);
+    queue = queue.slice(batch.length);
+    // One failing sink must not cost the others their events.
+    await Promise.all(
+      sinks.map((sink) =>
+        sink.send(batch, { keepalive }).catch((error: unknown) => {
+          console.warn(`[analytics] ${sink.name} sink failed`, error);
+        })
+      )
+    );
+    if (queue.length > 0) {
+      await flush({ keepalive });
+    }
+  };
+
+  const timer =
+    typeof window !== "undefined"
+      ? window.setInterval(() => void flush(), flushIntervalMs)
+      : null;
+
+  return {
+    track(name, properties = {}) {
+      if (!sampled || sinks.length === 0 || isOptedOut() === true) {
+        return;
+      }
+      queue.push({
+        name,
+        at: new Date().toISOString(),
+        sessionId,
+        ...context,
+        properties,
+      });
+      if (queue.length >= batchSize) {
+        void flush();
+      }
+    },
+    setContext(next) {
+      context = { ...context, ...next };
+    },
+    flush,
+    dispose() {
+      if (timer !== null) {
+        window.clearInterval(timer);
+      }
+      void flush({ keepalive: true });
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import type { AnalyticsEvent } from "@/lib/analytics";
+import { appendRecords, getCollection } from "@/lib/store";
+
+/** Events as written to `events.jsonl`. */
+export type StoredAnalyticsEvent = AnalyticsEvent & {
+  userId: string;
+  receivedAt: string;
+};
+
+type AnalyticsPreference = {
+  /** The user id the preference belongs to. */
+  id: string;
+  optedOut: boolean;
+  updatedAt: string;
+};
+
+const preferences = () => getCollection<AnalyticsPreference>("analyticsPreferences");
+
+export async function recordAnalyticsEvents(
+  userId: string,
+  events: AnalyticsEvent[]
+): Promise<void> {
+  const receivedAt = new Date().toISOString();
+  const stored: StoredAnalyticsEvent[] = events.map((event) => ({
+    ...event,
+    userId,
+    receivedAt,
+  }));
+  await appendRecords("events", stored);
+}
+
+export async function isAnalyticsOptedOut(userId: string): Promise<boolean> {
+  return (await preferences().get(userId))?.optedOut ?? false;
+}
+
+export async function setAnalyticsOptOut(
+  userId: string,
+  optedOut: boolean
+): Promise<void> {
+  await preferences().put({
+    id: userId,
+    optedOut,
+    updatedAt: new Date().toISOString(),
+  });
+}
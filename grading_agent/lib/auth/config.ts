@@ -0,0 +1,53 @@
+import type { AuthProviderId, Role } from "@/lib/auth/types";
+
+export type AuthConfig = {
+  provider: AuthProviderId;
+  secret: string;
+};
+
+const PROVIDERS: AuthProviderId[] = ["local", "magic-link", "oidc"];
+
+/**
+ * Reads `AUTH_PROVIDER` and `AUTH_SECRET`. Auth is disabled (anonymous
+ * sessions, as before) unless a provider is named.
+ */
+export function getAuthConfig(): AuthConfig | null {
+  const provider = process.env.AUTH_PROVIDER?.trim().toLowerCase();
+  if (!provider || provider === "none") {
+    return null;
+  }
+  if (!PROVIDERS.includes(provider as AuthProviderId)) {
+    throw new Error(
+      `AUTH_PROVIDER must be one of ${PROVIDERS.join(", ")} or "none"`
+    );
+  }
+  const secret = process.env.AUTH_SECRET?.trim();
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required when AUTH_PROVIDER is set");
+  }
+  return { provider: provider as AuthProviderId, secret };
+}
+
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.AUTH_PROVIDER?.trim()) &&
+    process.env.AUTH_PROVIDER?.trim().toLowerCase() !== "none";
+}
+
+function readEmailList(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Role for providers that only know an email address. */
+export function roleForEmail(email: string): Role {
+  const normalized = email.trim().toLowerCase();
+  if (readEmailList("AUTH_ADMIN_EMAILS").includes(normalized)) {
+    return "admin";
+  }
+  if (readEmailList("AUTH_INSTRUCTOR_EMAILS").includes(normalized)) {
+    return "instructor";
+  }
+  return "student";
+}
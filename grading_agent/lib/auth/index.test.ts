@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireUser, resolveIdentity } from "@/lib/auth";
+
+const request = () => new Request("http://localhost/api/grades");
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("requireUser with auth disabled", () => {
+  it("lets anonymous visitors use student routes", async () => {
+    expect(await requireUser(request())).toEqual({ ok: true, user: null });
+
+    const identity = await resolveIdentity(request());
+    expect(identity.ok && identity.user).toBeNull();
+  });
+
+  it.each(["instructor", "admin"] as const)("refuses %s routes", async (role) => {
+    const check = await requireUser(request(), role);
+
+    expect(check.ok).toBe(false);
+    const response = !check.ok ? check.response : null;
+    expect(response?.status).toBe(403);
+    expect((await response?.json()).error).toContain("AUTH_PROVIDER");
+  });
+});
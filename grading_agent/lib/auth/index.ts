@@ -0,0 +1,219 @@
+import { getAuthConfig, type AuthConfig } from "@/lib/auth/config";
+import { createLocalProvider } from "@/lib/auth/providers/local";
+import { createMagicLinkProvider } from "@/lib/auth/providers/magicLink";
+import { createOidcProvider } from "@/lib/auth/providers/oidc";
+import {
+  hasRole,
+  isRole,
+  type AuthProvider,
+  type AuthUser,
+  type OidcTransaction,
+  type Role,
+} from "@/lib/auth/types";
+import { JSON_HEADERS, buildJsonResponse } from "@/lib/http";
+import { createLogger } from "@/lib/logger";
+import {
+  decodeCookieValue,
+  getCookieValue,
+  resolveUserId,
+  serializeCookie,
+} from "@/lib/session";
+import { signToken, verifyToken } from "@/lib/signing";
+
+export { getAuthConfig, isAuthEnabled } from "@/lib/auth/config";
+export { createOidcTransaction } from "@/lib/auth/providers/oidc";
+export { AuthInputError, hasRole } from "@/lib/auth/types";
+export type { AuthProvider, AuthUser, Role } from "@/lib/auth/types";
+
+export const AUTH_COOKIE_NAME = "agentkit_auth";
+export const OIDC_STATE_COOKIE = "agentkit_oidc_state";
+const AUTH_SESSION_MAX_AGE = 60 * 60 * 8; // 8 hours
+const OIDC_STATE_MAX_AGE = 60 * 10; // 10 minutes
+
+const log = createLogger("auth");
+
+export function getAuthProvider(config: AuthConfig): AuthProvider {
+  switch (config.provider) {
+    case "local":
+      return createLocalProvider();
+    case "magic-link":
+      return createMagicLinkProvider(config.secret);
+    case "oidc":
+      return createOidcProvider();
+  }
+}
+
+export async function createAuthCookie(
+  config: AuthConfig,
+  user: AuthUser
+): Promise<string> {
+  const token = await signToken({ user }, config.secret, AUTH_SESSION_MAX_AGE);
+  return serializeCookie(AUTH_COOKIE_NAME, token, AUTH_SESSION_MAX_AGE);
+}
+
+export function clearAuthCookie(): string {
+  return serializeCookie(AUTH_COOKIE_NAME, "", 0);
+}
+
+/** Keeps an OIDC sign-in attempt, signed, until the issuer redirects back. */
+export async function createOidcStateCookie(
+  config: AuthConfig,
+  transaction: OidcTransaction
+): Promise<string> {
+  const token = await signToken(transaction, config.secret, OIDC_STATE_MAX_AGE);
+  return serializeCookie(OIDC_STATE_COOKIE, token, OIDC_STATE_MAX_AGE);
+}
+
+export function clearOidcStateCookie(): string {
+  return serializeCookie(OIDC_STATE_COOKIE, "", 0);
+}
+
+/** The sign-in attempt this browser started; `null` when missing, forged or expired. */
+export async function readOidcStateCookie(
+  request: Request,
+  config: AuthConfig
+): Promise<OidcTransaction | null> {
+  const raw = getCookieValue(request.headers.get("cookie"), OIDC_STATE_COOKIE);
+  const token = raw ? decodeCookieValue(raw) : null;
+  if (!token) {
+    return null;
+  }
+  const payload = await verifyToken<Partial<OidcTransaction>>(token, config.secret);
+  if (
+    typeof payload?.state !== "string" ||
+    typeof payload.nonce !== "string" ||
+    typeof payload.codeVerifier !== "string"
+  ) {
+    return null;
+  }
+  return {
+    state: payload.state,
+    nonce: payload.nonce,
+    codeVerifier: payload.codeVerifier,
+  };
+}
+
+function isAuthUser(value: unknown): value is AuthUser {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const user = value as Record<string, unknown>;
+  return (
+    typeof user.id === "string" &&
+    typeof user.name === "string" &&
+    isRole(user.role) &&
+    typeof user.provider === "string"
+  );
+}
+
+/** Returns the signed-in user, or `null` when auth is off or nobody is signed in. */
+export async function getRequestUser(
+  request: Request
+): Promise<AuthUser | null> {
+  const config = getAuthConfig();
+  if (!config) {
+    return null;
+  }
+  const raw = getCookieValue(request.headers.get("cookie"), AUTH_COOKIE_NAME);
+  const token = raw ? decodeCookieValue(raw) : null;
+  if (!token) {
+    return null;
+  }
+  const payload = await verifyToken<{ user?: unknown }>(token, config.secret);
+  return payload && isAuthUser(payload.user) ? payload.user : null;
+}
+
+export type AuthCheck =
+  | { ok: true; user: AuthUser | null }
+  | { ok: false; response: Response };
+
+/**
+ * Guards a route. The request needs a signed-in user holding at least
+ * `role`. With auth disabled, visitors are anonymous students: student routes
+ * pass with `user: null` and instructor routes are refused, since nobody can
+ * prove they are an instructor.
+ */
+export async function requireUser(
+  request: Request,
+  role: Role = "student"
+): Promise<AuthCheck> {
+  try {
+    if (!getAuthConfig()) {
+      if (role === "student") {
+        return { ok: true, user: null };
+      }
+      return {
+        ok: false,
+        response: buildJsonResponse(
+          { error: `The ${role} role requires sign-in; set AUTH_PROVIDER to enable it` },
+          403,
+          JSON_HEADERS,
+          null
+        ),
+      };
+    }
+    const user = await getRequestUser(request);
+    if (!user) {
+      return {
+        ok: false,
+        response: buildJsonResponse(
+          { error: "Sign in required" },
+          401,
+          JSON_HEADERS,
+          null
+        ),
+      };
+    }
+    if (!hasRole(user, role)) {
+      return {
+        ok: false,
+        response: buildJsonResponse(
+          { error: `This action requires the ${role} role` },
+          403,
+          JSON_HEADERS,
+          null
+        ),
+      };
+    }
+    return { ok: true, user };
+  } catch (error) {
+    log.error("auth configuration invalid", { error });
+    return {
+      ok: false,
+      response: buildJsonResponse(
+        { error: "Authentication is misconfigured" },
+        500,
+        JSON_HEADERS,
+        null
+      ),
+    };
+  }
+}
+
+export type IdentityCheck =
+  | {
+      ok: true;
+      user: AuthUser | null;
+      userId: string;
+      sessionCookie: string | null;
+    }
+  | { ok: false; response: Response };
+
+/**
+ * Like `requireUser`, but also yields the id to key per-user data by: the
+ * signed-in identity when auth is on, the anonymous session cookie otherwise.
+ */
+export async function resolveIdentity(
+  request: Request,
+  role: Role = "student"
+): Promise<IdentityCheck> {
+  const auth = await requireUser(request, role);
+  if (!auth.ok) {
+    return auth;
+  }
+  if (auth.user) {
+    return { ok: true, user: auth.user, userId: auth.user.id, sessionCookie: null };
+  }
+  const { userId, sessionCookie } = await resolveUserId(request);
+  return { ok: true, user: null, userId, sessionCookie };
+}
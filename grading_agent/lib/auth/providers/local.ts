@@ -0,0 +1,58 @@
+import {
+  isRole,
+  type AuthUser,
+  type CredentialsAuthProvider,
+} from "@/lib/auth/types";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("auth");
+
+type LocalUser = { username: string; password: string; user: AuthUser };
+
+/**
+ * Parses `AUTH_LOCAL_USERS`, a comma-separated list of
+ * `username:password:role` entries. Passwords are plain text, so this
+ * provider is only meant for local development and demos.
+ */
+function readLocalUsers(): LocalUser[] {
+  return (process.env.AUTH_LOCAL_USERS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [username, password, role = "student"] = entry.split(":");
+      if (!username || !password || !isRole(role)) {
+        log.warn("ignoring malformed AUTH_LOCAL_USERS entry", { username });
+        return [];
+      }
+      return [
+        {
+          username,
+          password,
+          user: {
+            id: `local:${username}`,
+            name: username,
+            email: null,
+            role,
+            provider: "local" as const,
+          },
+        },
+      ];
+    });
+}
+
+export function createLocalProvider(): CredentialsAuthProvider {
+  return {
+    id: "local",
+    kind: "credentials",
+    async authenticate(username, password) {
+      const match = readLocalUsers().find(
+        (candidate) => candidate.username === username.trim()
+      );
+      if (!match || match.password !== password) {
+        return null;
+      }
+      return match.user;
+    },
+  };
+}
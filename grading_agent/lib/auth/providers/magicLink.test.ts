@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMagicLinkProvider } from "@/lib/auth/providers/magicLink";
+
+const SECRET = "magic-secret-magic-secret-magic-secret";
+
+const tokenOf = (link: string) => new URL(link).searchParams.get("token") ?? "";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("magic link provider", () => {
+  it("signs in once per link", async () => {
+    const provider = createMagicLinkProvider(SECRET);
+    const token = tokenOf(await provider.createLink("Ada@Example.edu", "http://localhost"));
+
+    const first = await provider.verify(token);
+    const second = await provider.verify(token);
+
+    expect(first).toMatchObject({ id: "email:ada@example.edu", provider: "magic-link" });
+    expect(second).toBeNull();
+  });
+
+  it("keeps separate links for the same address usable", async () => {
+    const provider = createMagicLinkProvider(SECRET);
+    const a = tokenOf(await provider.createLink("grace@example.edu", "http://localhost"));
+    const b = tokenOf(await provider.createLink("grace@example.edu", "http://localhost"));
+
+    expect(await provider.verify(a)).not.toBeNull();
+    expect(await provider.verify(b)).not.toBeNull();
+  });
+
+  it("rejects a link signed with another secret", async () => {
+    const other = createMagicLinkProvider("other-secret-other-secret-other-secret");
+    const token = tokenOf(await other.createLink("ada@example.edu", "http://localhost"));
+
+    expect(await createMagicLinkProvider(SECRET).verify(token)).toBeNull();
+  });
+
+  it.each([
+    ["development", true],
+    ["production", false],
+    ["test", false],
+  ])("logs the link itself only in development (%s)", async (nodeEnv, logged) => {
+    vi.stubEnv("NODE_ENV", nodeEnv);
+    vi.stubEnv("LOG_LEVEL", "info");
+    const info = vi.spyOn(console, "info").mockImplementation(() => undefined);
+
+    const link = await createMagicLinkProvider(SECRET).createLink(
+      "ada@example.edu",
+      "http://localhost"
+    );
+
+    expect(info).toHaveBeenCalledOnce();
+    expect(String(info.mock.calls[0][0]).includes(tokenOf(link))).toBe(logged);
+  });
+});
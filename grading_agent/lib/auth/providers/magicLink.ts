@@ -0,0 +1,91 @@
+import { roleForEmail } from "@/lib/auth/config";
+import { AuthInputError, type MagicLinkAuthProvider } from "@/lib/auth/types";
+import { createLogger } from "@/lib/logger";
+import { signToken, verifyToken } from "@/lib/signing";
+import { generateId, getCollection } from "@/lib/store";
+
+const MAGIC_LINK_TTL = 60 * 15; // 15 minutes
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const log = createLogger("auth");
+
+/** Links already used, kept until they would have expired anyway. */
+type UsedLink = { id: string; expiresAt: number };
+
+const usedLinks = () => getCollection<UsedLink>("magic_links");
+
+/** Marks link `id` as used; `false` when it already was. */
+function consumeLink(id: string, expiresAt: number): Promise<boolean> {
+  const now = Math.floor(Date.now() / 1000);
+  return usedLinks().mutate((records) => {
+    for (let index = records.length - 1; index >= 0; index -= 1) {
+      if (records[index].expiresAt < now) {
+        records.splice(index, 1);
+      }
+    }
+    if (records.some((record) => record.id === id)) {
+      return false;
+    }
+    records.push({ id, expiresAt });
+    return true;
+  });
+}
+
+/**
+ * Stand-in for an email magic-link flow: the signed link is returned to the
+ * caller (and logged, outside production) instead of being emailed. Each link
+ * signs in once. Roles come from `AUTH_ADMIN_EMAILS` /
+ * `AUTH_INSTRUCTOR_EMAILS`.
+ */
+export function createMagicLinkProvider(secret: string): MagicLinkAuthProvider {
+  return {
+    id: "magic-link",
+    kind: "magic-link",
+    async createLink(email, origin) {
+      const normalized = email.trim().toLowerCase();
+      if (!EMAIL_PATTERN.test(normalized)) {
+        throw new AuthInputError("Enter a valid email address");
+      }
+      const token = await signToken(
+        { email: normalized, purpose: "magic-link", jti: generateId() },
+        secret,
+        MAGIC_LINK_TTL
+      );
+      const link = `${origin}/api/auth/magic-link?token=${encodeURIComponent(token)}`;
+      // The link signs in as that user, so it only goes to development logs.
+      log.info("magic link issued", {
+        email: normalized,
+        ...(process.env.NODE_ENV === "development" ? { link } : {}),
+      });
+      return link;
+    },
+    async verify(token) {
+      const payload = await verifyToken<{
+        email?: unknown;
+        purpose?: unknown;
+        jti?: unknown;
+        exp?: unknown;
+      }>(token, secret);
+      if (
+        !payload ||
+        payload.purpose !== "magic-link" ||
+        typeof payload.email !== "string" ||
+        typeof payload.jti !== "string" ||
+        typeof payload.exp !== "number"
+      ) {
+        return null;
+      }
+      if (!(await consumeLink(payload.jti, payload.exp))) {
+        log.warn("magic link reused", { email: payload.email });
+        return null;
+      }
+      return {
+        id: `email:${payload.email}`,
+        name: payload.email.split("@")[0] ?? payload.email,
+        email: payload.email,
+        role: roleForEmail(payload.email),
+        provider: "magic-link",
+      };
+    },
+  };
+}
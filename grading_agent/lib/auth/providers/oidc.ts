@@ -0,0 +1,216 @@
+import { roleForEmail } from "@/lib/auth/config";
+import {
+  isRole,
+  type OidcAuthProvider,
+  type OidcTransaction,
+  type Role,
+} from "@/lib/auth/types";
+import { createLogger } from "@/lib/logger";
+import { decodeBase64Url, encodeBase64Url } from "@/lib/signing";
+
+const log = createLogger("auth");
+
+type DiscoveryDocument = {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+type OidcSettings = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  roleClaim: string;
+  scopes: string;
+};
+
+function readOidcSettings(): OidcSettings {
+  const issuer = process.env.OIDC_ISSUER?.trim().replace(/\/+$/, "");
+  const clientId = process.env.OIDC_CLIENT_ID?.trim();
+  const clientSecret = process.env.OIDC_CLIENT_SECRET?.trim();
+  if (!issuer || !clientId || !clientSecret) {
+    throw new Error(
+      "OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET are required for the oidc provider"
+    );
+  }
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    roleClaim: process.env.OIDC_ROLE_CLAIM?.trim() || "roles",
+    scopes: process.env.OIDC_SCOPES?.trim() || "openid profile email",
+  };
+}
+
+let discoveryCache: { issuer: string; document: DiscoveryDocument } | null =
+  null;
+
+async function discover(issuer: string): Promise<DiscoveryDocument> {
+  if (discoveryCache?.issuer === issuer) {
+    return discoveryCache.document;
+  }
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: ${response.status}`);
+  }
+  const document = (await response.json()) as DiscoveryDocument;
+  discoveryCache = { issuer, document };
+  return document;
+}
+
+/** Fresh state, nonce and PKCE verifier for one sign-in attempt. */
+export function createOidcTransaction(): OidcTransaction {
+  return {
+    state: crypto.randomUUID(),
+    nonce: crypto.randomUUID(),
+    codeVerifier: encodeBase64Url(crypto.getRandomValues(new Uint8Array(32))),
+  };
+}
+
+async function codeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier)
+  );
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Reads the ID token's claims. It comes straight from the token endpoint over
+ * TLS, so its signature is not checked (OIDC Core 3.1.3.7); issuer, audience,
+ * expiry and nonce are.
+ */
+function readIdToken(
+  idToken: string,
+  issuer: string,
+  clientId: string,
+  nonce: string
+): Record<string, unknown> | null {
+  const json = decodeBase64Url(idToken.split(".")[1] ?? "");
+  let claims: Record<string, unknown>;
+  try {
+    claims = JSON.parse(json ?? "") as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  let problem: string | null = null;
+  if (claims.iss !== issuer) {
+    problem = "issuer";
+  } else if (!audience.includes(clientId)) {
+    problem = "audience";
+  } else if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) {
+    problem = "expiry";
+  } else if (claims.nonce !== nonce) {
+    problem = "nonce";
+  }
+  if (problem) {
+    log.warn("OIDC ID token rejected", { problem });
+    return null;
+  }
+  return claims;
+}
+
+/** Some issuers send the flag as a string. */
+const isVerified = (value: unknown) => value === true || value === "true";
+
+/** Picks the highest role named in the configured claim (string or array). */
+function roleFromClaims(
+  claims: Record<string, unknown>,
+  roleClaim: string
+): Role | null {
+  const raw = claims[roleClaim];
+  const values = Array.isArray(raw) ? raw : [raw];
+  for (const role of ["admin", "instructor", "student"] as const) {
+    if (values.some((value) => isRole(value) && value === role)) {
+      return role;
+    }
+  }
+  return null;
+}
+
+export function createOidcProvider(): OidcAuthProvider {
+  return {
+    id: "oidc",
+    kind: "oidc",
+    async getAuthorizationUrl(transaction, redirectUri) {
+      const settings = readOidcSettings();
+      const { authorization_endpoint } = await discover(settings.issuer);
+      const url = new URL(authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", settings.clientId);
+      url.searchParams.set("redirect_uri", redirectUri);
+      url.searchParams.set("scope", settings.scopes);
+      url.searchParams.set("state", transaction.state);
+      url.searchParams.set("nonce", transaction.nonce);
+      url.searchParams.set("code_challenge", await codeChallenge(transaction.codeVerifier));
+      url.searchParams.set("code_challenge_method", "S256");
+      return url.toString();
+    },
+    async handleCallback(code, redirectUri, transaction) {
+      const settings = readOidcSettings();
+      const document = await discover(settings.issuer);
+
+      const tokenResponse = await fetch(document.token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: redirectUri,
+          client_id: settings.clientId,
+          client_secret: settings.clientSecret,
+          code_verifier: transaction.codeVerifier,
+        }),
+      });
+      if (!tokenResponse.ok) {
+        log.error("OIDC token exchange failed", { status: tokenResponse.status });
+        return null;
+      }
+      const { access_token: accessToken, id_token: idToken } =
+        (await tokenResponse.json()) as { access_token?: string; id_token?: string };
+      if (!accessToken || !idToken) {
+        return null;
+      }
+      const idClaims = readIdToken(
+        idToken,
+        document.issuer ?? settings.issuer,
+        settings.clientId,
+        transaction.nonce
+      );
+      if (!idClaims) {
+        return null;
+      }
+
+      // Profile claims come from the userinfo endpoint, for the same subject.
+      const userInfoResponse = await fetch(document.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!userInfoResponse.ok) {
+        return null;
+      }
+      const claims = (await userInfoResponse.json()) as Record<string, unknown>;
+      if (typeof claims.sub !== "string" || claims.sub !== idClaims.sub) {
+        return null;
+      }
+      // Anyone can put an address on an account; only a verified one may
+      // grant a role or match a student's grades.
+      const email =
+        typeof claims.email === "string" &&
+        (isVerified(claims.email_verified) || isVerified(idClaims.email_verified))
+          ? claims.email
+          : null;
+      return {
+        id: `oidc:${claims.sub}`,
+        name:
+          typeof claims.name === "string" ? claims.name : email ?? claims.sub,
+        email,
+        role:
+          roleFromClaims(claims, settings.roleClaim) ??
+          (email ? roleForEmail(email) : "student"),
+        provider: "oidc",
+      };
+    },
+  };
+}
@@ -0,0 +1,82 @@
+export type Role = "student" | "instructor" | "admin";
+
+export type AuthProviderId = "local" | "magic-link" | "oidc";
+
+export type AuthUser = {
+  /** Stable identity, prefixed with the provider (e.g. `local:alice`). */
+  id: string;
+  name: string;
+  email: string | null;
+  role: Role;
+  provider: AuthProviderId;
+};
+
+/** Sign-in input the user can fix; its message is safe to show them. */
+export class AuthInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthInputError";
+  }
+}
+
+/** Username/password sign-in. Intended for local development. */
+export interface CredentialsAuthProvider {
+  id: "local";
+  kind: "credentials";
+  authenticate(username: string, password: string): Promise<AuthUser | null>;
+}
+
+/** Email sign-in through a one-time link. */
+export interface MagicLinkAuthProvider {
+  id: "magic-link";
+  kind: "magic-link";
+  createLink(email: string, origin: string): Promise<string>;
+  /** Signs in with a link; each link works once. */
+  verify(token: string): Promise<AuthUser | null>;
+}
+
+/**
+ * One sign-in attempt: `state` ties the callback to the browser that started
+ * it, `nonce` ties the ID token to it, and the PKCE `codeVerifier` proves the
+ * code is redeemed by whoever asked for it.
+ */
+export type OidcTransaction = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+/** Redirect-based sign-in against an OpenID Connect issuer. */
+export interface OidcAuthProvider {
+  id: "oidc";
+  kind: "oidc";
+  getAuthorizationUrl(
+    transaction: OidcTransaction,
+    redirectUri: string
+  ): Promise<string>;
+  handleCallback(
+    code: string,
+    redirectUri: string,
+    transaction: OidcTransaction
+  ): Promise<AuthUser | null>;
+}
+
+export type AuthProvider =
+  | CredentialsAuthProvider
+  | MagicLinkAuthProvider
+  | OidcAuthProvider;
+
+const ROLE_RANK: Record<Role, number> = {
+  student: 0,
+  instructor: 1,
+  admin: 2,
+};
+
+export function isRole(value: unknown): value is Role {
+  return value === "student" || value === "instructor" || value === "admin";
+}
+
+/** Admins can do everything instructors can, instructors everything students can. */
+export function hasRole(user: AuthUser, required: Role): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  batchReportToCsv,
+  decodeSubmissionText,
+  groupSubmissions,
+  validateBatchInput,
+  type BatchReportRow,
+} from "@/lib/batch";
+
+const file = (path: string, text = `text of ${path}`) => ({
+  path,
+  bytes: new TextEncoder().encode(text),
+});
+
+describe("decodeSubmissionText", () => {
+  it("decodes text files and skips binaries", () => {
+    expect(decodeSubmissionText(file("s1/essay.MD", "héllo"))).toBe("héllo");
+    expect(decodeSubmissionText(file("s1/scan.pdf"))).toBeNull();
+    expect(
+      decodeSubmissionText({ path: "s1/notes.txt", bytes: new Uint8Array([104, 0]) })
+    ).toBeNull();
+  });
+});
+
+describe("groupSubmissions", () => {
+  it("names students after their folder below the shared root", () => {
+    const { submissions, skipped } = groupSubmissions([
+      file("upload/s2/essay.md"),
+      file("upload/s1/part1.txt", "one"),
+      file("upload/s1/part2.txt", "two"),
+      file("upload/s2/photo.png"),
+    ]);
+
+    expect(submissions).toEqual([
+      {
+        studentId: "s1",
+        filename: "s1/part1.txt, s1/part2.txt",
+        text: "=== s1/part1.txt ===\none\n\n=== s1/part2.txt ===\ntwo",
+      },
+      { studentId: "s2", filename: "s2/essay.md", text: "text of upload/s2/essay.md" },
+    ]);
+    expect(skipped).toEqual(["upload/s2/photo.png"]);
+  });
+
+  it("names students after top-level files", () => {
+    const { submissions } = groupSubmissions([file("s2.txt"), file("s1.md")]);
+
+    expect(submissions.map(({ studentId, filename }) => ({ studentId, filename }))).toEqual([
+      { studentId: "s1", filename: "s1.md" },
+      { studentId: "s2", filename: "s2.txt" },
+    ]);
+  });
+
+  it("treats a single file inside a folder as a top-level file", () => {
+    const { submissions } = groupSubmissions([file("batch/s1.md")]);
+
+    expect(submissions.map((submission) => submission.studentId)).toEqual(["s1"]);
+  });
+});
+
+describe("validateBatchInput", () => {
+  it("defaults the title to the assignment", () => {
+    const result = validateBatchInput({
+      assignment: " Essay 1 ",
+      workflowKey: "grading",
+      submissions: [{ studentId: "s1", filename: "s1.md", text: "An essay." }],
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        title: "Essay 1",
+        assignment: "Essay 1",
+        workflowKey: "grading",
+        rubricId: null,
+        submissions: [{ studentId: "s1", filename: "s1.md", text: "An essay." }],
+      },
+    });
+  });
+
+  it("rejects duplicate students and empty submissions", () => {
+    const result = validateBatchInput({
+      assignment: "Essay 1",
+      workflowKey: "grading",
+      submissions: [
+        { studentId: "s1", text: "An essay." },
+        { studentId: "s1", filename: "s1-late.md", text: "  " },
+      ],
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "submissions[1]: student s1 appears more than once",
+        "submissions[1]: s1-late.md is empty",
+      ],
+    });
+  });
+});
+
+describe("batchReportToCsv", () => {
+  const row = (overrides: Partial<BatchReportRow>): BatchReportRow => ({
+    studentId: "s1",
+    filename: "s1.md",
+    status: "completed",
+    attempts: 1,
+    error: null,
+    gradeId: "g1",
+    gradeStatus: "pending",
+    total: 3,
+    maxTotal: 4,
+    feedback: "",
+    criteria: [],
+    ...overrides,
+  });
+
+  it("adds a column per criterion and leaves missing scores empty", () => {
+    const csv = batchReportToCsv([
+      row({
+        criteria: [{ criterion: "Clarity", score: 2, maxPoints: 2, remark: "" }],
+        feedback: "Good, clear",
+      }),
+      row({
+        studentId: "s2",
+        filename: "s2.md",
+        status: "failed",
+        attempts: 3,
+        gradeId: null,
+        gradeStatus: null,
+        total: null,
+        maxTotal: null,
+        error: "Timed out",
+        criteria: [{ criterion: "Sources", score: 1, maxPoints: 1, remark: "" }],
+      }),
+    ]);
+
+    expect(csv.split("\n")).toEqual([
+      "student_id,file,status,attempts,Clarity,Sources,total,max_total,review_status,feedback,error",
+      's1,s1.md,completed,1,2,,3,4,pending,"Good, clear",',
+      "s2,s2.md,failed,3,,1,,,,,Timed out",
+    ]);
+  });
+
+  it("neutralizes formulas in student ids and feedback", () => {
+    const [, line] = batchReportToCsv([
+      row({ studentId: "=HYPERLINK(1)", feedback: "@SUM(A1)" }),
+    ]).split("\n");
+
+    expect(line).toBe("'=HYPERLINK(1),s1.md,completed,1,3,4,pending,'@SUM(A1),");
+  });
+});
@@ -0,0 +1,346 @@
+import {
+  MAX_SUBMISSION_LENGTH,
+  escapeCsv,
+  type GradeRecord,
+} from "@/lib/grade";
+
+/**
+ * Batch grading model shared by the batch API and the batch page. A batch
+ * holds one item per submission; the page works through queued items one
+ * ChatKit session at a time and the server tracks where it got to, so a run
+ * can stop and resume. Kept free of server-only imports.
+ */
+
+export type BatchItemStatus = "queued" | "running" | "completed" | "failed";
+
+export type BatchItem = {
+  id: string;
+  studentId: string;
+  filename: string;
+  status: BatchItemStatus;
+  attempts: number;
+  error: string | null;
+  gradeId: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type BatchJob = {
+  id: string;
+  title: string;
+  assignment: string;
+  workflowKey: string;
+  rubricId: string | null;
+  createdBy: string;
+  createdAt: string;
+  items: BatchItem[];
+};
+
+/** A batch item with the submission text, as stored. */
+export type StoredBatchItem = BatchItem & { text: string };
+
+export type StoredBatchJob = Omit<BatchJob, "items"> & {
+  items: StoredBatchItem[];
+};
+
+export type BatchSubmissionInput = {
+  studentId: string;
+  filename: string;
+  text: string;
+};
+
+export type BatchInput = {
+  title: string;
+  assignment: string;
+  workflowKey: string;
+  rubricId: string | null;
+  submissions: BatchSubmissionInput[];
+};
+
+export type BatchProgress = Record<BatchItemStatus, number> & { total: number };
+
+export type BatchSummary = Omit<BatchJob, "items"> & { progress: BatchProgress };
+
+export type BatchValidationResult =
+  | { ok: true; value: BatchInput }
+  | { ok: false; errors: string[] };
+
+export const MAX_BATCH_SUBMISSIONS = 200;
+
+/** Attempts per item before a failure needs an instructor to retry it. */
+export const MAX_BATCH_ATTEMPTS = 3;
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+export function validateBatchInput(input: unknown): BatchValidationResult {
+  if (!input || typeof input !== "object") {
+    return { ok: false, errors: ["Batch must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const assignment = asString(raw.assignment);
+  if (!assignment) {
+    errors.push("assignment is required");
+  }
+  const workflowKey = asString(raw.workflowKey);
+  if (!workflowKey) {
+    errors.push("workflowKey is required");
+  }
+
+  const rawSubmissions = Array.isArray(raw.submissions) ? raw.submissions : [];
+  if (rawSubmissions.length === 0) {
+    errors.push("submissions must list at least one submission");
+  } else if (rawSubmissions.length > MAX_BATCH_SUBMISSIONS) {
+    errors.push(`A batch holds at most ${MAX_BATCH_SUBMISSIONS} submissions`);
+  }
+
+  const seen = new Set<string>();
+  const submissions = rawSubmissions.map((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const label = `submissions[${index}]`;
+    const studentId = asString(entry.studentId);
+    const filename = asString(entry.filename);
+    const text = typeof entry.text === "string" ? entry.text : "";
+
+    if (!studentId) {
+      errors.push(`${label}: studentId is required`);
+    } else if (seen.has(studentId)) {
+      errors.push(`${label}: student ${studentId} appears more than once`);
+    }
+    seen.add(studentId);
+    if (!text.trim()) {
+      errors.push(`${label}: ${filename || studentId} is empty`);
+    } else if (text.length > MAX_SUBMISSION_LENGTH) {
+      errors.push(
+        `${label}: ${filename || studentId} is longer than ${MAX_SUBMISSION_LENGTH} characters`
+      );
+    }
+    return { studentId, filename, text };
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      title: asString(raw.title) || assignment,
+      assignment,
+      workflowKey,
+      rubricId: asString(raw.rubricId) || null,
+      submissions,
+    },
+  };
+}
+
+export function getBatchProgress(items: BatchItem[]): BatchProgress {
+  const progress: BatchProgress = {
+    total: items.length,
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+  };
+  for (const item of items) {
+    progress[item.status] += 1;
+  }
+  return progress;
+}
+
+/** Drops submission text, which only the item's own session needs. */
+export function toBatchItem(item: StoredBatchItem): BatchItem {
+  return {
+    id: item.id,
+    studentId: item.studentId,
+    filename: item.filename,
+    status: item.status,
+    attempts: item.attempts,
+    error: item.error,
+    gradeId: item.gradeId,
+    startedAt: item.startedAt,
+    finishedAt: item.finishedAt,
+  };
+}
+
+export function toBatchJob(job: StoredBatchJob): BatchJob {
+  return { ...job, items: job.items.map(toBatchItem) };
+}
+
+export function toBatchSummary(job: StoredBatchJob): BatchSummary {
+  const { items, ...rest } = job;
+  return { ...rest, progress: getBatchProgress(items) };
+}
+
+/** An uploaded file, with its path relative to what was picked. */
+export type UploadedFile = { path: string; bytes: Uint8Array };
+
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "markdown", "csv", "json", "html", "htm", "xml", "tex",
+  "py", "js", "ts", "jsx", "tsx", "java", "c", "h", "cpp", "cs", "go", "rb",
+  "rs", "php", "sql", "r", "ipynb", "yaml", "yml",
+]);
+
+/**
+ * Decodes a file as UTF-8 text, or `null` for anything that is not plain
+ * text (by extension, or because it contains NUL bytes).
+ */
+export function decodeSubmissionText(file: UploadedFile): string | null {
+  const extension = file.path.split(".").pop()?.toLowerCase() ?? "";
+  if (!TEXT_EXTENSIONS.has(extension) || file.bytes.includes(0)) {
+    return null;
+  }
+  return new TextDecoder().decode(file.bytes);
+}
+
+/**
+ * Groups uploaded files into one submission per student. Below any folder
+ * shared by every file, a file's first folder names the student
+ * (`s123/draft.md`); files at the top level are named after the student
+ * (`s123.md`). Several files from one student are joined with headers.
+ * Files that are not text are returned in `skipped`.
+ */
+export function groupSubmissions(files: UploadedFile[]): {
+  submissions: BatchSubmissionInput[];
+  skipped: string[];
+} {
+  const split = files.map((file) => file.path.split("/").filter(Boolean));
+  let shared = 0;
+  while (
+    split.length > 0 &&
+    split.every(
+      (segments) =>
+        segments.length > shared + 1 && segments[shared] === split[0][shared]
+    )
+  ) {
+    shared += 1;
+  }
+
+  const byStudent = new Map<string, { filenames: string[]; parts: string[] }>();
+  const skipped: string[] = [];
+  files.forEach((file, index) => {
+    const text = decodeSubmissionText(file);
+    if (text === null) {
+      skipped.push(file.path);
+      return;
+    }
+    const segments = split[index].slice(shared);
+    const name = segments.at(-1) ?? file.path;
+    const dot = name.lastIndexOf(".");
+    const studentId = segments.length > 1 ? segments[0] : dot > 0 ? name.slice(0, dot) : name;
+    const entry = byStudent.get(studentId) ?? { filenames: [], parts: [] };
+    entry.filenames.push(segments.join("/"));
+    entry.parts.push(text);
+    byStudent.set(studentId, entry);
+  });
+
+  const submissions = Array.from(byStudent.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([studentId, { filenames, parts }]) => ({
+      studentId,
+      filename: filenames.join(", "),
+      text:
+        parts.length === 1
+          ? parts[0]
+          : parts
+              .map((part, index) => `=== ${filenames[index]} ===\n${part}`)
+              .join("\n\n"),
+    }));
+  return { submissions, skipped };
+}
+
+/** The message each batch session opens with. */
+export function buildBatchPrompt(
+  job: Pick<BatchJob, "assignment">,
+  item: Pick<StoredBatchItem, "studentId" | "filename" | "text">
+): string {
+  return [
+    `Grade this submission for "${job.assignment}" from student ${item.studentId}` +
+      (item.filename ? ` (file ${item.filename}).` : "."),
+    `When you are done, call record_grade with student "${item.studentId}" and assignment "${job.assignment}".`,
+    "",
+    "--- Submission ---",
+    item.text,
+  ].join("\n");
+}
+
+export type BatchReportRow = {
+  studentId: string;
+  filename: string;
+  status: BatchItemStatus;
+  attempts: number;
+  error: string | null;
+  gradeId: string | null;
+  gradeStatus: GradeRecord["status"] | null;
+  total: number | null;
+  maxTotal: number | null;
+  feedback: string;
+  criteria: GradeRecord["criteria"];
+};
+
+export function buildBatchReport(
+  job: BatchJob,
+  grades: GradeRecord[]
+): BatchReportRow[] {
+  const byId = new Map(grades.map((grade) => [grade.id, grade]));
+  return job.items.map((item) => {
+    const grade = item.gradeId ? byId.get(item.gradeId) ?? null : null;
+    return {
+      studentId: item.studentId,
+      filename: item.filename,
+      status: item.status,
+      attempts: item.attempts,
+      error: item.error,
+      gradeId: item.gradeId,
+      gradeStatus: grade?.status ?? null,
+      total: grade?.total ?? null,
+      maxTotal: grade?.maxTotal ?? null,
+      feedback: grade?.feedback ?? "",
+      criteria: grade?.criteria ?? [],
+    };
+  });
+}
+
+/** One row per submission, with a score column per criterion. */
+export function batchReportToCsv(rows: BatchReportRow[]): string {
+  const criterionNames: string[] = [];
+  for (const row of rows) {
+    for (const entry of row.criteria) {
+      if (!criterionNames.includes(entry.criterion)) {
+        criterionNames.push(entry.criterion);
+      }
+    }
+  }
+
+  const header = [
+    "student_id",
+    "file",
+    "status",
+    "attempts",
+    ...criterionNames,
+    "total",
+    "max_total",
+    "review_status",
+    "feedback",
+    "error",
+  ];
+  const lines = rows.map((row) => [
+    row.studentId,
+    row.filename,
+    row.status,
+    row.attempts,
+    ...criterionNames.map(
+      (name) => row.criteria.find((entry) => entry.criterion === name)?.score ?? null
+    ),
+    row.total,
+    row.maxTotal,
+    row.gradeStatus,
+    row.feedback,
+    row.error,
+  ]);
+
+  return [header, ...lines]
+    .map((line) => line.map((cell) => escapeCsv(cell)).join(","))
+    .join("\n");
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  claimBatchItem,
+  createBatch,
+  finishBatchItem,
+  getBatch,
+  requeueBatchItems,
+} from "@/lib/batchStore";
+
+function createTestBatch(students: string[]) {
+  return createBatch("local:prof", {
+    title: "Essays",
+    assignment: "Essay 1",
+    workflowKey: "grading",
+    rubricId: null,
+    submissions: students.map((studentId) => ({
+      studentId,
+      filename: `${studentId}.md`,
+      text: "Essay text",
+    })),
+  });
+}
+
+describe("batch item updates", () => {
+  it("lets only one of two concurrent claims start an item", async () => {
+    const job = await createTestBatch(["s1"]);
+    const [item] = job.items;
+
+    const claims = await Promise.all([
+      claimBatchItem(job.id, item.id),
+      claimBatchItem(job.id, item.id),
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    const stored = await getBatch(job.id);
+    expect(stored!.items[0]).toMatchObject({ status: "running", attempts: 1 });
+  });
+
+  it("keeps the results of items finished at the same time", async () => {
+    const job = await createTestBatch(["s1", "s2", "s3"]);
+    await Promise.all(job.items.map((item) => claimBatchItem(job.id, item.id)));
+
+    await Promise.all(
+      job.items.map((item, index) =>
+        finishBatchItem(job.id, item.id, { ok: true, gradeId: `grade-${index}` })
+      )
+    );
+
+    const stored = await getBatch(job.id);
+    expect(stored!.items.map((item) => [item.status, item.gradeId])).toEqual([
+      ["completed", "grade-0"],
+      ["completed", "grade-1"],
+      ["completed", "grade-2"],
+    ]);
+  });
+
+  it("does not lose a result that lands while the batch is requeued", async () => {
+    const job = await createTestBatch(["s1", "s2"]);
+    const [first, second] = job.items;
+    await claimBatchItem(job.id, first.id);
+    await claimBatchItem(job.id, second.id);
+
+    await Promise.all([
+      finishBatchItem(job.id, first.id, { ok: true, gradeId: "grade-1" }),
+      requeueBatchItems(job.id, { failed: false }),
+    ]);
+
+    const stored = await getBatch(job.id);
+    expect(stored!.items[0]).toMatchObject({ status: "completed", gradeId: "grade-1" });
+    expect(stored!.items[1]).toMatchObject({ status: "queued", error: "Interrupted" });
+  });
+
+  it("answers null for a batch that does not exist", async () => {
+    expect(await claimBatchItem("missing", "missing")).toBeNull();
+    expect(await requeueBatchItems("missing", { failed: true })).toBeNull();
+  });
+});
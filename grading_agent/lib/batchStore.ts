@@ -0,0 +1,169 @@
+import {
+  MAX_BATCH_ATTEMPTS,
+  toBatchSummary,
+  type BatchInput,
+  type BatchSummary,
+  type StoredBatchItem,
+  type StoredBatchJob,
+} from "@/lib/batch";
+import { generateId, getCollection } from "@/lib/store";
+
+const batches = () => getCollection<StoredBatchJob>("batches");
+
+export async function listBatches(): Promise<BatchSummary[]> {
+  const all = await batches().list();
+  return all
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toBatchSummary);
+}
+
+export async function getBatch(id: string): Promise<StoredBatchJob | null> {
+  return batches().get(id);
+}
+
+export async function createBatch(
+  createdBy: string,
+  input: BatchInput
+): Promise<StoredBatchJob> {
+  const { submissions, ...rest } = input;
+  return batches().put({
+    ...rest,
+    id: generateId(),
+    createdBy,
+    createdAt: new Date().toISOString(),
+    items: submissions.map((submission) => ({
+      ...submission,
+      id: generateId(),
+      status: "queued",
+      attempts: 0,
+      error: null,
+      gradeId: null,
+      startedAt: null,
+      finishedAt: null,
+    })),
+  });
+}
+
+export async function deleteBatch(id: string): Promise<boolean> {
+  return batches().remove(id);
+}
+
+/**
+ * Reads batch `id` and stores what `change` makes of it, both under the
+ * collection's write lock so concurrent pages cannot both claim an item or
+ * overwrite each other's results. `change` returns `null` to leave the batch
+ * alone.
+ */
+async function updateBatch(
+  id: string,
+  change: (job: StoredBatchJob) => StoredBatchJob | null
+): Promise<StoredBatchJob | null> {
+  return batches().mutate((records) => {
+    const index = records.findIndex((record) => record.id === id);
+    const updated = index === -1 ? null : change(records[index]);
+    if (updated) {
+      records[index] = updated;
+    }
+    return updated;
+  });
+}
+
+/**
+ * Replaces one item with `update`'s result under the write lock; `update`
+ * returns `null` to leave the item alone.
+ */
+async function updateItem(
+  batchId: string,
+  itemId: string,
+  update: (item: StoredBatchItem) => StoredBatchItem | null
+): Promise<StoredBatchItem | null> {
+  const job = await updateBatch(batchId, (current) => {
+    const item = current.items.find((entry) => entry.id === itemId);
+    const updated = item ? update(item) : null;
+    return updated
+      ? {
+          ...current,
+          items: current.items.map((entry) => (entry.id === itemId ? updated : entry)),
+        }
+      : null;
+  });
+  return job?.items.find((entry) => entry.id === itemId) ?? null;
+}
+
+/** Marks a queued item as running; `null` if it is not queued. */
+export async function claimBatchItem(
+  batchId: string,
+  itemId: string
+): Promise<StoredBatchItem | null> {
+  return updateItem(batchId, itemId, (item) =>
+    item.status === "queued"
+      ? {
+          ...item,
+          status: "running",
+          attempts: item.attempts + 1,
+          error: null,
+          startedAt: new Date().toISOString(),
+          finishedAt: null,
+        }
+      : null
+  );
+}
+
+export type BatchItemOutcome =
+  | { ok: true; gradeId: string }
+  | { ok: false; error: string; retryable: boolean };
+
+/**
+ * Records how a running item ended. Retryable failures go back in the queue
+ * until the item has used `MAX_BATCH_ATTEMPTS`.
+ */
+export async function finishBatchItem(
+  batchId: string,
+  itemId: string,
+  outcome: BatchItemOutcome
+): Promise<StoredBatchItem | null> {
+  const finishedAt = new Date().toISOString();
+  return updateItem(batchId, itemId, (item) => {
+    if (item.status !== "running") {
+      return null;
+    }
+    if (outcome.ok) {
+      return {
+        ...item,
+        status: "completed",
+        gradeId: outcome.gradeId,
+        error: null,
+        finishedAt,
+      };
+    }
+    const requeue = outcome.retryable && item.attempts < MAX_BATCH_ATTEMPTS;
+    return {
+      ...item,
+      status: requeue ? "queued" : "failed",
+      error: outcome.error,
+      finishedAt,
+    };
+  });
+}
+
+/**
+ * Puts items left running by a page that closed mid-run back in the queue,
+ * and with `failed`, failed items too, with fresh attempts.
+ */
+export async function requeueBatchItems(
+  batchId: string,
+  { failed }: { failed: boolean }
+): Promise<StoredBatchJob | null> {
+  return updateBatch(batchId, (job) => ({
+    ...job,
+    items: job.items.map((item) => {
+      if (failed && item.status === "failed") {
+        return { ...item, status: "queued", attempts: 0 };
+      }
+      if (item.status === "running") {
+        return { ...item, status: "queued", error: "Interrupted" };
+      }
+      return item;
+    }),
+  }));
+}
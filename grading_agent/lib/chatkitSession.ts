@@ -0,0 +1,186 @@
+import { getServerConfig } from "@/lib/env";
+import type { Logger } from "@/lib/logger";
+import { formatRubricForAgent, type Rubric } from "@/lib/rubric";
+import { readSessionExpiresAt } from "@/lib/sessionReuse";
+import { fetchUpstream, isRetryableStatus } from "@/lib/upstream";
+
+/**
+ * Creates a ChatKit session upstream. Shared by `/api/create-session`, which
+ * mints one per browser chat, and batch grading, which mints one per
+ * submission. Throws `UpstreamUnavailableError` when ChatKit cannot be
+ * reached; the caller decides how to report it.
+ */
+
+export type ChatKitSessionRequest = {
+  workflowId: string;
+  userId: string;
+  rubric: Rubric | null;
+  /** Extra workflow state, merged over the rubric's variables. */
+  stateVariables?: Record<string, string | number>;
+  fileUpload: boolean;
+  requestId: string;
+  log: Logger;
+};
+
+export type ChatKitSessionResult =
+  | {
+      ok: true;
+      clientSecret: string;
+      expiresAfter: unknown;
+      /** Epoch seconds, when upstream reported an expiry. */
+      expiresAt: number | null;
+    }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      details?: unknown;
+      retryable: boolean;
+    };
+
+/** The state variables the grading workflow reads its rubric from. */
+export function getRubricStateVariables(
+  rubric: Rubric
+): Record<string, string | number> {
+  return {
+    rubric_id: rubric.id,
+    grading_criteria: formatRubricForAgent(rubric),
+    total_points: rubric.totalPoints,
+  };
+}
+
+export async function requestChatKitSession({
+  workflowId,
+  userId,
+  rubric,
+  stateVariables,
+  fileUpload,
+  requestId,
+  log,
+}: ChatKitSessionRequest): Promise<ChatKitSessionResult> {
+  const { openaiApiKey, chatkitApiBase } = getServerConfig();
+  const state = {
+    ...(rubric ? getRubricStateVariables(rubric) : {}),
+    ...stateVariables,
+  };
+
+  const url = `${chatkitApiBase}/v1/chatkit/sessions`;
+  const startedAt = Date.now();
+  const upstreamResponse = await fetchUpstream(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${openaiApiKey}`,
+      "OpenAI-Beta": "chatkit_beta=v1",
+      "X-Client-Request-Id": requestId,
+    },
+    body: JSON.stringify({
+      workflow: {
+        id: workflowId,
+        ...(Object.keys(state).length > 0 ? { state_variables: state } : {}),
+      },
+      user: userId,
+      chatkit_configuration: {
+        file_upload: {
+          enabled: fileUpload,
+        },
+      },
+    }),
+  }, { log });
+
+  log.info("upstream response", {
+    status: upstreamResponse.status,
+    upstreamRequestId: upstreamResponse.headers.get("x-request-id"),
+    durationMs: Date.now() - startedAt,
+  });
+
+  const upstreamJson = (await upstreamResponse.json().catch(() => ({}))) as
+    | Record<string, unknown>
+    | undefined;
+
+  if (!upstreamResponse.ok) {
+    const upstreamError = extractUpstreamError(upstreamJson);
+    log.error("session creation failed", {
+      status: upstreamResponse.status,
+      statusText: upstreamResponse.statusText,
+      body: upstreamJson,
+    });
+    return {
+      ok: false,
+      status: upstreamResponse.status,
+      error:
+        upstreamError ??
+        `Failed to create session: ${upstreamResponse.statusText}`,
+      details: upstreamJson,
+      retryable: isRetryableStatus(upstreamResponse.status),
+    };
+  }
+
+  const clientSecret = upstreamJson?.client_secret;
+  if (typeof clientSecret !== "string" || !clientSecret) {
+    log.error("session response has no client secret", {
+      body: upstreamJson,
+    });
+    return {
+      ok: false,
+      status: 502,
+      error: "ChatKit returned an invalid session response",
+      retryable: true,
+    };
+  }
+
+  return {
+    ok: true,
+    clientSecret,
+    expiresAfter: upstreamJson?.expires_after ?? null,
+    expiresAt: readSessionExpiresAt(upstreamJson),
+  };
+}
+
+/** The human-readable message from a ChatKit API error body, if any. */
+export function extractUpstreamError(
+  payload: Record<string, unknown> | undefined
+): string | null {
+  if (!payload) {
+    return null;
+  }
+
+  const error = payload.error;
+  if (typeof error === "string") {
+    return error;
+  }
+
+  if (
+    error &&
+    typeof error === "object" &&
+    "message" in error &&
+    typeof (error as { message?: unknown }).message === "string"
+  ) {
+    return (error as { message: string }).message;
+  }
+
+  const details = payload.details;
+  if (typeof details === "string") {
+    return details;
+  }
+
+  if (details && typeof details === "object" && "error" in details) {
+    const nestedError = (details as { error?: unknown }).error;
+    if (typeof nestedError === "string") {
+      return nestedError;
+    }
+    if (
+      nestedError &&
+      typeof nestedError === "object" &&
+      "message" in nestedError &&
+      typeof (nestedError as { message?: unknown }).message === "string"
+    ) {
+      return (nestedError as { message: string }).message;
+    }
+  }
+
+  if (typeof payload.message === "string") {
+    return payload.message;
+  }
+  return null;
+}
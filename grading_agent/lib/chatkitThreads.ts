@@ -0,0 +1,78 @@
+import { extractUpstreamError } from "@/lib/chatkitSession";
+import { getServerConfig } from "@/lib/env";
+import type { Logger } from "@/lib/logger";
+import { fetchUpstream, isRetryableStatus } from "@/lib/upstream";
+
+/**
+ * Reads a thread and its items from the ChatKit API. The widget does not
+ * expose what it renders, so transcript export goes through here. Throws
+ * `UpstreamUnavailableError` when ChatKit cannot be reached.
+ */
+
+export type ChatKitThreadResult =
+  | { ok: true; thread: Record<string, unknown>; items: unknown[] }
+  | { ok: false; status: number; error: string; retryable: boolean };
+
+const ITEMS_PAGE_SIZE = 100;
+// 5,000 items is far beyond any grading conversation.
+const MAX_ITEM_PAGES = 50;
+
+export async function fetchChatKitThread(
+  threadId: string,
+  { requestId, log }: { requestId: string; log: Logger }
+): Promise<ChatKitThreadResult> {
+  const { openaiApiKey, chatkitApiBase } = getServerConfig();
+  const threadUrl = `${chatkitApiBase}/v1/chatkit/threads/${encodeURIComponent(threadId)}`;
+  const headers = {
+    Authorization: `Bearer ${openaiApiKey}`,
+    "OpenAI-Beta": "chatkit_beta=v1",
+    "X-Client-Request-Id": requestId,
+  };
+
+  const get = async (url: string) => {
+    const response = await fetchUpstream(url, { headers }, { log });
+    const body = (await response.json().catch(() => ({}))) as
+      | Record<string, unknown>
+      | undefined;
+    return { response, body: body ?? {} };
+  };
+
+  const failure = (response: Response, body: Record<string, unknown>) => {
+    log.error("thread request failed", { status: response.status, body });
+    return {
+      ok: false as const,
+      status: response.status,
+      error:
+        extractUpstreamError(body) ??
+        `Failed to load thread: ${response.statusText}`,
+      retryable: isRetryableStatus(response.status),
+    };
+  };
+
+  const thread = await get(threadUrl);
+  if (!thread.response.ok) {
+    return failure(thread.response, thread.body);
+  }
+
+  const items: unknown[] = [];
+  let after: string | null = null;
+  for (let page = 0; page < MAX_ITEM_PAGES; page += 1) {
+    const query = new URLSearchParams({ limit: String(ITEMS_PAGE_SIZE), order: "asc" });
+    if (after) {
+      query.set("after", after);
+    }
+    const { response, body } = await get(`${threadUrl}/items?${query}`);
+    if (!response.ok) {
+      return failure(response, body);
+    }
+    const data = Array.isArray(body.data) ? body.data : [];
+    items.push(...data);
+    after = typeof body.last_id === "string" ? body.last_id : null;
+    if (body.has_more !== true || !after || data.length === 0) {
+      break;
+    }
+  }
+
+  log.info("thread loaded", { items: items.length });
+  return { ok: true, thread: thread.body, items };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from "vitest";
+import { invokeClientTool, type ClientToolContext } from "@/lib/clientTools";
+
+function createContext(): ClientToolContext {
+  return {
+    rubricId: null,
+    setColorScheme: vi.fn(),
+    performAction: vi.fn(),
+    recordGrade: vi.fn(async () => "grade-1"),
+    openRubric: vi.fn(() => true),
+    setLocale: vi.fn(),
+  };
+}
+
+describe("invokeClientTool", () => {
+  it("answers an unknown tool with the available names", async () => {
+    const result = await invokeClientTool({ name: "nope", params: {} }, createContext());
+
+    expect(result).toMatchObject({ success: false, error: { code: "unknown_tool" } });
+  });
+
+  it("rejects parameters outside the tool's schema without calling it", async () => {
+    const context = createContext();
+
+    const result = await invokeClientTool(
+      { name: "switch_theme", params: { theme: "sepia" } },
+      context
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: "invalid_params", details: ["theme must be one of light, dark"] },
+    });
+    expect(context.setColorScheme).not.toHaveBeenCalled();
+  });
+
+  it("passes validated parameters, with numbers sent as strings converted", async () => {
+    const context = createContext();
+
+    const result = await invokeClientTool(
+      {
+        name: "record_grade",
+        params: {
+          student: "Mina",
+          assignment: "Essay 1",
+          criteria: [{ criterion: "Clarity", score: "4", max_points: "5" }],
+          bonus: "1",
+          max_total: "5",
+          unknown: "dropped",
+        },
+      },
+      context
+    );
+
+    expect(result).toMatchObject({ success: true, grade_id: "grade-1" });
+    expect(context.recordGrade).toHaveBeenCalledWith(
+      expect.objectContaining({ student: "Mina", bonus: 1, total: 5, maxTotal: 5 })
+    );
+  });
+});
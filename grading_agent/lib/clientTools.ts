@@ -0,0 +1,425 @@
+import type { ColorScheme, SupportedLocale } from "@openai/chatkit";
+import { downloadFile } from "@/lib/download";
+import {
+  MAX_SUBMISSION_LENGTH,
+  toNumber,
+  validateGrade,
+  type GradeInput,
+} from "@/lib/grade";
+import { resolveLocale } from "@/lib/locale";
+import { createLogger } from "@/lib/logger";
+import type { WidgetAction, WidgetActionResult } from "@/lib/widgetActions";
+
+/**
+ * Client tools the agent can call through ChatKit's `onClientTool`. Each tool
+ * declares its parameters; `invokeClientTool` validates an invocation against
+ * them before dispatch and answers the agent with a structured error when the
+ * tool is unknown, the parameters are wrong or the handler fails. The panel
+ * supplies a `ClientToolContext` with the callbacks the handlers need.
+ */
+
+type StringParam = {
+  type: "string";
+  required?: boolean;
+  enum?: readonly string[];
+  maxLength?: number;
+};
+
+type NumberParam = {
+  type: "number";
+  required?: boolean;
+  min?: number;
+  max?: number;
+};
+
+type BooleanParam = { type: "boolean"; required?: boolean };
+
+/** Items are checked by the handler; the schema only checks the array. */
+type ArrayParam = { type: "array"; required?: boolean };
+
+export type ParamSpec = StringParam | NumberParam | BooleanParam | ArrayParam;
+
+export type ParamSchema = Record<string, ParamSpec>;
+
+type ParamValue<P extends ParamSpec> = P extends {
+  type: "string";
+  enum: readonly (infer E)[];
+}
+  ? E
+  : P extends StringParam
+    ? string
+    : P extends NumberParam
+      ? number
+      : P extends BooleanParam
+        ? boolean
+        : unknown[];
+
+/** Handler parameters: required params are present, the rest optional. */
+export type InferParams<S extends ParamSchema> = {
+  [K in keyof S as S[K] extends { required: true } ? K : never]: ParamValue<S[K]>;
+} & {
+  [K in keyof S as S[K] extends { required: true } ? never : K]?: ParamValue<S[K]>;
+};
+
+export type ClientToolContext = {
+  /** Rubric the current session was started with. */
+  rubricId: string | null;
+  setColorScheme: (scheme: ColorScheme) => void;
+  /** Runs an action on the server and resolves with its result. */
+  performAction: (action: WidgetAction) => Promise<WidgetActionResult>;
+  recordGrade: (grade: GradeInput) => Promise<string>;
+  /** Shows a rubric; `false` when there is no rubric with that id. */
+  openRubric: (rubricId: string) => boolean;
+  setLocale: (locale: SupportedLocale) => void;
+};
+
+export type ClientToolErrorCode =
+  | "unknown_tool"
+  | "invalid_params"
+  | "not_found"
+  | "failed";
+
+export type ClientToolResult = Record<string, unknown>;
+
+export type ClientToolError = {
+  success: false;
+  error: { code: ClientToolErrorCode; message: string; details?: string[] };
+};
+
+export type ClientTool<S extends ParamSchema = ParamSchema> = {
+  name: string;
+  description: string;
+  params: S;
+  handler: (
+    params: InferParams<S>,
+    context: ClientToolContext
+  ) => ClientToolResult | Promise<ClientToolResult>;
+};
+
+/**
+ * A tool of any schema. `prepare` checks an invocation against the tool's
+ * own schema and binds the handler to the typed result.
+ */
+type RegisteredClientTool = Omit<ClientTool, "handler"> & {
+  prepare: (input: Record<string, unknown>) =>
+    | {
+        ok: true;
+        run: (context: ClientToolContext) => ClientToolResult | Promise<ClientToolResult>;
+      }
+    | { ok: false; errors: string[] };
+};
+
+/** Keeps each tool's handler typed by its own parameter schema. */
+export function defineClientTool<const S extends ParamSchema>(
+  tool: ClientTool<S>
+): ClientTool<S> {
+  return tool;
+}
+
+export function toolError(
+  code: ClientToolErrorCode,
+  message: string,
+  details?: string[]
+): ClientToolError {
+  return {
+    success: false,
+    error: { code, message, ...(details ? { details } : {}) },
+  };
+}
+
+const log = createLogger("clientTools");
+
+function readParam(
+  name: string,
+  spec: ParamSpec,
+  value: unknown,
+  errors: string[]
+): unknown {
+  switch (spec.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        errors.push(`${name} must be a string`);
+        return undefined;
+      }
+      const text = value.trim();
+      if (spec.required && !text) {
+        errors.push(`${name} must not be empty`);
+      } else if (spec.enum && !spec.enum.includes(text)) {
+        errors.push(`${name} must be one of ${spec.enum.join(", ")}`);
+      } else if (spec.maxLength !== undefined && text.length > spec.maxLength) {
+        errors.push(`${name} must be at most ${spec.maxLength} characters`);
+      }
+      return text;
+    }
+    case "number": {
+      const number = toNumber(value);
+      if (number === null) {
+        errors.push(`${name} must be a number`);
+      } else if (spec.min !== undefined && number < spec.min) {
+        errors.push(`${name} must be at least ${spec.min}`);
+      } else if (spec.max !== undefined && number > spec.max) {
+        errors.push(`${name} must be at most ${spec.max}`);
+      }
+      return number ?? undefined;
+    }
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${name} must be true or false`);
+      }
+      return value;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${name} must be an array`);
+      }
+      return value;
+  }
+}
+
+export type ParamValidationResult<S extends ParamSchema> =
+  | { ok: true; value: InferParams<S> }
+  | { ok: false; errors: string[] };
+
+/**
+ * Checks `input` against `schema`. Parameters the schema does not declare are
+ * dropped; `null` counts as missing, since models often send it for optional
+ * parameters.
+ */
+export function validateParams<S extends ParamSchema>(
+  schema: S,
+  input: Record<string, unknown>
+): ParamValidationResult<S> {
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(schema)) {
+    const raw = input[name];
+    if (raw === undefined || raw === null) {
+      if (spec.required) {
+        errors.push(`${name} is required`);
+      }
+      continue;
+    }
+    value[name] = readParam(name, spec, raw, errors);
+  }
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as InferParams<S> };
+}
+
+const switchTheme = defineClientTool({
+  name: "switch_theme",
+  description: "Switches the page between light and dark mode.",
+  params: {
+    theme: { type: "string", required: true, enum: ["light", "dark"] },
+  },
+  handler: ({ theme }, context) => {
+    context.setColorScheme(theme);
+    return { success: true };
+  },
+});
+
+const recordFact = defineClientTool({
+  name: "record_fact",
+  description: "Saves a fact about the student to the facts panel.",
+  params: {
+    fact_id: { type: "string", required: true, maxLength: 200 },
+    fact_text: { type: "string", required: true, maxLength: 2000 },
+  },
+  // Saving an id that is already stored is reported as such, so repeats
+  // across reloads and thread changes are harmless.
+  handler: ({ fact_id, fact_text }, context) =>
+    context.performAction({ type: "save", factId: fact_id, factText: fact_text }),
+});
+
+const updateFact = defineClientTool({
+  name: "update_fact",
+  description: "Replaces the text of a saved fact.",
+  params: {
+    fact_id: { type: "string", required: true, maxLength: 200 },
+    fact_text: { type: "string", required: true, maxLength: 2000 },
+  },
+  handler: ({ fact_id, fact_text }, context) =>
+    context.performAction({ type: "update", factId: fact_id, factText: fact_text }),
+});
+
+const deleteFact = defineClientTool({
+  name: "delete_fact",
+  description: "Removes a saved fact.",
+  params: {
+    fact_id: { type: "string", required: true, maxLength: 200 },
+  },
+  handler: ({ fact_id }, context) =>
+    context.performAction({ type: "delete", factId: fact_id }),
+});
+
+const requestRegrade = defineClientTool({
+  name: "request_regrade",
+  description: "Asks an instructor to look at a grade again.",
+  params: {
+    grade_id: { type: "string", required: true },
+    reason: { type: "string", required: true, maxLength: 2000 },
+  },
+  handler: ({ grade_id, reason }, context) =>
+    context.performAction({ type: "request_regrade", gradeId: grade_id, reason }),
+});
+
+const recordGrade = defineClientTool({
+  name: "record_grade",
+  description:
+    "Records a graded submission. It stays pending until an instructor reviews it.",
+  params: {
+    student: { type: "string" },
+    student_id: { type: "string" },
+    student_name: { type: "string" },
+    assignment: { type: "string", required: true },
+    rubric_id: { type: "string" },
+    criteria: { type: "array", required: true },
+    bonus: { type: "number", min: 0 },
+    total: { type: "number" },
+    max_total: { type: "number" },
+    feedback: { type: "string" },
+    submission: { type: "string", maxLength: MAX_SUBMISSION_LENGTH },
+  },
+  handler: async (params, context) => {
+    // Scores and totals are cross-checked by the shared grade validator.
+    const validation = validateGrade({
+      rubric_id: context.rubricId,
+      ...params,
+    });
+    if (!validation.ok) {
+      return toolError("invalid_params", "The grade is inconsistent", validation.errors);
+    }
+    const gradeId = await context.recordGrade(validation.value);
+    return {
+      success: true,
+      grade_id: gradeId,
+      status: "pending",
+      message: "Grade recorded; the student will see it once an instructor approves it.",
+    };
+  },
+});
+
+const openRubric = defineClientTool({
+  name: "open_rubric",
+  description: "Shows a rubric to the student; defaults to the session's rubric.",
+  params: {
+    rubric_id: { type: "string" },
+  },
+  handler: ({ rubric_id }, context) => {
+    const rubricId = rubric_id || context.rubricId;
+    if (!rubricId) {
+      return toolError("not_found", "This session has no rubric; pass rubric_id");
+    }
+    if (!context.openRubric(rubricId)) {
+      return toolError("not_found", `No rubric with id ${rubricId}`);
+    }
+    return { success: true, rubric_id: rubricId };
+  },
+});
+
+const FEEDBACK_FORMATS = {
+  markdown: { extension: "md", type: "text/markdown" },
+  text: { extension: "txt", type: "text/plain" },
+} as const;
+
+const downloadFeedback = defineClientTool({
+  name: "download_feedback",
+  description: "Downloads written feedback as a file on the student's device.",
+  params: {
+    content: { type: "string", required: true, maxLength: 200_000 },
+    filename: { type: "string", maxLength: 100 },
+    format: { type: "string", enum: ["markdown", "text"] },
+  },
+  handler: ({ content, filename, format = "markdown" }) => {
+    const { extension, type } = FEEDBACK_FORMATS[format];
+    const base =
+      filename
+        ?.replace(/\.(md|txt)$/i, "")
+        .replace(/[^\w.-]+/g, "-")
+        .replace(/^[-.]+|-+$/g, "") || "feedback";
+    const name = `${base}.${extension}`;
+    downloadFile(name, content, type);
+    return { success: true, filename: name };
+  },
+});
+
+const setLocale = defineClientTool({
+  name: "set_locale",
+  description: "Changes the language of the chat interface.",
+  params: {
+    locale: { type: "string", required: true, maxLength: 35 },
+  },
+  handler: ({ locale }, context) => {
+    const resolved = resolveLocale(locale);
+    if (!resolved) {
+      return toolError("invalid_params", `Locale ${locale} is not supported`);
+    }
+    context.setLocale(resolved);
+    return { success: true, locale: resolved };
+  },
+});
+
+function registerClientTool<S extends ParamSchema>(tool: ClientTool<S>): RegisteredClientTool {
+  const { handler, ...rest } = tool;
+  return {
+    ...rest,
+    prepare: (input) => {
+      const validation = validateParams(tool.params, input);
+      return validation.ok
+        ? { ok: true, run: (context) => handler(validation.value, context) }
+        : validation;
+    },
+  };
+}
+
+export const CLIENT_TOOLS: RegisteredClientTool[] = [
+  registerClientTool(switchTheme),
+  registerClientTool(recordFact),
+  registerClientTool(updateFact),
+  registerClientTool(deleteFact),
+  registerClientTool(recordGrade),
+  registerClientTool(requestRegrade),
+  registerClientTool(openRubric),
+  registerClientTool(downloadFeedback),
+  registerClientTool(setLocale),
+];
+
+const registry = new Map(CLIENT_TOOLS.map((tool) => [tool.name, tool]));
+
+/** Validates and dispatches one `onClientTool` invocation. */
+export async function invokeClientTool(
+  invocation: { name: string; params: Record<string, unknown> },
+  context: ClientToolContext
+): Promise<ClientToolResult> {
+  const tool = registry.get(invocation.name);
+  if (!tool) {
+    log.warn("unknown client tool", {
+      name: invocation.name,
+      params: Object.keys(invocation.params ?? {}),
+    });
+    return toolError(
+      "unknown_tool",
+      `Unknown client tool ${invocation.name}. Available tools: ${[...registry.keys()].join(", ")}`
+    );
+  }
+
+  const prepared = tool.prepare(invocation.params ?? {});
+  if (!prepared.ok) {
+    log.warn("invalid client tool params", {
+      name: tool.name,
+      errors: prepared.errors,
+    });
+    return toolError("invalid_params", `Invalid parameters for ${tool.name}`, prepared.errors);
+  }
+
+  try {
+    const result = await prepared.run(context);
+    log.debug("client tool", { name: tool.name, success: result.success });
+    return result;
+  } catch (error) {
+    log.error("client tool failed", { name: tool.name, error });
+    return toolError(
+      "failed",
+      error instanceof Error ? error.message : `${tool.name} failed`
+    );
+  }
+}
@@ -1,35 +1,202 @@
-import { ColorScheme, StartScreenPrompt, ThemeOption } from "@openai/chatkit";
+import {
+  ColorScheme,
+  ModelOption,
+  StartScreenPrompt,
+  ThemeOption,
+} from "@openai/chatkit";
+import type { FeedbackPreset } from "@/lib/preset";
 
 export const WORKFLOW_ID =
   process.env.NEXT_PUBLIC_CHATKIT_WORKFLOW_ID?.trim() ?? "";
 
 export const CREATE_SESSION_ENDPOINT = "/api/create-session";
 
+export const WORKFLOWS_ENDPOINT = "/api/workflows";
+
+export const FACTS_ENDPOINT = "/api/facts";
+
+export const RUBRICS_ENDPOINT = "/api/rubrics";
+
+export const GRADES_ENDPOINT = "/api/grades";
+
+export const MY_GRADES_ENDPOINT = "/api/grades/mine";
+
+export const AUTH_SESSION_ENDPOINT = "/api/auth/session";
+
+export const AUTH_LOGIN_ENDPOINT = "/api/auth/login";
+
+export const HEALTH_ENDPOINT = "/api/health";
+
+export const THEMES_ENDPOINT = "/api/themes";
+
+export const ACTIONS_ENDPOINT = "/api/actions";
+
+export const BATCHES_ENDPOINT = "/api/batches";
+
+export const THREADS_ENDPOINT = "/api/threads";
+
+export const FEEDBACK_ENDPOINT = "/api/feedback";
+
+export const EVENTS_ENDPOINT = "/api/events";
+
+export const ANALYTICS_PREFERENCES_ENDPOINT = "/api/events/preferences";
+
+/**
+ * Client analytics (see `lib/analytics.ts`): a comma-separated list of
+ * `console`, `file` (the events route) and `webhook`, the share of visits
+ * to keep, and where the webhook sink posts.
+ */
+export const ANALYTICS_SINKS = process.env.NEXT_PUBLIC_ANALYTICS_SINKS;
+
+export const ANALYTICS_SAMPLE_RATE = process.env.NEXT_PUBLIC_ANALYTICS_SAMPLE_RATE;
+
+export const ANALYTICS_WEBHOOK_URL =
+  process.env.NEXT_PUBLIC_ANALYTICS_WEBHOOK_URL?.trim() ?? "";
+
+export const SUBMISSIONS_ENDPOINT = "/api/submissions";
+
+export const SIMILARITY_ENDPOINT = "/api/similarity";
+
+export const PRESETS_ENDPOINT = "/api/presets";
+
+/**
+ * File kinds accepted for submissions and composer attachments, as a
+ * comma-separated list of `pdf`, `docx`, `markdown`, `text` and `image`
+ * (see `lib/submission.ts`); unset accepts all of them.
+ */
+export const SUBMISSION_TYPES = process.env.NEXT_PUBLIC_SUBMISSION_TYPES;
+
+export type WorkflowKey = "grading" | "mcp" | "tool";
+
+export type WorkflowDefinition = {
+  key: WorkflowKey;
+  label: string;
+  description: string;
+  /** Whether the workflow reads the rubric state variables. */
+  supportsRubric: boolean;
+};
+
+/**
+ * Workflows the browser may start sessions for. The client only ever sends a
+ * `key`; the create-session route maps it to a workflow id from the server
+ * environment (see `lib/workflowRegistry.ts`).
+ */
+export const WORKFLOWS: WorkflowDefinition[] = [
+  {
+    key: "grading",
+    label: "Grading Agent",
+    description: "Grades submissions against a rubric and writes feedback.",
+    supportsRubric: true,
+  },
+  {
+    key: "mcp",
+    label: "MCP Agent",
+    description: "Answers questions using Model Context Protocol tools.",
+    supportsRubric: false,
+  },
+  {
+    key: "tool",
+    label: "Tool Agent",
+    description: "Automates tasks with custom function tools.",
+    supportsRubric: false,
+  },
+];
+
+export const DEFAULT_WORKFLOW_KEY: WorkflowKey = "grading";
+
+/*
+ * Defaults for the default course (see `lib/course.ts`). Course config files
+ * override any of these per course.
+ */
+
 export const STARTER_PROMPTS: StartScreenPrompt[] = [
   {
-    label: "What can you do?",
-    prompt: "What can you do?",
-    icon: "circle-question",
+    icon: "star",
+    label: "Submit assignment for grading",
+    prompt: "I want to submit my assignment for grading",
+  },
+  {
+    icon: "chart",
+    label: "View my grades and feedback",
+    prompt: "Show me my current grades and feedback",
   },
 ];
 
-export const PLACEHOLDER_INPUT = "Ask anything...";
+export const PLACEHOLDER_INPUT = "Ask a question or upload your assignment file...";
 
-export const GREETING = "How can I help you today?";
+export const GREETING =
+  "👋 Welcome to your Grading Assistant! Upload your assignment to get started.";
 
-export const getThemeConfig = (theme: ColorScheme): ThemeOption => ({
+export const DISCLAIMER =
+  "🎓 This AI assistant provides automated grading help. Please verify results before final submission.";
+
+/**
+ * Feedback presets offered in the composer. The selected one is passed to
+ * the workflow as state variables (see `lib/preset.ts`); courses choose
+ * which of them to offer.
+ */
+export const FEEDBACK_PRESETS: FeedbackPreset[] = [
+  {
+    id: "crisp",
+    label: "Crisp",
+    description: "Quick and concise feedback",
+    verbosity: "brief",
+    tone: "direct",
+    maxWords: 150,
+  },
+  {
+    id: "chatty",
+    label: "Detailed",
+    description: "Comprehensive explanations",
+    verbosity: "detailed",
+    tone: "encouraging",
+    maxWords: 600,
+  },
+  {
+    id: "clear",
+    label: "Clear",
+    description: "Simple and straightforward",
+    verbosity: "standard",
+    tone: "plain",
+    maxWords: 300,
+  },
+];
+
+export const COMPOSER_MODELS: ModelOption[] = FEEDBACK_PRESETS.map(
+  ({ id, label, description }) => ({ id, label, description })
+);
+
+export const ATTACHMENT_LIMITS = {
+  enabled: true,
+  maxCount: 5,
+  maxSize: 10 * 1024 * 1024, // 10 MB
+};
+
+/**
+ * ChatKit theme options shared by both color schemes. Saved themes
+ * (`lib/theme.ts`) and course files override them.
+ */
+export const THEME_DEFAULTS: Omit<ThemeOption, "colorScheme"> = {
+  radius: "round",
+  density: "normal",
   color: {
     grayscale: {
       hue: 220,
-      tint: 6,
-      shade: theme === "dark" ? -1 : -4,
+      tint: 8,
+      shade: 4,
     },
     accent: {
-      primary: theme === "dark" ? "#f1f5f9" : "#0f172a",
+      primary: "#6366f1",
       level: 1,
     },
   },
-  radius: "round",
-  // Add other theme options here
+  typography: {
+    baseSize: 16,
+  },
   // chatkit.studio/playground to explore config options
+};
+
+export const getThemeConfig = (theme: ColorScheme): ThemeOption => ({
+  colorScheme: theme,
+  ...THEME_DEFAULTS,
 });
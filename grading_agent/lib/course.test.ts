@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_COURSE,
+  getCourseTheme,
+  isCourseSlug,
+  localizeCourse,
+  validateCourseConfig,
+} from "@/lib/course";
+
+describe("isCourseSlug", () => {
+  it.each([
+    ["cs101", true],
+    ["intro-to-ai", true],
+    ["-leading-dash", false],
+    ["Upper", false],
+    ["../etc", false],
+    ["", false],
+  ])("%j is %s", (slug, expected) => {
+    expect(isCourseSlug(slug)).toBe(expected);
+  });
+});
+
+describe("validateCourseConfig", () => {
+  it("fills an empty file from the default course", () => {
+    const result = validateCourseConfig("cs101", {});
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        ...DEFAULT_COURSE,
+        slug: "cs101",
+        translations: { en: {}, ...DEFAULT_COURSE.translations },
+      },
+    });
+  });
+
+  it("trims text and reads presets by id or object", () => {
+    const result = validateCourseConfig("cs101", {
+      title: "  CS 101  ",
+      disclaimer: " ",
+      models: ["crisp", { id: "chatty", label: "Long", default: true }],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe("CS 101");
+    expect(result.value.disclaimer).toBeNull();
+    expect(result.value.models).toEqual([
+      { id: "crisp", label: "Crisp", description: "Quick and concise feedback" },
+      { id: "chatty", label: "Long", description: "Comprehensive explanations", default: true },
+    ]);
+  });
+
+  it("merges attachment limits over the defaults", () => {
+    const result = validateCourseConfig("cs101", { attachments: { maxCount: 1 } });
+
+    expect(result.ok && result.value.attachments).toEqual({
+      ...DEFAULT_COURSE.attachments,
+      maxCount: 1,
+    });
+  });
+
+  it("collects every invalid field", () => {
+    const result = validateCourseConfig("CS 101", {
+      title: "",
+      workflow: "payroll",
+      prompts: [{ label: "Only a label" }],
+      models: ["gpt-5"],
+      attachments: { enabled: "yes", maxSize: 0 },
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      "slug may only contain lowercase letters, digits and dashes",
+      "title must be a non-empty string",
+      "workflow must be one of grading, mcp, tool",
+      "prompts[0] needs a label and a prompt",
+      "models[0] must name a preset: crisp, chatty, clear",
+      "attachments.enabled must be true or false",
+      "attachments.maxSize must be a positive integer",
+    ]);
+  });
+
+  it("rejects a file that is not an object", () => {
+    expect(validateCourseConfig("cs101", [])).toEqual({
+      ok: false,
+      errors: ["course config must be a JSON object"],
+    });
+  });
+
+  it("reports translations for unknown locales and bad fields", () => {
+    const result = validateCourseConfig("cs101", {
+      translations: { de: { title: "Kurs" }, fr: { greeting: 3 } },
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      "translations.de: locale must be one of en, es, fr, ar, ur",
+      "translations.fr.greeting must be a non-empty string",
+    ]);
+  });
+});
+
+describe("localizeCourse", () => {
+  it("does not translate text the course file sets itself", () => {
+    const result = validateCourseConfig("cs101", {
+      title: "CS 101",
+      translations: { fr: { tagline: "Cours d'IA" } },
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const french = localizeCourse(result.value, "fr-CA");
+
+    expect(french.title).toBe("CS 101");
+    expect(french.tagline).toBe("Cours d'IA");
+    expect(french.greeting).toBe(DEFAULT_COURSE.translations.fr?.greeting);
+  });
+
+  it("keeps the course text for locales without a catalog", () => {
+    expect(localizeCourse(DEFAULT_COURSE, "de-DE")).toBe(DEFAULT_COURSE);
+  });
+});
+
+describe("getCourseTheme", () => {
+  it("applies the course theme but keeps the viewer's color scheme", () => {
+    const course = { ...DEFAULT_COURSE, theme: { radius: "pill" as const } };
+
+    const theme = getCourseTheme(course, "dark");
+
+    expect(theme).toMatchObject({ radius: "pill", colorScheme: "dark" });
+  });
+});
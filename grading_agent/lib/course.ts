@@ -0,0 +1,362 @@
+import type {
+  ColorScheme,
+  ModelOption,
+  StartScreenPrompt,
+  ThemeOption,
+} from "@openai/chatkit";
+import {
+  ATTACHMENT_LIMITS,
+  COMPOSER_MODELS,
+  DEFAULT_WORKFLOW_KEY,
+  DISCLAIMER,
+  FEEDBACK_PRESETS,
+  GREETING,
+  PLACEHOLDER_INPUT,
+  STARTER_PROMPTS,
+  WORKFLOWS,
+  getThemeConfig,
+  type WorkflowKey,
+} from "@/lib/config";
+import {
+  UI_LOCALES,
+  getCatalog,
+  isUiLocale,
+  matchUiLocale,
+  type ContentMessages,
+  type UiLocale,
+} from "@/lib/i18n";
+import { findPreset } from "@/lib/preset";
+import {
+  DEFAULT_CHROME,
+  readChatKitTheme,
+  type ChatKitTheme,
+  type ChromeColors,
+} from "@/lib/theme";
+
+/**
+ * Per-course chat configuration. Courses live in `courses/<slug>.json`, are
+ * loaded on the server (`lib/courseStore.ts`) and served at `/course/<slug>`;
+ * every field is optional in the file and falls back to the default course.
+ * Kept free of server-only imports so the panel can use the same types.
+ */
+
+export type CourseAttachments = {
+  enabled: boolean;
+  maxCount: number;
+  /** Bytes per file. */
+  maxSize: number;
+};
+
+/** Theme overrides applied on top of `getThemeConfig` for both schemes. */
+export type CourseTheme = ChatKitTheme;
+
+/** The course text that can be given per UI locale. */
+export type CourseText = Partial<
+  Pick<
+    CourseConfig,
+    "title" | "tagline" | "greeting" | "placeholder" | "disclaimer" | "prompts" | "models"
+  >
+>;
+
+const TEXT_FIELDS = [
+  "title",
+  "tagline",
+  "greeting",
+  "placeholder",
+  "disclaimer",
+  "prompts",
+  "models",
+] as const;
+
+export type CourseConfig = {
+  slug: string;
+  title: string;
+  tagline: string;
+  /** Workflow selected when the course page opens. */
+  workflow: WorkflowKey;
+  greeting: string;
+  prompts: StartScreenPrompt[];
+  placeholder: string;
+  disclaimer: string | null;
+  models: ModelOption[];
+  attachments: CourseAttachments;
+  /** Saved theme (`lib/themeStore.ts`) applied under `theme`. */
+  themeId: string | null;
+  theme: CourseTheme;
+  /** Page chrome colors, from the saved theme when there is one. */
+  chrome: ChromeColors;
+  /** Text per UI locale, applied over the fields above by `localizeCourse`. */
+  translations: Partial<Record<UiLocale, CourseText>>;
+};
+
+export type CourseValidationResult =
+  | { ok: true; value: CourseConfig }
+  | { ok: false; errors: string[] };
+
+export const DEFAULT_COURSE_SLUG = "default";
+
+/** The default course's text from a message catalog. */
+function translateDefaultCourse(content: ContentMessages): CourseText {
+  return {
+    title: content.course.title,
+    tagline: content.course.tagline,
+    greeting: content.course.greeting,
+    placeholder: content.course.placeholder,
+    disclaimer: content.course.disclaimer,
+    prompts: STARTER_PROMPTS.map((prompt, index) => ({
+      ...prompt,
+      ...content.course.prompts[index],
+    })),
+    models: COMPOSER_MODELS.map((model) => ({ ...model, ...content.presets[model.id] })),
+  };
+}
+
+/** Today's grading assistant, used for `/` and as the base of every course. */
+export const DEFAULT_COURSE: CourseConfig = {
+  slug: DEFAULT_COURSE_SLUG,
+  title: "Grading Assistant",
+  tagline: "AI-powered assignment evaluation",
+  workflow: DEFAULT_WORKFLOW_KEY,
+  greeting: GREETING,
+  prompts: STARTER_PROMPTS,
+  placeholder: PLACEHOLDER_INPUT,
+  disclaimer: DISCLAIMER,
+  models: COMPOSER_MODELS,
+  attachments: ATTACHMENT_LIMITS,
+  themeId: null,
+  theme: {},
+  chrome: DEFAULT_CHROME,
+  translations: Object.fromEntries(
+    UI_LOCALES.flatMap((locale) => {
+      const { content } = getCatalog(locale);
+      return content ? [[locale, translateDefaultCourse(content)]] : [];
+    })
+  ),
+};
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export function isCourseSlug(value: string): boolean {
+  return SLUG_PATTERN.test(value);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+function readPrompts(value: unknown, errors: string[]): StartScreenPrompt[] {
+  if (!Array.isArray(value)) {
+    errors.push("prompts must be an array");
+    return [];
+  }
+  return value.flatMap((prompt, index) => {
+    if (!isRecord(prompt) || !isNonEmptyString(prompt.label) || !isNonEmptyString(prompt.prompt)) {
+      errors.push(`prompts[${index}] needs a label and a prompt`);
+      return [];
+    }
+    return [
+      {
+        label: prompt.label,
+        prompt: prompt.prompt,
+        ...(isNonEmptyString(prompt.icon)
+          ? { icon: prompt.icon as StartScreenPrompt["icon"] }
+          : {}),
+      },
+    ];
+  });
+}
+
+/**
+ * Composer models are the feedback presets the course offers: a preset id,
+ * or an object naming one with an optional label, description and `default`.
+ */
+function readModels(value: unknown, errors: string[]): ModelOption[] {
+  if (!Array.isArray(value)) {
+    errors.push("models must be an array");
+    return [];
+  }
+  return value.flatMap((model, index) => {
+    const entry = typeof model === "string" ? { id: model } : model;
+    const preset =
+      isRecord(entry) && typeof entry.id === "string" ? findPreset(entry.id) : null;
+    if (!isRecord(entry) || !preset) {
+      errors.push(
+        `models[${index}] must name a preset: ${FEEDBACK_PRESETS.map((item) => item.id).join(", ")}`
+      );
+      return [];
+    }
+    return [
+      {
+        id: preset.id,
+        label: isNonEmptyString(entry.label) ? entry.label : preset.label,
+        description:
+          typeof entry.description === "string" ? entry.description : preset.description,
+        ...(entry.default === true ? { default: true } : {}),
+      },
+    ];
+  });
+}
+
+function readTranslations(
+  value: unknown,
+  errors: string[]
+): Partial<Record<UiLocale, CourseText>> {
+  if (!isRecord(value)) {
+    errors.push("translations must be an object keyed by locale");
+    return {};
+  }
+  const translations: Partial<Record<UiLocale, CourseText>> = {};
+  for (const [locale, input] of Object.entries(value)) {
+    if (!isUiLocale(locale)) {
+      errors.push(`translations.${locale}: locale must be one of ${UI_LOCALES.join(", ")}`);
+      continue;
+    }
+    if (!isRecord(input)) {
+      errors.push(`translations.${locale} must be an object`);
+      continue;
+    }
+    const localeErrors: string[] = [];
+    const text: CourseText = {};
+    for (const key of ["title", "tagline", "greeting", "placeholder"] as const) {
+      if (input[key] === undefined) {
+        continue;
+      }
+      if (isNonEmptyString(input[key])) {
+        text[key] = input[key].trim();
+      } else {
+        localeErrors.push(`${key} must be a non-empty string`);
+      }
+    }
+    if (input.disclaimer !== undefined) {
+      if (input.disclaimer === null || typeof input.disclaimer === "string") {
+        text.disclaimer = input.disclaimer?.trim() || null;
+      } else {
+        localeErrors.push("disclaimer must be a string or null");
+      }
+    }
+    if (input.prompts !== undefined) {
+      text.prompts = readPrompts(input.prompts, localeErrors);
+    }
+    if (input.models !== undefined) {
+      text.models = readModels(input.models, localeErrors);
+    }
+    errors.push(...localeErrors.map((error) => `translations.${locale}.${error}`));
+    translations[locale] = text;
+  }
+  return translations;
+}
+
+function readAttachments(value: unknown, errors: string[]): CourseAttachments {
+  const base = DEFAULT_COURSE.attachments;
+  if (!isRecord(value)) {
+    errors.push("attachments must be an object");
+    return base;
+  }
+  const attachments = { ...base, ...value } as Record<string, unknown>;
+  if (typeof attachments.enabled !== "boolean") {
+    errors.push("attachments.enabled must be true or false");
+  }
+  for (const key of ["maxCount", "maxSize"] as const) {
+    const limit = attachments[key];
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0) {
+      errors.push(`attachments.${key} must be a positive integer`);
+    }
+  }
+  return attachments as CourseAttachments;
+}
+
+/**
+ * Validates a course file and fills unspecified fields from the default
+ * course. `colorScheme` in a theme is ignored; the viewer's choice wins.
+ */
+export function validateCourseConfig(
+  slug: string,
+  input: unknown
+): CourseValidationResult {
+  const errors: string[] = [];
+  if (!isCourseSlug(slug)) {
+    errors.push("slug may only contain lowercase letters, digits and dashes");
+  }
+  if (!isRecord(input)) {
+    return { ok: false, errors: [...errors, "course config must be a JSON object"] };
+  }
+
+  const course: CourseConfig = { ...DEFAULT_COURSE, slug };
+  for (const key of ["title", "tagline", "greeting", "placeholder"] as const) {
+    if (input[key] === undefined) {
+      continue;
+    }
+    if (isNonEmptyString(input[key])) {
+      course[key] = input[key].trim();
+    } else {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+  if (input.workflow !== undefined) {
+    const workflow = WORKFLOWS.find((entry) => entry.key === input.workflow);
+    if (workflow) {
+      course.workflow = workflow.key;
+    } else {
+      errors.push(
+        `workflow must be one of ${WORKFLOWS.map((entry) => entry.key).join(", ")}`
+      );
+    }
+  }
+  if (input.disclaimer !== undefined) {
+    if (input.disclaimer === null || typeof input.disclaimer === "string") {
+      course.disclaimer = input.disclaimer?.trim() || null;
+    } else {
+      errors.push("disclaimer must be a string or null");
+    }
+  }
+  if (input.prompts !== undefined) {
+    course.prompts = readPrompts(input.prompts, errors);
+  }
+  if (input.models !== undefined) {
+    course.models = readModels(input.models, errors);
+  }
+  if (input.attachments !== undefined) {
+    course.attachments = readAttachments(input.attachments, errors);
+  }
+  if (input.themeId !== undefined) {
+    if (input.themeId === null || isNonEmptyString(input.themeId)) {
+      course.themeId = input.themeId?.trim() || null;
+    } else {
+      errors.push("themeId must be a string or null");
+    }
+  }
+  if (input.theme !== undefined) {
+    course.theme = readChatKitTheme(input.theme, "theme", errors);
+  }
+  // Default translations only cover the text the file leaves to the default
+  // course; its own `translations` go on top.
+  const ownText = TEXT_FIELDS.filter((key) => input[key] !== undefined);
+  const ownTranslations =
+    input.translations !== undefined ? readTranslations(input.translations, errors) : {};
+  course.translations = Object.fromEntries(
+    UI_LOCALES.map((locale) => {
+      const inherited = { ...DEFAULT_COURSE.translations[locale] };
+      ownText.forEach((key) => delete inherited[key]);
+      return [locale, { ...inherited, ...ownTranslations[locale] }];
+    })
+  );
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: course };
+}
+
+/** The course with its text in `locale`, where the course has it. */
+export function localizeCourse(course: CourseConfig, locale: string): CourseConfig {
+  const uiLocale = matchUiLocale(locale);
+  const text = uiLocale ? course.translations[uiLocale] : undefined;
+  return text ? { ...course, ...text } : course;
+}
+
+/** ChatKit theme for a course in the viewer's color scheme. */
+export function getCourseTheme(
+  course: CourseConfig,
+  scheme: ColorScheme
+): ThemeOption {
+  return { ...getThemeConfig(scheme), ...course.theme, colorScheme: scheme };
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DEFAULT_COURSE,
+  DEFAULT_COURSE_SLUG,
+  isCourseSlug,
+  validateCourseConfig,
+  type CourseConfig,
+} from "@/lib/course";
+import { createLogger } from "@/lib/logger";
+import { getTheme } from "@/lib/themeStore";
+
+/**
+ * Reads course config files from `COURSES_DIR` (defaults to `courses/` in
+ * the project root). Files are read on every request so edits show up
+ * without a restart. `default.json`, when present, customises `/`. A
+ * course's `themeId` is resolved against the saved themes here.
+ */
+
+const COURSES_DIR =
+  process.env.COURSES_DIR?.trim() || path.join(process.cwd(), "courses");
+
+const log = createLogger("courses");
+
+async function readCourseFile(slug: string): Promise<CourseConfig | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(COURSES_DIR, `${slug}.json`), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    log.error("course file is not valid JSON", { slug, error });
+    return null;
+  }
+  const result = validateCourseConfig(slug, parsed);
+  if (!result.ok) {
+    log.error("course file is invalid", { slug, errors: result.errors });
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * Layers the course's saved theme under its inline `theme`. A missing theme
+ * is logged and the course keeps the default look rather than failing.
+ */
+async function applySavedTheme(course: CourseConfig): Promise<CourseConfig> {
+  if (!course.themeId) {
+    return course;
+  }
+  const saved = await getTheme(course.themeId);
+  if (!saved) {
+    log.warn("course theme not found", {
+      slug: course.slug,
+      themeId: course.themeId,
+    });
+    return course;
+  }
+  return {
+    ...course,
+    theme: { ...saved.chatkit, ...course.theme },
+    chrome: saved.chrome,
+  };
+}
+
+/** The course for `slug`, or `null` when there is no valid file for it. */
+export async function getCourse(slug: string): Promise<CourseConfig | null> {
+  if (!isCourseSlug(slug)) {
+    return null;
+  }
+  const course = await readCourseFile(slug);
+  if (!course) {
+    return slug === DEFAULT_COURSE_SLUG ? DEFAULT_COURSE : null;
+  }
+  return applySavedTheme(course);
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CHATKIT_API_BASE, validateServerConfig } from "@/lib/env";
+
+const issueFor = (variable: string) =>
+  validateServerConfig().issues.find((issue) => issue.variable === variable);
+
+beforeEach(() => {
+  vi.stubEnv("OPENAI_API_KEY", "sk-test");
+  vi.stubEnv("CHATKIT_API_BASE", "");
+  vi.stubEnv("SESSION_SECRETS", "test-secret-test-secret-test-secret");
+  vi.stubEnv("AUTH_PROVIDER", "");
+  vi.stubEnv("SIMILARITY_FLAG_THRESHOLD", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("validateServerConfig", () => {
+  it("accepts a complete configuration", () => {
+    const report = validateServerConfig();
+
+    expect(report.issues).toEqual([]);
+    expect(report.valid).toBe(true);
+    expect(report.config.chatkitApiBase).toBe(DEFAULT_CHATKIT_API_BASE);
+    expect(report.config.auth).toBeNull();
+  });
+
+  it("is invalid without an API key", () => {
+    vi.stubEnv("OPENAI_API_KEY", " ");
+
+    const report = validateServerConfig();
+
+    expect(report.valid).toBe(false);
+    expect(report.config.openaiApiKey).toBeNull();
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ variable: "OPENAI_API_KEY", severity: "error" })
+    );
+  });
+
+  it("strips a trailing slash from the API base and warns about /v1", () => {
+    vi.stubEnv("CHATKIT_API_BASE", "https://proxy.example.com/v1/");
+
+    const report = validateServerConfig();
+
+    expect(report.config.chatkitApiBase).toBe("https://proxy.example.com/v1");
+    expect(report.valid).toBe(true);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ variable: "CHATKIT_API_BASE", severity: "warning" })
+    );
+  });
+
+  it("falls back to the default API base when it is not an http URL", () => {
+    vi.stubEnv("CHATKIT_API_BASE", "ftp://proxy.example.com");
+
+    const report = validateServerConfig();
+
+    expect(report.config.chatkitApiBase).toBe(DEFAULT_CHATKIT_API_BASE);
+    expect(report.valid).toBe(false);
+  });
+
+  it("requires session secrets only in production", () => {
+    vi.stubEnv("SESSION_SECRETS", "");
+
+    expect(issueFor("SESSION_SECRETS")?.severity).toBe("warning");
+
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(issueFor("SESSION_SECRETS")?.severity).toBe("error");
+  });
+
+  it("warns about short session secrets", () => {
+    vi.stubEnv("SESSION_SECRETS", "test-secret-test-secret-test-secret,short");
+
+    expect(issueFor("SESSION_SECRETS")?.severity).toBe("warning");
+  });
+
+  it("warns about numbers it is going to ignore", () => {
+    vi.stubEnv("RATE_LIMIT_USER_MAX", "lots");
+    vi.stubEnv("CHATKIT_MAX_RETRIES", "-1");
+
+    const report = validateServerConfig();
+
+    expect(report.valid).toBe(true);
+    expect(report.issues.map((issue) => issue.variable)).toEqual([
+      "RATE_LIMIT_USER_MAX",
+      "CHATKIT_MAX_RETRIES",
+    ]);
+  });
+
+  it("warns when session cookies would never be re-signed", () => {
+    vi.stubEnv("SESSION_COOKIE_MAX_AGE", "3600");
+    vi.stubEnv("SESSION_COOKIE_ROTATE_AFTER", "3600");
+
+    expect(issueFor("SESSION_COOKIE_ROTATE_AFTER")?.severity).toBe("warning");
+  });
+
+  it("reports an auth provider that cannot be configured", () => {
+    vi.stubEnv("AUTH_PROVIDER", "local");
+    vi.stubEnv("AUTH_SECRET", "");
+
+    const report = validateServerConfig();
+
+    expect(report.valid).toBe(false);
+    expect(report.config.auth).toBeNull();
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ variable: "AUTH_PROVIDER", severity: "error" })
+    );
+  });
+
+  it("warns about an unknown log level", () => {
+    vi.stubEnv("LOG_LEVEL", "verbose");
+
+    expect(issueFor("LOG_LEVEL")?.severity).toBe("warning");
+  });
+});
@@ -0,0 +1,324 @@
+import { parseAnalyticsSinks, parseSampleRate } from "@/lib/analytics";
+import { getAuthConfig, type AuthConfig } from "@/lib/auth/config";
+import {
+  ANALYTICS_SAMPLE_RATE,
+  ANALYTICS_SINKS,
+  ANALYTICS_WEBHOOK_URL,
+  SUBMISSION_TYPES,
+} from "@/lib/config";
+import type { Logger } from "@/lib/logger";
+import { getSessionPolicy, type SessionPolicy } from "@/lib/session";
+import { DEFAULT_FLAG_THRESHOLD, parseFlagThreshold } from "@/lib/similarity";
+import { parseSubmissionKinds } from "@/lib/submission";
+import { listWorkflows, type WorkflowSummary } from "@/lib/workflowRegistry";
+
+/**
+ * Typed view of the server environment. `validateServerConfig` checks every
+ * variable the app reads and explains how to fix what is wrong; it runs once
+ * at startup (see `instrumentation.ts`) and on every `GET /api/health`.
+ */
+
+export const DEFAULT_CHATKIT_API_BASE = "https://api.openai.com";
+
+export type ConfigIssue = {
+  variable: string;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ServerConfig = {
+  openaiApiKey: string | null;
+  /** Base URL without a trailing slash; `/v1/...` is appended per call. */
+  chatkitApiBase: string;
+  workflows: WorkflowSummary[];
+  sessionPolicy: SessionPolicy;
+  auth: AuthConfig | null;
+};
+
+export type ConfigReport = {
+  config: ServerConfig;
+  issues: ConfigIssue[];
+  /** False when any issue is an error. */
+  valid: boolean;
+};
+
+/** Numeric tuning knobs; unset means "use the default". */
+const NUMERIC_VARIABLES = [
+  "SESSION_COOKIE_MAX_AGE",
+  "SESSION_COOKIE_ROTATE_AFTER",
+  "CHATKIT_SESSION_REUSE_SECONDS",
+  "RATE_LIMIT_WINDOW_SECONDS",
+  "RATE_LIMIT_USER_MAX",
+  "RATE_LIMIT_USER_BURST",
+  "RATE_LIMIT_IP_MAX",
+  "RATE_LIMIT_IP_BURST",
+  "TRUSTED_PROXY_HOPS",
+  "CHATKIT_TIMEOUT_MS",
+  "CHATKIT_MAX_RETRIES",
+  "CHATKIT_RETRY_BASE_MS",
+  "CHATKIT_BREAKER_THRESHOLD",
+  "CHATKIT_BREAKER_COOLDOWN_SECONDS",
+];
+
+const LOG_LEVELS = ["debug", "info", "warn", "error"];
+
+const MIN_SECRET_LENGTH = 32;
+
+function readApiBase(issues: ConfigIssue[]): string {
+  const raw = process.env.CHATKIT_API_BASE?.trim();
+  if (!raw) {
+    return DEFAULT_CHATKIT_API_BASE;
+  }
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    issues.push({
+      variable: "CHATKIT_API_BASE",
+      severity: "error",
+      message: `CHATKIT_API_BASE must be an absolute URL such as ${DEFAULT_CHATKIT_API_BASE}.`,
+    });
+    return DEFAULT_CHATKIT_API_BASE;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    issues.push({
+      variable: "CHATKIT_API_BASE",
+      severity: "error",
+      message: "CHATKIT_API_BASE must use http or https.",
+    });
+    return DEFAULT_CHATKIT_API_BASE;
+  }
+  const base = raw.replace(/\/+$/, "");
+  if (base.endsWith("/v1")) {
+    issues.push({
+      variable: "CHATKIT_API_BASE",
+      severity: "warning",
+      message:
+        "CHATKIT_API_BASE ends in /v1, but /v1/chatkit/... is appended to it. Remove the /v1 suffix.",
+    });
+  }
+  return base;
+}
+
+function checkOpenAiKey(issues: ConfigIssue[]): string | null {
+  const key = process.env.OPENAI_API_KEY?.trim() || null;
+  if (!key) {
+    issues.push({
+      variable: "OPENAI_API_KEY",
+      severity: "error",
+      message:
+        "OPENAI_API_KEY is not set. Create a key in the same project as your Agent Builder workflow and add it to .env.local.",
+    });
+  } else if (!key.startsWith("sk-")) {
+    issues.push({
+      variable: "OPENAI_API_KEY",
+      severity: "warning",
+      message: "OPENAI_API_KEY does not look like an OpenAI key (expected an sk- prefix).",
+    });
+  }
+  return key;
+}
+
+function checkWorkflows(
+  workflows: WorkflowSummary[],
+  issues: ConfigIssue[]
+): void {
+  for (const workflow of workflows) {
+    const raw = process.env[workflow.envVar]?.trim();
+    if (!workflow.available) {
+      if (workflow.key === "grading") {
+        issues.push({
+          variable: workflow.envVar,
+          severity: "error",
+          message: raw
+            ? `${workflow.envVar} still holds the example placeholder. Paste the id shown after publishing in Agent Builder.`
+            : `${workflow.envVar} is not set. Publish your workflow in Agent Builder and copy its wf_... id.`,
+        });
+      }
+      continue;
+    }
+    if (raw && !raw.startsWith("wf_")) {
+      issues.push({
+        variable: workflow.envVar,
+        severity: "warning",
+        message: `${workflow.envVar} does not look like a workflow id (expected a wf_ prefix).`,
+      });
+    }
+  }
+}
+
+function checkSessionSecrets(issues: ConfigIssue[]): void {
+  const keys = (process.env.SESSION_SECRETS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  if (keys.length === 0) {
+    const isProduction = process.env.NODE_ENV === "production";
+    issues.push({
+      variable: "SESSION_SECRETS",
+      severity: isProduction ? "error" : "warning",
+      message: isProduction
+        ? "SESSION_SECRETS is required in production to sign session cookies. Generate one with `openssl rand -base64 32`."
+        : "SESSION_SECRETS is not set; sessions are signed with a temporary key and reset on restart.",
+    });
+    return;
+  }
+  if (keys.some((key) => key.length < MIN_SECRET_LENGTH)) {
+    issues.push({
+      variable: "SESSION_SECRETS",
+      severity: "warning",
+      message: `Every SESSION_SECRETS key should be at least ${MIN_SECRET_LENGTH} characters long.`,
+    });
+  }
+}
+
+function checkNumbers(issues: ConfigIssue[]): void {
+  for (const variable of NUMERIC_VARIABLES) {
+    const raw = process.env[variable]?.trim();
+    if (!raw) {
+      continue;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      issues.push({
+        variable,
+        severity: "warning",
+        message: `${variable} must be a non-negative number; "${raw}" is ignored and the default is used.`,
+      });
+    }
+  }
+}
+
+function checkSessionPolicy(policy: SessionPolicy, issues: ConfigIssue[]): void {
+  if (policy.rotateAfter >= policy.maxAge) {
+    issues.push({
+      variable: "SESSION_COOKIE_ROTATE_AFTER",
+      severity: "warning",
+      message:
+        "SESSION_COOKIE_ROTATE_AFTER is not shorter than SESSION_COOKIE_MAX_AGE, so session cookies are never re-signed.",
+    });
+  }
+}
+
+function checkAnalytics(issues: ConfigIssue[]): void {
+  const { sinks, unknown } = parseAnalyticsSinks(ANALYTICS_SINKS);
+  if (unknown.length > 0) {
+    issues.push({
+      variable: "NEXT_PUBLIC_ANALYTICS_SINKS",
+      severity: "warning",
+      message: `Unknown analytics sinks are ignored: ${unknown.join(", ")}. Use console, file or webhook.`,
+    });
+  }
+  if (sinks.includes("webhook") && !ANALYTICS_WEBHOOK_URL) {
+    issues.push({
+      variable: "NEXT_PUBLIC_ANALYTICS_WEBHOOK_URL",
+      severity: "warning",
+      message: "The webhook analytics sink is enabled but has no URL, so it is skipped.",
+    });
+  }
+  if (parseSampleRate(ANALYTICS_SAMPLE_RATE) === null) {
+    issues.push({
+      variable: "NEXT_PUBLIC_ANALYTICS_SAMPLE_RATE",
+      severity: "warning",
+      message: "NEXT_PUBLIC_ANALYTICS_SAMPLE_RATE must be between 0 and 1; every visit is kept.",
+    });
+  }
+}
+
+function checkSubmissionTypes(issues: ConfigIssue[]): void {
+  const { kinds, unknown } = parseSubmissionKinds(SUBMISSION_TYPES);
+  if (unknown.length > 0) {
+    issues.push({
+      variable: "NEXT_PUBLIC_SUBMISSION_TYPES",
+      severity: "warning",
+      message: `Unknown submission types are ignored: ${unknown.join(", ")}. Use pdf, docx, markdown, text or image.`,
+    });
+  }
+  if (kinds.length === 0) {
+    issues.push({
+      variable: "NEXT_PUBLIC_SUBMISSION_TYPES",
+      severity: "error",
+      message: "NEXT_PUBLIC_SUBMISSION_TYPES allows no file types, so no submission can be received.",
+    });
+  }
+}
+
+function checkSimilarityThreshold(issues: ConfigIssue[]): void {
+  const raw = process.env.SIMILARITY_FLAG_THRESHOLD?.trim();
+  if (raw && parseFlagThreshold(raw) !== Number(raw)) {
+    issues.push({
+      variable: "SIMILARITY_FLAG_THRESHOLD",
+      severity: "warning",
+      message: `SIMILARITY_FLAG_THRESHOLD must be between 0 and 1; "${raw}" is ignored and ${DEFAULT_FLAG_THRESHOLD} is used.`,
+    });
+  }
+}
+
+function readAuth(issues: ConfigIssue[]): AuthConfig | null {
+  try {
+    return getAuthConfig();
+  } catch (error) {
+    issues.push({
+      variable: "AUTH_PROVIDER",
+      severity: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+export function validateServerConfig(): ConfigReport {
+  const issues: ConfigIssue[] = [];
+  const sessionPolicy = getSessionPolicy();
+  const workflows = listWorkflows();
+
+  const config: ServerConfig = {
+    openaiApiKey: checkOpenAiKey(issues),
+    chatkitApiBase: readApiBase(issues),
+    workflows,
+    sessionPolicy,
+    auth: readAuth(issues),
+  };
+  checkWorkflows(workflows, issues);
+  checkSessionSecrets(issues);
+  checkSessionPolicy(sessionPolicy, issues);
+  checkNumbers(issues);
+  checkAnalytics(issues);
+  checkSubmissionTypes(issues);
+  checkSimilarityThreshold(issues);
+
+  const logLevel = process.env.LOG_LEVEL?.trim();
+  if (logLevel && !LOG_LEVELS.includes(logLevel)) {
+    issues.push({
+      variable: "LOG_LEVEL",
+      severity: "warning",
+      message: `LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}.`,
+    });
+  }
+
+  return {
+    config,
+    issues,
+    valid: issues.every((issue) => issue.severity !== "error"),
+  };
+}
+
+export function getServerConfig(): ServerConfig {
+  return validateServerConfig().config;
+}
+
+export function logConfigReport(report: ConfigReport, log: Logger): void {
+  for (const issue of report.issues) {
+    log[issue.severity === "error" ? "error" : "warn"](issue.message, {
+      variable: issue.variable,
+    });
+  }
+  if (report.valid) {
+    log.info("configuration ok", {
+      workflows: report.config.workflows
+        .filter((workflow) => workflow.available)
+        .map((workflow) => workflow.key),
+      auth: report.config.auth?.provider ?? "none",
+    });
+  }
+}
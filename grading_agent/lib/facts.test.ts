@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFact,
+  deleteFactByFactId,
+  listFacts,
+  updateFactByFactId,
+} from "@/lib/facts";
+
+describe("createFact", () => {
+  it("stores a fact id once when it is recorded twice at the same time", async () => {
+    const results = await Promise.all([
+      createFact("user-concurrent", { factId: "goal", text: "Wants  an A" }),
+      createFact("user-concurrent", { factId: "goal", text: "Wants an A" }),
+    ]);
+
+    expect(results.map((result) => result.created).sort()).toEqual([false, true]);
+    expect(results[0].fact.id).toBe(results[1].fact.id);
+    const stored = await listFacts("user-concurrent");
+    expect(stored).toHaveLength(1);
+    expect(stored[0].text).toBe("Wants an A");
+  });
+
+  it("keeps the same fact id apart for different users", async () => {
+    await createFact("user-a", { factId: "goal", text: "A" });
+    const other = await createFact("user-b", { factId: "goal", text: "B" });
+
+    expect(other.created).toBe(true);
+    expect((await listFacts("user-b")).map((fact) => fact.text)).toEqual(["B"]);
+  });
+});
+
+describe("updateFactByFactId and deleteFactByFactId", () => {
+  it("does not bring back a fact deleted while it was being updated", async () => {
+    await createFact("user-race", { factId: "goal", text: "Wants an A" });
+
+    const [updated, deleted] = await Promise.all([
+      updateFactByFactId("user-race", "goal", "Wants a B"),
+      deleteFactByFactId("user-race", "goal"),
+    ]);
+
+    expect(updated?.text).toBe("Wants a B");
+    expect(deleted).toBe(true);
+    expect(await listFacts("user-race")).toEqual([]);
+  });
+
+  it("reports a fact the user does not have", async () => {
+    await createFact("user-owner", { factId: "goal", text: "A" });
+
+    expect(await updateFactByFactId("user-other", "goal", "B")).toBeNull();
+    expect(await deleteFactByFactId("user-other", "goal")).toBe(false);
+    expect((await listFacts("user-owner"))[0].text).toBe("A");
+  });
+});
@@ -0,0 +1,112 @@
+import { generateId, getCollection } from "@/lib/store";
+
+export type Fact = {
+  id: string;
+  userId: string;
+  factId: string;
+  text: string;
+  createdAt: string;
+};
+
+/** Shape returned to the browser; the owning user id stays server-side. */
+export type FactSummary = Omit<Fact, "userId">;
+
+const facts = () => getCollection<Fact>("facts");
+
+export function normalizeFactText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function toFactSummary(fact: Fact): FactSummary {
+  return {
+    id: fact.id,
+    factId: fact.factId,
+    text: fact.text,
+    createdAt: fact.createdAt,
+  };
+}
+
+export async function listFacts(userId: string): Promise<Fact[]> {
+  const all = await facts().list();
+  return all
+    .filter((fact) => fact.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Stores a fact for the user. `record_fact` can fire several times for the
+ * same fact id (retries, reloads, thread switches), so an existing fact with
+ * the same id is returned unchanged instead of creating a duplicate. The
+ * lookup and the insert share the store's write lock, so concurrent calls
+ * cannot both create it.
+ */
+export async function createFact(
+  userId: string,
+  input: { factId: string; text: string }
+): Promise<{ fact: Fact; created: boolean }> {
+  return facts().mutate((records) => {
+    const existing = records.find(
+      (fact) => fact.userId === userId && fact.factId === input.factId
+    );
+    if (existing) {
+      return { fact: existing, created: false };
+    }
+
+    const fact: Fact = {
+      id: generateId(),
+      userId,
+      factId: input.factId,
+      text: normalizeFactText(input.text),
+      createdAt: new Date().toISOString(),
+    };
+    records.push(fact);
+    return { fact, created: true };
+  });
+}
+
+/**
+ * Replaces the text of the fact the agent calls `factId`. Resolves with the
+ * updated fact, or `null` when the user has no such fact. The lookup and the
+ * write share the store's write lock, so a fact deleted meanwhile stays
+ * deleted.
+ */
+export async function updateFactByFactId(
+  userId: string,
+  factId: string,
+  text: string
+): Promise<Fact | null> {
+  return facts().mutate((records) => {
+    const index = records.findIndex(
+      (fact) => fact.userId === userId && fact.factId === factId
+    );
+    if (index === -1) {
+      return null;
+    }
+    const fact = { ...records[index], text: normalizeFactText(text) };
+    records[index] = fact;
+    return fact;
+  });
+}
+
+/** Deletes the fact the agent calls `factId`, under the store's write lock. */
+export async function deleteFactByFactId(
+  userId: string,
+  factId: string
+): Promise<boolean> {
+  return removeFact((fact) => fact.userId === userId && fact.factId === factId);
+}
+
+export async function deleteFact(userId: string, id: string): Promise<boolean> {
+  return removeFact((fact) => fact.userId === userId && fact.id === id);
+}
+
+function removeFact(matches: (fact: Fact) => boolean): Promise<boolean> {
+  return facts().mutate((records) => {
+    const index = records.findIndex(matches);
+    if (index === -1) {
+      return false;
+    }
+    records.splice(index, 1);
+    return true;
+  });
+}
@@ -0,0 +1,212 @@
+import { WORKFLOWS, type WorkflowKey } from "@/lib/config";
+import type { Transcript } from "@/lib/transcript";
+
+/**
+ * Thumbs-up/down feedback on assistant replies. ChatKit shows the buttons
+ * (`threadItemActions.feedback`) and reports clicks through its `chatkit.log`
+ * event; the panel forwards them to `/api/feedback`, which stores one record
+ * per rated reply. The summaries below drive the analytics page.
+ */
+
+export type FeedbackRating = "up" | "down";
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 2_000;
+
+/** Longest reply excerpt kept for drill-down. */
+const EXCERPT_LENGTH = 500;
+
+export type FeedbackInput = {
+  threadId: string;
+  /** The rated reply's items; ChatKit rates a whole response at once. */
+  itemIds: string[];
+  rating: FeedbackRating;
+  comment: string | null;
+  workflowKey: WorkflowKey;
+};
+
+export type FeedbackRecord = FeedbackInput & {
+  id: string;
+  userId: string;
+  /** Composer model of the message the reply answered, when known. */
+  model: string | null;
+  /** Start of the rated reply, read from the thread when it was rated. */
+  excerpt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type FeedbackValidationResult =
+  | { ok: true; value: FeedbackInput }
+  | { ok: false; errors: string[] };
+
+const isWorkflowKey = (value: unknown): value is WorkflowKey =>
+  WORKFLOWS.some((workflow) => workflow.key === value);
+
+export function validateFeedback(input: unknown): FeedbackValidationResult {
+  if (!input || typeof input !== "object") {
+    return { ok: false, errors: ["Feedback must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const threadId = typeof raw.threadId === "string" ? raw.threadId.trim() : "";
+  if (!threadId) {
+    errors.push("threadId is required");
+  }
+  const itemIds = Array.isArray(raw.itemIds)
+    ? raw.itemIds.filter((id): id is string => typeof id === "string" && id.trim() !== "")
+    : [];
+  if (itemIds.length === 0) {
+    errors.push("itemIds must list at least one item");
+  }
+  if (raw.rating !== "up" && raw.rating !== "down") {
+    errors.push('rating must be "up" or "down"');
+  }
+  if (!isWorkflowKey(raw.workflowKey)) {
+    errors.push("workflowKey must be a known workflow");
+  }
+  let comment: string | null = null;
+  if (raw.comment !== undefined && raw.comment !== null) {
+    if (typeof raw.comment !== "string") {
+      errors.push("comment must be a string");
+    } else if (raw.comment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+      errors.push(`comment must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters`);
+    } else {
+      comment = raw.comment.trim() || null;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      threadId,
+      itemIds,
+      rating: raw.rating as FeedbackRating,
+      comment,
+      workflowKey: raw.workflowKey as WorkflowKey,
+    },
+  };
+}
+
+/**
+ * Reads a feedback click out of a `chatkit.log` event. ChatKit does not
+ * document the payload, so the usual spellings are all accepted; anything
+ * else is not feedback.
+ */
+export function parseFeedbackLog(
+  name: string,
+  data: Record<string, unknown> | undefined
+): { rating: FeedbackRating; itemIds: string[] } | null {
+  if (!/feedback/i.test(name) || !data) {
+    return null;
+  }
+  const kind = data.kind ?? data.feedback ?? data.rating ?? data.value;
+  const rating: FeedbackRating | null =
+    kind === "positive" || kind === "up" || kind === "thumbs_up"
+      ? "up"
+      : kind === "negative" || kind === "down" || kind === "thumbs_down"
+        ? "down"
+        : null;
+  const ids = data.item_ids ?? data.itemIds ?? data.item_id ?? data.itemId;
+  const itemIds = (Array.isArray(ids) ? ids : [ids]).filter(
+    (id): id is string => typeof id === "string" && id !== ""
+  );
+  return rating && itemIds.length > 0 ? { rating, itemIds } : null;
+}
+
+/**
+ * The model and a text excerpt for a rated reply. The model is the one
+ * picked for the user message the reply answered.
+ */
+export function describeRatedReply(
+  transcript: Transcript,
+  itemIds: string[]
+): { model: string | null; excerpt: string | null } {
+  const firstIndex = transcript.entries.findIndex((entry) => itemIds.includes(entry.id));
+  if (firstIndex < 0) {
+    return { model: null, excerpt: null };
+  }
+  const prompt = transcript.entries
+    .slice(0, firstIndex)
+    .reverse()
+    .find((entry) => entry.role === "user");
+  const text = transcript.entries
+    .filter((entry) => entry.role === "assistant" && itemIds.includes(entry.id))
+    .map((entry) => entry.text)
+    .join("\n\n")
+    .trim();
+  return {
+    model: prompt?.model ?? null,
+    excerpt: text
+      ? text.length > EXCERPT_LENGTH
+        ? `${text.slice(0, EXCERPT_LENGTH)}…`
+        : text
+      : null,
+  };
+}
+
+export type ApprovalStats = {
+  up: number;
+  down: number;
+  total: number;
+  /** Share of thumbs-up, 0–1; `null` with no ratings. */
+  approvalRate: number | null;
+};
+
+export type FeedbackPeriod = "day" | "week";
+
+export type FeedbackGroup = { key: string; stats: ApprovalStats };
+
+export type FeedbackSummary = {
+  overall: ApprovalStats;
+  /** Oldest period first. */
+  overTime: FeedbackGroup[];
+  byWorkflow: FeedbackGroup[];
+  /** Replies with no known model are grouped under `"default"`. */
+  byModel: FeedbackGroup[];
+};
+
+function toStats(records: FeedbackRecord[]): ApprovalStats {
+  const up = records.filter((record) => record.rating === "up").length;
+  const total = records.length;
+  return { up, down: total - up, total, approvalRate: total > 0 ? up / total : null };
+}
+
+/** `YYYY-MM-DD` of the day, or of the Monday starting the week (UTC). */
+export function getFeedbackPeriodKey(at: string, period: FeedbackPeriod): string {
+  const date = new Date(at);
+  if (period === "week") {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function groupBy(
+  records: FeedbackRecord[],
+  keyOf: (record: FeedbackRecord) => string
+): FeedbackGroup[] {
+  const groups = new Map<string, FeedbackRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return Array.from(groups, ([key, entries]) => ({ key, stats: toStats(entries) }));
+}
+
+export function summarizeFeedback(
+  records: FeedbackRecord[],
+  period: FeedbackPeriod
+): FeedbackSummary {
+  const byCount = (a: FeedbackGroup, b: FeedbackGroup) => b.stats.total - a.stats.total;
+  return {
+    overall: toStats(records),
+    overTime: groupBy(records, (record) =>
+      getFeedbackPeriodKey(record.createdAt, period)
+    ).sort((a, b) => a.key.localeCompare(b.key)),
+    byWorkflow: groupBy(records, (record) => record.workflowKey).sort(byCount),
+    byModel: groupBy(records, (record) => record.model ?? "default").sort(byCount),
+  };
+}
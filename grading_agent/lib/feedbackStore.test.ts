@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { FeedbackInput } from "@/lib/feedback";
+import { listFeedback, saveFeedback } from "@/lib/feedbackStore";
+
+const RATING: FeedbackInput = {
+  threadId: "thread-1",
+  itemIds: ["item-1", "item-2"],
+  rating: "up",
+  comment: null,
+  workflowKey: "grading",
+};
+
+describe("saveFeedback", () => {
+  it("keeps one record when a rating and a comment arrive together", async () => {
+    await Promise.all([
+      saveFeedback("user-concurrent", RATING, { model: "gpt-5", excerpt: "Nice" }),
+      saveFeedback(
+        "user-concurrent",
+        { ...RATING, itemIds: ["item-2"], comment: "Clear" },
+        { model: null, excerpt: null }
+      ),
+    ]);
+
+    const stored = (await listFeedback()).filter(
+      (record) => record.userId === "user-concurrent"
+    );
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ comment: "Clear", model: "gpt-5", excerpt: "Nice" });
+  });
+
+  it("keeps the earlier comment when the rating changes", async () => {
+    await saveFeedback("user-change", { ...RATING, comment: "Good" }, {
+      model: null,
+      excerpt: null,
+    });
+    const updated = await saveFeedback(
+      "user-change",
+      { ...RATING, rating: "down" },
+      { model: null, excerpt: null }
+    );
+
+    expect(updated).toMatchObject({ rating: "down", comment: "Good" });
+  });
+});
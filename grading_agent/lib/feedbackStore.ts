@@ -0,0 +1,55 @@
+import type { FeedbackInput, FeedbackRecord } from "@/lib/feedback";
+import { generateId, getCollection } from "@/lib/store";
+
+const feedback = () => getCollection<FeedbackRecord>("feedback");
+
+export async function listFeedback(): Promise<FeedbackRecord[]> {
+  const stored = await feedback().list();
+  return stored.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Records a rating, or updates the user's earlier rating of the same reply
+ * (changing thumbs or adding a comment). A missing model or excerpt keeps
+ * the one found when the reply was first rated. The lookup and the write
+ * share the store's write lock, so a rating and a comment sent back to back
+ * update one record instead of inserting two.
+ */
+export async function saveFeedback(
+  userId: string,
+  input: FeedbackInput,
+  details: Pick<FeedbackRecord, "model" | "excerpt">
+): Promise<FeedbackRecord> {
+  return feedback().mutate((records) => {
+    const index = records.findIndex(
+      (record) =>
+        record.userId === userId &&
+        record.threadId === input.threadId &&
+        record.itemIds.some((id) => input.itemIds.includes(id))
+    );
+    const now = new Date().toISOString();
+    if (index !== -1) {
+      const existing = records[index];
+      const updated: FeedbackRecord = {
+        ...existing,
+        ...input,
+        comment: input.comment ?? existing.comment,
+        model: details.model ?? existing.model,
+        excerpt: details.excerpt ?? existing.excerpt,
+        updatedAt: now,
+      };
+      records[index] = updated;
+      return updated;
+    }
+    const created: FeedbackRecord = {
+      ...input,
+      ...details,
+      id: generateId(),
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    records.push(created);
+    return created;
+  });
+}
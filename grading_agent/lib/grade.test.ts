@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsv, gradesToCsv, type GradeRecord } from "@/lib/grade";
+
+describe("escapeCsv", () => {
+  it.each([
+    ["=HYPERLINK(\"http://evil\")", "\"'=HYPERLINK(\"\"http://evil\"\")\""],
+    ["+1+1", "'+1+1"],
+    ["-2+3", "'-2+3"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    ["\t=1", "'\t=1"],
+    ["\r=1", "\"'\r=1\""],
+  ])("neutralizes the formula %j", (value, expected) => {
+    expect(escapeCsv(value)).toBe(expected);
+  });
+
+  it("leaves plain text and numbers alone", () => {
+    expect(escapeCsv("Essay 1")).toBe("Essay 1");
+    expect(escapeCsv("a, b")).toBe('"a, b"');
+    expect(escapeCsv(-2)).toBe("-2");
+    expect(escapeCsv(null)).toBe("");
+  });
+});
+
+describe("gradesToCsv", () => {
+  it("neutralizes formulas in student names and criteria", () => {
+    const grade = {
+      student: "=cmd|' /C calc'!A0",
+      assignment: "Essay",
+      criteria: [{ criterion: "@Clarity", score: 4, maxPoints: 5, remark: "" }],
+      bonus: 0,
+      total: 4,
+      maxTotal: 5,
+      status: "approved",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    } as GradeRecord;
+
+    const [header, row] = gradesToCsv([grade]).split("\n");
+
+    expect(header).toContain(",'@Clarity,");
+    expect(row).toBe("'=cmd|' /C calc'!A0,Essay,4,0,4,5,approved,2026-01-01T00:00:00.000Z");
+  });
+});
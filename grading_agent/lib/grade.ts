@@ -0,0 +1,486 @@
+/**
+ * Gradebook model shared by the `record_grade` client tool, the grades API
+ * and the gradebook page. Kept free of server-only imports.
+ */
+
+export type CriterionScore = {
+  criterion: string;
+  score: number;
+  maxPoints: number | null;
+  remark: string;
+};
+
+export type GradeInput = {
+  student: string;
+  assignment: string;
+  rubricId: string | null;
+  criteria: CriterionScore[];
+  bonus: number;
+  total: number;
+  maxTotal: number | null;
+  feedback: string;
+  /** The graded work as the agent saw it, shown to the reviewing instructor. */
+  submission: string;
+};
+
+/**
+ * `pending` until an instructor approves it or sends it back (`returned`);
+ * students only see approved grades. A student can then ask for a regrade,
+ * which puts it back in front of an instructor.
+ */
+export type GradeStatus = "pending" | "approved" | "returned" | "regrade_requested";
+
+export const GRADE_STATUS_LABELS: Record<GradeStatus, string> = {
+  pending: "Pending review",
+  approved: "Approved",
+  returned: "Sent back",
+  regrade_requested: "Regrade requested",
+};
+
+/** Statuses waiting on an instructor. */
+export const REVIEW_QUEUE_STATUSES: GradeStatus[] = ["pending", "regrade_requested"];
+
+export type GradeEventType =
+  | "recorded"
+  | "overridden"
+  | "commented"
+  | "approved"
+  | "returned"
+  | "regrade_requested"
+  | "flagged";
+
+/** A single field an instructor changed, e.g. `criteria.Clarity.score`. */
+export type GradeChange = {
+  field: string;
+  from: string | number;
+  to: string | number;
+};
+
+/** One entry in a grade's history: who did what, when and why. */
+export type GradeEvent = {
+  type: GradeEventType;
+  by: string;
+  at: string;
+  note: string;
+  changes?: GradeChange[];
+};
+
+/** The scores as the agent recorded them, kept when an instructor overrides. */
+export type AiScores = {
+  criteria: CriterionScore[];
+  bonus: number;
+  total: number;
+};
+
+export type GradeRecord = GradeInput & {
+  id: string;
+  recordedBy: string;
+  /**
+   * Identity of the graded student, matched against the signed-in user's id
+   * or email. `null` for grades stored before it was kept.
+   */
+  studentId: string | null;
+  createdAt: string;
+  status: GradeStatus;
+  /** Marked for a closer look, e.g. suspected plagiarism. */
+  flagged: boolean;
+  events: GradeEvent[];
+  aiScores: AiScores;
+};
+
+/** What a student sees of an approved grade: no history or AI scores. */
+export type StudentGrade = Pick<
+  GradeRecord,
+  "id" | "assignment" | "criteria" | "bonus" | "total" | "maxTotal" | "feedback"
+> & {
+  approvedAt: string | null;
+  comments: string[];
+};
+
+export type GradeValidationResult =
+  | { ok: true; value: GradeInput }
+  | { ok: false; errors: string[] };
+
+const SCORE_EPSILON = 1e-6;
+
+export const MAX_SUBMISSION_LENGTH = 100_000;
+
+/**
+ * A finite number, or `null`. Tool parameters come from the model, so
+ * numbers sometimes arrive as strings.
+ */
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+/**
+ * Validates a grade payload. Accepts both the snake_case parameters the agent
+ * sends to `record_grade` and the camelCase `GradeInput` the browser posts.
+ */
+export function validateGrade(input: unknown): GradeValidationResult {
+  if (!input || typeof input !== "object") {
+    return { ok: false, errors: ["Grade must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const student = asString(raw.student ?? raw.student_id ?? raw.student_name);
+  if (!student) {
+    errors.push("student is required");
+  }
+  const assignment = asString(raw.assignment);
+  if (!assignment) {
+    errors.push("assignment is required");
+  }
+
+  const rawCriteria = Array.isArray(raw.criteria) ? raw.criteria : [];
+  if (rawCriteria.length === 0) {
+    errors.push("criteria must list at least one scored criterion");
+  }
+
+  const criteria: CriterionScore[] = rawCriteria.map((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const label = `criteria[${index}]`;
+    const name = asString(entry.criterion ?? entry.title ?? entry.name);
+    const score = toNumber(entry.score);
+    const maxPoints = toNumber(entry.maxPoints ?? entry.max_points);
+
+    if (!name) {
+      errors.push(`${label}: criterion is required`);
+    }
+    if (score === null || score < 0) {
+      errors.push(`${label}: score must be a non-negative number`);
+    } else if (maxPoints !== null && score > maxPoints + SCORE_EPSILON) {
+      errors.push(`${label}: score ${score} exceeds max points ${maxPoints}`);
+    }
+    return {
+      criterion: name,
+      score: score ?? 0,
+      maxPoints,
+      remark: asString(entry.remark ?? entry.remarks),
+    };
+  });
+
+  const bonus = toNumber(raw.bonus) ?? 0;
+  if (bonus < 0) {
+    errors.push("bonus must not be negative");
+  }
+
+  const expectedTotal =
+    criteria.reduce((sum, entry) => sum + entry.score, 0) + bonus;
+  const total = raw.total === undefined ? expectedTotal : toNumber(raw.total);
+  if (total === null) {
+    errors.push("total must be a number");
+  } else if (Math.abs(total - expectedTotal) > SCORE_EPSILON) {
+    errors.push(
+      `total ${total} does not match the criterion scores plus bonus (${expectedTotal})`
+    );
+  }
+
+  const maxTotal = toNumber(raw.maxTotal ?? raw.max_total);
+
+  const submission = typeof raw.submission === "string" ? raw.submission.trim() : "";
+  if (submission.length > MAX_SUBMISSION_LENGTH) {
+    errors.push(`submission must be at most ${MAX_SUBMISSION_LENGTH} characters`);
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      student,
+      assignment,
+      rubricId: asString(raw.rubricId ?? raw.rubric_id) || null,
+      criteria,
+      bonus,
+      total: total as number,
+      maxTotal,
+      feedback: asString(raw.feedback),
+      submission,
+    },
+  };
+}
+
+/**
+ * An instructor's pass over a grade. `scores` overrides criteria by name;
+ * `null` fields are left as they are. `comment` is recorded in the history
+ * and shown to the student once the grade is approved.
+ */
+export type GradeReview = {
+  scores: { criterion: string; score: number; remark: string | null }[];
+  bonus: number | null;
+  feedback: string | null;
+  comment: string;
+  decision: "approve" | "return" | null;
+};
+
+export type GradeReviewValidationResult =
+  | { ok: true; value: GradeReview }
+  | { ok: false; errors: string[] };
+
+/** The parts of a grade a review can change. */
+export type ReviewedGradeFields = Pick<
+  GradeRecord,
+  "criteria" | "bonus" | "total" | "feedback" | "status" | "events"
+>;
+
+export type GradeReviewResult =
+  | { ok: true; value: ReviewedGradeFields }
+  | { ok: false; errors: string[] };
+
+const REVIEW_DECISIONS = ["approve", "return"] as const;
+
+export function validateGradeReview(input: unknown): GradeReviewValidationResult {
+  if (!input || typeof input !== "object") {
+    return { ok: false, errors: ["Review must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (raw.scores !== undefined && !Array.isArray(raw.scores)) {
+    errors.push("scores must be an array");
+  }
+  const scores = (Array.isArray(raw.scores) ? raw.scores : []).map(
+    (item, index) => {
+      const entry = (item ?? {}) as Record<string, unknown>;
+      const criterion = asString(entry.criterion);
+      const score = toNumber(entry.score);
+      if (!criterion) {
+        errors.push(`scores[${index}]: criterion is required`);
+      }
+      if (score === null || score < 0) {
+        errors.push(`scores[${index}]: score must be a non-negative number`);
+      }
+      return {
+        criterion,
+        score: score ?? 0,
+        remark: typeof entry.remark === "string" ? entry.remark.trim() : null,
+      };
+    }
+  );
+
+  let bonus: number | null = null;
+  if (raw.bonus !== undefined && raw.bonus !== null) {
+    bonus = toNumber(raw.bonus);
+    if (bonus === null || bonus < 0) {
+      errors.push("bonus must be a non-negative number");
+    }
+  }
+
+  const decision = raw.decision ?? null;
+  if (
+    decision !== null &&
+    !REVIEW_DECISIONS.includes(decision as (typeof REVIEW_DECISIONS)[number])
+  ) {
+    errors.push(`decision must be one of ${REVIEW_DECISIONS.join(", ")}`);
+  }
+  const comment = asString(raw.comment);
+  if (decision === "return" && !comment) {
+    errors.push("comment is required when sending a grade back");
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      scores,
+      bonus,
+      feedback: typeof raw.feedback === "string" ? raw.feedback.trim() : null,
+      comment,
+      decision: decision as GradeReview["decision"],
+    },
+  };
+}
+
+/**
+ * Applies a review to a grade: overrides scores, recomputes the total and
+ * appends history entries listing every changed field. Returns the fields and
+ * events to store; the caller persists them.
+ */
+export function applyGradeReview(
+  grade: GradeRecord,
+  review: GradeReview,
+  by: string,
+  at = new Date().toISOString()
+): GradeReviewResult {
+  const errors: string[] = [];
+  const changes: GradeChange[] = [];
+
+  const criteria = grade.criteria.map((entry) => ({ ...entry }));
+  for (const override of review.scores) {
+    const entry = criteria.find((item) => item.criterion === override.criterion);
+    if (!entry) {
+      errors.push(`Unknown criterion ${override.criterion}`);
+      continue;
+    }
+    if (entry.maxPoints !== null && override.score > entry.maxPoints + SCORE_EPSILON) {
+      errors.push(
+        `${entry.criterion}: score ${override.score} exceeds max points ${entry.maxPoints}`
+      );
+      continue;
+    }
+    if (override.score !== entry.score) {
+      changes.push({
+        field: `criteria.${entry.criterion}.score`,
+        from: entry.score,
+        to: override.score,
+      });
+      entry.score = override.score;
+    }
+    if (override.remark !== null && override.remark !== entry.remark) {
+      changes.push({
+        field: `criteria.${entry.criterion}.remark`,
+        from: entry.remark,
+        to: override.remark,
+      });
+      entry.remark = override.remark;
+    }
+  }
+
+  const bonus = review.bonus ?? grade.bonus;
+  if (bonus !== grade.bonus) {
+    changes.push({ field: "bonus", from: grade.bonus, to: bonus });
+  }
+  const total = criteria.reduce((sum, entry) => sum + entry.score, 0) + bonus;
+  if (Math.abs(total - grade.total) > SCORE_EPSILON) {
+    changes.push({ field: "total", from: grade.total, to: total });
+  }
+  const feedback = review.feedback ?? grade.feedback;
+  if (feedback !== grade.feedback) {
+    changes.push({ field: "feedback", from: grade.feedback, to: feedback });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const events: GradeEvent[] = [];
+  if (changes.length > 0) {
+    events.push({ type: "overridden", by, at, note: "", changes });
+  }
+  let status = grade.status;
+  if (review.decision === "approve") {
+    status = "approved";
+    events.push({ type: "approved", by, at, note: "" });
+  } else if (review.decision === "return") {
+    status = "returned";
+    events.push({ type: "returned", by, at, note: "" });
+  }
+  // The comment explains the last step taken, or stands on its own.
+  if (review.comment) {
+    const last = events.at(-1);
+    if (last) {
+      last.note = review.comment;
+    } else {
+      events.push({ type: "commented", by, at, note: review.comment });
+    }
+  }
+  if (events.length === 0) {
+    return { ok: false, errors: ["The review changes nothing"] };
+  }
+
+  return {
+    ok: true,
+    value: {
+      criteria,
+      bonus,
+      total,
+      feedback,
+      status,
+      events: [...grade.events, ...events],
+    },
+  };
+}
+
+const STUDENT_VISIBLE_EVENTS: GradeEventType[] = ["overridden", "commented", "approved"];
+
+/** Projects an approved grade for its student. */
+export function toStudentGrade(grade: GradeRecord): StudentGrade {
+  const approvedAt =
+    grade.events.findLast((event) => event.type === "approved")?.at ?? null;
+  return {
+    id: grade.id,
+    assignment: grade.assignment,
+    criteria: grade.criteria,
+    bonus: grade.bonus,
+    total: grade.total,
+    maxTotal: grade.maxTotal,
+    feedback: grade.feedback,
+    approvedAt,
+    comments: grade.events
+      .filter((event) => STUDENT_VISIBLE_EVENTS.includes(event.type) && event.note)
+      .map((event) => event.note),
+  };
+}
+
+/**
+ * Quotes a CSV cell. Text that a spreadsheet would run as a formula (a leading
+ * `=`, `+`, `-`, `@`, tab or carriage return) gets a `'` prefix, since names,
+ * criteria and feedback come from students and the model. Numbers are ours
+ * and stay numeric.
+ */
+export const escapeCsv = (value: string | number | null): string => {
+  let text = value === null ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flattens grades into CSV with one column per criterion seen across all
+ * records, so a whole assignment can be opened as a spreadsheet.
+ */
+export function gradesToCsv(grades: GradeRecord[]): string {
+  const criterionNames: string[] = [];
+  for (const grade of grades) {
+    for (const entry of grade.criteria) {
+      if (!criterionNames.includes(entry.criterion)) {
+        criterionNames.push(entry.criterion);
+      }
+    }
+  }
+
+  const header = [
+    "student",
+    "assignment",
+    ...criterionNames,
+    "bonus",
+    "total",
+    "max_total",
+    "status",
+    "recorded_at",
+  ];
+  const rows = grades.map((grade) => [
+    grade.student,
+    grade.assignment,
+    ...criterionNames.map(
+      (name) =>
+        grade.criteria.find((entry) => entry.criterion === name)?.score ?? null
+    ),
+    grade.bonus,
+    grade.total,
+    grade.maxTotal,
+    grade.status,
+    grade.createdAt,
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map((cell) => escapeCsv(cell)).join(","))
+    .join("\n");
+}
@@ -0,0 +1,179 @@
+import {
+  applyGradeReview,
+  type GradeEvent,
+  type GradeEventType,
+  type GradeInput,
+  type GradeRecord,
+  type GradeReview,
+} from "@/lib/grade";
+import { getRubric } from "@/lib/rubricStore";
+import { generateId, getCollection } from "@/lib/store";
+
+const grades = () => getCollection<GradeRecord>("grades");
+
+/**
+ * Grades stored before review existed have no status, history, submission or
+ * AI score snapshot; their current scores are the agent's.
+ */
+function withReviewFields(grade: GradeRecord): GradeRecord {
+  return {
+    ...grade,
+    studentId: grade.studentId ?? null,
+    submission: grade.submission ?? "",
+    aiScores: grade.aiScores ?? {
+      criteria: grade.criteria,
+      bonus: grade.bonus,
+      total: grade.total,
+    },
+    status: grade.status ?? "pending",
+    flagged: grade.flagged ?? false,
+    events: grade.events ?? [
+      { type: "recorded", by: grade.recordedBy, at: grade.createdAt, note: "" },
+    ],
+  };
+}
+
+const createEvent = (
+  type: GradeEventType,
+  by: string,
+  note = ""
+): GradeEvent => ({ type, by, at: new Date().toISOString(), note });
+
+export async function listGrades(): Promise<GradeRecord[]> {
+  const all = await grades().list();
+  return all
+    .map(withReviewFields)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getGrade(id: string): Promise<GradeRecord | null> {
+  const grade = await grades().get(id);
+  return grade ? withReviewFields(grade) : null;
+}
+
+/**
+ * Whether `grade` is the work of the student signed in as `userId`, or with
+ * `email`. Batch uploads name students by whatever the instructor used, so
+ * emails match regardless of case.
+ */
+export function isGradeOf(
+  grade: GradeRecord,
+  student: { userId: string; email: string | null }
+): boolean {
+  const { studentId } = grade;
+  if (!studentId) {
+    return false;
+  }
+  return (
+    studentId === student.userId ||
+    (student.email !== null && studentId.toLowerCase() === student.email.toLowerCase())
+  );
+}
+
+/**
+ * Stores a grade for `studentId`: the student's own identity when they grade
+ * their work in the chat, or the id the instructor gave them.
+ */
+export async function recordGrade(
+  recordedBy: string,
+  studentId: string,
+  input: GradeInput
+): Promise<GradeRecord> {
+  let maxTotal = input.maxTotal;
+  if (maxTotal === null && input.rubricId) {
+    maxTotal = (await getRubric(input.rubricId))?.totalPoints ?? null;
+  }
+
+  return grades().put({
+    ...input,
+    maxTotal,
+    id: generateId(),
+    recordedBy,
+    studentId,
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    flagged: false,
+    events: [createEvent("recorded", recordedBy)],
+    aiScores: {
+      criteria: input.criteria,
+      bonus: input.bonus,
+      total: input.total,
+    },
+  });
+}
+
+/** Removes a grade, such as one recorded for a batch item that had already ended. */
+export async function deleteGrade(id: string): Promise<boolean> {
+  return grades().remove(id);
+}
+
+/**
+ * What a change decided: the grade to store (`null` to leave it as it was)
+ * and the result to hand back to the caller.
+ */
+export type GradeChange<R> = { grade: GradeRecord | null; result: R };
+
+/**
+ * Reads grade `id` and stores what `change` makes of it, both under the
+ * collection's write lock, so checks see the latest record and concurrent
+ * changes are never lost. Resolves with the change's result, or `null` when
+ * there is no such grade.
+ */
+export async function updateGrade<R>(
+  id: string,
+  change: (grade: GradeRecord) => GradeChange<R>
+): Promise<R | null> {
+  return grades().mutate((records) => {
+    const index = records.findIndex((record) => record.id === id);
+    if (index === -1) {
+      return null;
+    }
+    const { grade, result } = change(withReviewFields(records[index]));
+    if (grade) {
+      records[index] = grade;
+    }
+    return result;
+  });
+}
+
+export type SavedReview =
+  | { ok: true; grade: GradeRecord }
+  | { ok: false; errors: string[] };
+
+/** Applies and stores an instructor's review; `null` when there is no such grade. */
+export function saveGradeReview(
+  id: string,
+  review: GradeReview,
+  by: string
+): Promise<SavedReview | null> {
+  return updateGrade<SavedReview>(id, (grade) => {
+    const applied = applyGradeReview(grade, review, by);
+    if (!applied.ok) {
+      return { grade: null, result: { ok: false, errors: applied.errors } };
+    }
+    const reviewed = { ...grade, ...applied.value };
+    return { grade: reviewed, result: { ok: true, grade: reviewed } };
+  });
+}
+
+/** `grade` sent back to the review queue at its student's request. */
+export function withRegradeRequest(
+  grade: GradeRecord,
+  by: string,
+  reason: string
+): GradeRecord {
+  return {
+    ...grade,
+    status: "regrade_requested",
+    events: [...grade.events, createEvent("regrade_requested", by, reason)],
+  };
+}
+
+/** `grade` marked for a closer look. */
+export function withFlag(grade: GradeRecord, by: string, reason: string): GradeRecord {
+  return {
+    ...grade,
+    flagged: true,
+    events: [...grade.events, createEvent("flagged", by, reason)],
+  };
+}
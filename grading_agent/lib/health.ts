@@ -0,0 +1,69 @@
+import { validateServerConfig, type ConfigIssue } from "@/lib/env";
+import {
+  getCircuitState,
+  probeUpstream,
+  type UpstreamProbe,
+} from "@/lib/upstream";
+
+/**
+ * `ok`: configured and upstream answers. `degraded`: configured, but
+ * upstream is unreachable or failing. `error`: the configuration is invalid,
+ * so no session can be created.
+ */
+export type HealthStatus = "ok" | "degraded" | "error";
+
+export type HealthReport = {
+  status: HealthStatus;
+  config: { valid: boolean; issues: ConfigIssue[] };
+  upstream: (UpstreamProbe & { circuitOpen: boolean }) | null;
+};
+
+/**
+ * What anyone may see: the overall status and whether upstream answers.
+ * Configuration issues and probe details stay with instructors.
+ */
+export type HealthSummary = {
+  status: HealthStatus;
+  upstream: { reachable: boolean } | null;
+};
+
+/** A health response as the browser gets it: a summary or the full report. */
+export type HealthView = HealthSummary & { config?: HealthReport["config"] };
+
+export function toHealthSummary(report: HealthReport): HealthSummary {
+  return {
+    status: report.status,
+    upstream: report.upstream ? { reachable: report.upstream.reachable } : null,
+  };
+}
+
+export async function checkHealth(): Promise<HealthReport> {
+  const report = validateServerConfig();
+  const issues = [...report.issues];
+  const { openaiApiKey, chatkitApiBase } = report.config;
+
+  const upstream = openaiApiKey
+    ? {
+        ...(await probeUpstream(chatkitApiBase, openaiApiKey)),
+        circuitOpen: getCircuitState().open,
+      }
+    : null;
+
+  if (upstream?.status === 401) {
+    issues.push({
+      variable: "OPENAI_API_KEY",
+      severity: "error",
+      message:
+        "OPENAI_API_KEY was rejected by the API. Check that it belongs to the same project as your workflow.",
+    });
+  }
+
+  const valid = issues.every((issue) => issue.severity !== "error");
+  const status: HealthStatus = !valid
+    ? "error"
+    : !upstream?.reachable || upstream.circuitOpen
+      ? "degraded"
+      : "ok";
+
+  return { status, config: { valid, issues }, upstream };
+}
@@ -0,0 +1,46 @@
+export const JSON_HEADERS = { "Content-Type": "application/json" };
+
+export function buildJsonResponse(
+  payload: unknown,
+  status: number,
+  headers: Record<string, string>,
+  sessionCookie: string | null
+): Response {
+  const responseHeaders = new Headers(headers);
+
+  if (sessionCookie) {
+    responseHeaders.append("Set-Cookie", sessionCookie);
+  }
+
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: responseHeaders,
+  });
+}
+
+export function methodNotAllowedResponse(): Response {
+  return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
+    status: 405,
+    headers: JSON_HEADERS,
+  });
+}
+
+export async function safeParseJson<T>(req: Request): Promise<T | null> {
+  try {
+    const text = await req.text();
+    if (!text) {
+      return null;
+    }
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function redirectResponse(location: URL, cookies: string[]): Response {
+  const headers = new Headers({ Location: location.toString() });
+  for (const cookie of cookies) {
+    headers.append("Set-Cookie", cookie);
+  }
+  return new Response(null, { status: 302, headers });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  UI_LOCALES,
+  createTranslator,
+  detectUiLocale,
+  getCatalog,
+  getLocaleStateVariables,
+  getTextDirection,
+  matchUiLocale,
+} from "@/lib/i18n";
+import { en, type MessageKey } from "@/lib/messages/en";
+
+describe("matchUiLocale", () => {
+  it.each([
+    ["fr", "fr"],
+    ["fr-CA", "fr"],
+    ["ES_mx", "es"],
+    [" ar-EG ", "ar"],
+    ["de-DE", null],
+  ])("matches %j to %s", (locale, expected) => {
+    expect(matchUiLocale(locale)).toBe(expected);
+  });
+});
+
+describe("detectUiLocale", () => {
+  it("picks the first browser language with a catalog", () => {
+    expect(detectUiLocale(["de-DE", "ur-PK", "fr"])).toBe("ur");
+  });
+
+  it("falls back to English", () => {
+    expect(detectUiLocale(["de-DE", "ja"])).toBe("en");
+    expect(detectUiLocale([])).toBe("en");
+  });
+});
+
+describe("getTextDirection", () => {
+  it("lays out Arabic-script and Hebrew locales right to left", () => {
+    expect(["ar", "ur-PK", "fa", "he-IL"].map(getTextDirection)).toEqual([
+      "rtl",
+      "rtl",
+      "rtl",
+      "rtl",
+    ]);
+    expect(getTextDirection("en-US")).toBe("ltr");
+  });
+});
+
+describe("createTranslator", () => {
+  it("fills placeholders and leaves unknown ones alone", () => {
+    const t = createTranslator("es-ES");
+
+    expect(t("rubric.points", { points: 10 })).toBe("10 puntos");
+    expect(t("rubric.points")).toBe("{points} puntos");
+  });
+
+  it("uses English for locales without a catalog", () => {
+    expect(createTranslator("de")("rubric.points", { points: 3 })).toBe("3 points");
+  });
+});
+
+describe("catalogs", () => {
+  const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+  it.each(UI_LOCALES.filter((locale) => locale !== "en"))(
+    "%s keeps every English placeholder",
+    (locale) => {
+      const { messages, content } = getCatalog(locale);
+
+      for (const key of Object.keys(en) as MessageKey[]) {
+        expect(placeholders(messages[key]), key).toEqual(placeholders(en[key]));
+      }
+      expect(content).not.toBeNull();
+    }
+  );
+});
+
+describe("getLocaleStateVariables", () => {
+  it("names the language the agent should answer in", () => {
+    expect(getLocaleStateVariables("ar")).toEqual({ locale: "ar", language: "Arabic" });
+  });
+});
@@ -0,0 +1,149 @@
+import type { SupportedLocale } from "@openai/chatkit";
+import type { WorkflowKey } from "@/lib/config";
+import { ar } from "@/lib/messages/ar";
+import { en, type MessageKey, type Messages } from "@/lib/messages/en";
+import { es } from "@/lib/messages/es";
+import { fr } from "@/lib/messages/fr";
+import { ur } from "@/lib/messages/ur";
+import type { SubmissionKind } from "@/lib/submission";
+
+/**
+ * UI translations. Each UI locale has a catalog in `lib/messages`; the chat
+ * page picks one from the user's choice or the browser's languages, lays
+ * out right to left for Arabic and Urdu, and hands the locale to the session
+ * so the agent answers in the same language. Other locales ChatKit supports
+ * get English UI text. Kept free of server-only imports.
+ */
+
+export const UI_LOCALES = ["en", "es", "fr", "ar", "ur"] as const;
+
+export type UiLocale = (typeof UI_LOCALES)[number];
+
+export const DEFAULT_UI_LOCALE: UiLocale = "en";
+
+/** Each locale's name in its own language, as the switcher lists it. */
+export const LOCALE_NAMES: Record<UiLocale, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  ar: "العربية",
+  ur: "اردو",
+};
+
+const RTL_LANGUAGES = ["ar", "fa", "he", "ur"];
+
+export type TextDirection = "ltr" | "rtl";
+
+/** Translations of English text that is defined next to what it describes. */
+export type ContentMessages = {
+  /** The default course in `lib/config.ts`; prompts in `STARTER_PROMPTS` order. */
+  course: {
+    title: string;
+    tagline: string;
+    greeting: string;
+    placeholder: string;
+    disclaimer: string;
+    prompts: { label: string; prompt: string }[];
+  };
+  /** Keyed by `FEEDBACK_PRESETS` id. */
+  presets: Record<string, { label: string; description: string }>;
+  workflows: Record<WorkflowKey, { label: string; description: string }>;
+  formats: Record<SubmissionKind, string>;
+};
+
+export type Catalog = {
+  messages: Messages;
+  /** `null` for English, which that text is written in. */
+  content: ContentMessages | null;
+};
+
+const CATALOGS: Record<UiLocale, Catalog> = {
+  en: { messages: en, content: null },
+  es,
+  fr,
+  ar,
+  ur,
+};
+
+const languageOf = (locale: string) =>
+  locale.trim().replace(/_/g, "-").split("-")[0].toLowerCase();
+
+export function isUiLocale(value: unknown): value is UiLocale {
+  return typeof value === "string" && (UI_LOCALES as readonly string[]).includes(value);
+}
+
+/** The UI locale for a locale's language, or `null` when there is no catalog for it. */
+export function matchUiLocale(locale: string): UiLocale | null {
+  const language = languageOf(locale);
+  return isUiLocale(language) ? language : null;
+}
+
+/** The first of the browser's languages with a catalog, otherwise English. */
+export function detectUiLocale(languages: readonly string[]): UiLocale {
+  for (const language of languages) {
+    const match = matchUiLocale(language);
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_UI_LOCALE;
+}
+
+export function getTextDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.includes(languageOf(locale)) ? "rtl" : "ltr";
+}
+
+export function getCatalog(locale: string): Catalog {
+  return CATALOGS[matchUiLocale(locale) ?? DEFAULT_UI_LOCALE];
+}
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export function createTranslator(locale: string): Translate {
+  const { messages } = getCatalog(locale);
+  return (key, params) => {
+    const template = messages[key] ?? en[key];
+    if (!params) {
+      return template;
+    }
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  };
+}
+
+/** What a component needs to render in one locale. */
+export type I18n = {
+  locale: SupportedLocale;
+  direction: TextDirection;
+  t: Translate;
+  content: ContentMessages | null;
+};
+
+export function createI18n(locale: SupportedLocale): I18n {
+  return {
+    locale,
+    direction: getTextDirection(locale),
+    t: createTranslator(locale),
+    content: getCatalog(locale).content,
+  };
+}
+
+/** The English name of a locale's language, e.g. `"Arabic"` for `ar`. */
+export function getLanguageName(locale: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+/** Session state variables telling the workflow which language to answer in. */
+export function getLocaleStateVariables(locale: SupportedLocale): Record<string, string> {
+  return {
+    locale,
+    language: getLanguageName(locale),
+  };
+}
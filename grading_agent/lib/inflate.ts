@@ -0,0 +1,49 @@
+/**
+ * Decompression with an output cap, for data from uploads: zip entries and
+ * PDF content streams. Uses the platform's `DecompressionStream`, so it runs
+ * in the browser and on the server, and stops reading as soon as the output
+ * passes the cap instead of holding the whole result in memory.
+ */
+
+export class InflateLimitError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Decompressed data is larger than ${maxBytes} bytes`);
+    this.name = "InflateLimitError";
+  }
+}
+
+/** `deflate` has a zlib header (PDF streams); `deflate-raw` does not (zip). */
+export type InflateFormat = "deflate" | "deflate-raw";
+
+export async function inflate(
+  data: Uint8Array,
+  format: InflateFormat,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const reader = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new InflateLimitError(maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,38 @@
+import type { SupportedLocale } from "@openai/chatkit";
+
+/**
+ * Locales ChatKit renders without falling back to English, mirroring its
+ * `SupportedLocale` type so values from the agent can be checked at runtime.
+ */
+export const CHATKIT_LOCALES: readonly SupportedLocale[] = [
+  "am", "ar", "bg-BG", "bn-BD", "bs-BA", "ca-ES", "cs-CZ", "da-DK", "de-DE",
+  "el-GR", "es-419", "es-ES", "et-EE", "fi-FI", "fr-CA", "fr-FR", "gu-IN",
+  "hi-IN", "hr-HR", "hu-HU", "hy-AM", "id-ID", "is-IS", "it-IT", "ja-JP",
+  "ka-GE", "kk", "kn-IN", "ko-KR", "lt", "lv-LV", "mk-MK", "ml", "mn", "mr-IN",
+  "ms-MY", "my-MM", "nb-NO", "nl-NL", "pa", "pl-PL", "pt-BR", "pt-PT", "ro-RO",
+  "ru-RU", "sk-SK", "sl-SI", "so-SO", "sq-AL", "sr-RS", "sv-SE", "sw-TZ",
+  "ta-IN", "te-IN", "th-TH", "tl", "tr-TR", "uk-UA", "ur", "vi-VN", "zh-CN",
+  "zh-HK", "zh-TW", "bg", "bn", "bs", "ca", "cs", "da", "de", "el", "es", "et",
+  "fi", "fr", "gu", "hi", "hr", "hu", "hy", "id", "is", "it", "ja", "ka", "kn",
+  "ko", "lv", "mk", "mr", "ms", "my", "nb", "nl", "pl", "pt", "ro", "ru", "sk",
+  "sl", "so", "sq", "sr", "sv", "sw", "ta", "te", "th", "tr", "uk", "vi", "zh",
+  "zh-Hant", "en",
+];
+
+/**
+ * Matches a requested locale (any casing, `_` or `-`) to a ChatKit locale,
+ * falling back to its language, so `pt_br` gives `pt-BR` and `de-AT` gives
+ * `de`. Returns `null` when ChatKit has no translation for it.
+ */
+export function resolveLocale(requested: string): SupportedLocale | null {
+  const normalized = requested.trim().replace(/_/g, "-").toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  const exact = CHATKIT_LOCALES.find((locale) => locale.toLowerCase() === normalized);
+  if (exact) {
+    return exact;
+  }
+  const language = normalized.split("-")[0];
+  return CHATKIT_LOCALES.find((locale) => locale.toLowerCase() === language) ?? null;
+}
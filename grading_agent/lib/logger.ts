@@ -0,0 +1,145 @@
+/**
+ * Small structured logger shared by the browser and the server. Server
+ * entries are single-line JSON; browser entries go to the console with their
+ * fields attached. Secrets and personal data are redacted from fields before
+ * anything is written.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every entry, e.g. a request id. */
+  child(fields: LogFields): Logger;
+};
+
+/**
+ * Correlation id header: generated per session request in the browser,
+ * echoed back by `/api/create-session` and forwarded upstream.
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const isBrowser = typeof window !== "undefined";
+
+const SENSITIVE_KEY =
+  /secret|token|password|passwd|authorization|cookie|api[-_]?key|email/i;
+const SENSITIVE_VALUES: RegExp[] = [
+  /\b(?:sk|ek|rk)[-_][A-Za-z0-9_-]{8,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi,
+  /[^\s@"'<>]+@[^\s@"'<>]+\.[A-Za-z]{2,}/g,
+];
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 6;
+
+function readLevel(value: string | undefined): LogLevel | null {
+  return value && value in LEVEL_ORDER ? (value as LogLevel) : null;
+}
+
+function getMinLevel(): LogLevel {
+  return (
+    readLevel(process.env.LOG_LEVEL) ??
+    readLevel(process.env.NEXT_PUBLIC_LOG_LEVEL) ??
+    (process.env.NODE_ENV === "production" ? "info" : "debug")
+  );
+}
+
+function redactString(value: string): string {
+  return SENSITIVE_VALUES.reduce(
+    (result, pattern) => result.replace(pattern, REDACTED),
+    value
+  );
+}
+
+/** Deep copy of `value` with secret-looking keys and values masked. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(isBrowser || !value.stack ? {} : { stack: redactString(value.stack) }),
+      ...(value.cause !== undefined ? { cause: redact(value.cause, depth + 1) } : {}),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const maskable = typeof entry === "string" || (entry !== null && typeof entry === "object");
+    result[key] =
+      SENSITIVE_KEY.test(key) && maskable ? REDACTED : redact(entry, depth + 1);
+  }
+  return result;
+}
+
+function write(
+  level: LogLevel,
+  scope: string,
+  message: string,
+  fields: LogFields
+): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getMinLevel()]) {
+    return;
+  }
+  const safeFields = redact(fields) as LogFields;
+  if (isBrowser) {
+    console[level](`[${scope}] ${message}`, safeFields);
+    return;
+  }
+  console[level](
+    JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      scope,
+      message,
+      ...safeFields,
+    })
+  );
+}
+
+export function createLogger(scope: string, baseFields: LogFields = {}): Logger {
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}) =>
+      write(level, scope, message, { ...baseFields, ...fields });
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) => createLogger(scope, { ...baseFields, ...fields }),
+  };
+}
+
+export function generateRequestId(): string {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Accepts a caller-supplied request id if it looks sane, else makes one. */
+export function resolveRequestId(incoming: string | null): string {
+  return incoming && /^[A-Za-z0-9._-]{8,128}$/.test(incoming)
+    ? incoming
+    : generateRequestId();
+}
@@ -0,0 +1,178 @@
+import type { Catalog } from "@/lib/i18n";
+
+export const ar: Catalog = {
+  messages: {
+    "landing.badge": "منصة تعليمية مدعومة بالذكاء الاصطناعي",
+    "landing.title": "تصحيح أذكى",
+    "landing.subtitle": "تقييم ذكي للواجبات مع ملاحظات فورية وتحليل شامل",
+    "landing.instant.title": "ملاحظات فورية",
+    "landing.instant.body": "احصل على نتيجة التصحيح فورًا مع شرح مفصّل",
+    "landing.secure.title": "آمن وخاص",
+    "landing.secure.body": "واجباتك مشفّرة ولا تتم مشاركتها أبدًا",
+    "landing.analysis.title": "تحليل ذكي",
+    "landing.analysis.body": "رؤى مدعومة بالذكاء الاصطناعي لتحسين أدائك",
+    "landing.signInPrompt": "سجّل الدخول لبدء التصحيح",
+    "landing.signIn": "تسجيل الدخول",
+
+    "toolbar.gradebook": "سجل الدرجات",
+    "toolbar.batch": "التصحيح الجماعي",
+    "toolbar.feedback": "التقييمات",
+    "toolbar.similarity": "التشابه",
+    "toolbar.themes": "السمات",
+    "toolbar.myGrades": "درجاتي",
+    "toolbar.analytics": "مشاركة بيانات الاستخدام",
+    "toolbar.signOut": "تسجيل الخروج",
+    "toolbar.language": "اللغة",
+    "role.student": "طالب",
+    "role.instructor": "مدرّس",
+    "role.admin": "مسؤول",
+
+    "workflow.picker": "مسار عمل الوكيل",
+    "workflow.notConfigured": "غير مُعدّ",
+    "workflow.enableHint": "عيّن {envVar} لتفعيله",
+
+    "rubric.picker": "معايير التصحيح",
+    "rubric.loading": "جارٍ تحميل المعايير...",
+    "rubric.edit": "تعديل المعايير",
+    "rubric.option": "{title} ({points} نقطة)",
+    "rubric.points": "{points} نقطة",
+    "rubric.criterionPoints": "{points} نقطة",
+    "rubric.bonus": "نقاط إضافية",
+    "rubric.close": "إغلاق",
+
+    "preset.picker": "أسلوب الملاحظات",
+
+    "panel.submitFiles": "إرسال ملفات",
+    "panel.loadingTitle": "جارٍ تجهيز مساعدك",
+    "panel.loadingBody": "جارٍ إنشاء اتصال آمن وتجهيز بيئة التصحيح الخاصة بك",
+    "panel.restart": "إعادة تشغيل المساعد",
+    "panel.secure": "آمن وخاص",
+    "panel.craftedBy": "من تطوير",
+    "status.misconfigured": "إعداد خاطئ",
+    "status.degraded": "أداء منخفض",
+    "status.degradedDetail": "واجهة ChatKit البرمجية لا تستجيب بشكل طبيعي.",
+    "status.offline": "غير متصل",
+    "status.connecting": "جارٍ الاتصال",
+    "status.reconnecting": "جارٍ إعادة الاتصال",
+    "status.online": "متصل",
+
+    "error.missingWorkflow": "عيّن {envVar} في ملف \u200e.env.local.",
+    "error.rateLimitedFor": "عدد كبير من الجلسات، حاول مجددًا بعد {seconds} ثانية.",
+    "error.rateLimited": "عدد كبير من الجلسات، حاول مجددًا بعد قليل.",
+    "error.session": "تعذّر بدء جلسة ChatKit.",
+    "error.scriptUnavailable": "مكوّن ChatKit غير متاح. تحقّق من إمكانية الوصول إلى رابط البرنامج النصي.",
+    "error.script": "خطأ: {detail}",
+    "error.restartChat": "إعادة بدء المحادثة",
+
+    "facts.title": "المعلومات المحفوظة",
+    "facts.loading": "جارٍ تحميل المعلومات...",
+    "facts.empty": "لا يوجد شيء محفوظ بعد. ستظهر هنا المعلومات التي يسجّلها المساعد.",
+    "facts.remove": "إزالة",
+    "facts.removeLabel": "إزالة المعلومة",
+
+    "feedback.askUp": "شكرًا! ما الذي أفادك؟",
+    "feedback.askDown": "شكرًا. ما الخطأ؟",
+    "feedback.placeholder": "تعليق اختياري",
+    "feedback.send": "إرسال",
+    "feedback.dismiss": "تجاهل",
+
+    "export.button": "تصدير",
+    "export.title": "تصدير هذه المحادثة",
+    "export.disabled": "ابدأ محادثة لتتمكن من تصديرها",
+    "export.markdown": "Markdown",
+    "export.json": "JSON",
+    "export.html": "صفحة قابلة للطباعة",
+    "export.redact": "إخفاء بيانات الطلاب",
+
+    "intake.title": "سلّم عملك",
+    "intake.received": "تم استلام التسليم",
+    "intake.close": "إغلاق",
+    "intake.assignment": "الواجب (اختياري)",
+    "intake.upload": "رفع",
+    "intake.uploading": "جارٍ الرفع...",
+    "intake.limits": "حتى {count} ملفات: {types}.",
+    "intake.receipt": "الإيصال",
+    "intake.noText": "بلا نص",
+    "intake.characters": "{count} حرفًا",
+    "intake.duplicate": "مطابق لملف في تسليمك السابق {id}.",
+    "intake.start": "بدء التصحيح",
+    "intake.another": "إرسال ملفات أخرى",
+    "intake.unreachable": "تعذّر الوصول إلى الخادم",
+    "intake.startFailed": "تعذّر بدء التصحيح",
+
+    "login.title": "تسجيل الدخول",
+    "login.subtitle": "يسجّل الطلاب والمعلمون الدخول لاستخدام مساعد التصحيح.",
+    "login.checking": "جارٍ التحقق من جلستك...",
+    "login.disabled": "المصادقة معطّلة في هذا النشر.",
+    "login.continue": "المتابعة إلى المساعد",
+    "login.signedInAs": "تم تسجيل الدخول باسم {name} ({role}).",
+    "login.goToAssistant": "الانتقال إلى المساعد",
+    "login.username": "اسم المستخدم",
+    "login.password": "كلمة المرور",
+    "login.submit": "تسجيل الدخول",
+    "login.signingIn": "جارٍ تسجيل الدخول...",
+    "login.emailPlaceholder": "you@school.edu",
+    "login.sendLink": "أرسل لي رابط تسجيل الدخول",
+    "login.sending": "جارٍ الإرسال...",
+    "login.checkInbox": "تحقق من بريدك الوارد للعثور على رابط تسجيل الدخول.",
+    "login.devLink": "وضع التطوير:",
+    "login.openLink": "افتح رابط تسجيل الدخول",
+    "login.sso": "المتابعة بتسجيل الدخول الموحّد",
+    "login.invalidCredentials": "اسم المستخدم أو كلمة المرور غير صحيحة",
+    "login.invalidEmail": "أدخل عنوان بريد إلكتروني صالحًا",
+    "login.failed": "تعذّر تسجيل الدخول",
+    "login.error.expired": "رابط تسجيل الدخول غير صالح أو منتهي الصلاحية أو مستخدم من قبل.",
+    "login.error.state": "تعذّر التحقق من تسجيل الدخول. يرجى المحاولة مرة أخرى.",
+    "login.error.oidc": "لم يُرجع موفّر الهوية حسابًا صالحًا للاستخدام.",
+    "login.error.unavailable": "تسجيل الدخول غير متاح حاليًا. يرجى المحاولة لاحقًا.",
+    "login.error.disabled": "تسجيل الدخول غير مفعّل في هذا النشر.",
+
+    "grades.subtitle": "تظهر الدرجات هنا بعد أن يراجعها المعلم.",
+    "grades.back": "العودة إلى المحادثة",
+    "grades.loading": "جارٍ تحميل الدرجات...",
+    "grades.loadFailed": "تعذّر تحميل الدرجات",
+    "grades.empty": "لا توجد درجات معتمدة بعد.",
+    "grades.approved": "اعتُمدت في {date}",
+    "grades.bonus": "نقاط إضافية: +{points}",
+    "grades.comments": "تعليقات المعلم",
+  },
+  content: {
+    course: {
+      title: "مساعد التصحيح",
+      tagline: "تقييم الواجبات بالذكاء الاصطناعي",
+      greeting: "👋 مرحبًا بك في مساعد التصحيح! ارفع واجبك للبدء.",
+      placeholder: "اطرح سؤالًا أو ارفع ملف واجبك...",
+      disclaimer: "🎓 يقدّم هذا المساعد مساعدة آلية في التصحيح. يُرجى التحقق من النتائج قبل التسليم النهائي.",
+      prompts: [
+        { label: "تسليم واجب للتصحيح", prompt: "أريد تسليم واجبي للتصحيح" },
+        { label: "عرض درجاتي وملاحظاتي", prompt: "اعرض لي درجاتي وملاحظاتي الحالية" },
+      ],
+    },
+    presets: {
+      crisp: { label: "موجز", description: "ملاحظات سريعة ومختصرة" },
+      chatty: { label: "مفصّل", description: "شروح شاملة" },
+      clear: { label: "واضح", description: "بسيط ومباشر" },
+    },
+    workflows: {
+      grading: {
+        label: "وكيل التصحيح",
+        description: "يصحّح التسليمات وفق معايير محددة ويكتب الملاحظات.",
+      },
+      mcp: {
+        label: "وكيل MCP",
+        description: "يجيب عن الأسئلة باستخدام أدوات Model Context Protocol.",
+      },
+      tool: {
+        label: "وكيل الأدوات",
+        description: "يؤتمت المهام باستخدام أدوات دوال مخصّصة.",
+      },
+    },
+    formats: {
+      pdf: "PDF",
+      docx: "Word",
+      markdown: "Markdown",
+      text: "نص",
+      image: "صورة",
+    },
+  },
+};
@@ -0,0 +1,149 @@
+/**
+ * English UI strings, the source catalog: every other catalog must translate
+ * each key. `{name}` placeholders are filled in by `lib/i18n.ts`. English
+ * text defined next to what it describes (the default course, presets,
+ * workflows, file formats) is not repeated here; other catalogs translate
+ * it under `content`.
+ */
+export const en = {
+  "landing.badge": "AI-Powered Education Platform",
+  "landing.title": "Grade Smarter",
+  "landing.subtitle":
+    "Experience intelligent assignment evaluation with real-time feedback and comprehensive analysis",
+  "landing.instant.title": "Instant Feedback",
+  "landing.instant.body": "Get immediate grading results with detailed explanations",
+  "landing.secure.title": "Secure & Private",
+  "landing.secure.body": "Your assignments are encrypted and never shared",
+  "landing.analysis.title": "Smart Analysis",
+  "landing.analysis.body": "AI-powered insights to improve your performance",
+  "landing.signInPrompt": "Sign in to start grading",
+  "landing.signIn": "Sign in",
+
+  "toolbar.gradebook": "Gradebook",
+  "toolbar.batch": "Batch grading",
+  "toolbar.feedback": "Feedback",
+  "toolbar.similarity": "Similarity",
+  "toolbar.themes": "Themes",
+  "toolbar.myGrades": "My grades",
+  "toolbar.analytics": "Share usage analytics",
+  "toolbar.signOut": "Sign out",
+  "toolbar.language": "Language",
+  "role.student": "student",
+  "role.instructor": "instructor",
+  "role.admin": "admin",
+
+  "workflow.picker": "Agent workflow",
+  "workflow.notConfigured": "Not configured",
+  "workflow.enableHint": "Set {envVar} to enable",
+
+  "rubric.picker": "Grading rubric",
+  "rubric.loading": "Loading rubrics...",
+  "rubric.edit": "Edit rubrics",
+  "rubric.option": "{title} ({points} pts)",
+  "rubric.points": "{points} points",
+  "rubric.criterionPoints": "{points} pts",
+  "rubric.bonus": "Bonus",
+  "rubric.close": "Close",
+
+  "preset.picker": "Feedback style",
+
+  "panel.submitFiles": "Submit files",
+  "panel.loadingTitle": "Initializing Your Assistant",
+  "panel.loadingBody":
+    "Setting up secure connection and preparing your personalized grading environment",
+  "panel.restart": "Restart Assistant",
+  "panel.secure": "Secure & Private",
+  "panel.craftedBy": "Crafted by",
+  "status.misconfigured": "Misconfigured",
+  "status.degraded": "Degraded",
+  "status.degradedDetail": "The ChatKit API is not responding normally.",
+  "status.offline": "Offline",
+  "status.connecting": "Connecting",
+  "status.reconnecting": "Reconnecting",
+  "status.online": "Online",
+
+  "error.missingWorkflow": "Set {envVar} in your .env.local file.",
+  "error.rateLimitedFor": "Too many sessions, try again in {seconds} seconds.",
+  "error.rateLimited": "Too many sessions, try again shortly.",
+  "error.session": "Unable to start ChatKit session.",
+  "error.scriptUnavailable":
+    "ChatKit web component is unavailable. Verify that the script URL is reachable.",
+  "error.script": "Error: {detail}",
+  "error.restartChat": "Restart chat",
+
+  "facts.title": "Saved facts",
+  "facts.loading": "Loading facts...",
+  "facts.empty": "Nothing saved yet. Facts the assistant records will appear here.",
+  "facts.remove": "Remove",
+  "facts.removeLabel": "Remove fact",
+
+  "feedback.askUp": "Thanks! What worked?",
+  "feedback.askDown": "Thanks. What was wrong?",
+  "feedback.placeholder": "Optional comment",
+  "feedback.send": "Send",
+  "feedback.dismiss": "Dismiss",
+
+  "export.button": "Export",
+  "export.title": "Export this conversation",
+  "export.disabled": "Start a conversation to export it",
+  "export.markdown": "Markdown",
+  "export.json": "JSON",
+  "export.html": "Printable page",
+  "export.redact": "Redact student identifiers",
+
+  "intake.title": "Submit your work",
+  "intake.received": "Submission received",
+  "intake.close": "Close",
+  "intake.assignment": "Assignment (optional)",
+  "intake.upload": "Upload",
+  "intake.uploading": "Uploading...",
+  "intake.limits": "Up to {count} files: {types}.",
+  "intake.receipt": "Receipt",
+  "intake.noText": "no text",
+  "intake.characters": "{count} characters",
+  "intake.duplicate": "Identical to a file in your earlier submission {id}.",
+  "intake.start": "Start grading",
+  "intake.another": "Submit other files",
+  "intake.unreachable": "Unable to reach the server",
+  "intake.startFailed": "Unable to start grading",
+
+  "login.title": "Sign in",
+  "login.subtitle": "Students and instructors sign in to use the Grading Assistant.",
+  "login.checking": "Checking your session...",
+  "login.disabled": "Authentication is disabled on this deployment.",
+  "login.continue": "Continue to the assistant",
+  "login.signedInAs": "Signed in as {name} ({role}).",
+  "login.goToAssistant": "Go to the assistant",
+  "login.username": "Username",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.signingIn": "Signing in...",
+  "login.emailPlaceholder": "you@school.edu",
+  "login.sendLink": "Email me a sign-in link",
+  "login.sending": "Sending...",
+  "login.checkInbox": "Check your inbox for a sign-in link.",
+  "login.devLink": "Development mode:",
+  "login.openLink": "open your sign-in link",
+  "login.sso": "Continue with single sign-on",
+  "login.invalidCredentials": "Invalid username or password",
+  "login.invalidEmail": "Enter a valid email address",
+  "login.failed": "Unable to sign in",
+  "login.error.expired": "That sign-in link is invalid, expired or already used.",
+  "login.error.state": "Sign-in could not be verified. Please try again.",
+  "login.error.oidc": "Your identity provider did not return a usable account.",
+  "login.error.unavailable": "Sign-in is unavailable right now. Please try again later.",
+  "login.error.disabled": "Sign-in is not enabled on this deployment.",
+
+  "grades.subtitle": "Grades appear here once an instructor has reviewed them.",
+  "grades.back": "Back to chat",
+  "grades.loading": "Loading grades...",
+  "grades.loadFailed": "Unable to load grades",
+  "grades.empty": "No approved grades yet.",
+  "grades.approved": "Approved {date}",
+  "grades.bonus": "Bonus: +{points}",
+  "grades.comments": "Instructor comments",
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,189 @@
+import type { Catalog } from "@/lib/i18n";
+
+export const es: Catalog = {
+  messages: {
+    "landing.badge": "Plataforma educativa con IA",
+    "landing.title": "Califica mejor",
+    "landing.subtitle":
+      "Evaluación inteligente de tareas con comentarios en tiempo real y un análisis completo",
+    "landing.instant.title": "Comentarios al instante",
+    "landing.instant.body": "Obtén la calificación de inmediato con explicaciones detalladas",
+    "landing.secure.title": "Seguro y privado",
+    "landing.secure.body": "Tus tareas se cifran y nunca se comparten",
+    "landing.analysis.title": "Análisis inteligente",
+    "landing.analysis.body": "Sugerencias con IA para mejorar tu rendimiento",
+    "landing.signInPrompt": "Inicia sesión para empezar a calificar",
+    "landing.signIn": "Iniciar sesión",
+
+    "toolbar.gradebook": "Libro de calificaciones",
+    "toolbar.batch": "Calificación por lotes",
+    "toolbar.feedback": "Valoraciones",
+    "toolbar.similarity": "Similitud",
+    "toolbar.themes": "Temas",
+    "toolbar.myGrades": "Mis calificaciones",
+    "toolbar.analytics": "Compartir datos de uso",
+    "toolbar.signOut": "Cerrar sesión",
+    "toolbar.language": "Idioma",
+    "role.student": "estudiante",
+    "role.instructor": "docente",
+    "role.admin": "administrador",
+
+    "workflow.picker": "Flujo del agente",
+    "workflow.notConfigured": "Sin configurar",
+    "workflow.enableHint": "Define {envVar} para activarlo",
+
+    "rubric.picker": "Rúbrica de evaluación",
+    "rubric.loading": "Cargando rúbricas...",
+    "rubric.edit": "Editar rúbricas",
+    "rubric.option": "{title} ({points} pts)",
+    "rubric.points": "{points} puntos",
+    "rubric.criterionPoints": "{points} pts",
+    "rubric.bonus": "Extra",
+    "rubric.close": "Cerrar",
+
+    "preset.picker": "Estilo de comentarios",
+
+    "panel.submitFiles": "Enviar archivos",
+    "panel.loadingTitle": "Preparando tu asistente",
+    "panel.loadingBody":
+      "Estableciendo una conexión segura y preparando tu entorno de calificación personalizado",
+    "panel.restart": "Reiniciar asistente",
+    "panel.secure": "Seguro y privado",
+    "panel.craftedBy": "Creado por",
+    "status.misconfigured": "Mal configurado",
+    "status.degraded": "Inestable",
+    "status.degradedDetail": "La API de ChatKit no responde con normalidad.",
+    "status.offline": "Sin conexión",
+    "status.connecting": "Conectando",
+    "status.reconnecting": "Reconectando",
+    "status.online": "En línea",
+
+    "error.missingWorkflow": "Define {envVar} en tu archivo .env.local.",
+    "error.rateLimitedFor": "Demasiadas sesiones; vuelve a intentarlo en {seconds} segundos.",
+    "error.rateLimited": "Demasiadas sesiones; vuelve a intentarlo en unos momentos.",
+    "error.session": "No se pudo iniciar la sesión de ChatKit.",
+    "error.scriptUnavailable":
+      "El componente web de ChatKit no está disponible. Comprueba que la URL del script sea accesible.",
+    "error.script": "Error: {detail}",
+    "error.restartChat": "Reiniciar chat",
+
+    "facts.title": "Datos guardados",
+    "facts.loading": "Cargando datos...",
+    "facts.empty": "Aún no hay nada guardado. Aquí aparecerán los datos que registre el asistente.",
+    "facts.remove": "Quitar",
+    "facts.removeLabel": "Quitar dato",
+
+    "feedback.askUp": "¡Gracias! ¿Qué te resultó útil?",
+    "feedback.askDown": "Gracias. ¿Qué falló?",
+    "feedback.placeholder": "Comentario opcional",
+    "feedback.send": "Enviar",
+    "feedback.dismiss": "Descartar",
+
+    "export.button": "Exportar",
+    "export.title": "Exportar esta conversación",
+    "export.disabled": "Inicia una conversación para exportarla",
+    "export.markdown": "Markdown",
+    "export.json": "JSON",
+    "export.html": "Página imprimible",
+    "export.redact": "Ocultar datos del estudiante",
+
+    "intake.title": "Entrega tu trabajo",
+    "intake.received": "Entrega recibida",
+    "intake.close": "Cerrar",
+    "intake.assignment": "Tarea (opcional)",
+    "intake.upload": "Subir",
+    "intake.uploading": "Subiendo...",
+    "intake.limits": "Hasta {count} archivos: {types}.",
+    "intake.receipt": "Comprobante",
+    "intake.noText": "sin texto",
+    "intake.characters": "{count} caracteres",
+    "intake.duplicate": "Idéntico a un archivo de tu entrega anterior {id}.",
+    "intake.start": "Empezar a calificar",
+    "intake.another": "Enviar otros archivos",
+    "intake.unreachable": "No se pudo contactar con el servidor",
+    "intake.startFailed": "No se pudo empezar a calificar",
+
+    "login.title": "Iniciar sesión",
+    "login.subtitle":
+      "Estudiantes y docentes inician sesión para usar el Asistente de calificación.",
+    "login.checking": "Comprobando tu sesión...",
+    "login.disabled": "La autenticación está desactivada en esta instalación.",
+    "login.continue": "Ir al asistente",
+    "login.signedInAs": "Sesión iniciada como {name} ({role}).",
+    "login.goToAssistant": "Ir al asistente",
+    "login.username": "Usuario",
+    "login.password": "Contraseña",
+    "login.submit": "Iniciar sesión",
+    "login.signingIn": "Iniciando sesión...",
+    "login.emailPlaceholder": "tu@escuela.edu",
+    "login.sendLink": "Enviarme un enlace de acceso",
+    "login.sending": "Enviando...",
+    "login.checkInbox": "Revisa tu correo: te enviamos un enlace de acceso.",
+    "login.devLink": "Modo de desarrollo:",
+    "login.openLink": "abre tu enlace de acceso",
+    "login.sso": "Continuar con inicio de sesión único",
+    "login.invalidCredentials": "Usuario o contraseña incorrectos",
+    "login.invalidEmail": "Introduce un correo electrónico válido",
+    "login.failed": "No se pudo iniciar sesión",
+    "login.error.expired": "El enlace de acceso no es válido, ha caducado o ya se usó.",
+    "login.error.state": "No se pudo verificar el inicio de sesión. Inténtalo de nuevo.",
+    "login.error.oidc": "Tu proveedor de identidad no devolvió una cuenta utilizable.",
+    "login.error.unavailable": "El inicio de sesión no está disponible ahora. Inténtalo más tarde.",
+    "login.error.disabled": "El inicio de sesión no está activado en esta instalación.",
+
+    "grades.subtitle": "Las notas aparecen aquí cuando un docente las ha revisado.",
+    "grades.back": "Volver al chat",
+    "grades.loading": "Cargando notas...",
+    "grades.loadFailed": "No se pudieron cargar las notas",
+    "grades.empty": "Aún no hay notas aprobadas.",
+    "grades.approved": "Aprobada el {date}",
+    "grades.bonus": "Extra: +{points}",
+    "grades.comments": "Comentarios del docente",
+  },
+  content: {
+    course: {
+      title: "Asistente de calificación",
+      tagline: "Evaluación de tareas con IA",
+      greeting: "👋 ¡Te damos la bienvenida a tu asistente de calificación! Sube tu tarea para empezar.",
+      placeholder: "Haz una pregunta o sube el archivo de tu tarea...",
+      disclaimer:
+        "🎓 Este asistente de IA ofrece ayuda automática para calificar. Verifica los resultados antes de la entrega final.",
+      prompts: [
+        {
+          label: "Enviar una tarea para calificar",
+          prompt: "Quiero enviar mi tarea para que la califiquen",
+        },
+        {
+          label: "Ver mis calificaciones y comentarios",
+          prompt: "Muéstrame mis calificaciones y comentarios actuales",
+        },
+      ],
+    },
+    presets: {
+      crisp: { label: "Breve", description: "Comentarios rápidos y concisos" },
+      chatty: { label: "Detallado", description: "Explicaciones completas" },
+      clear: { label: "Claro", description: "Sencillo y directo" },
+    },
+    workflows: {
+      grading: {
+        label: "Agente de calificación",
+        description: "Califica las entregas con una rúbrica y redacta comentarios.",
+      },
+      mcp: {
+        label: "Agente MCP",
+        description: "Responde preguntas con herramientas de Model Context Protocol.",
+      },
+      tool: {
+        label: "Agente de herramientas",
+        description: "Automatiza tareas con herramientas de funciones personalizadas.",
+      },
+    },
+    formats: {
+      pdf: "PDF",
+      docx: "Word",
+      markdown: "Markdown",
+      text: "Texto",
+      image: "Imagen",
+    },
+  },
+};
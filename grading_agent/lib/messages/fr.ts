@@ -0,0 +1,190 @@
+import type { Catalog } from "@/lib/i18n";
+
+export const fr: Catalog = {
+  messages: {
+    "landing.badge": "Plateforme éducative propulsée par l'IA",
+    "landing.title": "Corrigez plus intelligemment",
+    "landing.subtitle":
+      "Une évaluation intelligente des devoirs, avec des retours en temps réel et une analyse complète",
+    "landing.instant.title": "Retours immédiats",
+    "landing.instant.body": "Obtenez votre note tout de suite, avec des explications détaillées",
+    "landing.secure.title": "Sécurisé et confidentiel",
+    "landing.secure.body": "Vos devoirs sont chiffrés et ne sont jamais partagés",
+    "landing.analysis.title": "Analyse intelligente",
+    "landing.analysis.body": "Des conseils fondés sur l'IA pour progresser",
+    "landing.signInPrompt": "Connectez-vous pour commencer la correction",
+    "landing.signIn": "Se connecter",
+
+    "toolbar.gradebook": "Carnet de notes",
+    "toolbar.batch": "Correction par lot",
+    "toolbar.feedback": "Avis",
+    "toolbar.similarity": "Similarité",
+    "toolbar.themes": "Thèmes",
+    "toolbar.myGrades": "Mes notes",
+    "toolbar.analytics": "Partager les statistiques d'utilisation",
+    "toolbar.signOut": "Se déconnecter",
+    "toolbar.language": "Langue",
+    "role.student": "étudiant",
+    "role.instructor": "enseignant",
+    "role.admin": "administrateur",
+
+    "workflow.picker": "Workflow de l'agent",
+    "workflow.notConfigured": "Non configuré",
+    "workflow.enableHint": "Définissez {envVar} pour l'activer",
+
+    "rubric.picker": "Grille d'évaluation",
+    "rubric.loading": "Chargement des grilles...",
+    "rubric.edit": "Modifier les grilles",
+    "rubric.option": "{title} ({points} pts)",
+    "rubric.points": "{points} points",
+    "rubric.criterionPoints": "{points} pts",
+    "rubric.bonus": "Bonus",
+    "rubric.close": "Fermer",
+
+    "preset.picker": "Style des retours",
+
+    "panel.submitFiles": "Déposer des fichiers",
+    "panel.loadingTitle": "Initialisation de votre assistant",
+    "panel.loadingBody":
+      "Connexion sécurisée en cours et préparation de votre environnement de correction personnalisé",
+    "panel.restart": "Redémarrer l'assistant",
+    "panel.secure": "Sécurisé et confidentiel",
+    "panel.craftedBy": "Conçu par",
+    "status.misconfigured": "Mal configuré",
+    "status.degraded": "Dégradé",
+    "status.degradedDetail": "L'API ChatKit ne répond pas normalement.",
+    "status.offline": "Hors ligne",
+    "status.connecting": "Connexion",
+    "status.reconnecting": "Reconnexion",
+    "status.online": "En ligne",
+
+    "error.missingWorkflow": "Définissez {envVar} dans votre fichier .env.local.",
+    "error.rateLimitedFor": "Trop de sessions, réessayez dans {seconds} secondes.",
+    "error.rateLimited": "Trop de sessions, réessayez dans un instant.",
+    "error.session": "Impossible de démarrer la session ChatKit.",
+    "error.scriptUnavailable":
+      "Le composant web ChatKit est indisponible. Vérifiez que l'URL du script est accessible.",
+    "error.script": "Erreur : {detail}",
+    "error.restartChat": "Redémarrer la conversation",
+
+    "facts.title": "Informations enregistrées",
+    "facts.loading": "Chargement des informations...",
+    "facts.empty":
+      "Rien n'est enregistré pour l'instant. Les informations notées par l'assistant apparaîtront ici.",
+    "facts.remove": "Supprimer",
+    "facts.removeLabel": "Supprimer l'information",
+
+    "feedback.askUp": "Merci ! Qu'est-ce qui vous a aidé ?",
+    "feedback.askDown": "Merci. Qu'est-ce qui n'allait pas ?",
+    "feedback.placeholder": "Commentaire facultatif",
+    "feedback.send": "Envoyer",
+    "feedback.dismiss": "Ignorer",
+
+    "export.button": "Exporter",
+    "export.title": "Exporter cette conversation",
+    "export.disabled": "Commencez une conversation pour l'exporter",
+    "export.markdown": "Markdown",
+    "export.json": "JSON",
+    "export.html": "Page imprimable",
+    "export.redact": "Masquer les identifiants des étudiants",
+
+    "intake.title": "Rendre votre travail",
+    "intake.received": "Dépôt reçu",
+    "intake.close": "Fermer",
+    "intake.assignment": "Devoir (facultatif)",
+    "intake.upload": "Envoyer",
+    "intake.uploading": "Envoi...",
+    "intake.limits": "Jusqu'à {count} fichiers : {types}.",
+    "intake.receipt": "Reçu",
+    "intake.noText": "aucun texte",
+    "intake.characters": "{count} caractères",
+    "intake.duplicate": "Identique à un fichier de votre dépôt précédent {id}.",
+    "intake.start": "Lancer la correction",
+    "intake.another": "Déposer d'autres fichiers",
+    "intake.unreachable": "Impossible de joindre le serveur",
+    "intake.startFailed": "Impossible de lancer la correction",
+
+    "login.title": "Se connecter",
+    "login.subtitle":
+      "Étudiants et enseignants se connectent pour utiliser l'assistant de correction.",
+    "login.checking": "Vérification de votre session...",
+    "login.disabled": "L'authentification est désactivée sur ce déploiement.",
+    "login.continue": "Accéder à l'assistant",
+    "login.signedInAs": "Connecté en tant que {name} ({role}).",
+    "login.goToAssistant": "Aller à l'assistant",
+    "login.username": "Nom d'utilisateur",
+    "login.password": "Mot de passe",
+    "login.submit": "Se connecter",
+    "login.signingIn": "Connexion...",
+    "login.emailPlaceholder": "vous@ecole.edu",
+    "login.sendLink": "M'envoyer un lien de connexion",
+    "login.sending": "Envoi...",
+    "login.checkInbox": "Consultez votre boîte de réception pour le lien de connexion.",
+    "login.devLink": "Mode développement :",
+    "login.openLink": "ouvrir votre lien de connexion",
+    "login.sso": "Continuer avec l'authentification unique",
+    "login.invalidCredentials": "Nom d'utilisateur ou mot de passe incorrect",
+    "login.invalidEmail": "Saisissez une adresse e-mail valide",
+    "login.failed": "Connexion impossible",
+    "login.error.expired": "Ce lien de connexion est invalide, expiré ou déjà utilisé.",
+    "login.error.state": "La connexion n'a pas pu être vérifiée. Veuillez réessayer.",
+    "login.error.oidc": "Votre fournisseur d'identité n'a pas renvoyé de compte utilisable.",
+    "login.error.unavailable": "La connexion est indisponible pour le moment. Réessayez plus tard.",
+    "login.error.disabled": "La connexion n'est pas activée sur ce déploiement.",
+
+    "grades.subtitle": "Les notes apparaissent ici une fois relues par un enseignant.",
+    "grades.back": "Retour au chat",
+    "grades.loading": "Chargement des notes...",
+    "grades.loadFailed": "Impossible de charger les notes",
+    "grades.empty": "Aucune note validée pour l'instant.",
+    "grades.approved": "Validée le {date}",
+    "grades.bonus": "Bonus : +{points}",
+    "grades.comments": "Commentaires de l'enseignant",
+  },
+  content: {
+    course: {
+      title: "Assistant de correction",
+      tagline: "Évaluation des devoirs par l'IA",
+      greeting: "👋 Bienvenue dans votre assistant de correction ! Déposez votre devoir pour commencer.",
+      placeholder: "Posez une question ou déposez le fichier de votre devoir...",
+      disclaimer:
+        "🎓 Cet assistant IA propose une aide automatisée à la correction. Vérifiez les résultats avant le rendu final.",
+      prompts: [
+        {
+          label: "Soumettre un devoir à corriger",
+          prompt: "Je veux soumettre mon devoir pour qu'il soit corrigé",
+        },
+        {
+          label: "Voir mes notes et mes retours",
+          prompt: "Montre-moi mes notes et mes retours actuels",
+        },
+      ],
+    },
+    presets: {
+      crisp: { label: "Concis", description: "Des retours rapides et brefs" },
+      chatty: { label: "Détaillé", description: "Des explications complètes" },
+      clear: { label: "Clair", description: "Simple et direct" },
+    },
+    workflows: {
+      grading: {
+        label: "Agent de correction",
+        description: "Corrige les devoirs selon une grille et rédige des retours.",
+      },
+      mcp: {
+        label: "Agent MCP",
+        description: "Répond aux questions avec des outils Model Context Protocol.",
+      },
+      tool: {
+        label: "Agent outils",
+        description: "Automatise des tâches avec des fonctions personnalisées.",
+      },
+    },
+    formats: {
+      pdf: "PDF",
+      docx: "Word",
+      markdown: "Markdown",
+      text: "Texte",
+      image: "Image",
+    },
+  },
+};
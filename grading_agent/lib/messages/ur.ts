@@ -0,0 +1,179 @@
+import type { Catalog } from "@/lib/i18n";
+
+export const ur: Catalog = {
+  messages: {
+    "landing.badge": "مصنوعی ذہانت پر مبنی تعلیمی پلیٹ فارم",
+    "landing.title": "بہتر جانچ",
+    "landing.subtitle": "فوری آراء اور جامع تجزیے کے ساتھ اسائنمنٹس کی ذہین جانچ",
+    "landing.instant.title": "فوری آراء",
+    "landing.instant.body": "تفصیلی وضاحت کے ساتھ فوراً نتیجہ حاصل کریں",
+    "landing.secure.title": "محفوظ اور نجی",
+    "landing.secure.body": "آپ کی اسائنمنٹس خفیہ رکھی جاتی ہیں اور کبھی شیئر نہیں ہوتیں",
+    "landing.analysis.title": "ذہین تجزیہ",
+    "landing.analysis.body": "کارکردگی بہتر بنانے کے لیے مصنوعی ذہانت پر مبنی مشورے",
+    "landing.signInPrompt": "جانچ شروع کرنے کے لیے سائن ان کریں",
+    "landing.signIn": "سائن ان",
+
+    "toolbar.gradebook": "گریڈ بک",
+    "toolbar.batch": "اجتماعی جانچ",
+    "toolbar.feedback": "آراء",
+    "toolbar.similarity": "مماثلت",
+    "toolbar.themes": "تھیمز",
+    "toolbar.myGrades": "میرے گریڈ",
+    "toolbar.analytics": "استعمال کا ڈیٹا شیئر کریں",
+    "toolbar.signOut": "سائن آؤٹ",
+    "toolbar.language": "زبان",
+    "role.student": "طالب علم",
+    "role.instructor": "استاد",
+    "role.admin": "منتظم",
+
+    "workflow.picker": "ایجنٹ ورک فلو",
+    "workflow.notConfigured": "ترتیب نہیں دیا گیا",
+    "workflow.enableHint": "فعال کرنے کے لیے {envVar} مقرر کریں",
+
+    "rubric.picker": "جانچ کا معیار",
+    "rubric.loading": "معیارات لوڈ ہو رہے ہیں...",
+    "rubric.edit": "معیارات میں ترمیم کریں",
+    "rubric.option": "{title} ({points} پوائنٹس)",
+    "rubric.points": "{points} پوائنٹس",
+    "rubric.criterionPoints": "{points} پوائنٹس",
+    "rubric.bonus": "اضافی پوائنٹس",
+    "rubric.close": "بند کریں",
+
+    "preset.picker": "آراء کا انداز",
+
+    "panel.submitFiles": "فائلیں جمع کریں",
+    "panel.loadingTitle": "آپ کا اسسٹنٹ تیار ہو رہا ہے",
+    "panel.loadingBody": "محفوظ کنکشن قائم کیا جا رہا ہے اور آپ کا جانچ کا ماحول تیار کیا جا رہا ہے",
+    "panel.restart": "اسسٹنٹ دوبارہ شروع کریں",
+    "panel.secure": "محفوظ اور نجی",
+    "panel.craftedBy": "تیار کردہ",
+    "status.misconfigured": "غلط ترتیب",
+    "status.degraded": "متاثر",
+    "status.degradedDetail": "ChatKit API معمول کے مطابق جواب نہیں دے رہا۔",
+    "status.offline": "آف لائن",
+    "status.connecting": "رابطہ ہو رہا ہے",
+    "status.reconnecting": "دوبارہ رابطہ ہو رہا ہے",
+    "status.online": "آن لائن",
+
+    "error.missingWorkflow": "اپنی \u200e.env.local فائل میں {envVar} مقرر کریں۔",
+    "error.rateLimitedFor": "بہت زیادہ سیشن، {seconds} سیکنڈ بعد دوبارہ کوشش کریں۔",
+    "error.rateLimited": "بہت زیادہ سیشن، کچھ دیر بعد دوبارہ کوشش کریں۔",
+    "error.session": "ChatKit سیشن شروع نہیں ہو سکا۔",
+    "error.scriptUnavailable": "ChatKit ویب کمپوننٹ دستیاب نہیں۔ تسلی کریں کہ اسکرپٹ کا URL قابل رسائی ہے۔",
+    "error.script": "خرابی: {detail}",
+    "error.restartChat": "چیٹ دوبارہ شروع کریں",
+
+    "facts.title": "محفوظ معلومات",
+    "facts.loading": "معلومات لوڈ ہو رہی ہیں...",
+    "facts.empty": "ابھی کچھ محفوظ نہیں۔ اسسٹنٹ جو معلومات درج کرے گا وہ یہاں نظر آئیں گی۔",
+    "facts.remove": "ہٹائیں",
+    "facts.removeLabel": "معلومات ہٹائیں",
+
+    "feedback.askUp": "شکریہ! کیا چیز مفید رہی؟",
+    "feedback.askDown": "شکریہ۔ کیا غلط تھا؟",
+    "feedback.placeholder": "اختیاری تبصرہ",
+    "feedback.send": "بھیجیں",
+    "feedback.dismiss": "نظر انداز کریں",
+
+    "export.button": "ایکسپورٹ",
+    "export.title": "یہ گفتگو ایکسپورٹ کریں",
+    "export.disabled": "ایکسپورٹ کرنے کے لیے گفتگو شروع کریں",
+    "export.markdown": "Markdown",
+    "export.json": "JSON",
+    "export.html": "قابل پرنٹ صفحہ",
+    "export.redact": "طلبہ کی شناخت چھپائیں",
+
+    "intake.title": "اپنا کام جمع کریں",
+    "intake.received": "جمع شدہ کام موصول ہو گیا",
+    "intake.close": "بند کریں",
+    "intake.assignment": "اسائنمنٹ (اختیاری)",
+    "intake.upload": "اپ لوڈ",
+    "intake.uploading": "اپ لوڈ ہو رہا ہے...",
+    "intake.limits": "زیادہ سے زیادہ {count} فائلیں: {types}۔",
+    "intake.receipt": "رسید",
+    "intake.noText": "کوئی متن نہیں",
+    "intake.characters": "{count} حروف",
+    "intake.duplicate": "آپ کے پچھلے جمع شدہ کام {id} کی ایک فائل جیسی ہے۔",
+    "intake.start": "جانچ شروع کریں",
+    "intake.another": "دوسری فائلیں جمع کریں",
+    "intake.unreachable": "سرور تک رسائی نہیں ہو سکی",
+    "intake.startFailed": "جانچ شروع نہیں ہو سکی",
+
+    "login.title": "سائن اِن",
+    "login.subtitle": "طلبہ اور اساتذہ گریڈنگ اسسٹنٹ استعمال کرنے کے لیے سائن اِن کرتے ہیں۔",
+    "login.checking": "آپ کا سیشن چیک کیا جا رہا ہے...",
+    "login.disabled": "اس ڈیپلائمنٹ پر تصدیق بند ہے۔",
+    "login.continue": "اسسٹنٹ پر جائیں",
+    "login.signedInAs": "{name} ({role}) کے طور پر سائن اِن ہیں۔",
+    "login.goToAssistant": "اسسٹنٹ پر جائیں",
+    "login.username": "صارف نام",
+    "login.password": "پاس ورڈ",
+    "login.submit": "سائن اِن",
+    "login.signingIn": "سائن اِن ہو رہا ہے...",
+    "login.emailPlaceholder": "you@school.edu",
+    "login.sendLink": "مجھے سائن اِن لنک ای میل کریں",
+    "login.sending": "بھیجا جا رہا ہے...",
+    "login.checkInbox": "سائن اِن لنک کے لیے اپنا ان باکس دیکھیں۔",
+    "login.devLink": "ڈیولپمنٹ موڈ:",
+    "login.openLink": "اپنا سائن اِن لنک کھولیں",
+    "login.sso": "سنگل سائن آن کے ساتھ جاری رکھیں",
+    "login.invalidCredentials": "صارف نام یا پاس ورڈ غلط ہے",
+    "login.invalidEmail": "درست ای میل پتہ درج کریں",
+    "login.failed": "سائن اِن نہیں ہو سکا",
+    "login.error.expired":
+      "یہ سائن اِن لنک غلط ہے، اس کی میعاد ختم ہو چکی ہے یا یہ پہلے استعمال ہو چکا ہے۔",
+    "login.error.state": "سائن اِن کی تصدیق نہیں ہو سکی۔ دوبارہ کوشش کریں۔",
+    "login.error.oidc": "آپ کے شناختی فراہم کنندہ نے قابلِ استعمال اکاؤنٹ واپس نہیں کیا۔",
+    "login.error.unavailable": "سائن اِن ابھی دستیاب نہیں ہے۔ بعد میں دوبارہ کوشش کریں۔",
+    "login.error.disabled": "اس ڈیپلائمنٹ پر سائن اِن فعال نہیں ہے۔",
+
+    "grades.subtitle": "استاد کے جائزے کے بعد گریڈ یہاں نظر آتے ہیں۔",
+    "grades.back": "چیٹ پر واپس جائیں",
+    "grades.loading": "گریڈ لوڈ ہو رہے ہیں...",
+    "grades.loadFailed": "گریڈ لوڈ نہیں ہو سکے",
+    "grades.empty": "ابھی کوئی منظور شدہ گریڈ نہیں۔",
+    "grades.approved": "{date} کو منظور ہوا",
+    "grades.bonus": "اضافی پوائنٹس: +{points}",
+    "grades.comments": "استاد کے تبصرے",
+  },
+  content: {
+    course: {
+      title: "جانچ اسسٹنٹ",
+      tagline: "مصنوعی ذہانت سے اسائنمنٹس کی جانچ",
+      greeting: "👋 جانچ اسسٹنٹ میں خوش آمدید! شروع کرنے کے لیے اپنی اسائنمنٹ اپ لوڈ کریں۔",
+      placeholder: "سوال پوچھیں یا اپنی اسائنمنٹ کی فائل اپ لوڈ کریں...",
+      disclaimer: "🎓 یہ اسسٹنٹ خودکار جانچ میں مدد دیتا ہے۔ حتمی جمع کرانے سے پہلے نتائج کی تصدیق کریں۔",
+      prompts: [
+        { label: "اسائنمنٹ جانچ کے لیے جمع کریں", prompt: "میں اپنی اسائنمنٹ جانچ کے لیے جمع کرانا چاہتا ہوں" },
+        { label: "میرے گریڈ اور آراء دیکھیں", prompt: "مجھے میرے موجودہ گریڈ اور آراء دکھائیں" },
+      ],
+    },
+    presets: {
+      crisp: { label: "مختصر", description: "فوری اور جامع آراء" },
+      chatty: { label: "تفصیلی", description: "مکمل وضاحتیں" },
+      clear: { label: "واضح", description: "سادہ اور سیدھی بات" },
+    },
+    workflows: {
+      grading: {
+        label: "جانچ ایجنٹ",
+        description: "معیار کے مطابق جمع شدہ کام جانچتا ہے اور آراء لکھتا ہے۔",
+      },
+      mcp: {
+        label: "MCP ایجنٹ",
+        description: "Model Context Protocol ٹولز کی مدد سے سوالات کے جواب دیتا ہے۔",
+      },
+      tool: {
+        label: "ٹول ایجنٹ",
+        description: "اپنی مرضی کے فنکشن ٹولز سے کام خودکار بناتا ہے۔",
+      },
+    },
+    formats: {
+      pdf: "PDF",
+      docx: "Word",
+      markdown: "Markdown",
+      text: "متن",
+      image: "تصویر",
+    },
+  },
+};
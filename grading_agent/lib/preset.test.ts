@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  findPreset,
+  getPresetStateVariables,
+  resolvePreset,
+  withDefaultModel,
+} from "@/lib/preset";
+
+const MODELS = [
+  { id: "crisp", label: "Crisp" },
+  { id: "chatty", label: "Detailed", default: true },
+];
+
+describe("findPreset", () => {
+  it("finds configured presets only", () => {
+    expect(findPreset("chatty")?.label).toBe("Detailed");
+    expect(findPreset("gpt-5")).toBeNull();
+    expect(findPreset(null)).toBeNull();
+  });
+});
+
+describe("getPresetStateVariables", () => {
+  it("passes the preset's style to the workflow", () => {
+    expect(getPresetStateVariables(findPreset("crisp")!)).toEqual({
+      feedback_preset: "crisp",
+      feedback_verbosity: "brief",
+      feedback_tone: "direct",
+      feedback_max_words: 150,
+    });
+  });
+});
+
+describe("resolvePreset", () => {
+  it("keeps a saved choice the course offers", () => {
+    expect(resolvePreset(MODELS, "crisp")).toBe("crisp");
+  });
+
+  it("falls back to the course default, then its first model", () => {
+    expect(resolvePreset(MODELS, "clear")).toBe("chatty");
+    expect(resolvePreset(MODELS, null)).toBe("chatty");
+    expect(resolvePreset([{ id: "clear", label: "Clear" }, MODELS[0]], null)).toBe("clear");
+  });
+
+  it("is null when the course offers no presets", () => {
+    expect(resolvePreset([], "crisp")).toBeNull();
+  });
+});
+
+describe("withDefaultModel", () => {
+  it("moves the default to the chosen preset", () => {
+    expect(withDefaultModel(MODELS, "crisp")).toEqual([
+      { id: "crisp", label: "Crisp", default: true },
+      { id: "chatty", label: "Detailed", default: false },
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import type { ModelOption } from "@openai/chatkit";
+import { FEEDBACK_PRESETS } from "@/lib/config";
+
+/**
+ * Feedback presets: what the composer's model choices mean for grading.
+ * Presets are defined in `lib/config.ts`, a course offers some of them as
+ * its composer `models`, and the selected one reaches the workflow as state
+ * variables when the session is created. Kept free of server-only imports.
+ */
+
+export const FEEDBACK_VERBOSITIES = ["brief", "standard", "detailed"] as const;
+
+export type FeedbackVerbosity = (typeof FEEDBACK_VERBOSITIES)[number];
+
+export const FEEDBACK_TONES = ["direct", "encouraging", "plain"] as const;
+
+export type FeedbackTone = (typeof FEEDBACK_TONES)[number];
+
+export type FeedbackPreset = {
+  id: string;
+  label: string;
+  description: string;
+  verbosity: FeedbackVerbosity;
+  tone: FeedbackTone;
+  /** Rough upper bound on the length of written feedback. */
+  maxWords: number;
+};
+
+export function findPreset(id: string | null | undefined): FeedbackPreset | null {
+  return FEEDBACK_PRESETS.find((preset) => preset.id === id) ?? null;
+}
+
+/** The state variables the workflow reads the feedback style from. */
+export function getPresetStateVariables(
+  preset: FeedbackPreset
+): Record<string, string | number> {
+  return {
+    feedback_preset: preset.id,
+    feedback_verbosity: preset.verbosity,
+    feedback_tone: preset.tone,
+    feedback_max_words: preset.maxWords,
+  };
+}
+
+/**
+ * The preset a chat starts with: the user's saved choice when the course
+ * offers it, otherwise the course's default model, otherwise its first.
+ * `null` when the course offers none.
+ */
+export function resolvePreset(models: ModelOption[], preferred: string | null): string | null {
+  return (
+    models.find((model) => model.id === preferred)?.id ??
+    models.find((model) => model.default)?.id ??
+    models[0]?.id ??
+    null
+  );
+}
+
+/** The course's composer models with `presetId` preselected. */
+export function withDefaultModel(models: ModelOption[], presetId: string | null): ModelOption[] {
+  return models.map((model) => ({ ...model, default: model.id === presetId }));
+}
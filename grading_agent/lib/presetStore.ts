@@ -0,0 +1,23 @@
+import { getCollection } from "@/lib/store";
+
+type PresetPreference = {
+  /** The user id the preference belongs to. */
+  id: string;
+  presetId: string;
+  updatedAt: string;
+};
+
+const preferences = () => getCollection<PresetPreference>("presetPreferences");
+
+/** The feedback preset the user last picked, whichever course it was in. */
+export async function getPreferredPreset(userId: string): Promise<string | null> {
+  return (await preferences().get(userId))?.presetId ?? null;
+}
+
+export async function setPreferredPreset(userId: string, presetId: string): Promise<void> {
+  await preferences().put({
+    id: userId,
+    presetId,
+    updatedAt: new Date().toISOString(),
+  });
+}
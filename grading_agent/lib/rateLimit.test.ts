@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { consumeRateLimit, getClientIp, type RateLimitRule } from "@/lib/rateLimit";
+
+const request = (headers: Record<string, string>) =>
+  new Request("http://localhost/api/create-session", { headers });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getClientIp", () => {
+  it("uses the entry added by the trusted proxy, not the client's", () => {
+    const spoofed = request({ "X-Forwarded-For": "1.1.1.1, 203.0.113.7" });
+
+    expect(getClientIp(spoofed)).toBe("203.0.113.7");
+  });
+
+  it("skips as many entries as there are trusted proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    const chained = request({ "X-Forwarded-For": "1.1.1.1, 203.0.113.7, 10.0.0.2" });
+
+    expect(getClientIp(chained)).toBe("203.0.113.7");
+    expect(getClientIp(request({ "X-Forwarded-For": "203.0.113.7" }))).toBe("203.0.113.7");
+  });
+
+  it("ignores forwarded headers without trusted proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "0");
+
+    expect(getClientIp(request({ "X-Forwarded-For": "203.0.113.7" }))).toBe("unknown");
+    expect(getClientIp(request({ "X-Real-IP": "203.0.113.7" }))).toBe("unknown");
+  });
+
+  it("falls back to X-Real-IP", () => {
+    expect(getClientIp(request({ "X-Real-IP": "203.0.113.9" }))).toBe("203.0.113.9");
+  });
+});
+
+describe("consumeRateLimit", () => {
+  const rule: RateLimitRule = { limit: 6, burst: 2, windowSeconds: 60 };
+
+  it("allows a burst, then asks to wait for the next token", async () => {
+    const now = Date.now();
+
+    expect((await consumeRateLimit("test:burst", rule, now)).allowed).toBe(true);
+    expect((await consumeRateLimit("test:burst", rule, now)).allowed).toBe(true);
+    expect(await consumeRateLimit("test:burst", rule, now)).toEqual({
+      allowed: false,
+      retryAfterSeconds: 10,
+    });
+    expect((await consumeRateLimit("test:burst", rule, now + 10_000)).allowed).toBe(true);
+  });
+
+  it("lets only the burst through when requests arrive together", async () => {
+    const now = Date.now();
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => consumeRateLimit("test:concurrent", rule, now))
+    );
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Token-bucket rate limiting for session creation. Each bucket holds up to
+ * `burst` tokens and refills at `limit` tokens per `windowSeconds`, so short
+ * bursts are allowed while the sustained rate stays bounded.
+ */
+
+export type RateLimitRule = {
+  /** Sustained number of requests allowed per window. */
+  limit: number;
+  /** Maximum number of requests that can be made back to back. */
+  burst: number;
+  windowSeconds: number;
+};
+
+export type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Storage for bucket state. `consume` must read, refill and take a token as
+ * one atomic step; a store that reads and writes separately lets concurrent
+ * requests spend the same token. The default keeps buckets in process
+ * memory, which is fine for development and single-instance deployments;
+ * pass a shared implementation (a Redis script, a KV transaction, ...) to
+ * `setRateLimitStore` otherwise. `takeToken` has the bucket arithmetic.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    capacity: number,
+    refillPerMs: number,
+    now: number
+  ): Promise<RateLimitResult>;
+}
+
+/**
+ * Refills `previous` (a full bucket when `null`) up to `now` and takes one
+ * token if there is one. Returns the state to store and how long it needs
+ * keeping: after `ttlMs` the bucket is full again and can be forgotten.
+ */
+export function takeToken(
+  previous: BucketState | null,
+  capacity: number,
+  refillPerMs: number,
+  now: number
+): { state: BucketState; ttlMs: number; result: RateLimitResult } {
+  const elapsed = previous ? Math.max(now - previous.updatedAt, 0) : 0;
+  const tokens = previous
+    ? Math.min(capacity, previous.tokens + elapsed * refillPerMs)
+    : capacity;
+  const ttlMs = Math.ceil(capacity / refillPerMs);
+
+  if (tokens < 1) {
+    return {
+      state: { tokens, updatedAt: now },
+      ttlMs,
+      result: {
+        allowed: false,
+        retryAfterSeconds: Math.max(Math.ceil((1 - tokens) / refillPerMs / 1000), 1),
+      },
+    };
+  }
+  return {
+    state: { tokens: tokens - 1, updatedAt: now },
+    ttlMs,
+    result: { allowed: true, remaining: Math.floor(tokens - 1) },
+  };
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) {
+      return;
+    }
+    lastSweep = now;
+    for (const [key, entry] of buckets) {
+      if (entry.expiresAt <= now) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    // Nothing is awaited between the read and the write, so this is atomic.
+    async consume(key, capacity, refillPerMs, now) {
+      sweep(now);
+      const entry = buckets.get(key);
+      const previous = entry && entry.expiresAt > now ? entry.state : null;
+      const { state, ttlMs, result } = takeToken(previous, capacity, refillPerMs, now);
+      buckets.set(key, { state, expiresAt: now + ttlMs });
+      return result;
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export async function consumeRateLimit(
+  key: string,
+  rule: RateLimitRule,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const refillPerMs = rule.limit / (rule.windowSeconds * 1000);
+  return store.consume(key, rule.burst, refillPerMs, now);
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const raw = Number(process.env[name]);
+  return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : fallback;
+}
+
+/** Per-user and per-IP rules for `/api/create-session`, from the environment. */
+export function getSessionRateLimits(): {
+  user: RateLimitRule;
+  ip: RateLimitRule;
+} | null {
+  if (process.env.RATE_LIMIT_DISABLED === "true") {
+    return null;
+  }
+  const windowSeconds = readPositiveInt("RATE_LIMIT_WINDOW_SECONDS", 60);
+  return {
+    user: {
+      limit: readPositiveInt("RATE_LIMIT_USER_MAX", 10),
+      burst: readPositiveInt("RATE_LIMIT_USER_BURST", 5),
+      windowSeconds,
+    },
+    ip: {
+      limit: readPositiveInt("RATE_LIMIT_IP_MAX", 30),
+      burst: readPositiveInt("RATE_LIMIT_IP_BURST", 10),
+      windowSeconds,
+    },
+  };
+}
+
+/** Proxies in front of the app that append to `X-Forwarded-For` (default 1). */
+export function getTrustedProxyHops(): number {
+  const raw = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isFinite(raw) && raw >= 0 ? Math.floor(raw) : 1;
+}
+
+/**
+ * Client address as recorded by the outermost trusted proxy. Each proxy
+ * appends the address it was connected from to `X-Forwarded-For`, so only
+ * the last `hops` entries can be trusted; anything left of them is whatever
+ * the client sent. With no trusted proxies the headers are ignored.
+ */
+export function getClientIp(
+  request: Request,
+  hops: number = getTrustedProxyHops()
+): string {
+  if (hops === 0) {
+    return "unknown";
+  }
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - hops, 0)];
+  }
+  return request.headers.get("x-real-ip")?.trim() || "unknown";
+}
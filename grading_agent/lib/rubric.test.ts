@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RUBRIC,
+  formatRubricForAgent,
+  sumCriteriaPoints,
+  validateRubric,
+} from "@/lib/rubric";
+
+const criterion = (id: string, maxPoints: number) => ({
+  id,
+  title: `Criterion ${id}`,
+  description: "",
+  maxPoints,
+  levels: [
+    { label: "Met", points: maxPoints, descriptor: "Done." },
+    { label: "Not met", points: 0, descriptor: "Not done." },
+  ],
+});
+
+describe("validateRubric", () => {
+  it("accepts the default rubric", () => {
+    const result = validateRubric(DEFAULT_RUBRIC);
+
+    expect(result).toEqual({ ok: true, value: DEFAULT_RUBRIC });
+  });
+
+  it("trims strings and falls back to the title for the assignment", () => {
+    const result = validateRubric({
+      title: "  Essay  ",
+      totalPoints: 2,
+      criteria: [criterion(" a ", 2)],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.title).toBe("Essay");
+    expect(result.value.assignment).toBe("Essay");
+    expect(result.value.criteria[0].id).toBe("a");
+    expect(result.value.bonus).toEqual([]);
+  });
+
+  it("rejects criteria that do not add up to the declared total", () => {
+    const result = validateRubric({
+      title: "Essay",
+      totalPoints: 5,
+      criteria: [criterion("a", 2), criterion("b", 2)],
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      errors: ["Criteria add up to 4 points but the rubric declares 5"],
+    });
+  });
+
+  it("reports duplicate ids and out-of-range level points", () => {
+    const overscored = criterion("a", 1);
+    overscored.levels[0].points = 3;
+
+    const result = validateRubric({
+      title: "Essay",
+      totalPoints: 2,
+      criteria: [overscored, criterion("a", 1)],
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      "Criterion 1, level 1: points must be between 0 and max points",
+      'Criterion 2: duplicate id "a"',
+    ]);
+  });
+
+  it("collects every missing field at once", () => {
+    const result = validateRubric({ criteria: [], bonus: [{ points: 0 }] });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      "Title is required",
+      "Total points must be a positive number",
+      "At least one criterion is required",
+      "Bonus 1: id is required",
+      "Bonus 1: title is required",
+      "Bonus 1: points must be a positive number",
+    ]);
+  });
+
+  it("rejects non-objects", () => {
+    expect(validateRubric(null)).toEqual({
+      ok: false,
+      errors: ["Rubric must be an object"],
+    });
+  });
+});
+
+describe("sumCriteriaPoints", () => {
+  it("adds up the criteria max points", () => {
+    expect(sumCriteriaPoints(DEFAULT_RUBRIC.criteria)).toBe(DEFAULT_RUBRIC.totalPoints);
+  });
+});
+
+describe("formatRubricForAgent", () => {
+  it("lists criteria, levels and bonus items", () => {
+    const text = formatRubricForAgent({
+      title: "Essay",
+      assignment: "Essay 1",
+      description: "",
+      totalPoints: 2,
+      criteria: [criterion("a", 2)],
+      bonus: [{ id: "video", title: "Video", description: "Short clip", points: 1 }],
+    });
+
+    expect(text).toBe(
+      [
+        "Assignment: Essay 1",
+        "Total: 2 points",
+        "",
+        "Criteria:",
+        "- [a] Criterion a (2 pts)",
+        "    - Met (2): Done.",
+        "    - Not met (0): Not done.",
+        "",
+        "Bonus:",
+        "- [video] Video (+1 pts): Short clip",
+      ].join("\n")
+    );
+  });
+});
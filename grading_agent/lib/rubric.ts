@@ -0,0 +1,314 @@
+/**
+ * Rubric model shared by the instructor editor, the rubric API routes and the
+ * create-session flow. Kept free of server-only imports so the editor can run
+ * the same validation in the browser.
+ */
+
+export type RubricLevel = {
+  label: string;
+  points: number;
+  descriptor: string;
+};
+
+export type RubricCriterion = {
+  id: string;
+  title: string;
+  description: string;
+  maxPoints: number;
+  levels: RubricLevel[];
+};
+
+export type RubricBonus = {
+  id: string;
+  title: string;
+  description: string;
+  points: number;
+};
+
+export type RubricInput = {
+  title: string;
+  assignment: string;
+  description: string;
+  totalPoints: number;
+  criteria: RubricCriterion[];
+  bonus: RubricBonus[];
+};
+
+export type Rubric = RubricInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RubricValidationResult =
+  | { ok: true; value: RubricInput }
+  | { ok: false; errors: string[] };
+
+export const DEFAULT_RUBRIC_ID = "agentic-ai-use-case";
+
+const threeLevels = (maxPoints: number, descriptors: [string, string, string]) => [
+  { label: "Excellent", points: maxPoints, descriptor: descriptors[0] },
+  { label: "Partial", points: maxPoints / 2, descriptor: descriptors[1] },
+  { label: "Missing", points: 0, descriptor: descriptors[2] },
+];
+
+const twoLevels = (maxPoints: number, descriptors: [string, string]) => [
+  { label: "Met", points: maxPoints, descriptor: descriptors[0] },
+  { label: "Not met", points: 0, descriptor: descriptors[1] },
+];
+
+/** The assignment that used to be hardcoded in the workflow and README. */
+export const DEFAULT_RUBRIC: RubricInput = {
+  title: "Find One Real Agentic AI Use Case",
+  assignment: "Find One Real Agentic AI Use Case",
+  description:
+    "Research and explain one real, documented use case of agentic AI in production.",
+  totalPoints: 9,
+  criteria: [
+    {
+      id: "accuracy",
+      title: "Real, documented use case accuracy",
+      description: "The use case exists and is described accurately.",
+      maxPoints: 2,
+      levels: threeLevels(2, [
+        "Real, verifiable use case described accurately.",
+        "Use case is real but details are vague or partly wrong.",
+        "Use case is hypothetical or not agentic.",
+      ]),
+    },
+    {
+      id: "clarity",
+      title: "Clarity of explanation",
+      description: "Explains what the agent does and why it is agentic.",
+      maxPoints: 2,
+      levels: threeLevels(2, [
+        "Clear, well-structured explanation.",
+        "Understandable but disorganised or incomplete.",
+        "Hard to follow or missing.",
+      ]),
+    },
+    {
+      id: "research",
+      title: "Research depth",
+      description: "Goes beyond a surface-level summary.",
+      maxPoints: 2,
+      levels: threeLevels(2, [
+        "Covers context, impact and limitations.",
+        "Some depth but key aspects are missing.",
+        "Surface-level summary only.",
+      ]),
+    },
+    {
+      id: "sources",
+      title: "Source/evidence quality",
+      description: "Claims are backed by credible sources.",
+      maxPoints: 1,
+      levels: twoLevels(1, [
+        "Cites credible, relevant sources.",
+        "No sources or unreliable sources.",
+      ]),
+    },
+    {
+      id: "presentation",
+      title: "Presentation & grammar",
+      description: "Readable, well-formatted and mostly error-free.",
+      maxPoints: 1,
+      levels: twoLevels(1, [
+        "Well presented with few errors.",
+        "Frequent errors or poor formatting.",
+      ]),
+    },
+    {
+      id: "linkedin",
+      title: "Public LinkedIn post requirement",
+      description: "The work was shared as a public LinkedIn post.",
+      maxPoints: 1,
+      levels: twoLevels(1, [
+        "Public post link provided.",
+        "No public post.",
+      ]),
+    },
+  ],
+  bonus: [
+    {
+      id: "video",
+      title: "Video explanation",
+      description: "A short video walking through the use case.",
+      points: 2,
+    },
+  ],
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+// Points are entered by hand, so compare sums with a small tolerance.
+const POINT_EPSILON = 1e-6;
+
+export function sumCriteriaPoints(criteria: RubricCriterion[]): number {
+  return criteria.reduce((sum, criterion) => sum + criterion.maxPoints, 0);
+}
+
+export function validateRubric(input: unknown): RubricValidationResult {
+  const errors: string[] = [];
+  if (!input || typeof input !== "object") {
+    return { ok: false, errors: ["Rubric must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+
+  const title = asString(raw.title);
+  if (!title) {
+    errors.push("Title is required");
+  }
+
+  const totalPoints = raw.totalPoints;
+  if (!isFiniteNumber(totalPoints) || totalPoints <= 0) {
+    errors.push("Total points must be a positive number");
+  }
+
+  const rawCriteria = Array.isArray(raw.criteria) ? raw.criteria : [];
+  if (rawCriteria.length === 0) {
+    errors.push("At least one criterion is required");
+  }
+
+  const seenIds = new Set<string>();
+  const criteria: RubricCriterion[] = rawCriteria.map((item, index) => {
+    const criterion = (item ?? {}) as Record<string, unknown>;
+    const label = `Criterion ${index + 1}`;
+    const id = asString(criterion.id);
+    const criterionTitle = asString(criterion.title);
+    const maxPoints = criterion.maxPoints;
+
+    if (!id) {
+      errors.push(`${label}: id is required`);
+    } else if (seenIds.has(id)) {
+      errors.push(`${label}: duplicate id "${id}"`);
+    }
+    seenIds.add(id);
+    if (!criterionTitle) {
+      errors.push(`${label}: title is required`);
+    }
+    if (!isFiniteNumber(maxPoints) || maxPoints <= 0) {
+      errors.push(`${label}: max points must be a positive number`);
+    }
+
+    const rawLevels = Array.isArray(criterion.levels) ? criterion.levels : [];
+    const levels: RubricLevel[] = rawLevels.map((levelItem, levelIndex) => {
+      const level = (levelItem ?? {}) as Record<string, unknown>;
+      const levelLabel = `${label}, level ${levelIndex + 1}`;
+      const points = level.points;
+      if (!asString(level.label)) {
+        errors.push(`${levelLabel}: label is required`);
+      }
+      if (!asString(level.descriptor)) {
+        errors.push(`${levelLabel}: descriptor is required`);
+      }
+      if (
+        !isFiniteNumber(points) ||
+        points < 0 ||
+        (isFiniteNumber(maxPoints) && points > maxPoints + POINT_EPSILON)
+      ) {
+        errors.push(`${levelLabel}: points must be between 0 and max points`);
+      }
+      return {
+        label: asString(level.label),
+        points: isFiniteNumber(points) ? points : 0,
+        descriptor: asString(level.descriptor),
+      };
+    });
+
+    return {
+      id,
+      title: criterionTitle,
+      description: asString(criterion.description),
+      maxPoints: isFiniteNumber(maxPoints) ? maxPoints : 0,
+      levels,
+    };
+  });
+
+  const rawBonus = Array.isArray(raw.bonus) ? raw.bonus : [];
+  const bonus: RubricBonus[] = rawBonus.map((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const label = `Bonus ${index + 1}`;
+    const points = entry.points;
+    if (!asString(entry.id)) {
+      errors.push(`${label}: id is required`);
+    }
+    if (!asString(entry.title)) {
+      errors.push(`${label}: title is required`);
+    }
+    if (!isFiniteNumber(points) || points <= 0) {
+      errors.push(`${label}: points must be a positive number`);
+    }
+    return {
+      id: asString(entry.id),
+      title: asString(entry.title),
+      description: asString(entry.description),
+      points: isFiniteNumber(points) ? points : 0,
+    };
+  });
+
+  if (isFiniteNumber(totalPoints) && criteria.length > 0) {
+    const sum = sumCriteriaPoints(criteria);
+    if (Math.abs(sum - totalPoints) > POINT_EPSILON) {
+      errors.push(
+        `Criteria add up to ${sum} points but the rubric declares ${totalPoints}`
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      title,
+      assignment: asString(raw.assignment) || title,
+      description: asString(raw.description),
+      totalPoints: totalPoints as number,
+      criteria,
+      bonus,
+    },
+  };
+}
+
+/**
+ * Renders a rubric as plain text for the workflow's `grading_criteria` state
+ * variable, which the grading agent reads instead of a hardcoded rubric.
+ */
+export function formatRubricForAgent(rubric: RubricInput): string {
+  const lines = [
+    `Assignment: ${rubric.assignment}`,
+    rubric.description ? `Description: ${rubric.description}` : null,
+    `Total: ${rubric.totalPoints} points`,
+    "",
+    "Criteria:",
+  ];
+
+  for (const criterion of rubric.criteria) {
+    lines.push(
+      `- [${criterion.id}] ${criterion.title} (${criterion.maxPoints} pts)` +
+        (criterion.description ? `: ${criterion.description}` : "")
+    );
+    for (const level of criterion.levels) {
+      lines.push(`    - ${level.label} (${level.points}): ${level.descriptor}`);
+    }
+  }
+
+  if (rubric.bonus.length > 0) {
+    lines.push("", "Bonus:");
+    for (const bonus of rubric.bonus) {
+      lines.push(
+        `- [${bonus.id}] ${bonus.title} (+${bonus.points} pts)` +
+          (bonus.description ? `: ${bonus.description}` : "")
+      );
+    }
+  }
+
+  return lines.filter((line): line is string => line !== null).join("\n");
+}
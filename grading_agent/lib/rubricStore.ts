@@ -0,0 +1,70 @@
+import {
+  DEFAULT_RUBRIC,
+  DEFAULT_RUBRIC_ID,
+  type Rubric,
+  type RubricInput,
+} from "@/lib/rubric";
+import { generateId, getCollection } from "@/lib/store";
+
+const rubrics = () => getCollection<Rubric>("rubrics");
+
+/**
+ * Lists stored rubrics, seeding the default assignment the first time so an
+ * empty store still grades the way the original workflow did.
+ */
+export async function listRubrics(): Promise<Rubric[]> {
+  const stored = await rubrics().list();
+  if (stored.length > 0) {
+    return stored.sort((a, b) => a.title.localeCompare(b.title));
+  }
+  const now = new Date().toISOString();
+  const seeded: Rubric = {
+    ...DEFAULT_RUBRIC,
+    id: DEFAULT_RUBRIC_ID,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await rubrics().put(seeded);
+  return [seeded];
+}
+
+export async function getRubric(id: string): Promise<Rubric | null> {
+  const stored = await rubrics().get(id);
+  if (stored) {
+    return stored;
+  }
+  if (id === DEFAULT_RUBRIC_ID) {
+    return (await listRubrics()).find((rubric) => rubric.id === id) ?? null;
+  }
+  return null;
+}
+
+export async function createRubric(input: RubricInput): Promise<Rubric> {
+  const now = new Date().toISOString();
+  return rubrics().put({
+    ...input,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function updateRubric(
+  id: string,
+  input: RubricInput
+): Promise<Rubric | null> {
+  const existing = await getRubric(id);
+  if (!existing) {
+    return null;
+  }
+  return rubrics().put({
+    ...input,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteRubric(id: string): Promise<boolean> {
+  return rubrics().remove(id);
+}
@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AUTH_COOKIE_NAME, getRequestUser, resolveIdentity } from "@/lib/auth";
+import {
+  SESSION_COOKIE_NAME,
+  decodeCookieValue,
+  evaluateSessionCookie,
+  type SessionPolicy,
+} from "@/lib/session";
+import { decodeBase64Url, encodeBase64Url, signValue } from "@/lib/signing";
+
+const OLD_KEY = "old-key-old-key-old-key-old-key-0";
+const NEW_KEY = "new-key-new-key-new-key-new-key-1";
+const POLICY: SessionPolicy = { maxAge: 3600, rotateAfter: 600 };
+const START = Date.UTC(2026, 0, 1);
+
+/** The raw cookie value, as the browser sends it back. */
+function cookieValue(setCookie: string | null): string {
+  const match = new RegExp(`^${SESSION_COOKIE_NAME}=([^;]*)`).exec(setCookie ?? "");
+  if (!match) {
+    throw new Error(`No session cookie in ${setCookie}`);
+  }
+  return match[1];
+}
+
+async function issue(keys = [OLD_KEY], now = START) {
+  const result = await evaluateSessionCookie(null, { keys, policy: POLICY, now });
+  expect(result.status).toBe("issued");
+  return { userId: result.userId, raw: cookieValue(result.sessionCookie) };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("evaluateSessionCookie", () => {
+  it("accepts its own cookie without reissuing it", async () => {
+    const { userId, raw } = await issue();
+
+    const result = await evaluateSessionCookie(raw, {
+      keys: [OLD_KEY],
+      policy: POLICY,
+      now: START + 60_000,
+    });
+
+    expect(result).toEqual({ userId, sessionCookie: null, status: "valid" });
+  });
+
+  it("rejects a cookie whose payload was changed to another user", async () => {
+    const { raw } = await issue();
+    const [payload, signature] = decodeURIComponent(raw).split(".");
+    const forgedPayload = encodeBase64Url(
+      JSON.stringify({ ...JSON.parse(decodeBase64Url(payload)!), uid: "victim" })
+    );
+
+    const result = await evaluateSessionCookie(`${forgedPayload}.${signature}`, {
+      keys: [OLD_KEY],
+      policy: POLICY,
+      now: START,
+    });
+
+    expect(result.status).toBe("rejected");
+    expect(result.userId).not.toBe("victim");
+    expect(result.sessionCookie).toContain(`${SESSION_COOKIE_NAME}=`);
+  });
+
+  it("rejects a cookie signed with a key it does not know", async () => {
+    const payload = encodeBase64Url(
+      JSON.stringify({ uid: "victim", iat: START / 1000, sig: START / 1000 })
+    );
+    const forged = await signValue(payload, "attacker-key-attacker-key-attacker");
+
+    const result = await evaluateSessionCookie(forged, {
+      keys: [NEW_KEY, OLD_KEY],
+      policy: POLICY,
+      now: START,
+    });
+
+    expect(result.status).toBe("rejected");
+    expect(result.userId).not.toBe("victim");
+  });
+
+  it.each([
+    ["malformed percent-encoding", "abc%E0.sig"],
+    ["no signature", "abc"],
+    ["an empty payload", ".sig"],
+  ])("rejects and reissues a cookie with %s", async (_, raw) => {
+    const result = await evaluateSessionCookie(raw, {
+      keys: [OLD_KEY],
+      policy: POLICY,
+      now: START,
+    });
+
+    expect(result.status).toBe("rejected");
+    expect(result.sessionCookie).toContain(`${SESSION_COOKIE_NAME}=`);
+  });
+
+  it("replaces an identity older than maxAge", async () => {
+    const { userId, raw } = await issue();
+
+    const result = await evaluateSessionCookie(raw, {
+      keys: [OLD_KEY],
+      policy: POLICY,
+      now: START + POLICY.maxAge * 1000,
+    });
+
+    expect(result.status).toBe("expired");
+    expect(result.userId).not.toBe(userId);
+    expect(result.sessionCookie).toContain(`Max-Age=${POLICY.maxAge}`);
+  });
+
+  it("replaces an identity issued in the future", async () => {
+    const { raw } = await issue([OLD_KEY], START + 3_600_000);
+
+    const result = await evaluateSessionCookie(raw, {
+      keys: [OLD_KEY],
+      policy: POLICY,
+      now: START,
+    });
+
+    expect(result.status).toBe("expired");
+  });
+
+  it("re-signs a cookie from a rotated-out key with the same identity", async () => {
+    const { userId, raw } = await issue([OLD_KEY]);
+
+    const rotated = await evaluateSessionCookie(raw, {
+      keys: [NEW_KEY, OLD_KEY],
+      policy: POLICY,
+      now: START + 60_000,
+    });
+
+    expect(rotated.status).toBe("rotated");
+    expect(rotated.userId).toBe(userId);
+
+    // The reissued cookie verifies with the new key alone.
+    const afterRetirement = await evaluateSessionCookie(cookieValue(rotated.sessionCookie), {
+      keys: [NEW_KEY],
+      policy: POLICY,
+      now: START + 120_000,
+    });
+    expect(afterRetirement).toEqual({ userId, sessionCookie: null, status: "valid" });
+  });
+
+  it("rejects a cookie once its key has been retired", async () => {
+    const { userId, raw } = await issue([OLD_KEY]);
+
+    const result = await evaluateSessionCookie(raw, {
+      keys: [NEW_KEY],
+      policy: POLICY,
+      now: START,
+    });
+
+    expect(result.status).toBe("rejected");
+    expect(result.userId).not.toBe(userId);
+  });
+
+  it("re-signs a cookie past rotateAfter and keeps its remaining lifetime", async () => {
+    const { userId, raw } = await issue();
+    const now = START + POLICY.rotateAfter * 1000;
+
+    const result = await evaluateSessionCookie(raw, { keys: [OLD_KEY], policy: POLICY, now });
+
+    expect(result.status).toBe("rotated");
+    expect(result.userId).toBe(userId);
+    expect(result.sessionCookie).toContain(`Max-Age=${POLICY.maxAge - POLICY.rotateAfter}`);
+  });
+});
+
+describe("malformed cookies on requests", () => {
+  const request = (cookie: string) =>
+    new Request("http://localhost/api/facts", { headers: { Cookie: cookie } });
+
+  it("decodes only valid percent-encoding", () => {
+    expect(decodeCookieValue("a%2Eb")).toBe("a.b");
+    expect(decodeCookieValue("abc%E0.sig")).toBeNull();
+  });
+
+  it("reissues the anonymous identity instead of failing", async () => {
+    vi.stubEnv("SESSION_SECRETS", OLD_KEY);
+
+    const identity = await resolveIdentity(request(`${SESSION_COOKIE_NAME}=abc%E0.sig`));
+
+    expect(identity.ok).toBe(true);
+    expect(identity.ok && identity.sessionCookie).toContain(`${SESSION_COOKIE_NAME}=`);
+  });
+
+  it("treats a malformed auth cookie as signed out", async () => {
+    vi.stubEnv("AUTH_PROVIDER", "local");
+    vi.stubEnv("AUTH_SECRET", NEW_KEY);
+
+    expect(await getRequestUser(request(`${AUTH_COOKIE_NAME}=abc%E0.sig`))).toBeNull();
+
+    const identity = await resolveIdentity(request(`${AUTH_COOKIE_NAME}=abc%E0.sig`));
+    expect(identity.ok).toBe(false);
+    expect(!identity.ok && identity.response.status).toBe(401);
+  });
+});
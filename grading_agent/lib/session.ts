@@ -0,0 +1,261 @@
+import { createLogger } from "@/lib/logger";
+import {
+  decodeBase64Url,
+  encodeBase64Url,
+  signValue,
+  verifySignedValue,
+} from "@/lib/signing";
+
+export const SESSION_COOKIE_NAME = "chatkit_session_id";
+
+const DEFAULT_SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const DEFAULT_SESSION_ROTATE_AFTER = 60 * 60 * 24; // 1 day
+
+const log = createLogger("session");
+
+export type SessionPolicy = {
+  /** Absolute lifetime of an anonymous identity, in seconds. */
+  maxAge: number;
+  /** Cookies last signed longer ago than this are re-signed, in seconds. */
+  rotateAfter: number;
+};
+
+/**
+ * What happened to the incoming cookie: kept as is, re-signed with the
+ * current key, or replaced by a new identity.
+ */
+export type SessionCookieStatus =
+  | "valid"
+  | "rotated"
+  | "issued"
+  | "expired"
+  | "rejected";
+
+type SessionPayload = {
+  /** Anonymous user id sent upstream as the ChatKit `user`. */
+  uid: string;
+  /** When the identity was first issued (epoch seconds). */
+  iat: number;
+  /** When this cookie was last signed (epoch seconds). */
+  sig: number;
+};
+
+let ephemeralKey: string | null = null;
+
+function readPositiveSeconds(name: string, fallback: number): number {
+  const raw = Number(process.env[name]);
+  return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : fallback;
+}
+
+export function getSessionPolicy(): SessionPolicy {
+  return {
+    maxAge: readPositiveSeconds("SESSION_COOKIE_MAX_AGE", DEFAULT_SESSION_MAX_AGE),
+    rotateAfter: readPositiveSeconds(
+      "SESSION_COOKIE_ROTATE_AFTER",
+      DEFAULT_SESSION_ROTATE_AFTER
+    ),
+  };
+}
+
+/**
+ * Signing keys from `SESSION_SECRETS`, newest first. The first key signs new
+ * cookies; the rest are only accepted for verification so keys can be rotated
+ * without logging everyone out. Development falls back to a per-process key.
+ */
+export function getSessionKeys(): string[] {
+  const keys = (process.env.SESSION_SECRETS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  if (keys.length > 0) {
+    return keys;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRETS must be set to sign session cookies");
+  }
+  if (!ephemeralKey) {
+    log.warn("SESSION_SECRETS is not set; using a temporary signing key");
+    ephemeralKey = generateUserId() + generateUserId();
+  }
+  return [ephemeralKey];
+}
+
+function generateUserId(): string {
+  return typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+}
+
+async function verifyWithKeys(
+  signed: string,
+  keys: string[]
+): Promise<{ value: string; keyIndex: number } | null> {
+  for (const [keyIndex, key] of keys.entries()) {
+    const value = await verifySignedValue(signed, key);
+    if (value !== null) {
+      return { value, keyIndex };
+    }
+  }
+  return null;
+}
+
+function parsePayload(value: string): SessionPayload | null {
+  const json = decodeBase64Url(value);
+  if (!json) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(json) as Partial<SessionPayload>;
+    if (
+      typeof payload.uid !== "string" ||
+      !payload.uid ||
+      typeof payload.iat !== "number" ||
+      typeof payload.sig !== "number"
+    ) {
+      return null;
+    }
+    return payload as SessionPayload;
+  } catch {
+    return null;
+  }
+}
+
+async function issueSessionCookie(
+  payload: SessionPayload,
+  key: string,
+  policy: SessionPolicy
+): Promise<string> {
+  const signed = await signValue(encodeBase64Url(JSON.stringify(payload)), key);
+  const remaining = Math.max(payload.iat + policy.maxAge - payload.sig, 0);
+  return serializeCookie(SESSION_COOKIE_NAME, signed, remaining);
+}
+
+/**
+ * Checks a raw `chatkit_session_id` value against the signing keys and
+ * policy. Forged or expired cookies get a fresh identity; cookies signed with
+ * an older key or past `rotateAfter` keep their id but are re-signed.
+ */
+export async function evaluateSessionCookie(
+  raw: string | null,
+  options: { keys: string[]; policy: SessionPolicy; now?: number }
+): Promise<{
+  userId: string;
+  sessionCookie: string | null;
+  status: SessionCookieStatus;
+}> {
+  const { keys, policy } = options;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const [primaryKey] = keys;
+
+  const issueNew = async (status: SessionCookieStatus) => {
+    const userId = generateUserId();
+    return {
+      userId,
+      sessionCookie: await issueSessionCookie(
+        { uid: userId, iat: now, sig: now },
+        primaryKey,
+        policy
+      ),
+      status,
+    };
+  };
+
+  if (!raw) {
+    return issueNew("issued");
+  }
+
+  const decoded = decodeCookieValue(raw);
+  const verified = decoded ? await verifyWithKeys(decoded, keys) : null;
+  const payload = verified ? parsePayload(verified.value) : null;
+  if (!verified || !payload) {
+    return issueNew("rejected");
+  }
+  if (payload.iat + policy.maxAge <= now || payload.iat > now + 60) {
+    return issueNew("expired");
+  }
+  if (verified.keyIndex > 0 || now - payload.sig >= policy.rotateAfter) {
+    return {
+      userId: payload.uid,
+      sessionCookie: await issueSessionCookie(
+        { ...payload, sig: now },
+        primaryKey,
+        policy
+      ),
+      status: "rotated",
+    };
+  }
+  return { userId: payload.uid, sessionCookie: null, status: "valid" };
+}
+
+export async function resolveUserId(request: Request): Promise<{
+  userId: string;
+  sessionCookie: string | null;
+}> {
+  const existing = getCookieValue(
+    request.headers.get("cookie"),
+    SESSION_COOKIE_NAME
+  );
+  const result = await evaluateSessionCookie(existing, {
+    keys: getSessionKeys(),
+    policy: getSessionPolicy(),
+  });
+
+  if (result.status === "rejected" || result.status === "expired") {
+    log.warn("replaced session cookie", { status: result.status });
+  }
+
+  return { userId: result.userId, sessionCookie: result.sessionCookie };
+}
+
+export function getCookieValue(
+  cookieHeader: string | null,
+  name: string
+): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  const cookies = cookieHeader.split(";");
+  for (const cookie of cookies) {
+    const [rawName, ...rest] = cookie.split("=");
+    if (!rawName || rest.length === 0) {
+      continue;
+    }
+    if (rawName.trim() === name) {
+      return rest.join("=").trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Undoes the encoding `serializeCookie` applies, or `null` when the value is
+ * not valid percent-encoding, which only a tampered cookie can be.
+ */
+export function decodeCookieValue(raw: string): string | null {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** Serializes an HttpOnly cookie; a `maxAge` of 0 expires it immediately. */
+export function serializeCookie(
+  name: string,
+  value: string,
+  maxAge: number
+): string {
+  const attributes = [
+    `${name}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+
+  if (process.env.NODE_ENV === "production") {
+    attributes.push("Secure");
+  }
+  return attributes.join("; ");
+}
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  findReusableSession,
+  getSessionReuseWindow,
+  readSessionExpiresAt,
+  rememberSession,
+} from "@/lib/sessionReuse";
+
+// Epoch milliseconds with a whole number of seconds, to keep the arithmetic readable.
+const NOW = 1_800_000_000_000;
+const NOW_SECONDS = NOW / 1000;
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getSessionReuseWindow", () => {
+  it.each([
+    [undefined, 0],
+    ["", 0],
+    ["-5", 0],
+    ["soon", 0],
+    ["90.7", 90],
+  ])("reads %j as %d seconds", (raw, expected) => {
+    vi.stubEnv("CHATKIT_SESSION_REUSE_SECONDS", raw);
+
+    expect(getSessionReuseWindow()).toBe(expected);
+  });
+});
+
+describe("readSessionExpiresAt", () => {
+  it("prefers an absolute expires_at", () => {
+    expect(readSessionExpiresAt({ expires_at: 123.9, expires_after: 60 }, NOW)).toBe(123);
+  });
+
+  it("adds expires_after to the current time in either shape", () => {
+    expect(readSessionExpiresAt({ expires_after: 600 }, NOW)).toBe(NOW_SECONDS + 600);
+    expect(readSessionExpiresAt({ expires_after: { seconds: 600 } }, NOW)).toBe(
+      NOW_SECONDS + 600
+    );
+  });
+
+  it("returns null when the payload has no usable expiry", () => {
+    expect(readSessionExpiresAt(undefined, NOW)).toBeNull();
+    expect(readSessionExpiresAt({ expires_after: { anchor: "created_at" } }, NOW)).toBeNull();
+  });
+});
+
+describe("findReusableSession", () => {
+  const session = {
+    clientSecret: "ek_123",
+    expiresAfter: { seconds: 600 },
+    expiresAt: NOW_SECONDS + 600,
+  };
+
+  it("does not cache anything while reuse is disabled", () => {
+    rememberSession("disabled", session, NOW);
+
+    vi.stubEnv("CHATKIT_SESSION_REUSE_SECONDS", "300");
+
+    expect(findReusableSession("disabled", NOW)).toBeNull();
+  });
+
+  it("reuses a session inside the window", () => {
+    vi.stubEnv("CHATKIT_SESSION_REUSE_SECONDS", "300");
+    rememberSession("fresh", session, NOW);
+
+    const found = findReusableSession("fresh", NOW + 60_000);
+
+    expect(found).toEqual({ ...session, createdAt: NOW_SECONDS });
+  });
+
+  it("drops a session once the reuse window has passed", () => {
+    vi.stubEnv("CHATKIT_SESSION_REUSE_SECONDS", "300");
+    rememberSession("stale", session, NOW);
+
+    expect(findReusableSession("stale", NOW + 300_000)).toBeNull();
+    expect(findReusableSession("stale", NOW)).toBeNull();
+  });
+
+  it("drops a session whose secret is about to expire", () => {
+    vi.stubEnv("CHATKIT_SESSION_REUSE_SECONDS", "3600");
+    rememberSession("expiring", session, NOW);
+
+    expect(findReusableSession("expiring", NOW + 500_000)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Short-lived cache of upstream ChatKit sessions, so reloads and extra tabs
+ * from the same user can reuse a client secret that is still valid instead
+ * of creating a new session. Off unless `CHATKIT_SESSION_REUSE_SECONDS` is set.
+ */
+
+export type ReusableSession = {
+  clientSecret: string;
+  /** Upstream `expires_after`, passed back to the client unchanged. */
+  expiresAfter: unknown;
+  /** When the client secret stops working (epoch seconds). */
+  expiresAt: number;
+  createdAt: number;
+};
+
+/**
+ * A cached secret is only handed out while it has at least this long left,
+ * comfortably more than the client's refresh lead so a reused secret is not
+ * immediately refreshed again.
+ */
+const MIN_REMAINING_SECONDS = 120;
+
+const sessions = new Map<string, ReusableSession>();
+
+/** Reuse window in seconds, or 0 when reuse is disabled. */
+export function getSessionReuseWindow(): number {
+  const raw = Number(process.env.CHATKIT_SESSION_REUSE_SECONDS);
+  return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : 0;
+}
+
+/**
+ * Absolute expiry of an upstream session response. Accepts `expires_at`
+ * (epoch seconds) or an `expires_after` of `{ seconds }` or a plain number.
+ */
+export function readSessionExpiresAt(
+  payload: Record<string, unknown> | undefined,
+  now: number = Date.now()
+): number | null {
+  const expiresAt = payload?.expires_at;
+  if (typeof expiresAt === "number" && expiresAt > 0) {
+    return Math.floor(expiresAt);
+  }
+  const expiresAfter = payload?.expires_after;
+  const seconds =
+    typeof expiresAfter === "number"
+      ? expiresAfter
+      : expiresAfter && typeof expiresAfter === "object"
+        ? (expiresAfter as { seconds?: unknown }).seconds
+        : null;
+  return typeof seconds === "number" && seconds > 0
+    ? Math.floor(now / 1000) + Math.floor(seconds)
+    : null;
+}
+
+export function findReusableSession(
+  key: string,
+  now: number = Date.now()
+): ReusableSession | null {
+  const windowSeconds = getSessionReuseWindow();
+  const session = sessions.get(key);
+  if (!windowSeconds || !session) {
+    return null;
+  }
+  const nowSeconds = Math.floor(now / 1000);
+  if (
+    nowSeconds - session.createdAt >= windowSeconds ||
+    session.expiresAt - nowSeconds < MIN_REMAINING_SECONDS
+  ) {
+    sessions.delete(key);
+    return null;
+  }
+  return session;
+}
+
+export function rememberSession(
+  key: string,
+  session: Omit<ReusableSession, "createdAt">,
+  now: number = Date.now()
+): void {
+  if (!getSessionReuseWindow()) {
+    return;
+  }
+  const nowSeconds = Math.floor(now / 1000);
+  for (const [existingKey, existing] of sessions) {
+    if (existing.expiresAt <= nowSeconds) {
+      sessions.delete(existingKey);
+    }
+  }
+  sessions.set(key, { ...session, createdAt: nowSeconds });
+}
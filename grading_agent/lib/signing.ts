@@ -0,0 +1,98 @@
+/**
+ * HMAC-SHA256 helpers built on Web Crypto so they run on both the Node.js and
+ * edge runtimes. Signed values have the form `<payload>.<signature>`.
+ */
+
+const encoder = new TextEncoder();
+
+export function encodeBase64Url(input: string | Uint8Array): string {
+  const bytes = typeof input === "string" ? encoder.encode(input) : input;
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeBase64Url(input: string): string | null {
+  try {
+    const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+async function hmac(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  return encodeBase64Url(new Uint8Array(signature));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let mismatch = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    mismatch |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return mismatch === 0;
+}
+
+export async function signValue(value: string, secret: string): Promise<string> {
+  return `${value}.${await hmac(secret, value)}`;
+}
+
+/** Returns the original value when the signature matches, otherwise `null`. */
+export async function verifySignedValue(
+  signed: string,
+  secret: string
+): Promise<string | null> {
+  const separator = signed.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+  const value = signed.slice(0, separator);
+  const signature = signed.slice(separator + 1);
+  const expected = await hmac(secret, value);
+  return timingSafeEqual(signature, expected) ? value : null;
+}
+
+/** Signs a JSON payload with an absolute expiry (epoch seconds). */
+export async function signToken(
+  payload: Record<string, unknown>,
+  secret: string,
+  ttlSeconds: number
+): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return signValue(encodeBase64Url(JSON.stringify({ ...payload, exp })), secret);
+}
+
+export async function verifyToken<T extends Record<string, unknown>>(
+  token: string,
+  secret: string
+): Promise<T | null> {
+  const value = await verifySignedValue(token, secret);
+  const json = value ? decodeBase64Url(value) : null;
+  if (!json) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(json) as T & { exp?: unknown };
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FLAG_THRESHOLD,
+  compareTexts,
+  estimateOverlap,
+  fingerprint,
+  formatScore,
+  isCandidate,
+  parseFlagThreshold,
+  splitHighlights,
+} from "@/lib/similarity";
+
+/** `count` distinct filler words, so only deliberate passages are shared. */
+const filler = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(" ");
+
+const PASSAGE = "the quick brown fox jumps over the lazy dog near the river bank today";
+
+const TEXT = `${filler("a", 20)} ${PASSAGE} ${filler("b", 20)}`;
+const COPY = `${filler("c", 30)}. ${PASSAGE.toUpperCase()}! ${filler("d", 5)}`;
+
+describe("fingerprint", () => {
+  it("counts distinct five-word shingles", () => {
+    expect(fingerprint("one two three four five six").shingles).toBe(2);
+    expect(fingerprint("one two three four").shingles).toBe(0);
+    expect(fingerprint(TEXT).signature).toHaveLength(128);
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(fingerprint("One, two; THREE four five!")).toEqual(
+      fingerprint("one two three four five")
+    );
+  });
+});
+
+describe("isCandidate", () => {
+  it("pairs a short submission copied into a long one", () => {
+    const short = fingerprint(`${PASSAGE} ${filler("e", 5)}`);
+    const long = fingerprint(`${filler("f", 150)} ${PASSAGE} ${filler("e", 5)} ${filler("g", 50)}`);
+
+    expect(isCandidate(short, long)).toBe(true);
+  });
+
+  it("skips unrelated and empty submissions", () => {
+    expect(isCandidate(fingerprint(filler("h", 60)), fingerprint(filler("i", 60)))).toBe(false);
+    expect(isCandidate(fingerprint("too short"), fingerprint("too short"))).toBe(false);
+  });
+});
+
+describe("estimateOverlap", () => {
+  it("is 1 for identical texts and 0 for mismatched signatures", () => {
+    const { signature } = fingerprint(TEXT);
+
+    expect(estimateOverlap(signature, fingerprint(TEXT).signature)).toBe(1);
+    expect(estimateOverlap(signature, signature.slice(1))).toBe(0);
+    expect(estimateOverlap([], [])).toBe(0);
+  });
+});
+
+describe("compareTexts", () => {
+  it("scores and locates a shared passage in both texts", () => {
+    const result = compareTexts(TEXT, COPY);
+
+    // 10 of the text's 50 shingles fall inside the 14-word passage.
+    expect(result.score).toBeCloseTo(10 / 50);
+    expect(result.overlap).toBeCloseTo(10 / (50 + 45 - 10));
+    expect(result.passages).toHaveLength(1);
+    const [passage] = result.passages;
+    expect(passage.words).toBe(14);
+    expect(TEXT.slice(passage.start, passage.end)).toBe(PASSAGE);
+    expect(COPY.slice(passage.otherStart, passage.otherEnd)).toBe(PASSAGE.toUpperCase());
+  });
+
+  it("scores identical texts as a full match", () => {
+    const result = compareTexts(TEXT, TEXT);
+
+    expect(result.score).toBe(1);
+    expect(result.overlap).toBe(1);
+    expect(result.passages).toEqual([
+      { start: 0, end: TEXT.length, otherStart: 0, otherEnd: TEXT.length, words: 54 },
+    ]);
+  });
+
+  it("finds nothing in unrelated or short texts", () => {
+    expect(compareTexts(filler("j", 30), filler("k", 30))).toEqual({
+      score: 0,
+      overlap: 0,
+      passages: [],
+    });
+    expect(compareTexts("just four short words", TEXT).score).toBe(0);
+  });
+});
+
+describe("splitHighlights", () => {
+  it("marks ranges and gives overlaps to the earlier range", () => {
+    const segments = splitHighlights("abcdefghij", [
+      { start: 4, end: 8 },
+      { start: 2, end: 5 },
+    ]);
+
+    expect(segments).toEqual([
+      { text: "ab", passage: null },
+      { text: "cde", passage: 1 },
+      { text: "fgh", passage: 0 },
+      { text: "ij", passage: null },
+    ]);
+  });
+});
+
+describe("parseFlagThreshold", () => {
+  it.each([
+    ["0.6", 0.6],
+    ["0", 0],
+    [undefined, DEFAULT_FLAG_THRESHOLD],
+    ["", DEFAULT_FLAG_THRESHOLD],
+    ["60", DEFAULT_FLAG_THRESHOLD],
+  ])("reads %j as %d", (raw, expected) => {
+    expect(parseFlagThreshold(raw)).toBe(expected);
+  });
+});
+
+describe("formatScore", () => {
+  it("rounds to a whole percentage", () => {
+    expect(formatScore(0.4267)).toBe("43%");
+  });
+});
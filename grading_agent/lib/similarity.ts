@@ -0,0 +1,266 @@
+/**
+ * Local similarity detection between submissions. Texts are cut into
+ * overlapping five-word shingles; a MinHash signature per submission makes
+ * finding candidates cheap, and each candidate is then compared shingle by
+ * shingle to score it and locate the shared passages. Kept free of
+ * server-only imports so the comparison page can use the same types.
+ */
+
+/** Words per shingle; shorter runs of shared words are not reported. */
+export const SHINGLE_SIZE = 5;
+
+const SIGNATURE_SIZE = 128;
+
+/** Estimated overlap above which a pair is compared in full. */
+const CANDIDATE_THRESHOLD = 0.05;
+
+const MAX_PASSAGES = 25;
+
+/** Share of a submission found in another above which the pair is flagged. */
+export const DEFAULT_FLAG_THRESHOLD = 0.4;
+
+type Word = { value: string; start: number; end: number };
+
+export type MatchedPassage = {
+  /** Character offsets into each submission's combined text. */
+  start: number;
+  end: number;
+  otherStart: number;
+  otherEnd: number;
+  words: number;
+};
+
+export type SimilarityMatch = {
+  submissionId: string;
+  userId: string;
+  createdAt: string;
+  /** Share of this submission's shingles that also appear in the other one. */
+  score: number;
+  /** Shared shingles over all shingles of both (Jaccard). */
+  overlap: number;
+  passages: MatchedPassage[];
+};
+
+/** The similarity check of one submission against the course's earlier ones. */
+export type SimilarityReport = {
+  /** The submission id. */
+  id: string;
+  userId: string;
+  courseSlug: string;
+  assignment: string | null;
+  createdAt: string;
+  /** The highest match score, 0 when nothing matched. */
+  score: number;
+  flagged: boolean;
+  /** Matches above the candidate threshold, highest first. */
+  matches: SimilarityMatch[];
+};
+
+/** What is kept per submission to find candidates without rereading texts. */
+export type SimilarityFingerprint = {
+  /** The submission id. */
+  id: string;
+  userId: string;
+  courseSlug: string;
+  createdAt: string;
+  shingles: number;
+  signature: number[];
+};
+
+function tokenize(text: string): Word[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    value: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+/** 32-bit FNV-1a. */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The murmur3 finalizer; with a seed mixed in, each seed acts as its own hash function. */
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => mix(index + 0x9e3779b9));
+
+/** Shingle hashes in text order, one per starting word. */
+function shingle(words: Word[]): number[] {
+  const hashes: number[] = [];
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index += 1) {
+    hashes.push(
+      hashString(
+        words
+          .slice(index, index + SHINGLE_SIZE)
+          .map((word) => word.value)
+          .join(" ")
+      )
+    );
+  }
+  return hashes;
+}
+
+export function fingerprint(text: string): Pick<SimilarityFingerprint, "shingles" | "signature"> {
+  const hashes = Array.from(new Set(shingle(tokenize(text))));
+  const signature = SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const hash of hashes) {
+      const value = mix(hash ^ seed);
+      if (value < min) {
+        min = value;
+      }
+    }
+    return min;
+  });
+  return { shingles: hashes.length, signature };
+}
+
+/** Estimated Jaccard overlap of two signatures. */
+export function estimateOverlap(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  const same = a.filter((value, index) => value === b[index]).length;
+  return same / a.length;
+}
+
+/**
+ * Whether a pair is worth a full comparison. A short submission copied into
+ * a long one has a low Jaccard overlap, so the threshold is scaled by how
+ * much smaller the smaller document is.
+ */
+export function isCandidate(
+  a: Pick<SimilarityFingerprint, "shingles" | "signature">,
+  b: Pick<SimilarityFingerprint, "shingles" | "signature">
+): boolean {
+  if (a.shingles === 0 || b.shingles === 0) {
+    return false;
+  }
+  const sizeRatio = Math.min(a.shingles, b.shingles) / Math.max(a.shingles, b.shingles);
+  return estimateOverlap(a.signature, b.signature) >= CANDIDATE_THRESHOLD * sizeRatio;
+}
+
+/**
+ * Compares two texts in full: the share of `text`'s shingles found in
+ * `other`, their Jaccard overlap and the shared passages (longest first).
+ */
+export function compareTexts(
+  text: string,
+  other: string
+): Pick<SimilarityMatch, "score" | "overlap" | "passages"> {
+  const words = tokenize(text);
+  const otherWords = tokenize(other);
+  const hashes = shingle(words);
+  const otherHashes = shingle(otherWords);
+  const positions = new Map<number, number[]>();
+  otherHashes.forEach((hash, index) => {
+    const list = positions.get(hash);
+    if (list) {
+      list.push(index);
+    } else {
+      positions.set(hash, [index]);
+    }
+  });
+
+  const unique = new Set(hashes);
+  const otherUnique = new Set(otherHashes);
+  const shared = Array.from(unique).filter((hash) => otherUnique.has(hash)).length;
+
+  const passages: MatchedPassage[] = [];
+  let index = 0;
+  while (index < hashes.length) {
+    const starts = positions.get(hashes[index]);
+    if (!starts) {
+      index += 1;
+      continue;
+    }
+    // Follow each occurrence in the other text and keep the longest run.
+    let best = { start: starts[0], length: 1 };
+    for (const start of starts.slice(0, 50)) {
+      let length = 1;
+      while (
+        index + length < hashes.length &&
+        start + length < otherHashes.length &&
+        hashes[index + length] === otherHashes[start + length]
+      ) {
+        length += 1;
+      }
+      if (length > best.length) {
+        best = { start, length };
+      }
+    }
+    const lastWord = index + best.length - 1 + SHINGLE_SIZE - 1;
+    const otherLastWord = best.start + best.length - 1 + SHINGLE_SIZE - 1;
+    passages.push({
+      start: words[index].start,
+      end: words[lastWord].end,
+      otherStart: otherWords[best.start].start,
+      otherEnd: otherWords[otherLastWord].end,
+      words: best.length + SHINGLE_SIZE - 1,
+    });
+    index += best.length;
+  }
+
+  return {
+    score: unique.size === 0 ? 0 : shared / unique.size,
+    overlap: shared === 0 ? 0 : shared / (unique.size + otherUnique.size - shared),
+    passages: passages.sort((a, b) => b.words - a.words).slice(0, MAX_PASSAGES),
+  };
+}
+
+export type HighlightSegment = { text: string; passage: number | null };
+
+/**
+ * Splits a text into plain and highlighted segments for the side-by-side
+ * view; `passage` is the index of the passage a highlight belongs to.
+ * Overlapping ranges are merged into the first one.
+ */
+export function splitHighlights(
+  text: string,
+  ranges: { start: number; end: number }[]
+): HighlightSegment[] {
+  const ordered = ranges
+    .map((range, passage) => ({ ...range, passage }))
+    .sort((a, b) => a.start - b.start);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const range of ordered) {
+    if (range.end <= cursor) {
+      continue;
+    }
+    const start = Math.max(range.start, cursor);
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), passage: null });
+    }
+    segments.push({ text: text.slice(start, range.end), passage: range.passage });
+    cursor = range.end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), passage: null });
+  }
+  return segments;
+}
+
+/** Reads `SIMILARITY_FLAG_THRESHOLD` (0–1); anything else falls back to the default. */
+export function parseFlagThreshold(raw: string | undefined): number {
+  const value = Number(raw);
+  return raw?.trim() && Number.isFinite(value) && value >= 0 && value <= 1
+    ? value
+    : DEFAULT_FLAG_THRESHOLD;
+}
+
+export const formatScore = (score: number): string => `${Math.round(score * 100)}%`;
@@ -0,0 +1,101 @@
+import {
+  compareTexts,
+  fingerprint,
+  isCandidate,
+  parseFlagThreshold,
+  type SimilarityFingerprint,
+  type SimilarityMatch,
+  type SimilarityReport,
+} from "@/lib/similarity";
+import type { SubmissionRecord } from "@/lib/submission";
+import { getCollection } from "@/lib/store";
+import { listSubmissions, readCombinedText } from "@/lib/submissionStore";
+
+const fingerprints = () => getCollection<SimilarityFingerprint>("similarityFingerprints");
+const reports = () => getCollection<SimilarityReport>("similarityReports");
+
+export function getFlagThreshold(): number {
+  return parseFlagThreshold(process.env.SIMILARITY_FLAG_THRESHOLD);
+}
+
+export async function listSimilarityReports(): Promise<SimilarityReport[]> {
+  const stored = await reports().list();
+  return stored.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSimilarityReport(id: string): Promise<SimilarityReport | null> {
+  return reports().get(id);
+}
+
+/**
+ * Compares a submission with the earlier submissions of other students in
+ * the same course and stores the report. Candidates come from the stored
+ * fingerprints; only those are read back and compared in full.
+ */
+export async function checkSubmissionSimilarity(
+  submission: SubmissionRecord,
+  text?: string
+): Promise<SimilarityReport> {
+  const combined = text ?? (await readCombinedText(submission));
+  const print: SimilarityFingerprint = {
+    id: submission.id,
+    userId: submission.userId,
+    courseSlug: submission.courseSlug,
+    createdAt: submission.createdAt,
+    ...fingerprint(combined),
+  };
+  await fingerprints().put(print);
+
+  const earlier = (await fingerprints().list()).filter(
+    (other) =>
+      other.courseSlug === submission.courseSlug &&
+      other.userId !== submission.userId &&
+      other.createdAt < submission.createdAt &&
+      isCandidate(print, other)
+  );
+  const submissions = new Map(
+    (await listSubmissions()).map((stored) => [stored.id, stored])
+  );
+
+  const matches: SimilarityMatch[] = [];
+  for (const other of earlier) {
+    const otherSubmission = submissions.get(other.id);
+    if (!otherSubmission) {
+      continue;
+    }
+    const comparison = compareTexts(combined, await readCombinedText(otherSubmission));
+    if (comparison.passages.length > 0) {
+      matches.push({
+        submissionId: other.id,
+        userId: other.userId,
+        createdAt: other.createdAt,
+        ...comparison,
+      });
+    }
+  }
+  matches.sort((a, b) => b.score - a.score);
+
+  const score = matches[0]?.score ?? 0;
+  return reports().put({
+    id: submission.id,
+    userId: submission.userId,
+    courseSlug: submission.courseSlug,
+    assignment: submission.assignment,
+    createdAt: submission.createdAt,
+    score,
+    flagged: score >= getFlagThreshold(),
+    matches,
+  });
+}
+
+/**
+ * Checks every stored submission again, oldest first, e.g. after changing
+ * the threshold or for submissions made before similarity checks existed.
+ */
+export async function rescanSimilarity(): Promise<number> {
+  const submissions = (await listSubmissions()).reverse();
+  for (const submission of submissions) {
+    await checkSubmissionSimilarity(submission);
+  }
+  return submissions.length;
+}
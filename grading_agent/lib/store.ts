@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Minimal JSON-file backed collection used by the API routes that need to
+ * persist data between requests. Every collection lives in its own file under
+ * `DATA_DIR` (defaults to `.data/` in the project root). Routes using it must
+ * run on the Node.js runtime.
+ */
+export interface Collection<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  put(record: T): Promise<T>;
+  remove(id: string): Promise<boolean>;
+  /**
+   * Runs `fn` on every record under the write lock and saves the array as
+   * `fn` leaves it. For changes that must read the latest record first.
+   */
+  mutate<R>(fn: (records: T[]) => Promise<R> | R): Promise<R>;
+}
+
+const DATA_DIR =
+  process.env.DATA_DIR?.trim() || path.join(process.cwd(), ".data");
+
+const collections = new Map<string, Collection<{ id: string }>>();
+
+export function getCollection<T extends { id: string }>(
+  name: string
+): Collection<T> {
+  const existing = collections.get(name);
+  if (existing) {
+    return existing as unknown as Collection<T>;
+  }
+  const created = createFileCollection<T>(name);
+  collections.set(name, created as unknown as Collection<{ id: string }>);
+  return created;
+}
+
+function createFileCollection<T extends { id: string }>(
+  name: string
+): Collection<T> {
+  const filePath = path.join(DATA_DIR, `${name}.json`);
+  // Writes are chained so concurrent requests never interleave read/modify/write.
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<T[]> => {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  const writeAll = async (records: T[]): Promise<void> => {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(records, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  };
+
+  const mutate = <R>(fn: (records: T[]) => Promise<R> | R): Promise<R> => {
+    const next = pending.then(async () => {
+      const records = await readAll();
+      const result = await fn(records);
+      await writeAll(records);
+      return result;
+    });
+    pending = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    async list() {
+      await pending;
+      return readAll();
+    },
+    async get(id) {
+      await pending;
+      const records = await readAll();
+      return records.find((record) => record.id === id) ?? null;
+    },
+    put(record) {
+      return mutate((records) => {
+        const index = records.findIndex((item) => item.id === record.id);
+        if (index === -1) {
+          records.push(record);
+        } else {
+          records[index] = record;
+        }
+        return record;
+      });
+    },
+    remove(id) {
+      return mutate((records) => {
+        const index = records.findIndex((item) => item.id === id);
+        if (index === -1) {
+          return false;
+        }
+        records.splice(index, 1);
+        return true;
+      });
+    },
+    mutate,
+  };
+}
+
+/**
+ * Appends records to `<name>.jsonl` under `DATA_DIR`, one JSON object per
+ * line. For append-only data such as analytics events, where rewriting a
+ * whole collection per write would not scale.
+ */
+export async function appendRecords(name: string, records: unknown[]): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.appendFile(
+    path.join(DATA_DIR, `${name}.jsonl`),
+    records.map((record) => `${JSON.stringify(record)}\n`).join(""),
+    "utf8"
+  );
+}
+
+/**
+ * Files kept next to the collections, e.g. uploaded originals. Keys are
+ * relative paths built from generated ids, never from user input.
+ */
+function blobPath(key: string): string {
+  if (key.split("/").some((segment) => !segment || segment === "." || segment === "..")) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return path.join(DATA_DIR, key);
+}
+
+export async function writeBlob(key: string, data: Uint8Array | string): Promise<void> {
+  const filePath = blobPath(key);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, data);
+}
+
+export async function readBlob(key: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(blobPath(key));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function generateId(): string {
+  return typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+}
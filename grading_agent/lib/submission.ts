@@ -0,0 +1,248 @@
+import { ATTACHMENT_LIMITS } from "@/lib/config";
+import { DEFAULT_COURSE_SLUG, isCourseSlug } from "@/lib/course";
+import { MAX_SUBMISSION_LENGTH } from "@/lib/grade";
+
+/**
+ * Submission intake model shared by `/api/submissions` and the intake panel.
+ * A submission is a set of files a student hands in before grading; the
+ * server checks each file's type, extracts its text (`lib/textExtraction.ts`)
+ * and keeps the original next to the text. Kept free of server-only imports.
+ */
+
+export const SUBMISSION_KINDS = ["pdf", "docx", "markdown", "text", "image"] as const;
+
+export type SubmissionKind = (typeof SUBMISSION_KINDS)[number];
+
+/** MIME types and extensions per kind, in the shape ChatKit's `accept` takes. */
+export const SUBMISSION_FORMATS: Record<
+  SubmissionKind,
+  { label: string; accept: Record<string, string[]> }
+> = {
+  pdf: { label: "PDF", accept: { "application/pdf": [".pdf"] } },
+  docx: {
+    label: "Word",
+    accept: {
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+    },
+  },
+  markdown: { label: "Markdown", accept: { "text/markdown": [".md", ".markdown"] } },
+  text: { label: "Text", accept: { "text/plain": [".txt"] } },
+  image: {
+    label: "Image",
+    accept: {
+      "image/png": [".png"],
+      "image/jpeg": [".jpg", ".jpeg"],
+      "image/gif": [".gif"],
+      "image/webp": [".webp"],
+    },
+  },
+};
+
+export const MAX_SUBMISSION_FILES = ATTACHMENT_LIMITS.maxCount;
+
+/** Bytes per file. */
+export const MAX_SUBMISSION_FILE_SIZE = ATTACHMENT_LIMITS.maxSize;
+
+export const MAX_ASSIGNMENT_LENGTH = 200;
+
+const PREVIEW_LENGTH = 280;
+
+export type SubmissionFile = {
+  id: string;
+  filename: string;
+  kind: SubmissionKind;
+  mimeType: string;
+  /** Bytes. */
+  size: number;
+  /** Hex SHA-256 of the original bytes. */
+  sha256: string;
+  /** Characters of extracted text; 0 for images. */
+  textLength: number;
+  preview: string;
+  /** Why the text may be incomplete, e.g. a scanned PDF. */
+  warning: string | null;
+  /** An earlier submission of the same user with identical content. */
+  duplicateOf: string | null;
+};
+
+export type SubmissionRecord = {
+  id: string;
+  userId: string;
+  /** Slug of the course page it was handed in on; similarity checks stay within it. */
+  courseSlug: string;
+  assignment: string | null;
+  createdAt: string;
+  files: SubmissionFile[];
+};
+
+/** A stored file with its extracted text, as `GET /api/submissions/:id` returns it. */
+export type SubmissionFileWithText = SubmissionFile & { text: string };
+
+/** Parses a comma-separated kind list; unset allows every kind. */
+export function parseSubmissionKinds(raw: string | undefined): {
+  kinds: SubmissionKind[];
+  unknown: string[];
+} {
+  if (!raw?.trim()) {
+    return { kinds: [...SUBMISSION_KINDS], unknown: [] };
+  }
+  const names = raw
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const kinds = names.filter((name): name is SubmissionKind =>
+    (SUBMISSION_KINDS as readonly string[]).includes(name)
+  );
+  return {
+    kinds: Array.from(new Set(kinds)),
+    unknown: names.filter((name) => !kinds.includes(name as SubmissionKind)),
+  };
+}
+
+export function buildAcceptMap(kinds: SubmissionKind[]): Record<string, string[]> {
+  return Object.assign({}, ...kinds.map((kind) => SUBMISSION_FORMATS[kind].accept));
+}
+
+/** The same list as a file input's `accept` attribute. */
+export function buildAcceptAttribute(kinds: SubmissionKind[]): string {
+  return Object.values(buildAcceptMap(kinds)).flat().join(",");
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+function isUtf8Text(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Checks that a file's bytes are what its extension claims. */
+function matchesContent(kind: SubmissionKind, mimeType: string, bytes: Uint8Array): boolean {
+  switch (kind) {
+    case "pdf":
+      return startsWith(bytes, ascii("%PDF-"));
+    case "docx":
+      return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]);
+    case "markdown":
+    case "text":
+      return isUtf8Text(bytes);
+    case "image":
+      switch (mimeType) {
+        case "image/png":
+          return startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        case "image/jpeg":
+          return startsWith(bytes, [0xff, 0xd8, 0xff]);
+        case "image/gif":
+          return startsWith(bytes, ascii("GIF8"));
+        default:
+          return startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8);
+      }
+  }
+}
+
+export type SubmissionFileCheck =
+  | { ok: true; kind: SubmissionKind; mimeType: string }
+  | { ok: false; error: string };
+
+/**
+ * Decides a file's kind from its extension and checks it against the
+ * allowlist, the size limit and its leading bytes. The browser-reported
+ * MIME type is ignored; it is too easy to get wrong.
+ */
+export function checkSubmissionFile(
+  filename: string,
+  bytes: Uint8Array,
+  allowed: SubmissionKind[]
+): SubmissionFileCheck {
+  const extension = `.${filename.split(".").pop()?.toLowerCase() ?? ""}`;
+  for (const kind of SUBMISSION_KINDS) {
+    const mimeType = Object.keys(SUBMISSION_FORMATS[kind].accept).find((type) =>
+      SUBMISSION_FORMATS[kind].accept[type].includes(extension)
+    );
+    if (!mimeType) {
+      continue;
+    }
+    if (!allowed.includes(kind)) {
+      return { ok: false, error: `${filename}: ${SUBMISSION_FORMATS[kind].label} files are not accepted` };
+    }
+    if (bytes.length === 0) {
+      return { ok: false, error: `${filename} is empty` };
+    }
+    if (bytes.length > MAX_SUBMISSION_FILE_SIZE) {
+      return {
+        ok: false,
+        error: `${filename} is larger than ${Math.round(MAX_SUBMISSION_FILE_SIZE / 1024 / 1024)} MB`,
+      };
+    }
+    if (!matchesContent(kind, mimeType, bytes)) {
+      return { ok: false, error: `${filename} is not a valid ${SUBMISSION_FORMATS[kind].label} file` };
+    }
+    return { ok: true, kind, mimeType };
+  }
+  return { ok: false, error: `${filename}: this file type is not accepted` };
+}
+
+export function validateAssignment(input: unknown): string | null {
+  return typeof input === "string" && input.trim()
+    ? input.trim().slice(0, MAX_ASSIGNMENT_LENGTH)
+    : null;
+}
+
+export function validateCourseSlug(input: unknown): string {
+  return typeof input === "string" && isCourseSlug(input) ? input : DEFAULT_COURSE_SLUG;
+}
+
+/**
+ * All of a submission's text as one document, one section per file; images
+ * are listed so the agent knows they exist even though it cannot see them.
+ */
+export function combineSubmissionText(files: SubmissionFileWithText[]): string {
+  return files
+    .map((file) =>
+      file.kind === "image"
+        ? `=== ${file.filename} (image, not included) ===`
+        : `=== ${file.filename} ===\n${file.text}`
+    )
+    .join("\n\n");
+}
+
+export function buildPreview(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > PREVIEW_LENGTH
+    ? `${collapsed.slice(0, PREVIEW_LENGTH - 1)}…`
+    : collapsed;
+}
+
+/** The message that starts grading a received submission; text beyond what a grade may quote is cut. */
+export function buildSubmissionPrompt(
+  submission: Pick<SubmissionRecord, "id" | "assignment">,
+  files: SubmissionFileWithText[]
+): string {
+  let body = combineSubmissionText(files);
+  if (body.length > MAX_SUBMISSION_LENGTH) {
+    body = `${body.slice(0, MAX_SUBMISSION_LENGTH)}\n[truncated]`;
+  }
+  return [
+    `Grade my submission${submission.assignment ? ` for "${submission.assignment}"` : ""}` +
+      ` (receipt ${submission.id}).`,
+    "",
+    "--- Submission ---",
+    body,
+  ].join("\n");
+}
+
+export const formatFileSize = (bytes: number): string =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
@@ -0,0 +1,98 @@
+import {
+  combineSubmissionText,
+  type SubmissionFile,
+  type SubmissionFileWithText,
+  type SubmissionRecord,
+} from "@/lib/submission";
+import { generateId, getCollection, readBlob, writeBlob } from "@/lib/store";
+
+const submissions = () => getCollection<SubmissionRecord>("submissions");
+
+/** A received file: the original bytes and the text extracted from them. */
+export type IntakeFile = Omit<SubmissionFile, "id" | "duplicateOf"> & {
+  bytes: Uint8Array;
+  text: string;
+};
+
+const originalKey = (submissionId: string, fileId: string) =>
+  `submissions/${submissionId}/${fileId}`;
+
+const textKey = (submissionId: string, fileId: string) =>
+  `submissions/${submissionId}/${fileId}.txt`;
+
+export async function listSubmissions(userId?: string): Promise<SubmissionRecord[]> {
+  const stored = await submissions().list();
+  return stored
+    .filter((submission) => !userId || submission.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSubmission(id: string): Promise<SubmissionRecord | null> {
+  return submissions().get(id);
+}
+
+/**
+ * Stores the files of one hand-in. A file whose hash matches one the same
+ * user submitted before is still stored, and marked as a duplicate.
+ */
+export async function createSubmission(
+  userId: string,
+  courseSlug: string,
+  assignment: string | null,
+  files: IntakeFile[]
+): Promise<SubmissionRecord> {
+  const earlier = await listSubmissions(userId);
+  const id = generateId();
+  const stored: SubmissionFile[] = [];
+  for (const { bytes, text, ...file } of files) {
+    const fileId = generateId();
+    await writeBlob(originalKey(id, fileId), bytes);
+    await writeBlob(textKey(id, fileId), text);
+    stored.push({
+      id: fileId,
+      ...file,
+      duplicateOf:
+        earlier.find((submission) =>
+          submission.files.some((previous) => previous.sha256 === file.sha256)
+        )?.id ?? null,
+    });
+  }
+  return submissions().put({
+    id,
+    userId,
+    courseSlug,
+    assignment,
+    createdAt: new Date().toISOString(),
+    files: stored,
+  });
+}
+
+export async function readSubmissionText(
+  submissionId: string,
+  fileId: string
+): Promise<string> {
+  return (await readBlob(textKey(submissionId, fileId)))?.toString("utf8") ?? "";
+}
+
+export async function readSubmissionOriginal(
+  submissionId: string,
+  fileId: string
+): Promise<Buffer | null> {
+  return readBlob(originalKey(submissionId, fileId));
+}
+
+export async function readSubmissionFiles(
+  submission: SubmissionRecord
+): Promise<SubmissionFileWithText[]> {
+  return Promise.all(
+    submission.files.map(async (file) => ({
+      ...file,
+      text: await readSubmissionText(submission.id, file.id),
+    }))
+  );
+}
+
+/** All of a submission's text as one document (see `combineSubmissionText`). */
+export async function readCombinedText(submission: SubmissionRecord): Promise<string> {
+  return combineSubmissionText(await readSubmissionFiles(submission));
+}
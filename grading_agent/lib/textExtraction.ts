@@ -0,0 +1,288 @@
+import type { SubmissionKind } from "@/lib/submission";
+import { InflateLimitError, inflate } from "@/lib/inflate";
+import { readZipEntry } from "@/lib/zip";
+
+/**
+ * Local text extraction for submission files, without a document library:
+ * Word files are read from `word/document.xml`, PDFs from the text operators
+ * in their content streams. That covers documents exported from a word
+ * processor; scanned PDFs and PDFs with custom font encodings come out empty
+ * or garbled and are flagged with a warning instead.
+ */
+
+export type ExtractedText = {
+  text: string;
+  warning: string | null;
+};
+
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+/**
+ * Caps on unpacked document content: a Word file's `document.xml`, and all of
+ * a PDF's content streams together. Far above what a text submission needs.
+ */
+const MAX_DOCUMENT_XML_BYTES = 32 * 1024 * 1024;
+const MAX_PDF_CONTENT_BYTES = 32 * 1024 * 1024;
+
+/** One char per byte, so string offsets match byte offsets. */
+function toBinaryString(bytes: Uint8Array): string {
+  let result = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return result;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+async function extractDocx(buffer: ArrayBuffer): Promise<ExtractedText> {
+  let document;
+  try {
+    document = await readZipEntry(buffer, "word/document.xml", MAX_DOCUMENT_XML_BYTES);
+  } catch (error) {
+    throw new ExtractionError(
+      `Unreadable Word file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!document) {
+    throw new ExtractionError("Not a Word document");
+  }
+  const xml = new TextDecoder().decode(document);
+  const text = decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { text, warning: text ? null : "The document has no text." };
+}
+
+const PDF_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+};
+
+/** Reads a `( ... )` string starting at `start`; returns it and the end offset. */
+function readLiteralString(source: string, start: number): [string, number] {
+  let depth = 1;
+  let value = "";
+  let index = start + 1;
+  while (index < source.length && depth > 0) {
+    const char = source[index];
+    if (char === "\\") {
+      const next = source[index + 1] ?? "";
+      if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(source.slice(index + 1, index + 4))?.[0] ?? next;
+        value += String.fromCharCode(Number.parseInt(octal, 8));
+        index += 1 + octal.length;
+        continue;
+      }
+      if (next === "\r" || next === "\n") {
+        // A backslash before a line break continues the string.
+        index += next === "\r" && source[index + 2] === "\n" ? 3 : 2;
+        continue;
+      }
+      value += PDF_ESCAPES[next] ?? next;
+      index += 2;
+      continue;
+    }
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+    }
+    value += char;
+    index += 1;
+  }
+  return [value, index + 1];
+}
+
+function decodePdfString(raw: string): string {
+  // A byte order mark means UTF-16BE; anything else is treated as Latin-1.
+  if (raw.startsWith("þÿ")) {
+    let text = "";
+    for (let index = 2; index + 1 < raw.length; index += 2) {
+      text += String.fromCharCode((raw.charCodeAt(index) << 8) | raw.charCodeAt(index + 1));
+    }
+    return text;
+  }
+  return raw;
+}
+
+/** Collects the text shown by `Tj`, `TJ`, `'` and `"` in a content stream. */
+function readTextOperators(content: string): string {
+  let text = "";
+  let operands: string[] = [];
+  let index = 0;
+  while (index < content.length) {
+    const char = content[index];
+    if (char === "(") {
+      const [value, end] = readLiteralString(content, index);
+      operands.push(decodePdfString(value));
+      index = end;
+    } else if (char === "<" && content[index + 1] !== "<") {
+      const end = content.indexOf(">", index);
+      const hex = content.slice(index + 1, end === -1 ? undefined : end).replace(/\s+/g, "");
+      let raw = "";
+      for (let offset = 0; offset < hex.length; offset += 2) {
+        raw += String.fromCharCode(Number.parseInt(hex.slice(offset, offset + 2).padEnd(2, "0"), 16));
+      }
+      operands.push(decodePdfString(raw));
+      index = end === -1 ? content.length : end + 1;
+    } else if (char === "[" || char === "]") {
+      index += 1;
+    } else if (/[-+\d.]/.test(char)) {
+      const number = /^[-+]?\d*\.?\d+/.exec(content.slice(index, index + 32))?.[0];
+      // A large negative kerning in a TJ array is a word gap.
+      if (number && Number(number) < -200 && operands.length > 0) {
+        operands.push(" ");
+      }
+      index += number?.length || 1;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = /^[A-Za-z'"*]+/.exec(content.slice(index, index + 8))?.[0] ?? char;
+      if (operator === "Tj" || operator === "TJ") {
+        text += operands.join("");
+      } else if (operator === "'" || operator === '"') {
+        text += `\n${operands.join("")}`;
+      } else if (operator === "T*" || operator === "ET") {
+        text += "\n";
+      } else if (operator === "Td" || operator === "TD" || operator === "Tm") {
+        text += text.endsWith("\n") ? "" : "\n";
+      }
+      operands = [];
+      index += operator.length;
+    } else {
+      index += 1;
+    }
+  }
+  return text;
+}
+
+/** Share of characters that are not printable text; high means an unknown encoding. */
+function garbledShare(text: string): number {
+  const compact = text.replace(/\s+/g, "");
+  if (!compact) {
+    return 0;
+  }
+  const unreadable = compact.replace(/[\p{L}\p{N}\p{P}\p{S}]/gu, "").length;
+  return unreadable / compact.length;
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedText> {
+  const source = toBinaryString(bytes);
+  if (/\/Encrypt\b/.test(source)) {
+    throw new ExtractionError("Encrypted PDFs are not supported");
+  }
+  const chunks: string[] = [];
+  let budget = MAX_PDF_CONTENT_BYTES;
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) {
+      break;
+    }
+    streamPattern.lastIndex = end + "endstream".length;
+    const dictionary = source.slice(source.lastIndexOf("obj", match.index), match.index);
+    // Images, fonts and cross-reference data carry no page text.
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|ObjStm)/.test(dictionary)) {
+      continue;
+    }
+    const hasFilter = /\/Filter/.test(dictionary);
+    if (hasFilter && !/\/FlateDecode/.test(dictionary)) {
+      continue;
+    }
+    // Prefer the declared length; the line break before `endstream` is not data.
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dictionary)?.[1];
+    const dataEnd = length
+      ? Math.min(start + Number(length), end)
+      : start + source.slice(start, end).replace(/\r?\n$/, "").length;
+    let content = source.slice(start, dataEnd);
+    if (hasFilter) {
+      let inflated: Uint8Array;
+      try {
+        inflated = await inflate(bytes.subarray(start, dataEnd), "deflate", budget);
+      } catch (error) {
+        if (error instanceof InflateLimitError) {
+          throw new ExtractionError(
+            `The PDF unpacks to more than ${MAX_PDF_CONTENT_BYTES / 1024 / 1024} MB of content`
+          );
+        }
+        continue;
+      }
+      budget -= inflated.length;
+      content = toBinaryString(inflated);
+    }
+    if (/\bBT\b/.test(content)) {
+      chunks.push(readTextOperators(content));
+    }
+  }
+
+  const text = chunks
+    .join("\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!text) {
+    return { text: "", warning: "No text found; the PDF may be a scan." };
+  }
+  if (garbledShare(text) > 0.3) {
+    return {
+      text: "",
+      warning: "The PDF uses a font encoding that cannot be read; no text was extracted.",
+    };
+  }
+  return { text, warning: null };
+}
+
+export async function extractText(
+  kind: SubmissionKind,
+  buffer: ArrayBuffer
+): Promise<ExtractedText> {
+  const bytes = new Uint8Array(buffer);
+  switch (kind) {
+    case "markdown":
+    case "text":
+      return { text: new TextDecoder().decode(bytes), warning: null };
+    case "docx":
+      return extractDocx(buffer);
+    case "pdf":
+      return extractPdf(bytes);
+    case "image":
+      return { text: "", warning: "Images are stored as received; no text is extracted." };
+  }
+}
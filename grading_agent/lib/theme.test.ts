@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CHROME,
+  DEFAULT_THEME_INPUT,
+  getChromeStyle,
+  isThemeColor,
+  readChatKitTheme,
+  validateThemeInput,
+} from "@/lib/theme";
+
+describe("isThemeColor", () => {
+  it.each(["#fff", "#6366F1", "#6366f180", "rgb(99, 102, 241)", "hsla(240 80% 60% / 0.5)"])(
+    "accepts %j",
+    (value) => {
+      expect(isThemeColor(value)).toBe(true);
+    }
+  );
+
+  it.each(["red", "#12345", "url(javascript:alert(1))", "rgb(1,2,3);color:red", 42])(
+    "rejects %j",
+    (value) => {
+      expect(isThemeColor(value)).toBe(false);
+    }
+  );
+});
+
+describe("validateThemeInput", () => {
+  it("accepts the default theme", () => {
+    expect(validateThemeInput(DEFAULT_THEME_INPUT)).toEqual({
+      ok: true,
+      value: DEFAULT_THEME_INPUT,
+    });
+  });
+
+  it("ignores exported metadata and fills missing chrome colors", () => {
+    const result = validateThemeInput({
+      id: "theme-1",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      name: "  Ocean  ",
+      chrome: { accentTo: " #0ea5e9 " },
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        name: "Ocean",
+        chatkit: {},
+        chrome: { ...DEFAULT_CHROME, accentTo: "#0ea5e9" },
+      },
+    });
+  });
+
+  it("collects every invalid field", () => {
+    const result = validateThemeInput({
+      name: "x".repeat(81),
+      chatkit: {
+        radius: "circle",
+        typography: { baseSize: 20, fontSources: [{ family: "Inter" }] },
+        color: {
+          grayscale: { hue: 400, tint: 2 },
+          accent: { primary: "blue", level: 1 },
+        },
+      },
+      chrome: { accentFrom: "expression(alert(1))" },
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      "Name must be at most 80 characters",
+      "chatkit.radius must be one of pill, round, soft, sharp",
+      "chatkit.typography.baseSize must be one of 14, 15, 16, 17, 18",
+      "chatkit.typography.fontSources[0] needs a family and a src",
+      "chatkit.color.grayscale.hue must be a whole number from 0 to 360",
+      "chatkit.color.accent.primary must be a hex, rgb() or hsl() color",
+      "chrome.accentFrom must be a hex, rgb() or hsl() color",
+    ]);
+  });
+
+  it("rejects non-objects", () => {
+    expect(validateThemeInput("dark")).toEqual({
+      ok: false,
+      errors: ["Theme must be a JSON object"],
+    });
+  });
+});
+
+describe("readChatKitTheme", () => {
+  it("drops colorScheme and unknown keys", () => {
+    const errors: string[] = [];
+
+    const theme = readChatKitTheme(
+      { colorScheme: "dark", radius: "soft", shadow: "huge" },
+      "theme",
+      errors
+    );
+
+    expect(theme).toEqual({ radius: "soft" });
+    expect(errors).toEqual([]);
+  });
+});
+
+describe("getChromeStyle", () => {
+  it("exposes the chrome colors as custom properties", () => {
+    expect(getChromeStyle(DEFAULT_CHROME)).toEqual({
+      "--chrome-from": "#6366f1",
+      "--chrome-via": "#a855f7",
+      "--chrome-to": "#ec4899",
+    });
+  });
+});
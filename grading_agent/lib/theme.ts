@@ -0,0 +1,301 @@
+import type { CSSProperties } from "react";
+import type { FontObject, ThemeOption } from "@openai/chatkit";
+import { THEME_DEFAULTS } from "@/lib/config";
+
+/**
+ * Named themes edited at `/themes` and stored by `lib/themeStore.ts`. A theme
+ * holds the ChatKit theme options (everything except `colorScheme`, which
+ * follows the viewer) plus the accent colors of the page chrome around the
+ * widget. Courses select one with `themeId`. Kept free of server-only imports
+ * so the editor can validate imports in the browser.
+ */
+
+/** ChatKit theme options applied to both color schemes. */
+export type ChatKitTheme = Omit<ThemeOption, "colorScheme">;
+
+/** Gradient stops used by the accent bar, icons and headings. */
+export type ChromeColors = {
+  accentFrom: string;
+  accentVia: string;
+  accentTo: string;
+};
+
+export type ThemeInput = {
+  name: string;
+  chatkit: ChatKitTheme;
+  chrome: ChromeColors;
+};
+
+export type SavedTheme = ThemeInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ThemeValidationResult =
+  | { ok: true; value: ThemeInput }
+  | { ok: false; errors: string[] };
+
+/** The indigo, purple and pink gradient the chat page has always used. */
+export const DEFAULT_CHROME: ChromeColors = {
+  accentFrom: "#6366f1",
+  accentVia: "#a855f7",
+  accentTo: "#ec4899",
+};
+
+export const DEFAULT_THEME_INPUT: ThemeInput = {
+  name: "Default",
+  chatkit: THEME_DEFAULTS,
+  chrome: DEFAULT_CHROME,
+};
+
+export const RADII = ["pill", "round", "soft", "sharp"] as const;
+export const DENSITIES = ["compact", "normal", "spacious"] as const;
+export const BASE_SIZES = [14, 15, 16, 17, 18] as const;
+export const ACCENT_LEVELS = [0, 1, 2, 3] as const;
+export const FONT_STYLES = ["normal", "italic", "oblique"] as const;
+
+const MAX_NAME_LENGTH = 80;
+
+/** Hex, `rgb[a]()` or `hsl[a]()` colors; anything else is rejected. */
+const COLOR_PATTERN =
+  /^(#[0-9a-f]{3,4}|#[0-9a-f]{6}|#[0-9a-f]{8}|(rgb|hsl)a?\([\d\s.,%/deg]+\))$/i;
+
+export function isThemeColor(value: unknown): value is string {
+  return typeof value === "string" && COLOR_PATTERN.test(value.trim());
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+const oneOf = (options: readonly (string | number)[]) =>
+  options.map((option) => String(option)).join(", ");
+
+function readFontSources(
+  value: unknown,
+  path: string,
+  errors: string[]
+): FontObject[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  return value.flatMap((font, index) => {
+    if (!isRecord(font) || !isNonEmptyString(font.family) || !isNonEmptyString(font.src)) {
+      errors.push(`${path}[${index}] needs a family and a src`);
+      return [];
+    }
+    if (font.style !== undefined && !FONT_STYLES.includes(font.style as never)) {
+      errors.push(`${path}[${index}].style must be one of ${oneOf(FONT_STYLES)}`);
+    }
+    return [
+      {
+        family: font.family.trim(),
+        src: font.src.trim(),
+        ...(typeof font.weight === "string" || typeof font.weight === "number"
+          ? { weight: font.weight }
+          : {}),
+        ...(font.style !== undefined ? { style: font.style as FontObject["style"] } : {}),
+      },
+    ];
+  });
+}
+
+function readTypography(
+  value: unknown,
+  path: string,
+  errors: string[]
+): NonNullable<ChatKitTheme["typography"]> {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return {};
+  }
+  const typography: NonNullable<ChatKitTheme["typography"]> = {};
+  if (value.baseSize !== undefined) {
+    if (BASE_SIZES.includes(value.baseSize as never)) {
+      typography.baseSize = value.baseSize as (typeof BASE_SIZES)[number];
+    } else {
+      errors.push(`${path}.baseSize must be one of ${oneOf(BASE_SIZES)}`);
+    }
+  }
+  for (const key of ["fontFamily", "fontFamilyMono"] as const) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    if (isNonEmptyString(value[key])) {
+      typography[key] = value[key].trim();
+    } else {
+      errors.push(`${path}.${key} must be a non-empty string`);
+    }
+  }
+  if (value.fontSources !== undefined) {
+    typography.fontSources = readFontSources(
+      value.fontSources,
+      `${path}.fontSources`,
+      errors
+    );
+  }
+  return typography;
+}
+
+function readColor(
+  value: unknown,
+  path: string,
+  errors: string[]
+): NonNullable<ChatKitTheme["color"]> {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return {};
+  }
+  const color: NonNullable<ChatKitTheme["color"]> = {};
+
+  const { grayscale, accent, surface } = value;
+  if (grayscale !== undefined) {
+    if (!isRecord(grayscale)) {
+      errors.push(`${path}.grayscale must be an object`);
+    } else {
+      if (!isIntegerIn(grayscale.hue, 0, 360)) {
+        errors.push(`${path}.grayscale.hue must be a whole number from 0 to 360`);
+      }
+      if (!isIntegerIn(grayscale.tint, 0, 9)) {
+        errors.push(`${path}.grayscale.tint must be a whole number from 0 to 9`);
+      }
+      if (grayscale.shade !== undefined && !isIntegerIn(grayscale.shade, -4, 4)) {
+        errors.push(`${path}.grayscale.shade must be a whole number from -4 to 4`);
+      }
+      color.grayscale = {
+        hue: grayscale.hue as number,
+        tint: grayscale.tint as NonNullable<typeof color.grayscale>["tint"],
+        ...(grayscale.shade !== undefined
+          ? { shade: grayscale.shade as NonNullable<typeof color.grayscale>["shade"] }
+          : {}),
+      };
+    }
+  }
+  if (accent !== undefined) {
+    if (!isRecord(accent)) {
+      errors.push(`${path}.accent must be an object`);
+    } else {
+      if (!isThemeColor(accent.primary)) {
+        errors.push(`${path}.accent.primary must be a hex, rgb() or hsl() color`);
+      }
+      if (!ACCENT_LEVELS.includes(accent.level as never)) {
+        errors.push(`${path}.accent.level must be one of ${oneOf(ACCENT_LEVELS)}`);
+      }
+      color.accent = {
+        primary: String(accent.primary).trim(),
+        level: accent.level as (typeof ACCENT_LEVELS)[number],
+      };
+    }
+  }
+  if (surface !== undefined) {
+    if (!isRecord(surface)) {
+      errors.push(`${path}.surface must be an object`);
+    } else {
+      for (const key of ["background", "foreground"] as const) {
+        if (!isThemeColor(surface[key])) {
+          errors.push(`${path}.surface.${key} must be a hex, rgb() or hsl() color`);
+        }
+      }
+      color.surface = {
+        background: String(surface.background).trim(),
+        foreground: String(surface.foreground).trim(),
+      };
+    }
+  }
+  return color;
+}
+
+/**
+ * Validates ChatKit theme options, reporting problems under `path`. Unknown
+ * keys and `colorScheme` are dropped. Shared with course files.
+ */
+export function readChatKitTheme(
+  value: unknown,
+  path: string,
+  errors: string[]
+): ChatKitTheme {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return {};
+  }
+  const theme: ChatKitTheme = {};
+  if (value.radius !== undefined) {
+    if (RADII.includes(value.radius as never)) {
+      theme.radius = value.radius as ChatKitTheme["radius"];
+    } else {
+      errors.push(`${path}.radius must be one of ${oneOf(RADII)}`);
+    }
+  }
+  if (value.density !== undefined) {
+    if (DENSITIES.includes(value.density as never)) {
+      theme.density = value.density as ChatKitTheme["density"];
+    } else {
+      errors.push(`${path}.density must be one of ${oneOf(DENSITIES)}`);
+    }
+  }
+  if (value.typography !== undefined) {
+    theme.typography = readTypography(value.typography, `${path}.typography`, errors);
+  }
+  if (value.color !== undefined) {
+    theme.color = readColor(value.color, `${path}.color`, errors);
+  }
+  return theme;
+}
+
+function readChrome(value: unknown, errors: string[]): ChromeColors {
+  if (!isRecord(value)) {
+    errors.push("chrome must be an object");
+    return DEFAULT_CHROME;
+  }
+  const chrome = { ...DEFAULT_CHROME };
+  for (const key of Object.keys(DEFAULT_CHROME) as (keyof ChromeColors)[]) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    if (isThemeColor(value[key])) {
+      chrome[key] = value[key].trim();
+    } else {
+      errors.push(`chrome.${key} must be a hex, rgb() or hsl() color`);
+    }
+  }
+  return chrome;
+}
+
+/**
+ * Validates a theme from the editor, the API or an imported JSON file.
+ * Exported files carry `id` and timestamps too; those are ignored.
+ */
+export function validateThemeInput(input: unknown): ThemeValidationResult {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Theme must be a JSON object"] };
+  }
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.name)) {
+    errors.push("Name is required");
+  } else if (input.name.trim().length > MAX_NAME_LENGTH) {
+    errors.push(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const value: ThemeInput = {
+    name: typeof input.name === "string" ? input.name.trim() : "",
+    chatkit:
+      input.chatkit === undefined ? {} : readChatKitTheme(input.chatkit, "chatkit", errors),
+    chrome: input.chrome === undefined ? DEFAULT_CHROME : readChrome(input.chrome, errors),
+  };
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+/** CSS custom properties read by the chrome's `var(--chrome-*)` classes. */
+export function getChromeStyle(chrome: ChromeColors): CSSProperties {
+  return {
+    "--chrome-from": chrome.accentFrom,
+    "--chrome-via": chrome.accentVia,
+    "--chrome-to": chrome.accentTo,
+  } as CSSProperties;
+}
@@ -0,0 +1,43 @@
+import { generateId, getCollection } from "@/lib/store";
+import type { SavedTheme, ThemeInput } from "@/lib/theme";
+
+const themes = () => getCollection<SavedTheme>("themes");
+
+export async function listThemes(): Promise<SavedTheme[]> {
+  const stored = await themes().list();
+  return stored.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getTheme(id: string): Promise<SavedTheme | null> {
+  return themes().get(id);
+}
+
+export async function createTheme(input: ThemeInput): Promise<SavedTheme> {
+  const now = new Date().toISOString();
+  return themes().put({
+    ...input,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function updateTheme(
+  id: string,
+  input: ThemeInput
+): Promise<SavedTheme | null> {
+  const existing = await getTheme(id);
+  if (!existing) {
+    return null;
+  }
+  return themes().put({
+    ...input,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteTheme(id: string): Promise<boolean> {
+  return themes().remove(id);
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTranscript,
+  findStudentIdentifiers,
+  redactTranscript,
+  transcriptToHtml,
+  transcriptToMarkdown,
+} from "@/lib/transcript";
+
+const EXPORTED_AT = "2026-03-01T12:00:00.000Z";
+
+const THREAD = {
+  id: "cthr_1",
+  title: "Essay review for Ada Lovelace",
+  user: "ada@example.edu",
+  created_at: 1_767_225_600,
+};
+
+const ITEMS = [
+  {
+    id: "msg_1",
+    type: "chatkit.user_message",
+    created_at: 1_767_225_600,
+    content: [
+      { type: "input_text", text: "Please grade my essay. I'm Ada, ada@example.edu." },
+      { type: "quoted_text", text: "first line\nsecond line" },
+    ],
+    attachments: [{ id: "file_1", name: "ada-lovelace-essay.pdf", mime_type: "application/pdf" }],
+    inference_options: { model: "crisp" },
+  },
+  { id: "hidden_1", type: "chatkit.hidden_context_item", content: "secret" },
+  {
+    id: "tool_1",
+    type: "chatkit.client_tool_call",
+    name: "record_grade",
+    arguments: '{"student":"Ada Lovelace","total":8}',
+    output: '{"ok":true}',
+  },
+  {
+    id: "msg_2",
+    type: "chatkit.assistant_message",
+    content: [{ type: "output_text", text: "Ada Lovelace scored 8 <of> 10 & passes." }],
+  },
+];
+
+const transcript = buildTranscript(THREAD, ITEMS, EXPORTED_AT);
+
+describe("buildTranscript", () => {
+  it("keeps visible items in order and skips the rest", () => {
+    expect(transcript.entries.map((entry) => entry.role)).toEqual([
+      "user",
+      "tool",
+      "assistant",
+    ]);
+    expect(transcript.createdAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(transcript.models).toEqual(["crisp"]);
+  });
+
+  it("quotes quoted text and records the tool call", () => {
+    const [user, tool] = transcript.entries;
+
+    expect(user.text).toBe(
+      "Please grade my essay. I'm Ada, ada@example.edu.\n\n> first line\n> second line"
+    );
+    expect(user.attachments).toEqual([
+      { id: "file_1", name: "ada-lovelace-essay.pdf", mimeType: "application/pdf" },
+    ]);
+    expect(tool.toolName).toBe("record_grade");
+    expect(tool.text).toBe('Arguments: {"student":"Ada Lovelace","total":8}\nOutput: {"ok":true}');
+  });
+});
+
+describe("findStudentIdentifiers", () => {
+  it("reads the student passed to record_grade", () => {
+    expect(findStudentIdentifiers(transcript)).toEqual(["Ada Lovelace"]);
+  });
+});
+
+describe("redactTranscript", () => {
+  const redacted = redactTranscript(transcript, ["Ada", " Ada Lovelace ", "AL"]);
+
+  it("replaces identifiers and email addresses everywhere", () => {
+    expect(redacted.redacted).toBe(true);
+    expect(redacted.user).toBe("[student]");
+    expect(redacted.title).toBe("Essay review for [student]");
+    expect(redacted.entries[0].text).toBe(
+      "Please grade my essay. I'm [student], [email].\n\n> first line\n> second line"
+    );
+    expect(redacted.entries[1].text).toContain('"student":"[student]"');
+  });
+
+  it("redacts the longest identifier first, case-insensitively", () => {
+    expect(redacted.entries[2].text).toBe("[student] scored 8 <of> 10 & passes.");
+    expect(redacted.entries[0].attachments[0].name).toBe("[student]-lovelace-essay.pdf");
+  });
+
+  it("ignores identifiers too short to be safe to replace", () => {
+    expect(redacted.entries[1].text).toContain('"total":8');
+  });
+
+  it("leaves the original transcript untouched", () => {
+    expect(transcript.redacted).toBe(false);
+    expect(transcript.entries[2].text).toContain("Ada Lovelace");
+  });
+});
+
+describe("transcriptToMarkdown", () => {
+  it("renders a heading per entry with its metadata", () => {
+    const markdown = transcriptToMarkdown(transcript);
+
+    expect(markdown).toContain("# Essay review for Ada Lovelace\n");
+    expect(markdown).toContain("- **Models:** crisp");
+    expect(markdown).toContain("## User\n_2026-01-01T00:00:00.000Z · model crisp_");
+    expect(markdown).toContain("## Tool: record_grade\n\n```\nArguments:");
+    expect(markdown).toContain("Attachments:\n- ada-lovelace-essay.pdf (application/pdf)");
+  });
+});
+
+describe("transcriptToHtml", () => {
+  it("escapes thread content", () => {
+    const html = transcriptToHtml(
+      buildTranscript(
+        { ...THREAD, title: '<script>alert("x")</script>' },
+        ITEMS,
+        EXPORTED_AT
+      )
+    );
+
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("<title>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</title>");
+    expect(html).toContain("scored 8 &lt;of&gt; 10 &amp; passes.");
+    expect(html).toContain("{&quot;student&quot;:&quot;Ada Lovelace&quot;");
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Conversation transcripts: a plain record of one ChatKit thread that can be
+ * kept for records or appeals. Built from the thread items the ChatKit API
+ * returns (see `lib/chatkitThreads.ts`) and rendered as Markdown, JSON or a
+ * printable HTML page.
+ */
+
+export const TRANSCRIPT_FORMATS = ["markdown", "json", "html"] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export type TranscriptRole = "user" | "assistant" | "tool" | "widget" | "task";
+
+export type TranscriptAttachment = {
+  id: string;
+  name: string;
+  mimeType: string | null;
+};
+
+export type TranscriptEntry = {
+  id: string;
+  role: TranscriptRole;
+  createdAt: string | null;
+  text: string;
+  attachments: TranscriptAttachment[];
+  /** Composer model picked for a user message, if any. */
+  model: string | null;
+  /** Client tool name, for `tool` entries. */
+  toolName: string | null;
+};
+
+export type Transcript = {
+  threadId: string;
+  title: string | null;
+  /** Upstream `user` the thread belongs to. */
+  user: string | null;
+  createdAt: string | null;
+  exportedAt: string;
+  /** Every composer model used in the thread, in order of first use. */
+  models: string[];
+  redacted: boolean;
+  entries: TranscriptEntry[];
+};
+
+export function isTranscriptFormat(value: unknown): value is TranscriptFormat {
+  return (
+    typeof value === "string" &&
+    (TRANSCRIPT_FORMATS as readonly string[]).includes(value)
+  );
+}
+
+const ROLE_LABELS: Record<TranscriptRole, string> = {
+  user: "User",
+  assistant: "Assistant",
+  tool: "Tool",
+  widget: "Widget",
+  task: "Task",
+};
+
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === "object" ? (value as RawRecord) : {};
+
+const asString = (value: unknown): string | null =>
+  typeof value === "string" && value ? value : null;
+
+/** ChatKit timestamps are epoch seconds. */
+function toIsoDate(value: unknown): string | null {
+  return typeof value === "number" && Number.isFinite(value)
+    ? new Date(value * 1000).toISOString()
+    : null;
+}
+
+function readContentText(content: unknown): string {
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .map((part) => {
+      const record = asRecord(part);
+      const text = asString(record.text) ?? "";
+      return record.type === "quoted_text"
+        ? text
+            .split("\n")
+            .map((line) => `> ${line}`)
+            .join("\n")
+        : text;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function readAttachments(value: unknown): TranscriptAttachment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map((entry) => {
+    const record = asRecord(entry);
+    return {
+      id: asString(record.id) ?? "",
+      name: asString(record.name) ?? "attachment",
+      mimeType: asString(record.mime_type),
+    };
+  });
+}
+
+function readToolText(item: RawRecord): string {
+  const parts = [`Arguments: ${asString(item.arguments) ?? "{}"}`];
+  const output = asString(item.output);
+  if (output) {
+    parts.push(`Output: ${output}`);
+  }
+  return parts.join("\n");
+}
+
+function toEntry(raw: unknown): TranscriptEntry | null {
+  const item = asRecord(raw);
+  const entry = (
+    role: TranscriptRole,
+    text: string,
+    extra: Partial<Pick<TranscriptEntry, "attachments" | "model" | "toolName">> = {}
+  ): TranscriptEntry => ({
+    id: asString(item.id) ?? "",
+    role,
+    createdAt: toIsoDate(item.created_at),
+    text,
+    attachments: extra.attachments ?? [],
+    model: extra.model ?? null,
+    toolName: extra.toolName ?? null,
+  });
+  switch (item.type) {
+    case "chatkit.user_message":
+      return entry("user", readContentText(item.content), {
+        attachments: readAttachments(item.attachments),
+        model: asString(asRecord(item.inference_options).model),
+      });
+    case "chatkit.assistant_message":
+      return entry("assistant", readContentText(item.content));
+    case "chatkit.client_tool_call":
+      return entry("tool", readToolText(item), { toolName: asString(item.name) });
+    case "chatkit.widget":
+      return entry("widget", asString(item.copy_text) ?? "(widget)");
+    case "chatkit.task": {
+      const task = asRecord(item.task);
+      return entry(
+        "task",
+        [asString(task.title), asString(task.content)].filter(Boolean).join("\n")
+      );
+    }
+    default:
+      // Hidden context, end-of-turn markers and anything newer are skipped.
+      return null;
+  }
+}
+
+/** Builds a transcript from a ChatKit thread and its items, oldest first. */
+export function buildTranscript(
+  thread: unknown,
+  items: unknown[],
+  exportedAt: string
+): Transcript {
+  const record = asRecord(thread);
+  const entries = items
+    .map(toEntry)
+    .filter((entry): entry is TranscriptEntry => entry !== null);
+  const models: string[] = [];
+  for (const entry of entries) {
+    if (entry.model && !models.includes(entry.model)) {
+      models.push(entry.model);
+    }
+  }
+  return {
+    threadId: asString(record.id) ?? "",
+    title: asString(record.title),
+    user: asString(record.user),
+    createdAt: toIsoDate(record.created_at),
+    exportedAt,
+    models,
+    redacted: false,
+    entries,
+  };
+}
+
+/**
+ * Student ids the agent passed to `record_grade`. Together with the thread's
+ * user and the signed-in user's name these are what redaction hides.
+ */
+export function findStudentIdentifiers(transcript: Transcript): string[] {
+  const identifiers: string[] = [];
+  for (const entry of transcript.entries) {
+    if (entry.role !== "tool") {
+      continue;
+    }
+    const match = /"student"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(entry.text);
+    if (match?.[1]) {
+      identifiers.push(match[1]);
+    }
+  }
+  return identifiers;
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Replaces every identifier, and any email address, with a placeholder.
+ * Identifiers shorter than three characters are ignored so that redaction
+ * does not shred ordinary words.
+ */
+export function redactTranscript(
+  transcript: Transcript,
+  identifiers: string[]
+): Transcript {
+  const patterns = Array.from(
+    new Set(identifiers.map((value) => value.trim()).filter((value) => value.length >= 3))
+  )
+    // Longest first, so "Ada Lovelace" goes before "Ada".
+    .sort((a, b) => b.length - a.length)
+    .map((value) => new RegExp(escapeRegExp(value), "gi"));
+  const redact = (text: string) =>
+    patterns.reduce(
+      (result, pattern) => result.replace(pattern, "[student]"),
+      text.replace(EMAIL_PATTERN, "[email]")
+    );
+
+  return {
+    ...transcript,
+    title: transcript.title ? redact(transcript.title) : null,
+    user: transcript.user ? "[student]" : null,
+    redacted: true,
+    entries: transcript.entries.map((entry) => ({
+      ...entry,
+      text: redact(entry.text),
+      attachments: entry.attachments.map((attachment) => ({
+        ...attachment,
+        name: redact(attachment.name),
+      })),
+    })),
+  };
+}
+
+function entryHeading(entry: TranscriptEntry): string {
+  return entry.toolName
+    ? `${ROLE_LABELS[entry.role]}: ${entry.toolName}`
+    : ROLE_LABELS[entry.role];
+}
+
+function entryMeta(entry: TranscriptEntry): string[] {
+  return [
+    entry.createdAt,
+    entry.model ? `model ${entry.model}` : null,
+  ].filter((value): value is string => value !== null);
+}
+
+function describeAttachment(attachment: TranscriptAttachment): string {
+  return attachment.mimeType
+    ? `${attachment.name} (${attachment.mimeType})`
+    : attachment.name;
+}
+
+function summaryLines(transcript: Transcript): [string, string][] {
+  return [
+    ["Thread", transcript.threadId],
+    ["User", transcript.user ?? "unknown"],
+    ["Started", transcript.createdAt ?? "unknown"],
+    ["Exported", transcript.exportedAt],
+    ["Models", transcript.models.length > 0 ? transcript.models.join(", ") : "default"],
+    ...(transcript.redacted
+      ? ([["Redacted", "student identifiers removed"]] as [string, string][])
+      : []),
+  ];
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const lines = [`# ${transcript.title ?? "Conversation transcript"}`, ""];
+  for (const [label, value] of summaryLines(transcript)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  for (const entry of transcript.entries) {
+    lines.push("", `## ${entryHeading(entry)}`);
+    const meta = entryMeta(entry);
+    if (meta.length > 0) {
+      lines.push(`_${meta.join(" · ")}_`);
+    }
+    lines.push("");
+    lines.push(entry.role === "tool" ? `\`\`\`\n${entry.text}\n\`\`\`` : entry.text);
+    if (entry.attachments.length > 0) {
+      lines.push("", "Attachments:");
+      for (const attachment of entry.attachments) {
+        lines.push(`- ${describeAttachment(attachment)}`);
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const PRINT_STYLES = `
+  @page { margin: 18mm; }
+  body { font: 11pt/1.5 system-ui, sans-serif; color: #111827; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 18pt; margin-bottom: 0.5rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.15rem 1rem; font-size: 9.5pt; color: #4b5563; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  article { border-top: 1px solid #e5e7eb; padding: 0.75rem 0; break-inside: avoid; }
+  h2 { font-size: 11pt; margin: 0; }
+  .meta { font-size: 9pt; color: #6b7280; }
+  .text { white-space: pre-wrap; margin: 0.35rem 0 0; }
+  .tool .text { font: 9pt/1.4 ui-monospace, monospace; background: #f3f4f6; padding: 0.5rem; }
+  ul { font-size: 9.5pt; margin: 0.35rem 0 0; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/** A standalone page laid out for printing or saving as PDF. */
+export function transcriptToHtml(transcript: Transcript): string {
+  const title = escapeHtml(transcript.title ?? "Conversation transcript");
+  const summary = summaryLines(transcript)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const entries = transcript.entries
+    .map((entry) => {
+      const meta = entryMeta(entry);
+      const attachments =
+        entry.attachments.length > 0
+          ? `<ul>${entry.attachments
+              .map((attachment) => `<li>${escapeHtml(describeAttachment(attachment))}</li>`)
+              .join("")}</ul>`
+          : "";
+      return [
+        `<article class="${entry.role}">`,
+        `<h2>${escapeHtml(entryHeading(entry))}</h2>`,
+        meta.length > 0 ? `<div class="meta">${escapeHtml(meta.join(" · "))}</div>` : "",
+        `<p class="text">${escapeHtml(entry.text)}</p>`,
+        attachments,
+        "</article>",
+      ].join("");
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>${summary}</dl>
+${entries}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Logger } from "@/lib/logger";
+import type { UpstreamPolicy } from "@/lib/upstream";
+
+// The circuit breaker is module state, so every test gets a fresh copy.
+let upstream: typeof import("@/lib/upstream");
+
+const silentLog: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+  child: () => silentLog,
+};
+
+const POLICY: UpstreamPolicy = {
+  timeoutMs: 1_000,
+  maxRetries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 10,
+  breakerThreshold: 5,
+  breakerCooldownMs: 60_000,
+};
+
+let calls = 0;
+
+function respondWith(...outcomes: Array<number | Error>) {
+  calls = 0;
+  vi.stubGlobal("fetch", async () => {
+    const outcome = outcomes[Math.min(calls, outcomes.length - 1)];
+    calls += 1;
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return new Response(null, { status: outcome });
+  });
+}
+
+function fetchWith(policy: Partial<UpstreamPolicy> = {}) {
+  return upstream.fetchUpstream(
+    "https://api.example.com/v1/chatkit/sessions",
+    { method: "POST" },
+    { policy: { ...POLICY, ...policy }, log: silentLog }
+  );
+}
+
+beforeEach(async () => {
+  vi.resetModules();
+  upstream = await import("@/lib/upstream");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchUpstream", () => {
+  it("retries retryable statuses until one succeeds", async () => {
+    respondWith(503, 502, 200);
+
+    const response = await fetchWith();
+
+    expect(response.status).toBe(200);
+    expect(calls).toBe(3);
+  });
+
+  it("returns client errors without retrying", async () => {
+    respondWith(400);
+
+    const response = await fetchWith();
+
+    expect(response.status).toBe(400);
+    expect(calls).toBe(1);
+  });
+
+  it("returns the last response once retries run out", async () => {
+    respondWith(503);
+
+    const response = await fetchWith();
+
+    expect(response.status).toBe(503);
+    expect(calls).toBe(3);
+  });
+
+  it("throws a 502 when the network keeps failing", async () => {
+    respondWith(new TypeError("fetch failed"));
+
+    const failure = await fetchWith().catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(upstream.UpstreamUnavailableError);
+    expect(failure).toMatchObject({ status: 502 });
+    expect(calls).toBe(3);
+  });
+
+  it("gives up at once when Retry-After is longer than it will wait", async () => {
+    calls = 0;
+    vi.stubGlobal("fetch", async () => {
+      calls += 1;
+      return new Response(null, { status: 429, headers: { "Retry-After": "60" } });
+    });
+
+    const response = await fetchWith({ breakerThreshold: 1 });
+
+    expect(response.status).toBe(429);
+    expect(calls).toBe(1);
+    expect(upstream.getCircuitState()).toEqual({ open: false, failures: 0 });
+  });
+});
+
+describe("circuit breaker", () => {
+  it("fails fast once consecutive failures reach the threshold", async () => {
+    respondWith(503);
+    const policy = { maxRetries: 0, breakerThreshold: 2 };
+    await fetchWith(policy);
+    await fetchWith(policy);
+
+    const failure = await fetchWith(policy).catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(upstream.UpstreamUnavailableError);
+    expect(failure).toMatchObject({ status: 503, retryAfterSeconds: 60 });
+    expect(calls).toBe(2);
+    expect(upstream.getCircuitState()).toEqual({ open: true, failures: 2 });
+  });
+
+  it("closes again after a successful trial request", async () => {
+    const policy = { maxRetries: 0, breakerThreshold: 1, breakerCooldownMs: 0 };
+    respondWith(503);
+    await fetchWith(policy);
+    expect(upstream.getCircuitState().open).toBe(true);
+
+    respondWith(200);
+    const response = await fetchWith(policy);
+
+    expect(response.status).toBe(200);
+    expect(upstream.getCircuitState()).toEqual({ open: false, failures: 0 });
+  });
+});
+
+describe("probeUpstream", () => {
+  it("treats server errors and network failures as unreachable", async () => {
+    respondWith(503);
+    const serverError = await upstream.probeUpstream("https://a.example.com", "sk-a");
+
+    respondWith(new TypeError("fetch failed"));
+    const networkError = await upstream.probeUpstream("https://b.example.com", "sk-b");
+
+    expect(serverError).toMatchObject({ reachable: false, status: 503 });
+    expect(networkError).toMatchObject({ reachable: false, status: null, latencyMs: null });
+  });
+
+  it("reuses a recent probe for the same upstream", async () => {
+    respondWith(200);
+
+    await upstream.probeUpstream("https://c.example.com", "sk-c");
+    const second = await upstream.probeUpstream("https://c.example.com", "sk-c");
+
+    expect(second).toMatchObject({ reachable: true, status: 200 });
+    expect(calls).toBe(1);
+  });
+});
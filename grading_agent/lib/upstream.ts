@@ -0,0 +1,256 @@
+import { createLogger, type Logger } from "@/lib/logger";
+
+/**
+ * Resilient fetch for calls to the ChatKit API: per-attempt timeouts,
+ * exponential backoff with jitter on retryable statuses, and a circuit
+ * breaker that fails fast while upstream keeps failing.
+ */
+
+export type UpstreamPolicy = {
+  timeoutMs: number;
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Consecutive failures that open the circuit. */
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+};
+
+/** Statuses worth retrying, and that the client may retry too. */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Upstream could not be reached: the circuit is open, every attempt timed
+ * out, or the network failed. Always retryable from the client's side.
+ */
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterSeconds: number | null = null
+  ) {
+    super(message);
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+function readNonNegativeInt(name: string, fallback: number): number {
+  const raw = Number(process.env[name]);
+  return Number.isFinite(raw) && raw >= 0 ? Math.floor(raw) : fallback;
+}
+
+export function getUpstreamPolicy(): UpstreamPolicy {
+  return {
+    timeoutMs: readNonNegativeInt("CHATKIT_TIMEOUT_MS", 10_000),
+    maxRetries: readNonNegativeInt("CHATKIT_MAX_RETRIES", 2),
+    baseDelayMs: readNonNegativeInt("CHATKIT_RETRY_BASE_MS", 250),
+    maxDelayMs: 4_000,
+    breakerThreshold: Math.max(readNonNegativeInt("CHATKIT_BREAKER_THRESHOLD", 5), 1),
+    breakerCooldownMs:
+      readNonNegativeInt("CHATKIT_BREAKER_COOLDOWN_SECONDS", 30) * 1000,
+  };
+}
+
+type BreakerState = {
+  failures: number;
+  openedAt: number | null;
+  /** A single trial request is in flight after the cooldown. */
+  probing: boolean;
+};
+
+const defaultLog = createLogger("upstream");
+
+const breaker: BreakerState = { failures: 0, openedAt: null, probing: false };
+
+function checkBreaker(policy: UpstreamPolicy, now: number, log: Logger): void {
+  if (breaker.openedAt === null) {
+    return;
+  }
+  const remainingMs = breaker.openedAt + policy.breakerCooldownMs - now;
+  if (remainingMs > 0 || breaker.probing) {
+    log.warn("circuit open, failing fast", { failures: breaker.failures });
+    throw new UpstreamUnavailableError(
+      "ChatKit is temporarily unavailable. Please try again shortly.",
+      503,
+      Math.max(Math.ceil(remainingMs / 1000), 1)
+    );
+  }
+  breaker.probing = true;
+}
+
+export function getCircuitState(): { open: boolean; failures: number } {
+  return { open: breaker.openedAt !== null, failures: breaker.failures };
+}
+
+function recordSuccess(): void {
+  breaker.failures = 0;
+  breaker.openedAt = null;
+  breaker.probing = false;
+}
+
+function recordFailure(policy: UpstreamPolicy, now: number, log: Logger): void {
+  breaker.failures += 1;
+  if (breaker.probing || breaker.failures >= policy.breakerThreshold) {
+    if (breaker.openedAt === null || breaker.probing) {
+      log.warn("circuit opened", { failures: breaker.failures });
+    }
+    breaker.openedAt = now;
+  }
+  breaker.probing = false;
+}
+
+/**
+ * Full-jitter backoff, or `null` when upstream asks us to wait longer than
+ * we are willing to hold the request open.
+ */
+function backoffDelay(
+  attempt: number,
+  policy: UpstreamPolicy,
+  retryAfterHeader: string | null
+): number | null {
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  const jittered = Math.random() * ceiling;
+  const retryAfterMs = Number(retryAfterHeader) * 1000;
+  if (!Number.isFinite(retryAfterMs) || retryAfterMs <= 0) {
+    return jittered;
+  }
+  return retryAfterMs > policy.maxDelayMs ? null : Math.max(jittered, retryAfterMs);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetches `url`, retrying timeouts, network errors and retryable statuses.
+ * Resolves with the last response, which may still be an error status;
+ * throws `UpstreamUnavailableError` when no response could be obtained.
+ */
+export async function fetchUpstream(
+  url: string,
+  init: RequestInit,
+  {
+    policy = getUpstreamPolicy(),
+    log = defaultLog,
+  }: { policy?: UpstreamPolicy; log?: Logger } = {}
+): Promise<Response> {
+  checkBreaker(policy, Date.now(), log);
+
+  for (let attempt = 0; ; attempt += 1) {
+    let response: Response | null = null;
+    let failure: unknown = null;
+
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(policy.timeoutMs),
+      });
+    } catch (error) {
+      failure = error;
+    }
+
+    if (response && !isRetryableStatus(response.status)) {
+      recordSuccess();
+      return response;
+    }
+
+    const delay =
+      attempt < policy.maxRetries
+        ? backoffDelay(attempt, policy, response?.headers.get("Retry-After") ?? null)
+        : null;
+
+    // 429 means upstream is up but throttling us; it does not trip the breaker.
+    const upstreamHealthy = response?.status === 429;
+    if (delay === null) {
+      if (upstreamHealthy) {
+        recordSuccess();
+      } else {
+        recordFailure(policy, Date.now(), log);
+      }
+      if (response) {
+        return response;
+      }
+      const timedOut =
+        failure instanceof Error && failure.name === "TimeoutError";
+      log.error("request failed", { attempts: attempt + 1, error: failure });
+      throw new UpstreamUnavailableError(
+        timedOut
+          ? "ChatKit did not respond in time. Please try again."
+          : "Could not reach ChatKit. Please try again.",
+        timedOut ? 504 : 502
+      );
+    }
+
+    log.warn("retrying", {
+      attempt: attempt + 1,
+      status: response?.status ?? null,
+      delayMs: Math.round(delay),
+    });
+    await response?.body?.cancel().catch(() => {});
+    await sleep(delay);
+  }
+}
+
+export type UpstreamProbe = {
+  reachable: boolean;
+  /** HTTP status of the probe, or `null` when no response arrived. */
+  status: number | null;
+  latencyMs: number | null;
+  checkedAt: string;
+};
+
+const PROBE_TTL_MS = 30_000;
+let lastProbe: { result: Promise<UpstreamProbe>; at: number; key: string } | null =
+  null;
+
+/**
+ * Cheap authenticated request used by the health check. Cached briefly, and
+ * shared by callers that arrive while it is in flight, so polling clients
+ * (or anyone hammering the public health endpoint) cannot turn into
+ * upstream traffic. Kept out of the circuit breaker's failure count.
+ */
+export async function probeUpstream(
+  apiBase: string,
+  apiKey: string,
+  timeoutMs = 5_000
+): Promise<UpstreamProbe> {
+  const key = `${apiBase}|${apiKey.slice(-6)}`;
+  const now = Date.now();
+  if (lastProbe && lastProbe.key === key && now - lastProbe.at < PROBE_TTL_MS) {
+    return lastProbe.result;
+  }
+  const result = runProbe(apiBase, apiKey, timeoutMs, now);
+  lastProbe = { result, at: now, key };
+  return result;
+}
+
+async function runProbe(
+  apiBase: string,
+  apiKey: string,
+  timeoutMs: number,
+  now: number
+): Promise<UpstreamProbe> {
+  try {
+    const response = await fetch(`${apiBase}/v1/models?limit=1`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel().catch(() => {});
+    return {
+      reachable: response.status < 500,
+      status: response.status,
+      latencyMs: Date.now() - now,
+      checkedAt: new Date(now).toISOString(),
+    };
+  } catch {
+    return {
+      reachable: false,
+      status: null,
+      latencyMs: null,
+      checkedAt: new Date(now).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { CLIENT_TOOLS } from "@/lib/clientTools";
+import type { GradeInput } from "@/lib/grade";
+import { getGrade, recordGrade, saveGradeReview } from "@/lib/gradebook";
+import { executeWidgetAction, type ActionActor } from "@/lib/widgetActionHandlers";
+
+const STUDENT: ActionActor = {
+  user: {
+    id: "local:student-1",
+    name: "Student",
+    email: "student@example.edu",
+    role: "student",
+    provider: "local",
+  },
+  userId: "local:student-1",
+};
+
+const INPUT: GradeInput = {
+  student: "Student",
+  assignment: "Essay 1",
+  rubricId: null,
+  criteria: [{ criterion: "Clarity", score: 4, maxPoints: 5, remark: "" }],
+  bonus: 0,
+  total: 4,
+  maxTotal: 5,
+  feedback: "Clear argument.",
+  submission: "The essay text.",
+};
+
+const INSTRUCTOR: ActionActor = {
+  user: {
+    id: "local:instructor-1",
+    name: "Instructor",
+    email: "instructor@example.edu",
+    role: "instructor",
+    provider: "local",
+  },
+  userId: "local:instructor-1",
+};
+
+async function approvedGrade() {
+  const grade = await recordGrade(INSTRUCTOR.userId, STUDENT.userId, INPUT);
+  const saved = await saveGradeReview(
+    grade.id,
+    { scores: [], bonus: null, feedback: null, comment: "Well done", decision: "approve" },
+    INSTRUCTOR.userId
+  );
+  if (!saved?.ok) {
+    throw new Error("Unable to approve grade");
+  }
+  return saved.grade;
+}
+
+describe("executeWidgetAction", () => {
+  it("answers a regrade request with the student's view of the grade", async () => {
+    const grade = await approvedGrade();
+
+    const result = await executeWidgetAction(
+      { type: "request_regrade", gradeId: grade.id, reason: "Please look again" },
+      STUDENT
+    );
+
+    expect(result).toMatchObject({ success: true, type: "request_regrade" });
+    const returned = result.success ? result.grade : undefined;
+    expect(returned).toMatchObject({ id: grade.id, total: 4, comments: ["Well done"] });
+    expect(returned).not.toHaveProperty("events");
+    expect(returned).not.toHaveProperty("aiScores");
+    expect(returned).not.toHaveProperty("submission");
+    expect(returned).not.toHaveProperty("recordedBy");
+  });
+
+  it("lets the graded student contest a grade an instructor recorded", async () => {
+    const grade = await approvedGrade();
+    const other: ActionActor = {
+      user: { ...STUDENT.user!, id: "local:student-2", email: null },
+      userId: "local:student-2",
+    };
+
+    const forbidden = await executeWidgetAction(
+      { type: "request_regrade", gradeId: grade.id, reason: "Not mine" },
+      other
+    );
+    const allowed = await executeWidgetAction(
+      { type: "request_regrade", gradeId: grade.id, reason: "Mine" },
+      STUDENT
+    );
+
+    expect(forbidden).toMatchObject({ success: false, error: { code: "forbidden" } });
+    expect(allowed).toMatchObject({ success: true });
+  });
+
+  it("keeps both of two changes made at the same time", async () => {
+    const grade = await approvedGrade();
+
+    const [regrade, flag] = await Promise.all([
+      executeWidgetAction(
+        { type: "request_regrade", gradeId: grade.id, reason: "Please look again" },
+        STUDENT
+      ),
+      executeWidgetAction(
+        { type: "flag_submission", gradeId: grade.id, reason: "Looks copied" },
+        INSTRUCTOR
+      ),
+    ]);
+
+    expect(regrade.success && flag.success).toBe(true);
+    const stored = await getGrade(grade.id);
+    expect(stored).toMatchObject({ status: "regrade_requested", flagged: true });
+    expect(stored!.events.map((event) => event.type)).toEqual([
+      "recorded",
+      "approved",
+      "regrade_requested",
+      "flagged",
+    ]);
+  });
+
+  it("approves a grade only once", async () => {
+    const grade = await recordGrade(INSTRUCTOR.userId, STUDENT.userId, INPUT);
+    const approve = () =>
+      executeWidgetAction(
+        { type: "approve_grade", gradeId: grade.id, note: "" },
+        INSTRUCTOR
+      );
+
+    const results = await Promise.all([approve(), approve()]);
+
+    expect(results.map((result) => result.success && result.message)).toEqual([
+      "Grade approved",
+      "Grade was already approved",
+    ]);
+    const stored = await getGrade(grade.id);
+    expect(stored!.events.filter((event) => event.type === "approved")).toHaveLength(1);
+  });
+
+  it("refuses instructor actions to anonymous visitors", async () => {
+    const grade = await recordGrade("anonymous-1", "anonymous-1", INPUT);
+    const anonymous: ActionActor = { user: null, userId: "anonymous-1" };
+
+    for (const action of [
+      { type: "approve_grade", gradeId: grade.id, note: "" },
+      { type: "flag_submission", gradeId: grade.id, reason: "Looks copied" },
+    ] as const) {
+      expect(await executeWidgetAction(action, anonymous)).toMatchObject({
+        success: false,
+        error: { code: "forbidden" },
+      });
+    }
+    expect((await getGrade(grade.id))!.status).toBe("pending");
+  });
+
+  it("keeps approving and flagging out of the model's client tools", () => {
+    const names = CLIENT_TOOLS.map((tool) => tool.name);
+
+    expect(names).not.toContain("approve_grade");
+    expect(names).not.toContain("flag_submission");
+  });
+});
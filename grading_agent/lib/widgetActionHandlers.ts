@@ -0,0 +1,169 @@
+import { hasRole, type AuthUser } from "@/lib/auth";
+import {
+  createFact,
+  deleteFactByFactId,
+  toFactSummary,
+  updateFactByFactId,
+} from "@/lib/facts";
+import { applyGradeReview, toStudentGrade } from "@/lib/grade";
+import {
+  isGradeOf,
+  updateGrade,
+  withFlag,
+  withRegradeRequest,
+  type GradeChange,
+} from "@/lib/gradebook";
+import {
+  WIDGET_ACTION_ROLES,
+  actionError,
+  type WidgetAction,
+  type WidgetActionResult,
+} from "@/lib/widgetActions";
+
+/**
+ * Who is acting: the signed-in user (`null` when auth is off) and the id
+ * per-user data is keyed by.
+ */
+export type ActionActor = {
+  user: AuthUser | null;
+  userId: string;
+};
+
+// With auth off everyone is an anonymous student, matching `requireUser`.
+const canAct = (actor: ActionActor, action: WidgetAction) =>
+  actor.user
+    ? hasRole(actor.user, WIDGET_ACTION_ROLES[action.type])
+    : WIDGET_ACTION_ROLES[action.type] === "student";
+
+const isInstructor = (actor: ActionActor) =>
+  Boolean(actor.user && hasRole(actor.user, "instructor"));
+
+const gradeNotFound = (gradeId: string) =>
+  actionError("not_found", `No grade with id ${gradeId}`);
+
+/** Leaves the grade as it is and answers with `result`. */
+const unchanged = (result: WidgetActionResult): GradeChange<WidgetActionResult> => ({
+  grade: null,
+  result,
+});
+
+/** Runs an already parsed action on behalf of `actor`. */
+export async function executeWidgetAction(
+  action: WidgetAction,
+  actor: ActionActor
+): Promise<WidgetActionResult> {
+  if (!canAct(actor, action)) {
+    return actionError(
+      "forbidden",
+      `${action.type} requires the ${WIDGET_ACTION_ROLES[action.type]} role`
+    );
+  }
+
+  switch (action.type) {
+    case "save": {
+      const { fact, created } = await createFact(actor.userId, {
+        factId: action.factId,
+        text: action.factText,
+      });
+      return {
+        success: true,
+        type: action.type,
+        message: created ? "Fact saved" : "Fact was already saved",
+        fact: toFactSummary(fact),
+      };
+    }
+
+    case "update": {
+      const fact = await updateFactByFactId(actor.userId, action.factId, action.factText);
+      if (!fact) {
+        return actionError("not_found", `No saved fact with id ${action.factId}`);
+      }
+      return {
+        success: true,
+        type: action.type,
+        message: "Fact updated",
+        fact: toFactSummary(fact),
+      };
+    }
+
+    case "delete": {
+      if (!(await deleteFactByFactId(actor.userId, action.factId))) {
+        return actionError("not_found", `No saved fact with id ${action.factId}`);
+      }
+      return { success: true, type: action.type, message: "Fact deleted" };
+    }
+
+    case "approve_grade": {
+      const result = await updateGrade<WidgetActionResult>(action.gradeId, (grade) => {
+        if (grade.status === "approved") {
+          return unchanged({
+            success: true,
+            type: action.type,
+            message: "Grade was already approved",
+            grade,
+          });
+        }
+        const review = applyGradeReview(
+          grade,
+          { scores: [], bonus: null, feedback: null, comment: action.note, decision: "approve" },
+          actor.userId
+        );
+        if (!review.ok) {
+          return unchanged(actionError("failed", "Unable to approve grade", review.errors));
+        }
+        const approved = { ...grade, ...review.value };
+        return {
+          grade: approved,
+          result: { success: true, type: action.type, message: "Grade approved", grade: approved },
+        };
+      });
+      return result ?? gradeNotFound(action.gradeId);
+    }
+
+    case "request_regrade": {
+      const student = { userId: actor.userId, email: actor.user?.email ?? null };
+      const result = await updateGrade<WidgetActionResult>(action.gradeId, (grade) => {
+        // Students may only contest their own grades.
+        if (!isInstructor(actor) && !isGradeOf(grade, student)) {
+          return unchanged(
+            actionError("forbidden", "You can only request a regrade of your own grade")
+          );
+        }
+        if (grade.status === "regrade_requested") {
+          return unchanged(actionError("conflict", "A regrade has already been requested"));
+        }
+        // Students have not seen a grade until it is approved.
+        if (grade.status !== "approved") {
+          return unchanged(actionError("conflict", "Only approved grades can be contested"));
+        }
+        const requested = withRegradeRequest(grade, actor.userId, action.reason);
+        return {
+          grade: requested,
+          result: {
+            success: true,
+            type: action.type,
+            message: "Regrade requested",
+            grade: toStudentGrade(requested),
+          },
+        };
+      });
+      return result ?? gradeNotFound(action.gradeId);
+    }
+
+    case "flag_submission": {
+      const result = await updateGrade<WidgetActionResult>(action.gradeId, (grade) => {
+        const flagged = withFlag(grade, actor.userId, action.reason);
+        return {
+          grade: flagged,
+          result: {
+            success: true,
+            type: action.type,
+            message: "Submission flagged for review",
+            grade: flagged,
+          },
+        };
+      });
+      return result ?? gradeNotFound(action.gradeId);
+    }
+  }
+}
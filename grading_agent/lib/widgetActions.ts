@@ -0,0 +1,177 @@
+import type { Role } from "@/lib/auth/types";
+import type { FactSummary } from "@/lib/facts";
+import type { GradeRecord, StudentGrade } from "@/lib/grade";
+
+/**
+ * Actions the agent can trigger, either from a widget button or through a
+ * client tool. Approving and flagging grades are buttons only, so they always
+ * take an instructor's click. The browser posts them to `/api/actions`, which checks the
+ * caller's role and runs them (`lib/widgetActionHandlers.ts`); the result is
+ * handed back to the agent so it can confirm or recover. Kept free of
+ * server-only imports so the panel can parse actions with the same code.
+ */
+
+export type WidgetAction =
+  | { type: "save"; factId: string; factText: string }
+  | { type: "update"; factId: string; factText: string }
+  | { type: "delete"; factId: string }
+  | { type: "approve_grade"; gradeId: string; note: string }
+  | { type: "request_regrade"; gradeId: string; reason: string }
+  | { type: "flag_submission"; gradeId: string; reason: string };
+
+export type WidgetActionType = WidgetAction["type"];
+
+/** Minimum role per action when auth is enabled. */
+export const WIDGET_ACTION_ROLES: Record<WidgetActionType, Role> = {
+  save: "student",
+  update: "student",
+  delete: "student",
+  approve_grade: "instructor",
+  request_regrade: "student",
+  flag_submission: "instructor",
+};
+
+export type WidgetActionErrorCode =
+  | "invalid_action"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "failed";
+
+export type WidgetActionResult =
+  | {
+      success: true;
+      type: WidgetActionType;
+      message: string;
+      fact?: FactSummary;
+      /** The full record for instructors; students get their projection. */
+      grade?: GradeRecord | StudentGrade;
+    }
+  | {
+      success: false;
+      error: { code: WidgetActionErrorCode; message: string; details?: string[] };
+    };
+
+export type WidgetActionParseResult =
+  | { ok: true; value: WidgetAction }
+  | { ok: false; errors: string[] };
+
+export function isWidgetActionType(value: unknown): value is WidgetActionType {
+  return typeof value === "string" && Object.hasOwn(WIDGET_ACTION_ROLES, value);
+}
+
+export function actionError(
+  code: WidgetActionErrorCode,
+  message: string,
+  details?: string[]
+): WidgetActionResult {
+  return {
+    success: false,
+    error: { code, message, ...(details ? { details } : {}) },
+  };
+}
+
+/** Maps an action error to the status `/api/actions` answers with. */
+export function getActionErrorStatus(code: WidgetActionErrorCode): number {
+  switch (code) {
+    case "invalid_action":
+      return 400;
+    case "unauthorized":
+      return 401;
+    case "forbidden":
+      return 403;
+    case "not_found":
+      return 404;
+    case "conflict":
+      return 409;
+    case "failed":
+      return 500;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Reads an action from a widget (`{ type, payload }`) or a flat object. Field
+ * names may be snake_case, as the agent sends them, or camelCase.
+ */
+export function parseWidgetAction(input: unknown): WidgetActionParseResult {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ["Action must be an object"] };
+  }
+  const { type } = input;
+  if (!isWidgetActionType(type)) {
+    return {
+      ok: false,
+      errors: [
+        `type must be one of ${Object.keys(WIDGET_ACTION_ROLES).join(", ")}`,
+      ],
+    };
+  }
+  const fields = isRecord(input.payload) ? { ...input, ...input.payload } : input;
+  const errors: string[] = [];
+
+  const readString = (
+    camel: string,
+    snake: string,
+    { required }: { required: boolean }
+  ): string => {
+    const raw = fields[camel] ?? fields[snake];
+    if (raw === undefined || raw === null) {
+      if (required) {
+        errors.push(`${snake} is required`);
+      }
+      return "";
+    }
+    if (typeof raw !== "string") {
+      errors.push(`${snake} must be a string`);
+      return "";
+    }
+    const text = raw.trim();
+    if (required && !text) {
+      errors.push(`${snake} must not be empty`);
+    } else if (text.length > MAX_TEXT_LENGTH) {
+      errors.push(`${snake} must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    return text;
+  };
+
+  let action: WidgetAction;
+  switch (type) {
+    case "save":
+    case "update":
+      action = {
+        type,
+        factId: readString("factId", "fact_id", { required: true }),
+        factText: readString("factText", "fact_text", { required: true }),
+      };
+      break;
+    case "delete":
+      action = {
+        type,
+        factId: readString("factId", "fact_id", { required: true }),
+      };
+      break;
+    case "approve_grade":
+      action = {
+        type,
+        gradeId: readString("gradeId", "grade_id", { required: true }),
+        note: readString("note", "note", { required: false }),
+      };
+      break;
+    case "request_regrade":
+    case "flag_submission":
+      action = {
+        type,
+        gradeId: readString("gradeId", "grade_id", { required: true }),
+        reason: readString("reason", "reason", { required: true }),
+      };
+      break;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: action };
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { listWorkflows, resolveWorkflow } from "@/lib/workflowRegistry";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveWorkflow", () => {
+  it("defaults to the grading workflow", () => {
+    const result = resolveWorkflow({});
+
+    expect(result).toMatchObject({ ok: true, workflowId: "wf_test" });
+    expect(result.ok && result.definition.key).toBe("grading");
+  });
+
+  it("resolves a registered key whose id is configured", () => {
+    vi.stubEnv("CHATKIT_MCP_WORKFLOW_ID", " wf_mcp ");
+
+    const result = resolveWorkflow({ key: "mcp" });
+
+    expect(result).toMatchObject({ ok: true, workflowId: "wf_mcp" });
+  });
+
+  it("refuses workflows that are unset or still hold the placeholder id", () => {
+    vi.stubEnv("CHATKIT_MCP_WORKFLOW_ID", "wf_replace_me");
+
+    expect(resolveWorkflow({ key: "mcp" })).toMatchObject({ ok: false, status: 403 });
+    expect(resolveWorkflow({ key: "tool" })).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it("rejects unknown keys", () => {
+    expect(resolveWorkflow({ key: "payroll" })).toEqual({
+      ok: false,
+      status: 400,
+      error: "Unknown workflow: payroll",
+    });
+  });
+
+  it("only accepts raw ids that belong to the registry", () => {
+    vi.stubEnv("CHATKIT_TOOL_WORKFLOW_ID", "wf_tool");
+
+    const known = resolveWorkflow({ rawId: "wf_tool" });
+    const unknown = resolveWorkflow({ rawId: "wf_someone_else" });
+
+    expect(known).toMatchObject({ ok: true, workflowId: "wf_tool" });
+    expect(known.ok && known.definition.key).toBe("tool");
+    expect(unknown).toMatchObject({ ok: false, status: 403 });
+  });
+});
+
+describe("listWorkflows", () => {
+  it("marks which workflows have an id configured", () => {
+    vi.stubEnv("CHATKIT_MCP_WORKFLOW_ID", "");
+    vi.stubEnv("CHATKIT_TOOL_WORKFLOW_ID", "wf_tool");
+
+    const workflows = listWorkflows().map(({ key, available, envVar }) => ({
+      key,
+      available,
+      envVar,
+    }));
+
+    expect(workflows).toEqual([
+      { key: "grading", available: true, envVar: "NEXT_PUBLIC_CHATKIT_WORKFLOW_ID" },
+      { key: "mcp", available: false, envVar: "CHATKIT_MCP_WORKFLOW_ID" },
+      { key: "tool", available: true, envVar: "CHATKIT_TOOL_WORKFLOW_ID" },
+    ]);
+  });
+});
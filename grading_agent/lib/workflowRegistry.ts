@@ -0,0 +1,83 @@
+import {
+  DEFAULT_WORKFLOW_KEY,
+  WORKFLOWS,
+  WORKFLOW_ID,
+  type WorkflowDefinition,
+  type WorkflowKey,
+} from "@/lib/config";
+
+export type WorkflowSummary = WorkflowDefinition & {
+  available: boolean;
+  envVar: string;
+};
+
+export type WorkflowResolution =
+  | { ok: true; definition: WorkflowDefinition; workflowId: string }
+  | { ok: false; status: 400 | 403; error: string };
+
+const WORKFLOW_ENV_VARS: Record<WorkflowKey, string> = {
+  grading: "NEXT_PUBLIC_CHATKIT_WORKFLOW_ID",
+  mcp: "CHATKIT_MCP_WORKFLOW_ID",
+  tool: "CHATKIT_TOOL_WORKFLOW_ID",
+};
+
+function readWorkflowId(key: WorkflowKey): string | null {
+  const raw =
+    key === "grading" ? WORKFLOW_ID : process.env[WORKFLOW_ENV_VARS[key]];
+  const id = raw?.trim() ?? "";
+  // The example env file ships placeholder ids such as `wf_replace_me`.
+  return id && !id.startsWith("wf_replace") ? id : null;
+}
+
+function findDefinition(key: string): WorkflowDefinition | null {
+  return WORKFLOWS.find((workflow) => workflow.key === key) ?? null;
+}
+
+export function listWorkflows(): WorkflowSummary[] {
+  return WORKFLOWS.map((workflow) => ({
+    ...workflow,
+    available: readWorkflowId(workflow.key) !== null,
+    envVar: WORKFLOW_ENV_VARS[workflow.key],
+  }));
+}
+
+/**
+ * Maps what the browser asked for onto a workflow id we are willing to spend
+ * our API key on. Clients send a registry key; a raw workflow id is only
+ * accepted when it belongs to a registered workflow.
+ */
+export function resolveWorkflow(request: {
+  key?: string | null;
+  rawId?: string | null;
+}): WorkflowResolution {
+  const rawId = request.rawId?.trim();
+  if (!request.key && rawId) {
+    const match = WORKFLOWS.find(
+      (workflow) => readWorkflowId(workflow.key) === rawId
+    );
+    if (!match) {
+      return {
+        ok: false,
+        status: 403,
+        error: "Workflow is not in this deployment's registry",
+      };
+    }
+    return { ok: true, definition: match, workflowId: rawId };
+  }
+
+  const key = request.key?.trim() || DEFAULT_WORKFLOW_KEY;
+  const definition = findDefinition(key);
+  if (!definition) {
+    return { ok: false, status: 400, error: `Unknown workflow: ${key}` };
+  }
+
+  const workflowId = readWorkflowId(definition.key);
+  if (!workflowId) {
+    return {
+      ok: false,
+      status: 403,
+      error: `Workflow "${key}" is not enabled. Set ${WORKFLOW_ENV_VARS[definition.key]} on the server.`,
+    };
+  }
+  return { ok: true, definition, workflowId };
+}
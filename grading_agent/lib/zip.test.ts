@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { ExtractionError, extractText } from "@/lib/textExtraction";
+import { ZipFormatError, readZip, readZipEntry } from "@/lib/zip";
+
+const MB = 1024 * 1024;
+
+async function compress(data: Uint8Array, format: "deflate" | "deflate-raw") {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Builds a zip with the given files; `deflate` compresses them, CRCs are left at 0. */
+async function buildZip(
+  files: Record<string, Uint8Array | string>,
+  deflate = true
+): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const [path, content] of Object.entries(files)) {
+    const raw = typeof content === "string" ? encoder.encode(content) : content;
+    const data = deflate ? await compress(raw, "deflate-raw") : raw;
+    const name = encoder.encode(path);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, deflate ? 8 : 0, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(10, deflate ? 8 : 0, true);
+    entryView.setUint32(20, data.length, true);
+    entryView.setUint32(24, raw.length, true);
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    locals.push(local);
+    central.push(entry);
+    offset += local.length;
+  }
+  const directorySize = central.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, central.length, true);
+  endView.setUint16(10, central.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+  return new Blob([...locals, ...central, end] as BlobPart[]).arrayBuffer();
+}
+
+const decode = (bytes: Uint8Array | null) => (bytes ? new TextDecoder().decode(bytes) : null);
+
+describe("readZip", () => {
+  it("reads stored and deflated files, skipping folders and metadata", async () => {
+    for (const deflate of [true, false]) {
+      const archive = await buildZip(
+        { "s1/essay.md": "# Essay", "s2.txt": "Notes", "__MACOSX/._s2.txt": "x", "s1/": "" },
+        deflate
+      );
+
+      const entries = await readZip(archive);
+
+      expect(entries.map((entry) => [entry.path, decode(entry.bytes)])).toEqual([
+        ["s1/essay.md", "# Essay"],
+        ["s2.txt", "Notes"],
+      ]);
+    }
+  });
+
+  it("stops unpacking once the files pass the cap", async () => {
+    const archive = await buildZip({
+      "a.txt": new Uint8Array(600 * 1024),
+      "b.txt": new Uint8Array(600 * 1024),
+    });
+
+    await expect(readZip(archive, MB)).rejects.toThrow(
+      new ZipFormatError("The archive unpacks to more than 1 MB")
+    );
+  });
+
+  it("rejects data that is not a zip", async () => {
+    await expect(readZip(new TextEncoder().encode("hello").buffer)).rejects.toThrow(
+      ZipFormatError
+    );
+  });
+});
+
+describe("readZipEntry", () => {
+  it("unpacks only the requested file", async () => {
+    const archive = await buildZip({
+      "word/document.xml": "<w:t>Hello</w:t>",
+      "word/media/huge.bin": new Uint8Array(8 * MB),
+    });
+
+    expect(decode(await readZipEntry(archive, "word/document.xml", 1024))).toBe(
+      "<w:t>Hello</w:t>"
+    );
+    expect(await readZipEntry(archive, "word/missing.xml", 1024)).toBeNull();
+    await expect(readZipEntry(archive, "word/media/huge.bin", MB)).rejects.toThrow(
+      "word/media/huge.bin unpacks to more than 1 MB"
+    );
+  });
+});
+
+describe("extractText caps", () => {
+  it("rejects a Word file whose document unpacks past the cap", async () => {
+    const archive = await buildZip({ "word/document.xml": new Uint8Array(40 * MB) });
+
+    await expect(extractText("docx", archive)).rejects.toThrow(ExtractionError);
+  });
+
+  it("rejects a PDF whose content streams unpack past the cap", async () => {
+    const stream = await compress(new Uint8Array(40 * MB), "deflate");
+    const encoder = new TextEncoder();
+    const pdf = await new Blob([
+      encoder.encode(`%PDF-1.4\n1 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+      stream,
+      encoder.encode("\nendstream\nendobj\n%%EOF\n"),
+    ] as BlobPart[]).arrayBuffer();
+
+    await expect(extractText("pdf", pdf)).rejects.toThrow(
+      new ExtractionError("The PDF unpacks to more than 32 MB of content")
+    );
+  });
+
+  it("reads the text of a Word document", async () => {
+    const archive = await buildZip({
+      "word/document.xml": "<w:p><w:r><w:t>Tom &amp; Jerry</w:t></w:r></w:p>",
+    });
+
+    expect(await extractText("docx", archive)).toEqual({ text: "Tom & Jerry", warning: null });
+  });
+});
@@ -0,0 +1,164 @@
+import { InflateLimitError, inflate } from "@/lib/inflate";
+
+/**
+ * Just enough of the zip format to read submission archives: batch uploads in
+ * the browser and Word documents on the server. Stored and deflated entries,
+ * no encryption or zip64. Unpacking is capped, so a small archive cannot
+ * expand into gigabytes.
+ */
+
+export type ZipEntry = {
+  path: string;
+  bytes: Uint8Array;
+};
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipFormatError";
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_MARKER = 0xffffffff;
+
+/** Default cap on everything `readZip` unpacks. */
+export const MAX_UNZIPPED_BYTES = 200 * 1024 * 1024;
+
+type DirectoryEntry = {
+  path: string;
+  method: number;
+  data: Uint8Array;
+};
+
+const toMegabytes = (bytes: number) => Math.round(bytes / 1024 / 1024);
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB.
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError("Not a zip archive");
+}
+
+/** Reads the central directory: each file's name and compressed data. */
+function readDirectory(buffer: ArrayBuffer): DirectoryEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const entries: DirectoryEntry[] = [];
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipFormatError("Corrupt zip central directory");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/") || path.startsWith("__MACOSX/") || /(^|\/)\./.test(path)) {
+      continue;
+    }
+    if (compressedSize === ZIP64_MARKER || localOffset === ZIP64_MARKER) {
+      throw new ZipFormatError("Zip64 archives are not supported");
+    }
+    if (flags & 0x1) {
+      throw new ZipFormatError(`${path} is encrypted`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipFormatError(`Corrupt zip entry ${path}`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    entries.push({
+      path,
+      method,
+      data: bytes.subarray(dataStart, dataStart + compressedSize),
+    });
+  }
+  return entries;
+}
+
+/** Throws `InflateLimitError` once the entry passes `maxBytes`. */
+async function unpack(entry: DirectoryEntry, maxBytes: number): Promise<Uint8Array> {
+  switch (entry.method) {
+    case 0:
+      if (entry.data.length > maxBytes) {
+        throw new InflateLimitError(maxBytes);
+      }
+      return entry.data;
+    case 8:
+      return inflate(entry.data, "deflate-raw", maxBytes);
+    default:
+      throw new ZipFormatError(
+        `${entry.path} uses unsupported compression (${entry.method})`
+      );
+  }
+}
+
+/**
+ * Lists the files in an archive, skipping folders and macOS metadata. Fails
+ * once the files together unpack to more than `maxBytes`.
+ */
+export async function readZip(
+  buffer: ArrayBuffer,
+  maxBytes = MAX_UNZIPPED_BYTES
+): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [];
+  let remaining = maxBytes;
+  for (const entry of readDirectory(buffer)) {
+    try {
+      const bytes = await unpack(entry, remaining);
+      remaining -= bytes.length;
+      entries.push({ path: entry.path, bytes });
+    } catch (error) {
+      if (error instanceof InflateLimitError) {
+        throw new ZipFormatError(
+          `The archive unpacks to more than ${toMegabytes(maxBytes)} MB`
+        );
+      }
+      throw error;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Unpacks only the file at `path`; `null` when the archive has no such file.
+ * Fails once it unpacks to more than `maxBytes`.
+ */
+export async function readZipEntry(
+  buffer: ArrayBuffer,
+  path: string,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  const entry = readDirectory(buffer).find((candidate) => candidate.path === path);
+  if (!entry) {
+    return null;
+  }
+  try {
+    return await unpack(entry, maxBytes);
+  } catch (error) {
+    if (error instanceof InflateLimitError) {
+      throw new ZipFormatError(`${path} unpacks to more than ${toMegabytes(maxBytes)} MB`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,281 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the ChatKit sessions API, for running the app without an
+ * OpenAI key and for exercising its error paths. Point the app at it with
+ * `CHATKIT_API_BASE=http://127.0.0.1:8787`.
+ *
+ *   node scripts/chatkit-mock.mjs [--port 8787] [--scenario success]
+ *
+ * Every `POST /v1/chatkit/sessions` plays the next queued scenario, or the
+ * default one when the queue is empty. Control endpoints:
+ *
+ *   POST /__mock/scenarios  {"scenarios": ["rate-limited", "success"]}  queue
+ *   POST /__mock/default    {"scenario": "server-error"}                default
+ *   GET  /__mock/requests   session requests received so far
+ *   POST /__mock/reset      clear the queue and the request log
+ *
+ * `GET /v1/chatkit/threads/:id` and `/items` serve a short sample grading
+ * conversation for any id, owned by the user of the latest session.
+ */
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const SCENARIOS = {
+  success: "200 with a client secret valid for `CHATKIT_MOCK_TTL_SECONDS`",
+  "short-lived": "200 with a secret that expires in 90 seconds",
+  expired: "200 with a secret that has already expired",
+  unauthorized: "401 invalid API key",
+  "rate-limited": "429 with Retry-After",
+  "server-error": "500 internal error",
+  unavailable: "503 service unavailable",
+  malformed: "200 with a body that is not JSON",
+  slow: "success after `CHATKIT_MOCK_DELAY_MS`",
+};
+
+function readArg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(readArg("port", process.env.CHATKIT_MOCK_PORT ?? 8787));
+const ttlSeconds = Number(process.env.CHATKIT_MOCK_TTL_SECONDS ?? 600);
+const slowDelayMs = Number(process.env.CHATKIT_MOCK_DELAY_MS ?? 15_000);
+
+let defaultScenario = readArg(
+  "scenario",
+  process.env.CHATKIT_MOCK_SCENARIO ?? "success"
+);
+let queue = [];
+let requests = [];
+let lastUser = "mock-user";
+
+if (!(defaultScenario in SCENARIOS)) {
+  console.error(`Unknown scenario "${defaultScenario}". Known scenarios:`);
+  for (const [name, description] of Object.entries(SCENARIOS)) {
+    console.error(`  ${name.padEnd(14)} ${description}`);
+  }
+  process.exit(1);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function sendJson(res, status, payload, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function sendError(res, status, message, type, headers) {
+  sendJson(res, status, { error: { message, type } }, headers);
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function sessionPayload(body, expiresInSeconds) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: `cksess_${randomUUID().replace(/-/g, "")}`,
+    object: "chatkit.session",
+    client_secret: `ek_mock_${randomUUID().replace(/-/g, "")}`,
+    expires_at: now + expiresInSeconds,
+    workflow: body.workflow,
+    user: body.user,
+    chatkit_configuration: body.chatkit_configuration ?? null,
+  };
+}
+
+async function playScenario(scenario, body, res) {
+  switch (scenario) {
+    case "success":
+      return sendJson(res, 200, sessionPayload(body, ttlSeconds));
+    case "short-lived":
+      return sendJson(res, 200, sessionPayload(body, 90));
+    case "expired":
+      return sendJson(res, 200, sessionPayload(body, -60));
+    case "unauthorized":
+      return sendError(res, 401, "Incorrect API key provided.", "invalid_request_error");
+    case "rate-limited":
+      return sendError(res, 429, "Rate limit reached for sessions.", "rate_limit_error", {
+        "Retry-After": "2",
+      });
+    case "server-error":
+      return sendError(res, 500, "The server had an error processing the request.", "server_error");
+    case "unavailable":
+      return sendError(res, 503, "The service is temporarily unavailable.", "server_error");
+    case "malformed":
+      res.writeHead(200, { "Content-Type": "application/json" });
+      return res.end("{ this is not json");
+    case "slow":
+      await sleep(slowDelayMs);
+      if (!res.destroyed) {
+        sendJson(res, 200, sessionPayload(body, ttlSeconds));
+      }
+      return;
+  }
+}
+
+async function handleSessions(req, res) {
+  const body = await readBody(req);
+  const scenario = queue.shift() ?? defaultScenario;
+  requests.push({
+    at: new Date().toISOString(),
+    scenario,
+    authorization: Boolean(req.headers.authorization),
+    beta: req.headers["openai-beta"] ?? null,
+    clientRequestId: req.headers["x-client-request-id"] ?? null,
+    body,
+  });
+  console.info(`[chatkit-mock] POST /v1/chatkit/sessions -> ${scenario}`);
+
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    return sendError(res, 401, "Missing bearer token.", "invalid_request_error");
+  }
+  if (body === undefined || !body?.workflow?.id || !body?.user) {
+    return sendError(
+      res,
+      400,
+      "Expected a JSON body with workflow.id and user.",
+      "invalid_request_error"
+    );
+  }
+  lastUser = body.user;
+  return playScenario(scenario, body, res);
+}
+
+function sampleThreadItems(threadId, createdAt) {
+  const item = (offset, type, fields) => ({
+    id: `cthi_${offset}`,
+    object: "chatkit.thread_item",
+    thread_id: threadId,
+    created_at: createdAt + offset,
+    type,
+    ...fields,
+  });
+  return [
+    item(1, "chatkit.user_message", {
+      content: [{ type: "input_text", text: "Please grade my essay on photosynthesis." }],
+      attachments: [
+        { id: "cfile_mock", type: "file", name: "essay.md", mime_type: "text/markdown" },
+      ],
+      inference_options: { model: "crisp", tool_choice: null },
+    }),
+    item(2, "chatkit.client_tool_call", {
+      call_id: "call_mock",
+      name: "record_grade",
+      status: "completed",
+      arguments: JSON.stringify({
+        student: lastUser,
+        assignment: "Essay 1",
+        total: 8,
+        maxTotal: 10,
+      }),
+      output: JSON.stringify({ success: true, gradeId: "grade_mock" }),
+    }),
+    item(3, "chatkit.assistant_message", {
+      content: [
+        {
+          type: "output_text",
+          text: "You scored 8/10. The explanation of the light reactions is clear.",
+          annotations: [],
+        },
+      ],
+    }),
+    item(4, "chatkit.end_of_turn", {}),
+  ];
+}
+
+function handleThreads(req, res, path) {
+  const match = /^\/v1\/chatkit\/threads\/([^/]+)(\/items)?$/.exec(path);
+  if (!match) {
+    return sendError(res, 404, "Not found.", "invalid_request_error");
+  }
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    return sendError(res, 401, "Missing bearer token.", "invalid_request_error");
+  }
+  const threadId = decodeURIComponent(match[1]);
+  const createdAt = Math.floor(Date.now() / 1000) - 600;
+  console.info(`[chatkit-mock] GET ${path}`);
+  if (!match[2]) {
+    return sendJson(res, 200, {
+      id: threadId,
+      object: "chatkit.thread",
+      created_at: createdAt,
+      title: "Essay 1 grading",
+      status: { type: "active" },
+      user: lastUser,
+    });
+  }
+  const data = sampleThreadItems(threadId, createdAt);
+  return sendJson(res, 200, {
+    object: "list",
+    data,
+    first_id: data[0].id,
+    last_id: data[data.length - 1].id,
+    has_more: false,
+  });
+}
+
+async function handleControl(req, res, path) {
+  if (req.method === "GET" && path === "/__mock/requests") {
+    return sendJson(res, 200, { requests, queue, default: defaultScenario });
+  }
+  if (req.method === "POST" && path === "/__mock/reset") {
+    queue = [];
+    requests = [];
+    return sendJson(res, 200, { ok: true });
+  }
+  const body = await readBody(req);
+  if (req.method === "POST" && path === "/__mock/scenarios") {
+    const scenarios = Array.isArray(body?.scenarios) ? body.scenarios : [];
+    const unknown = scenarios.filter((name) => !(name in SCENARIOS));
+    if (unknown.length > 0) {
+      return sendJson(res, 400, { error: `Unknown scenarios: ${unknown.join(", ")}` });
+    }
+    queue.push(...scenarios);
+    return sendJson(res, 200, { queue });
+  }
+  if (req.method === "POST" && path === "/__mock/default") {
+    if (!(body?.scenario in SCENARIOS)) {
+      return sendJson(res, 400, { error: `Unknown scenario: ${body?.scenario}` });
+    }
+    defaultScenario = body.scenario;
+    return sendJson(res, 200, { default: defaultScenario });
+  }
+  return sendJson(res, 404, { error: "Not found", scenarios: SCENARIOS });
+}
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  const handler =
+    req.method === "POST" && path === "/v1/chatkit/sessions"
+      ? handleSessions(req, res)
+      : req.method === "GET" && path.startsWith("/v1/chatkit/threads/")
+        ? Promise.resolve(handleThreads(req, res, path))
+        : handleControl(req, res, path);
+  handler.catch((error) => {
+    console.error("[chatkit-mock] handler failed", error);
+    if (!res.headersSent) {
+      sendJson(res, 500, { error: "Mock server error" });
+    }
+  });
+});
+
+server.listen(port, "127.0.0.1", () => {
+  console.info(
+    `[chatkit-mock] listening on http://127.0.0.1:${port} (default scenario: ${defaultScenario})`
+  );
+});
@@ -0,0 +1,101 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { createServer } from "node:net";
+import path from "node:path";
+
+/**
+ * Runs `scripts/chatkit-mock.mjs` on a free port for a test file, so the
+ * app's upstream calls hit the same simulator used in development.
+ */
+
+export type MockRequest = {
+  scenario: string;
+  clientRequestId: string | null;
+  body: {
+    workflow?: { id?: string; state_variables?: Record<string, unknown> };
+    user?: string;
+  } | null;
+};
+
+export type ChatKitMock = {
+  baseUrl: string;
+  /** Queues scenarios for the next session requests, in order. */
+  queue: (...scenarios: string[]) => Promise<void>;
+  requests: () => Promise<MockRequest[]>;
+  reset: () => Promise<void>;
+  stop: () => Promise<void>;
+};
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      server.close(() =>
+        typeof address === "object" && address
+          ? resolve(address.port)
+          : reject(new Error("No port assigned"))
+      );
+    });
+  });
+}
+
+function waitForListening(child: ChildProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("chatkit-mock did not start")), 10_000);
+    child.stdout?.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("listening on")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`chatkit-mock exited with code ${code}`));
+    });
+  });
+}
+
+export async function startChatKitMock(
+  env: Record<string, string> = {}
+): Promise<ChatKitMock> {
+  const port = await findFreePort();
+  const child = spawn(
+    process.execPath,
+    [path.join(__dirname, "..", "scripts", "chatkit-mock.mjs"), "--port", String(port)],
+    { env: { ...process.env, ...env }, stdio: ["ignore", "pipe", "pipe"] }
+  );
+  await waitForListening(child);
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  const control = async (pathname: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${pathname}`, {
+      method: body === undefined ? "GET" : "POST",
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`chatkit-mock ${pathname} answered ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    baseUrl,
+    queue: async (...scenarios) => {
+      await control("/__mock/scenarios", { scenarios });
+    },
+    requests: async () => ((await control("/__mock/requests")) as { requests: MockRequest[] }).requests,
+    reset: async () => {
+      await control("/__mock/reset", {});
+    },
+    stop: () =>
+      new Promise((resolve) => {
+        if (child.exitCode !== null) {
+          resolve();
+          return;
+        }
+        child.once("exit", () => resolve());
+        child.kill();
+      }),
+  };
+}
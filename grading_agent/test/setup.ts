@@ -0,0 +1,10 @@
+import os from "node:os";
+import path from "node:path";
+
+// Test files run in parallel workers; each gets its own store so their
+// writes never race on the same JSON file. The store reads DATA_DIR when it
+// is first imported, which is after this file runs.
+process.env.DATA_DIR = path.join(
+  os.tmpdir(),
+  `grading-agent-test-${process.pid}-${process.env.VITEST_WORKER_ID ?? "0"}`
+);
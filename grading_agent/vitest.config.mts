@@ -0,0 +1,20 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig keeps JSX for Next to compile; tests need the automatic runtime.
+  esbuild: { jsx: "automatic" },
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    include: ["**/*.test.{ts,tsx}"],
+    exclude: ["node_modules/**", ".next/**"],
+    setupFiles: ["test/setup.ts"],
+    env: {
+      // Read once at import time, so they cannot be set per test.
+      NEXT_PUBLIC_CHATKIT_WORKFLOW_ID: "wf_test",
+      LOG_LEVEL: "error",
+    },
+  },
+});